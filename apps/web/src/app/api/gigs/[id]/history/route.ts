@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server';
+import { withRateLimit } from '../../../../../lib/rate-limiter';
+import { getWebDatabaseService, isDatabaseEnabled } from '../../../../../lib/database';
+import { ErrorResponse, GigHistoryResponse } from '../../../../../types/api';
+
+async function handleGigHistoryRequest(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  try {
+    const { id } = params;
+
+    // Validate that ID is provided and not empty
+    if (!id || typeof id !== 'string' || id.trim() === '') {
+      const errorResponse: ErrorResponse = {
+        error: 'Invalid gig ID',
+        code: 'INVALID_GIG_ID'
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Change history is only recorded in the database; file-based catalogs have none
+    const response: GigHistoryResponse = {
+      data: isDatabaseEnabled()
+        ? await getWebDatabaseService().getGigHistory(id.trim())
+        : []
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'public, max-age=600' // History only grows on ingestion runs
+      }
+    });
+
+  } catch (error) {
+    console.error('Error in /api/gigs/[id]/history:', error);
+
+    const errorResponse: ErrorResponse = {
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+// Apply rate limiting to the handler
+export const GET = withRateLimit(handleGigHistoryRequest);
@@ -1,217 +1,206 @@
 /**
  * Scraper Health Check API
- * 
+ *
  * Provides endpoints for monitoring scraper health status.
  * Designed for dashboard UI consumption.
+ *
+ * Health comes from the records the ingestor keeps in the database after every run of a
+ * source, so every configured source is reported, including ones that have not run yet.
+ * Probes are queued for the scheduler daemon to run rather than run here. The daemon's
+ * control API, when it answers, adds each source's live job status.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { assessSourceHealth, type SourceHealth, type SourceHealthStatus } from '@gigateer/contracts';
+import { getWebDatabaseService, isDatabaseEnabled, type ProbeRequest } from '../../../../lib/database';
 
-const execAsync = promisify(exec);
+const CONTROL_URL = process.env.INGESTOR_CONTROL_URL || 'http://127.0.0.1:4100';
+const CONTROL_TIMEOUT = 2000; // 2 seconds; live job status is optional
+
+// The daemon writes a new token here on start unless INGESTOR_CONTROL_TOKEN sets one
+const controlTokenPath = path.join(process.cwd(), '../../data/control-token');
 
 interface ScraperHealthResult {
   scraper: string;
-  status: 'healthy' | 'degraded' | 'failed';
+  status: SourceHealthStatus;
+  reasons: string[];
   recordsFound: number;
+  countTrend: SourceHealth['countTrend'];
+  freshnessSlaHours: number;
+  consecutiveFailures: number;
+  lastRunAt?: string;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
   errorMessage?: string;
-  responseTime: number;
-  lastTested: string;
-  details?: {
-    sampleTitles?: string[];
-    venueInfo?: string;
-    dateRange?: string;
-  };
+  probe?: ProbeRequest;
+  job?: DaemonJob;
 }
 
 interface HealthCheckReport {
   totalScrapers: number;
   healthyScrapers: number;
   degradedScrapers: number;
-  failedScrapers: number;
+  staleScrapers: number;
+  failingScrapers: number;
+  neverRunScrapers: number;
   overallStatus: 'healthy' | 'degraded' | 'critical';
-  testRunTime: number;
+  daemonReachable: boolean;
   results: ScraperHealthResult[];
   generatedAt: string;
 }
 
-const SCRAPERS_TO_TEST = [
-  'bristol-louisiana',
-  'bristol-thekla', 
-  'bristol-exchange',
-  'bristol-fleece',
-  'bristol-the-lanes',
-  'bristol-the-croft',
-  'bristol-strange-brew'
-];
-
-const HEALTH_THRESHOLDS = {
-  HEALTHY_MIN_RECORDS: 2,
-  DEGRADED_MIN_RECORDS: 1,
-  MAX_RESPONSE_TIME: 60000, // 60 seconds
-  TIMEOUT: 90000 // 90 seconds
-};
-
 /**
- * Run health check for a single scraper
+ * A scheduled job as the daemon reports it, trimmed to what the report shows
  */
-async function runScraperHealthCheck(scraperName: string): Promise<ScraperHealthResult> {
-  const testStart = Date.now();
-  const result: ScraperHealthResult = {
-    scraper: scraperName,
-    status: 'failed',
-    recordsFound: 0,
-    responseTime: 0,
-    lastTested: new Date().toISOString()
+interface DaemonJob {
+  status: 'scheduled' | 'running' | 'stopped' | 'error' | 'paused';
+  nextRun?: string;
+  progress?: {
+    phase: string;
+    startedAt: string;
+    attempt: number;
+    rawCount?: number;
+    normalizedCount?: number;
+    retryAt?: string;
   };
+}
 
+/**
+ * Live job status from the daemon's control API, or null when it does not answer
+ */
+async function queryDaemonJobs(): Promise<Map<string, DaemonJob> | null> {
   try {
-    // Change to ingestor directory for CLI execution
-    const ingestorDir = path.resolve(process.cwd(), '../../services/ingestor');
-    
-    const { stdout } = await execAsync(
-      `timeout ${HEALTH_THRESHOLDS.TIMEOUT / 1000} npx tsx src/cli.ts ingest:source ${scraperName}`,
-      { 
-        timeout: HEALTH_THRESHOLDS.TIMEOUT,
-        cwd: ingestorDir
-      }
-    );
-
-    result.responseTime = Date.now() - testStart;
-
-    if (stdout.includes('Source ingestion completed') && stdout.includes('success: true')) {
-      const normalizedMatch = stdout.match(/normalized: (\d+)/);
-      const normalizedCount = normalizedMatch ? parseInt(normalizedMatch[1]) : 0;
-      
-      result.recordsFound = normalizedCount;
-
-      if (normalizedCount >= HEALTH_THRESHOLDS.HEALTHY_MIN_RECORDS) {
-        result.status = 'healthy';
-      } else if (normalizedCount >= HEALTH_THRESHOLDS.DEGRADED_MIN_RECORDS) {
-        result.status = 'degraded';
-      } else {
-        result.status = 'failed';
-        result.errorMessage = 'No records extracted';
-      }
-
-      // Try to get sample data for additional details
-      try {
-        const sourcePath = path.resolve(ingestorDir, `data/sources/${scraperName}.normalized.json`);
-        const sourceData = JSON.parse(await fs.readFile(sourcePath, 'utf-8'));
-        
-        if (sourceData.gigs && sourceData.gigs.length > 0) {
-          const sampleGigs = sourceData.gigs.slice(0, 3);
-          result.details = {
-            sampleTitles: sampleGigs.map((g: any) => g.title),
-            venueInfo: sampleGigs[0]?.venue?.name,
-            dateRange: `${sampleGigs[0]?.dateStart} to ${sampleGigs[sampleGigs.length - 1]?.dateStart}`
-          };
-        }
-      } catch (detailError) {
-        // Details are optional
-      }
-
-    } else {
-      result.errorMessage = 'Scraper did not report success';
-    }
+    const token = process.env.INGESTOR_CONTROL_TOKEN || (await fs.readFile(controlTokenPath, 'utf-8')).trim();
+    const response = await fetch(`${CONTROL_URL}/jobs`, {
+      cache: 'no-store',
+      headers: { 'x-control-token': token },
+      signal: AbortSignal.timeout(CONTROL_TIMEOUT)
+    });
+    if (!response.ok) return null;
 
-  } catch (error: any) {
-    result.responseTime = Date.now() - testStart;
-    
-    // Check for specific error types
-    if (error.message?.includes('timeout')) {
-      result.errorMessage = `Timeout after ${HEALTH_THRESHOLDS.TIMEOUT / 1000}s`;
-    } else if (error.stdout?.includes('ECONNREFUSED') || error.stdout?.includes('Network Error')) {
-      result.errorMessage = 'Network/Connection error';
-    } else if (error.stdout?.includes('Failed to connect to MongoDB')) {
-      result.errorMessage = 'Database connection error (expected in test environment)';
-      // Database errors are less critical - treat as degraded if we got some data
-      const rawMatch = error.stdout?.match(/raw: (\d+)/);
-      if (rawMatch && parseInt(rawMatch[1]) > 0) {
-        result.status = 'degraded';
-        result.recordsFound = parseInt(rawMatch[1]);
-      }
-    } else {
-      result.errorMessage = error.message || 'Unknown error';
-    }
+    const jobs: Array<DaemonJob & { source: string }> = await response.json();
+    return new Map(jobs.map(({ source, status, nextRun, progress }) => [source, { status, nextRun, progress }]));
+  } catch {
+    return null;
   }
+}
+
+function toHealthResult(
+  health: SourceHealth,
+  probe: ProbeRequest | undefined,
+  job: DaemonJob | undefined,
+  now: Date
+): ScraperHealthResult {
+  const { status, reasons } = assessSourceHealth(health, now);
 
-  return result;
+  return {
+    scraper: health.source,
+    status,
+    reasons,
+    recordsFound: health.recentCounts[0]?.count ?? 0,
+    countTrend: health.countTrend,
+    freshnessSlaHours: health.freshnessSlaHours,
+    consecutiveFailures: health.consecutiveFailures,
+    lastRunAt: health.lastRunAt,
+    lastSuccessAt: health.lastSuccessAt,
+    lastFailureAt: health.lastFailureAt,
+    errorMessage: health.consecutiveFailures > 0 ? health.lastError : undefined,
+    probe,
+    job
+  };
 }
 
 /**
- * Generate complete health check report
+ * Critical once more than two sources are failing or stale, degraded on any of those
+ * or on more than one degraded source
  */
-async function generateHealthReport(): Promise<HealthCheckReport> {
-  const results: ScraperHealthResult[] = [];
-  const startTime = Date.now();
+function overallStatus(results: ScraperHealthResult[]): HealthCheckReport['overallStatus'] {
+  const broken = results.filter(r => r.status === 'failing' || r.status === 'stale').length;
+  const degraded = results.filter(r => r.status === 'degraded').length;
 
-  // Test all scrapers in parallel for faster execution
-  const healthPromises = SCRAPERS_TO_TEST.map(scraper => runScraperHealthCheck(scraper));
-  const healthResults = await Promise.all(healthPromises);
-  results.push(...healthResults);
+  if (broken > 2) return 'critical';
+  if (broken > 0 || degraded > 1) return 'degraded';
+  return 'healthy';
+}
 
-  const healthy = results.filter(r => r.status === 'healthy').length;
-  const degraded = results.filter(r => r.status === 'degraded').length;
-  const failed = results.filter(r => r.status === 'failed').length;
-  
-  let overallStatus: 'healthy' | 'degraded' | 'critical';
-  if (failed === 0 && degraded <= 1) {
-    overallStatus = 'healthy';
-  } else if (failed <= 2) {
-    overallStatus = 'degraded';
-  } else {
-    overallStatus = 'critical';
-  }
+function databaseRequired() {
+  return NextResponse.json(
+    { error: 'Scraper health needs the database; set INGESTOR_USE_DATABASE=true' },
+    { status: 503 }
+  );
+}
 
-  return {
-    totalScrapers: results.length,
-    healthyScrapers: healthy,
-    degradedScrapers: degraded,
-    failedScrapers: failed,
-    overallStatus,
-    testRunTime: Date.now() - startTime,
-    results,
-    generatedAt: new Date().toISOString()
-  };
+function errorResponse(error: unknown, message: string) {
+  console.error('Health check API error:', error);
+  return NextResponse.json(
+    { error: message, details: error instanceof Error ? error.message : 'Unknown error' },
+    { status: 500 }
+  );
 }
 
 /**
  * GET /api/scrapers/health - Get complete health report
  */
 export async function GET(request: NextRequest) {
+  if (!isDatabaseEnabled()) {
+    return databaseRequired();
+  }
+
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const scraper = searchParams.get('scraper');
-    
+    const scraper = request.nextUrl.searchParams.get('scraper');
+    const db = getWebDatabaseService();
+    const [records, probes, jobs] = await Promise.all([
+      db.getSourceHealth(),
+      db.getLatestProbes(),
+      queryDaemonJobs()
+    ]);
+    const now = new Date();
+    const results = records.map(health => toHealthResult(health, probes[health.source], jobs?.get(health.source), now));
+
     if (scraper) {
-      // Test single scraper
-      const result = await runScraperHealthCheck(scraper);
+      const result = results.find(r => r.scraper === scraper);
+      if (!result) {
+        return NextResponse.json({ error: `Unknown scraper: ${scraper}` }, { status: 404 });
+      }
       return NextResponse.json(result);
-    } else {
-      // Generate full health report
-      const report = await generateHealthReport();
-      return NextResponse.json(report);
     }
+
+    const count = (status: SourceHealthStatus) => results.filter(r => r.status === status).length;
+    const report: HealthCheckReport = {
+      totalScrapers: results.length,
+      healthyScrapers: count('healthy'),
+      degradedScrapers: count('degraded'),
+      staleScrapers: count('stale'),
+      failingScrapers: count('failing'),
+      neverRunScrapers: count('never-run'),
+      overallStatus: overallStatus(results),
+      daemonReachable: jobs !== null,
+      results,
+      generatedAt: now.toISOString()
+    };
+
+    return NextResponse.json(report);
   } catch (error) {
-    console.error('Health check API error:', error);
-    return NextResponse.json(
-      { error: 'Failed to run health check', details: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Failed to get scraper health');
   }
 }
 
 /**
- * POST /api/scrapers/health - Run health check for specific scrapers
+ * POST /api/scrapers/health - Queue probe runs of specific scrapers
+ *
+ * The scheduler daemon picks queued probes up within a few seconds; their status shows
+ * up under `probe` in GET results. Returns 202 without waiting for them.
  */
 export async function POST(request: NextRequest) {
+  if (!isDatabaseEnabled()) {
+    return databaseRequired();
+  }
+
   try {
     const { scrapers } = await request.json();
-    
+
     if (!Array.isArray(scrapers)) {
       return NextResponse.json(
         { error: 'Invalid request: scrapers must be an array' },
@@ -219,30 +208,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate scraper names
-    const invalidScrapers = scrapers.filter(s => !SCRAPERS_TO_TEST.includes(s));
-    if (invalidScrapers.length > 0) {
+    const db = getWebDatabaseService();
+    const configured = new Set((await db.getSourceHealth()).map(health => health.source));
+    const unknown = scrapers.filter((scraper: string) => !configured.has(scraper));
+    if (unknown.length > 0) {
       return NextResponse.json(
-        { error: `Invalid scrapers: ${invalidScrapers.join(', ')}` },
+        { error: `Unknown scrapers: ${unknown.join(', ')}` },
         { status: 400 }
       );
     }
 
-    // Run health checks for specified scrapers
-    const healthPromises = scrapers.map((scraper: string) => runScraperHealthCheck(scraper));
-    const results = await Promise.all(healthPromises);
+    const results = await Promise.all(scrapers.map(async (scraper: string) => {
+      const { queued, probe } = await db.queueProbe(scraper);
+      return { scraper, queued, probe };
+    }));
 
     return NextResponse.json({
       scrapers: scrapers.length,
       results,
-      testedAt: new Date().toISOString()
-    });
+      queuedAt: new Date().toISOString()
+    }, { status: 202 });
 
   } catch (error) {
-    console.error('Health check POST API error:', error);
-    return NextResponse.json(
-      { error: 'Failed to run health check', details: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Failed to queue scraper probes');
   }
-}
\ No newline at end of file
+}
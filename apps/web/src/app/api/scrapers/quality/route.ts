@@ -0,0 +1,53 @@
+/**
+ * Scraper Data Quality API
+ *
+ * Serves the ingestor's per-source quality report (field fill rates, dropped items,
+ * validation failures and suspicious values) for the dashboard UI.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// The ingestor updates this file after every source run
+const reportPath = path.join(process.cwd(), '../../data/quality-report.json');
+
+/**
+ * GET /api/scrapers/quality - Get the quality report
+ *
+ * Serves the report as the ingestor last wrote it; pass ?source=<name> for one source
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const content = await fs.readFile(reportPath, 'utf-8').catch(error => {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    });
+
+    if (content === null) {
+      return NextResponse.json(
+        { error: 'No quality report yet; it is written after the ingestor next runs a source' },
+        { status: 404 }
+      );
+    }
+
+    const report = JSON.parse(content);
+    const source = request.nextUrl.searchParams.get('source');
+
+    if (source) {
+      const sourceReport = report.sources.find((entry: { source: string }) => entry.source === source);
+      if (!sourceReport) {
+        return NextResponse.json({ error: `No quality report for source: ${source}` }, { status: 404 });
+      }
+      return NextResponse.json({ generatedAt: report.generatedAt, ...sourceReport });
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Quality report API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read quality report', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@
 import React from 'react';
 import { useRouter } from 'next/navigation';
 import { useScrollRestoration } from '../../hooks/useScrollRestoration';
+import { useGigHistory } from '../../hooks/useGigsApi';
 import { Gig } from '@gigateer/contracts';
 import { 
   MapPinIcon, 
@@ -62,6 +63,13 @@ export function GigDetail({ gig }: GigDetailProps) {
   const formattedTime = format(gigDate, 'h:mm a');
   const formattedEndTime = gigEndDate ? format(gigEndDate, 'h:mm a') : null;
 
+  // History is newest first, so this is the date it was most recently moved from
+  const history = useGigHistory(gig.id);
+  const dateChange = history
+    .flatMap(entry => entry.changes)
+    .find(change => change.field === 'dateStart' && typeof change.previous === 'string');
+  const rescheduledFrom = dateChange ? format(new Date(dateChange.previous as string), 'EEEE, MMMM d, yyyy') : null;
+
 
   const getStatusInfo = () => {
     if (gig.status === 'cancelled') {
@@ -75,6 +83,17 @@ export function GigDetail({ gig }: GigDetailProps) {
       };
     }
     
+    if (gig.status === 'removed') {
+      return {
+        badge: (
+          <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-800">
+            No Longer Listed
+          </span>
+        ),
+        className: 'opacity-75'
+      };
+    }
+    
     if (gig.status === 'postponed') {
       return {
         badge: (
@@ -142,6 +161,12 @@ export function GigDetail({ gig }: GigDetailProps) {
                     <span className="font-medium">{formattedDate}</span>
                   </div>
                   
+                  {rescheduledFrom && (
+                    <div className="text-sm text-yellow-700 mb-2 ml-8">
+                      Rescheduled from {rescheduledFrom}
+                    </div>
+                  )}
+                  
                   <div className="flex items-center text-gray-700 mb-2">
                     <ClockIcon className="h-5 w-5 mr-3 flex-shrink-0 text-[#A855F7]" />
                     <span>
@@ -286,6 +311,7 @@ export function GigDetail({ gig }: GigDetailProps) {
                   <div className="text-sm text-gray-500 text-center py-2">
                     {gig.status === 'cancelled' ? 'Event has been cancelled' :
                      gig.status === 'postponed' ? 'Event has been postponed' :
+                     gig.status === 'removed' ? 'This event is no longer listed by the venue and may have been cancelled' :
                      'This event has already passed'}
                   </div>
                 )}
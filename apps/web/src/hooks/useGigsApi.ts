@@ -1,8 +1,8 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { GigsResponse, GigDetailResponse, ErrorResponse } from '../types/api';
-import { Gig } from '@gigateer/contracts';
+import { GigsResponse, GigDetailResponse, GigHistoryResponse, ErrorResponse } from '../types/api';
+import { Gig, GigHistoryEntry } from '@gigateer/contracts';
 import { APP_CONFIG } from '../config/app.config';
 
 interface UseGigsApiState {
@@ -222,6 +222,30 @@ export function useGigDetail(id: string) {
   };
 }
 
+// Change history is supplementary, so failures leave it empty rather than erroring the page
+export function useGigHistory(id: string) {
+  const [history, setHistory] = useState<GigHistoryEntry[]>([]);
+
+  useEffect(() => {
+    if (!id) return;
+
+    let cancelled = false;
+
+    fetch(`/api/gigs/${encodeURIComponent(id)}/history`)
+      .then(response => (response.ok ? response.json() : { data: [] }))
+      .then((result: GigHistoryResponse) => {
+        if (!cancelled) setHistory(result.data);
+      })
+      .catch(error => console.error('Error fetching gig history:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  return history;
+}
+
 // Hook for managing sort options
 export function useGigSort() {
   const [sortBy, setSortBy] = useState<'date' | 'name' | 'venue'>('date');
@@ -183,7 +183,8 @@ export function filterGigs(
     showPastEvents?: boolean;
   }
 ): Gig[] {
-  let filtered = [...gigs];
+  // Gigs the source stopped listing stay reachable by id but are not listed
+  let filtered = gigs.filter(gig => gig.status !== 'removed');
   
   // Filter out past events by default (only show today's and future gigs)
   if (!filters.showPastEvents) {
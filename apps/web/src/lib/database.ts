@@ -1,5 +1,5 @@
-import { MongoClient, Db, Collection, Filter, Document } from 'mongodb';
-import { Gig } from '@gigateer/contracts';
+import { MongoClient, Db, Collection, Filter, Document, ObjectId } from 'mongodb';
+import { CanonicalEvent, EventSourceLink, Gig, GigFieldChange, GigHistoryEntry, SourceHealth } from '@gigateer/contracts';
 
 // Database document types (same as ingestor service)
 export interface GigDocument extends Omit<Gig, 'id' | 'dateStart' | 'dateEnd' | 'updatedAt' | 'firstSeenAt' | 'lastSeenAt'> {
@@ -26,6 +26,24 @@ export interface GigDocument extends Omit<Gig, 'id' | 'dateStart' | 'dateEnd' |
   };
 }
 
+/**
+ * A show merged from the gigs of every source listing it; the web app lists these
+ */
+export interface EventDocument extends Omit<GigDocument, 'gigId' | '_meta'> {
+  eventId: string;
+  sources: Array<Omit<EventSourceLink, 'linkedAt'> & { linkedAt: Date }>;
+}
+
+export interface GigHistoryDocument {
+  _id?: string;
+  gigId: string;
+  previousGigId?: string;
+  source: string;
+  changedAt: Date;
+  changes: GigFieldChange[];
+  batchId?: string;
+}
+
 export interface PerformanceDocument {
   _id?: string;
   source: string;
@@ -43,12 +61,49 @@ export interface PerformanceDocument {
   };
 }
 
+export interface SourceHealthDocument extends Omit<SourceHealth, 'lastRunAt' | 'lastSuccessAt' | 'lastFailureAt' | 'recentCounts' | 'updatedAt'> {
+  _id?: string;
+  lastRunAt?: Date;
+  lastSuccessAt?: Date;
+  lastFailureAt?: Date;
+  recentCounts: Array<{ at: Date; count: number }>;
+  updatedAt: Date;
+}
+
+export interface ProbeRequestDocument {
+  _id?: ObjectId;
+  source: string;
+  requestedAt: Date;
+  status: 'queued' | 'running' | 'completed' | 'rejected';
+  startedAt?: Date;
+  finishedAt?: Date;
+  success?: boolean;
+  reason?: string;
+}
+
+/**
+ * A run of a source requested from the web app, waiting for or picked up by the scheduler daemon
+ */
+export interface ProbeRequest {
+  source: string;
+  status: ProbeRequestDocument['status'];
+  requestedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  success?: boolean;
+  reason?: string;
+}
+
 // Collection names (same as ingestor service)
 export const COLLECTIONS = {
   GIGS: 'gigs',
+  EVENTS: 'events',
+  GIG_HISTORY: 'gig_history',
   PERFORMANCE_METRICS: 'performance_metrics',
   SCRAPER_RUNS: 'scraper_runs',
-  ERROR_LOGS: 'error_logs'
+  ERROR_LOGS: 'error_logs',
+  SOURCE_HEALTH: 'source_health',
+  PROBE_REQUESTS: 'probe_requests'
 } as const;
 
 // Database configuration
@@ -141,21 +196,70 @@ export class WebDatabaseService {
   }
 
   /**
-   * Get all gigs with optional sorting
+   * Get canonical events collection
    */
-  async getAllGigs(sortBy: 'dateStart' | 'updatedAt' = 'dateStart', sortOrder: 1 | -1 = 1): Promise<Gig[]> {
-    const collection = await this.getGigsCollection();
+  private async getEventsCollection(): Promise<Collection<EventDocument>> {
+    const db = await this.getDatabase();
+    return db.collection<EventDocument>(COLLECTIONS.EVENTS);
+  }
+
+  /**
+   * Aggregation stages listing the canonical events that match a filter, together with the
+   * stored gigs not linked into any event yet, each as an event of its own source. Gigs of a
+   * source that hasn't run since events were introduced (a failing or paused one, say) stay
+   * listed that way until the ingestor links them.
+   */
+  private getListingStages(filter: Filter<EventDocument>): Document[] {
+    return [
+      { $match: filter },
+      {
+        $unionWith: {
+          coll: COLLECTIONS.GIGS,
+          pipeline: [
+            {
+              $addFields: {
+                eventId: '$gigId',
+                sources: [{
+                  source: '$source',
+                  gigId: '$gigId',
+                  sourceId: '$sourceId',
+                  // The ingestor's default trust score; a single source has nothing to be merged with
+                  trustScore: { $literal: 80 },
+                  matchConfidence: { $literal: 1 },
+                  eventUrl: '$eventUrl',
+                  ticketsUrl: '$ticketsUrl',
+                  linkedAt: { $ifNull: ['$firstSeenAt', '$createdAt'] }
+                }]
+              }
+            },
+            { $project: { gigId: 0, _meta: 0 } },
+            { $match: filter },
+            { $lookup: { from: COLLECTIONS.EVENTS, localField: 'eventId', foreignField: 'sources.gigId', as: 'linkedTo' } },
+            { $match: { linkedTo: { $size: 0 } } },
+            { $project: { linkedTo: 0 } }
+          ]
+        }
+      }
+    ];
+  }
+
+  /**
+   * Get all gigs with optional sorting, one per show however many sources list it
+   */
+  async getAllGigs(sortBy: 'dateStart' | 'updatedAt' = 'dateStart', sortOrder: 1 | -1 = 1): Promise<CanonicalEvent[]> {
+    const collection = await this.getEventsCollection();
     
-    const gigDocuments = await collection
-      .find({})
-      .sort({ [sortBy]: sortOrder })
+    const eventDocuments = await collection
+      .aggregate<EventDocument>([...this.getListingStages({}), { $sort: { [sortBy]: sortOrder } }])
       .toArray();
     
-    return gigDocuments.map(this.convertGigDocumentToGig);
+    return eventDocuments.map(this.convertEventDocumentToEvent);
   }
 
   /**
-   * Get gigs with advanced filtering and pagination
+   * Get gigs with advanced filtering and pagination. Gigs are the canonical events the
+   * ingestor merges from every source listing a show, each with the sources it came from,
+   * and the gigs it has not linked yet.
    */
   async getGigs(options: {
     filters?: {
@@ -177,7 +281,7 @@ export class WebDatabaseService {
       limit: number;
     };
   } = {}): Promise<{
-    gigs: Gig[];
+    gigs: CanonicalEvent[];
     total: number;
     pagination?: {
       page: number;
@@ -186,10 +290,13 @@ export class WebDatabaseService {
       total: number;
     };
   }> {
-    const collection = await this.getGigsCollection();
+    const collection = await this.getEventsCollection();
     
     // Build MongoDB filter query
-    const filter: Filter<GigDocument> = {};
+    const filter: Filter<EventDocument> = {};
+
+    // Gigs the source stopped listing stay reachable by id but are not listed
+    filter.status = { $ne: 'removed' };
     
     if (options.filters) {
       // City filter (case-insensitive)
@@ -245,9 +352,9 @@ export class WebDatabaseService {
         };
       }
       
-      // Source filter
+      // Source filter, matching events any of whose gigs came from the source
       if (options.filters.source) {
-        filter.source = options.filters.source;
+        filter['sources.source'] = options.filters.source;
       }
       
       // Text search (flexible regex-based search across multiple fields)
@@ -264,18 +371,16 @@ export class WebDatabaseService {
     }
     
     // Get total count
-    const total = await collection.countDocuments(filter);
-    
-    // Build query with sorting
-    let query = collection.find(filter);
+    const [counted] = await collection
+      .aggregate<{ count: number }>([...this.getListingStages(filter), { $count: 'count' }])
+      .toArray();
+    const total = counted?.count ?? 0;
     
-    // Apply sorting
-    if (options.sort) {
-      query = query.sort({ [options.sort.field]: options.sort.order });
-    } else {
-      // Default sort by date ascending (upcoming first)
-      query = query.sort({ dateStart: 1 });
-    }
+    // Apply sorting, by date ascending (upcoming first) by default
+    const stages: Document[] = [
+      ...this.getListingStages(filter),
+      { $sort: options.sort ? { [options.sort.field]: options.sort.order } : { dateStart: 1 } }
+    ];
     
     // Apply pagination
     let pagination;
@@ -283,7 +388,7 @@ export class WebDatabaseService {
       const { page, limit } = options.pagination;
       const skip = (page - 1) * limit;
       
-      query = query.skip(skip).limit(limit);
+      stages.push({ $skip: skip }, { $limit: limit });
       
       pagination = {
         page,
@@ -293,8 +398,8 @@ export class WebDatabaseService {
       };
     }
     
-    const gigDocuments = await query.toArray();
-    const gigs = gigDocuments.map(this.convertGigDocumentToGig);
+    const eventDocuments = await collection.aggregate<EventDocument>(stages).toArray();
+    const gigs = eventDocuments.map(this.convertEventDocumentToEvent);
     
     return {
       gigs,
@@ -304,18 +409,116 @@ export class WebDatabaseService {
   }
 
   /**
-   * Get gig by ID
+   * Get gig by ID: a canonical event's ID, or the ID of one of its sources' gigs
    */
-  async getGigById(gigId: string): Promise<Gig | null> {
-    const collection = await this.getGigsCollection();
+  async getGigById(gigId: string): Promise<CanonicalEvent | null> {
+    const collection = await this.getEventsCollection();
     
-    const gigDocument = await collection.findOne({ gigId });
+    const [eventDocument] = await collection
+      .aggregate<EventDocument>([
+        ...this.getListingStages({ $or: [{ eventId: gigId }, { 'sources.gigId': gigId }] }),
+        { $limit: 1 }
+      ])
+      .toArray();
     
-    if (!gigDocument) {
+    if (!eventDocument) {
       return null;
     }
     
-    return this.convertGigDocumentToGig(gigDocument);
+    return this.convertEventDocumentToEvent(eventDocument);
+  }
+
+  /**
+   * Get the field-level change history of a gig, newest first. For a canonical event,
+   * that is the history of every gig linked to it.
+   */
+  async getGigHistory(gigId: string, limit: number = 50): Promise<GigHistoryEntry[]> {
+    const db = await this.getDatabase();
+    const event = await db.collection<EventDocument>(COLLECTIONS.EVENTS).findOne({ eventId: gigId });
+    const gigIds = event ? event.sources.map(link => link.gigId) : [gigId];
+    
+    const historyDocuments = await db.collection<GigHistoryDocument>(COLLECTIONS.GIG_HISTORY)
+      .find({ gigId: { $in: gigIds } })
+      .sort({ changedAt: -1 })
+      .limit(limit)
+      .toArray();
+    
+    return historyDocuments.map(({ gigId, previousGigId, source, changedAt, changes }) => ({
+      gigId,
+      ...(previousGigId && { previousGigId }),
+      source,
+      changedAt: changedAt.toISOString(),
+      changes
+    }));
+  }
+
+  /**
+   * Get the health records the ingestor keeps for its configured sources
+   */
+  async getSourceHealth(): Promise<SourceHealth[]> {
+    const db = await this.getDatabase();
+
+    const documents = await db.collection<SourceHealthDocument>(COLLECTIONS.SOURCE_HEALTH)
+      .find({ configured: true }, { projection: { _id: 0 } })
+      .sort({ source: 1 })
+      .toArray();
+
+    return documents.map(({ lastRunAt, lastSuccessAt, lastFailureAt, recentCounts, updatedAt, ...health }) => ({
+      ...health,
+      ...(lastRunAt && { lastRunAt: lastRunAt.toISOString() }),
+      ...(lastSuccessAt && { lastSuccessAt: lastSuccessAt.toISOString() }),
+      ...(lastFailureAt && { lastFailureAt: lastFailureAt.toISOString() }),
+      recentCounts: recentCounts.map(({ at, count }) => ({ at: at.toISOString(), count })),
+      updatedAt: updatedAt.toISOString()
+    }));
+  }
+
+  /**
+   * Get the most recent probe request of each source
+   */
+  async getLatestProbes(): Promise<Record<string, ProbeRequest>> {
+    const db = await this.getDatabase();
+
+    const latest = await db.collection<ProbeRequestDocument>(COLLECTIONS.PROBE_REQUESTS)
+      .aggregate<{ _id: string; probe: ProbeRequestDocument }>([
+        { $sort: { requestedAt: -1 } },
+        { $group: { _id: '$source', probe: { $first: '$$ROOT' } } }
+      ])
+      .toArray();
+
+    return Object.fromEntries(latest.map(({ _id, probe }) => [_id, this.convertProbeDocument(probe)]));
+  }
+
+  /**
+   * Queue a run of a source for the scheduler daemon. A source with a probe already
+   * queued or running gets that one back instead of a second.
+   */
+  async queueProbe(source: string): Promise<{ queued: boolean; probe: ProbeRequest }> {
+    const db = await this.getDatabase();
+    const collection = db.collection<ProbeRequestDocument>(COLLECTIONS.PROBE_REQUESTS);
+
+    const pending = await collection.findOne({ source, status: { $in: ['queued', 'running'] } });
+    if (pending) {
+      return { queued: false, probe: this.convertProbeDocument(pending) };
+    }
+
+    const probe: ProbeRequestDocument = { source, requestedAt: new Date(), status: 'queued' };
+    await collection.insertOne(probe);
+    return { queued: true, probe: this.convertProbeDocument(probe) };
+  }
+
+  private convertProbeDocument(document: ProbeRequestDocument): ProbeRequest {
+    const { source, status, requestedAt, startedAt, finishedAt, success, reason } = document;
+
+    return {
+      source,
+      status,
+      requestedAt: requestedAt.toISOString(),
+      ...(startedAt && { startedAt: startedAt.toISOString() }),
+      ...(finishedAt && { finishedAt: finishedAt.toISOString() }),
+      ...(success !== undefined && { success }),
+      ...(reason && { reason })
+    };
   }
 
   /**
@@ -394,25 +597,35 @@ export class WebDatabaseService {
     venues: string[];
     sources: string[];
   }> {
-    const collection = await this.getGigsCollection();
+    const collection = await this.getEventsCollection();
+    const distinct = (field: string, unwind?: string): Document[] => [
+      ...(unwind ? [{ $unwind: unwind }] : []),
+      { $group: { _id: field } }
+    ];
     
-    // Get unique cities
-    const cities = await collection.distinct('venue.city', { 'venue.city': { $ne: null } });
-    
-    // Get unique tags (flattened from arrays)
-    const tags = await collection.distinct('tags');
-    
-    // Get unique venue names
-    const venues = await collection.distinct('venue.name');
-    
-    // Get unique sources
-    const sources = await collection.distinct('source');
+    // Unique cities, tags (flattened from arrays), venue names, and sources, including those
+    // merged into events led by another source
+    const [options] = await collection
+      .aggregate<Record<'cities' | 'tags' | 'venues' | 'sources', Array<{ _id: string | null }>>>([
+        ...this.getListingStages({}),
+        {
+          $facet: {
+            cities: distinct('$venue.city'),
+            tags: distinct('$tags', '$tags'),
+            venues: distinct('$venue.name'),
+            sources: distinct('$sources.source', '$sources')
+          }
+        }
+      ])
+      .toArray();
+    const values = (groups: Array<{ _id: string | null }> = []) =>
+      groups.map(group => group._id).filter((value): value is string => Boolean(value)).sort();
     
     return {
-      cities: cities.filter(Boolean).sort(),
-      tags: tags.filter(Boolean).sort(),
-      venues: venues.filter(Boolean).sort(),
-      sources: sources.filter(Boolean).sort()
+      cities: values(options?.cities),
+      tags: values(options?.tags),
+      venues: values(options?.venues),
+      sources: values(options?.sources)
     };
   }
 
@@ -432,19 +645,20 @@ export class WebDatabaseService {
   }
 
   /**
-   * Convert GigDocument to Gig
+   * Convert EventDocument to CanonicalEvent
    */
-  private convertGigDocumentToGig(doc: GigDocument): Gig {
-    const { _id, gigId, _meta, dateStart, dateEnd, updatedAt, createdAt, firstSeenAt, lastSeenAt, ...gigData } = doc;
+  private convertEventDocumentToEvent(doc: EventDocument): CanonicalEvent {
+    const { _id, eventId, dateStart, dateEnd, updatedAt, createdAt, firstSeenAt, lastSeenAt, sources, ...eventData } = doc;
     return {
-      ...gigData,
-      id: gigId,
+      ...eventData,
+      id: eventId,
       dateStart: dateStart.toISOString(),
       dateEnd: dateEnd?.toISOString(),
       updatedAt: updatedAt.toISOString(),
       firstSeenAt: firstSeenAt?.toISOString(),
-      lastSeenAt: lastSeenAt?.toISOString()
-    } as Gig;
+      lastSeenAt: lastSeenAt?.toISOString(),
+      sources: sources.map(link => ({ ...link, linkedAt: link.linkedAt.toISOString() }))
+    } as CanonicalEvent;
   }
 
   /**
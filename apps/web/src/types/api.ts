@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { Gig } from '@gigateer/contracts';
+import { Gig, GigHistoryEntry } from '@gigateer/contracts';
 
 // Query parameters for GET /api/gigs
 export const GigsQuerySchema = z.object({
@@ -63,6 +63,15 @@ export type GigDetailResponse = Omit<z.infer<typeof GigDetailResponseSchema>, 'd
   data: Gig;
 };
 
+// Response for GET /api/gigs/[id]/history
+export const GigHistoryResponseSchema = z.object({
+  data: z.array(z.any()) // Will be GigHistoryEntry[] but avoiding circular import
+});
+
+export type GigHistoryResponse = Omit<z.infer<typeof GigHistoryResponseSchema>, 'data'> & {
+  data: GigHistoryEntry[];
+};
+
 // Source stats for meta endpoint
 export const SourceStatsSchema = z.object({
   name: z.string(),
@@ -185,7 +185,7 @@ describe("GigSchema", () => {
 
   describe("Status enum validation", () => {
     it("should accept valid status values", () => {
-      const validStatuses = ["scheduled", "cancelled", "postponed"];
+      const validStatuses = ["scheduled", "cancelled", "postponed", "removed"];
       
       validStatuses.forEach((status) => {
         const gig = { ...validGig, status };
@@ -0,0 +1,50 @@
+import { assessSourceHealth, type SourceHealth } from "../health";
+
+describe("assessSourceHealth", () => {
+  const now = new Date("2026-03-10T12:00:00Z");
+
+  const health = (overrides: Partial<SourceHealth> = {}): SourceHealth => ({
+    source: "test-venue",
+    configured: true,
+    freshnessSlaHours: 24,
+    lastRunAt: "2026-03-10T09:00:00Z",
+    lastSuccessAt: "2026-03-10T09:00:00Z",
+    consecutiveFailures: 0,
+    recentCounts: [{ at: "2026-03-10T09:00:00Z", count: 40 }],
+    countTrend: "steady",
+    updatedAt: "2026-03-10T09:00:00Z",
+    ...overrides,
+  });
+
+  it("should report sources that have never run", () => {
+    expect(assessSourceHealth(health({ lastRunAt: undefined, lastSuccessAt: undefined }), now).status).toBe("never-run");
+  });
+
+  it("should report recent successful runs as healthy", () => {
+    expect(assessSourceHealth(health(), now)).toEqual({ status: "healthy", reasons: [] });
+  });
+
+  it("should degrade after a failed run or a falling gig count", () => {
+    const failed = assessSourceHealth(health({ consecutiveFailures: 1, lastError: "fetch failed" }), now);
+
+    expect(failed).toEqual({ status: "degraded", reasons: ["1 failed run in a row: fetch failed"] });
+    expect(assessSourceHealth(health({ countTrend: "falling" }), now).reasons).toEqual(["Gig count is falling"]);
+  });
+
+  it("should report data older than the freshness SLA as stale", () => {
+    const stale = assessSourceHealth(health({ lastSuccessAt: "2026-03-08T06:00:00Z", freshnessSlaHours: 48 }), now);
+
+    expect(stale).toEqual({
+      status: "stale",
+      reasons: ["Last successful run 54 hours ago, beyond its 48 hour freshness SLA"],
+    });
+    expect(assessSourceHealth(health({ lastSuccessAt: undefined, consecutiveFailures: 1 }), now).status).toBe("stale");
+  });
+
+  it("should report repeated failures as failing, ahead of staleness", () => {
+    const failing = assessSourceHealth(health({ consecutiveFailures: 3, lastSuccessAt: "2026-03-01T09:00:00Z" }), now);
+
+    expect(failing.status).toBe("failing");
+    expect(failing.reasons).toHaveLength(2);
+  });
+});
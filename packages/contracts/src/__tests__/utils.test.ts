@@ -2,6 +2,7 @@ import {
   createSlug,
   generateGigId,
   generateGigHash,
+  diffGigs,
   validateGig,
   safeValidateGig,
 } from "../utils";
@@ -165,6 +166,40 @@ describe("Utils", () => {
     });
   });
 
+  describe("diffGigs", () => {
+    it("should return no changes for identical gigs", () => {
+      expect(diffGigs(mockGig, { ...mockGig, updatedAt: "2024-02-01T10:00:00Z" })).toEqual([]);
+    });
+
+    it("should report changed fields with their previous and current values", () => {
+      const rescheduled = {
+        ...mockGig,
+        dateStart: "2024-02-20T20:00:00Z",
+        price: { min: 30.0, max: 45.0, currency: "EUR" },
+        status: "postponed" as const,
+      };
+
+      expect(diffGigs(mockGig, rescheduled)).toEqual([
+        { field: "dateStart", previous: "2024-01-15T20:00:00Z", current: "2024-02-20T20:00:00Z" },
+        { field: "price.min", previous: 25.0, current: 30.0 },
+        { field: "status", previous: "scheduled", current: "postponed" },
+      ]);
+    });
+
+    it("should report added and removed fields as null", () => {
+      const { ticketsUrl, ...withoutTickets } = mockGig;
+
+      expect(diffGigs(mockGig, withoutTickets)).toEqual([
+        { field: "ticketsUrl", previous: ticketsUrl, current: null },
+      ]);
+      expect(diffGigs({ ...mockGig, price: undefined }, mockGig)).toEqual([
+        { field: "price.min", previous: null, current: 25.0 },
+        { field: "price.max", previous: null, current: 45.0 },
+        { field: "price.currency", previous: null, current: "EUR" },
+      ]);
+    });
+  });
+
   describe("validateGig", () => {
     it("should successfully validate valid gig objects", () => {
       expect(() => validateGig(mockGig)).not.toThrow();
@@ -0,0 +1,29 @@
+import type { Gig } from "./gig";
+
+/**
+ * One source's listing of a canonical event
+ */
+export interface EventSourceLink {
+  source: string;
+  /** Catalog ID of the source's gig */
+  gigId: string;
+  sourceId?: string;
+  /** Trust score the source's fields were merged with */
+  trustScore: number;
+  /** Confidence of the fuzzy match that linked the gig; 1 for the gig the event started from */
+  matchConfidence: number;
+  eventUrl?: string;
+  ticketsUrl?: string;
+  /** ISO timestamp of when the gig was linked to the event */
+  linkedAt: string;
+}
+
+/**
+ * A show as one record however many sources list it. Its fields are merged from the
+ * linked gigs by trust score, `source` is the most trusted of them, and `id` stays the
+ * same as gigs are linked and unlinked.
+ */
+export type CanonicalEvent = Gig & {
+  /** Every linked gig, most trusted source first */
+  sources: EventSourceLink[];
+};
@@ -25,7 +25,8 @@ export const GigSchema = z.object({
     currency: z.string().nullable(),
   }).optional(),
   ageRestriction: z.string().optional(),
-  status: z.enum(["scheduled", "cancelled", "postponed"]).default("scheduled"),
+  // "removed" = no longer listed by the source for several runs in a row
+  status: z.enum(["scheduled", "cancelled", "postponed", "removed"]).default("scheduled"),
   ticketsUrl: z.string().url().optional(),
   eventUrl: z.string().url().optional(),
   images: z.array(z.string().url()).default([]),
@@ -36,6 +37,11 @@ export const GigSchema = z.object({
   isUpdated: z.boolean().optional(),
   firstSeenAt: z.string().optional(), // ISO timestamp
   lastSeenAt: z.string().optional(), // ISO timestamp
+  missedRuns: z.number().int().optional(), // consecutive runs the source didn't list this gig
+  removedAt: z.string().optional(), // ISO when it was flagged as removed
+  // On gigs merged from several sources: the source each field was taken from, or the
+  // sources a collected field (artists, images...) drew on
+  provenance: z.record(z.union([z.string(), z.array(z.string())])).optional(),
 });
 
 export type Gig = z.infer<typeof GigSchema>;
\ No newline at end of file
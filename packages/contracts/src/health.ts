@@ -0,0 +1,73 @@
+import type { ScraperErrorClass } from "./scraper";
+
+/**
+ * A source's health, kept up to date by the ingestor after every run of the source
+ */
+export interface SourceHealth {
+  source: string;
+  /** Whether the ingestor currently has the source loaded */
+  configured: boolean;
+  /** Hours after its last successful run that the source's data counts as stale */
+  freshnessSlaHours: number;
+  /** ISO timestamps of the source's last run, last successful run and last failed run */
+  lastRunAt?: string;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+  lastError?: string;
+  lastErrorClass?: ScraperErrorClass;
+  /** Failed runs since the last successful one */
+  consecutiveFailures: number;
+  /** Gig counts of the latest full successful runs, newest first */
+  recentCounts: Array<{ at: string; count: number }>;
+  /** How the latest gig count compares with the ones before it */
+  countTrend: "rising" | "steady" | "falling" | "unknown";
+  updatedAt: string;
+}
+
+export type SourceHealthStatus = "healthy" | "degraded" | "stale" | "failing" | "never-run";
+
+/**
+ * Consecutive failed runs after which a source counts as failing rather than degraded
+ */
+export const FAILING_AFTER_RUNS = 3;
+
+/**
+ * Grades a source's health record, worst first: failing after repeated failed runs, stale
+ * once its last success is older than its freshness SLA, and degraded after a failed run
+ * or a falling gig count. Reasons explain everything that counted against it.
+ */
+export function assessSourceHealth(
+  health: SourceHealth,
+  now: Date = new Date()
+): { status: SourceHealthStatus; reasons: string[] } {
+  if (!health.lastRunAt) {
+    return { status: "never-run", reasons: ["No runs recorded yet"] };
+  }
+
+  const reasons: string[] = [];
+  const failing = health.consecutiveFailures >= FAILING_AFTER_RUNS;
+  const ageHours = health.lastSuccessAt
+    ? (now.getTime() - new Date(health.lastSuccessAt).getTime()) / (60 * 60 * 1000)
+    : Infinity;
+  const stale = ageHours > health.freshnessSlaHours;
+
+  if (health.consecutiveFailures > 0) {
+    const failure = health.lastError ? `: ${health.lastError}` : "";
+    reasons.push(`${health.consecutiveFailures} failed run${health.consecutiveFailures === 1 ? "" : "s"} in a row${failure}`);
+  }
+  if (stale) {
+    reasons.push(
+      health.lastSuccessAt
+        ? `Last successful run ${Math.floor(ageHours)} hours ago, beyond its ${health.freshnessSlaHours} hour freshness SLA`
+        : "No successful run recorded"
+    );
+  }
+  if (health.countTrend === "falling") {
+    reasons.push("Gig count is falling");
+  }
+
+  if (failing) return { status: "failing", reasons };
+  if (stale) return { status: "stale", reasons };
+  if (reasons.length > 0) return { status: "degraded", reasons };
+  return { status: "healthy", reasons };
+}
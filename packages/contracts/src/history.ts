@@ -0,0 +1,27 @@
+/**
+ * A single field that differs between two versions of a gig
+ */
+export interface GigFieldChange {
+  /** Dotted path of the field, e.g. "dateStart" or "price.min" */
+  field: string;
+  /** Value before the change (null when it was not set) */
+  previous: unknown;
+  /** Value after the change (null when it is no longer set) */
+  current: unknown;
+}
+
+/**
+ * Field-level changes to one gig detected in a single ingestion run
+ */
+export interface GigHistoryEntry {
+  /** Catalog ID of the gig after the change */
+  gigId: string;
+  /** Catalog ID before the change, when the change moved the gig to a new ID (e.g. a new date) */
+  previousGigId?: string;
+  /** Source that reported the change */
+  source: string;
+  /** ISO timestamp of the run that detected the change */
+  changedAt: string;
+  /** What changed */
+  changes: GigFieldChange[];
+}
@@ -1,11 +1,33 @@
 // Export schemas and types
 export { GigSchema, type Gig } from "./gig";
 
+// Export change history types
+export type { GigFieldChange, GigHistoryEntry } from "./history";
+
+// Export canonical events merged across sources
+export type { CanonicalEvent, EventSourceLink } from "./event";
+
+// Export source health records and grading
+export {
+  assessSourceHealth,
+  FAILING_AFTER_RUNS,
+  type SourceHealth,
+  type SourceHealthStatus,
+} from "./health";
+
 // Export scraper interfaces
 export type {
   ScraperPlugin,
   ScraperPluginMeta,
+  SourceScheduleMeta,
+  ActiveWindow,
+  RetryPolicy,
+  FetchRawOptions,
+  BlockedRequest,
+  ListingFingerprint,
   ScraperRunStats,
+  ScraperErrorClass,
+  RunQualityProfile,
   IngestorConfig,
 } from "./scraper";
 
@@ -14,6 +36,8 @@ export {
   createSlug,
   generateGigId,
   generateGigHash,
+  diffGigs,
+  TRACKED_GIG_FIELDS,
   validateGig,
   safeValidateGig,
 } from "./utils";
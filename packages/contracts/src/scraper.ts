@@ -8,14 +8,83 @@ export interface ScraperPluginMeta {
   name: string;
   /** Maximum requests per minute to avoid rate limiting */
   rateLimitPerMin: number;
-  /** Default cron schedule for automatic runs */
-  defaultSchedule: string;
+  /** Cron schedule for automatic runs; the ingestor's default schedule applies when unset */
+  defaultSchedule?: string;
   /** Optional description of the source */
   description?: string;
   /** Optional website URL */
   website?: string;
   /** Trust score for merge conflicts (higher = more trusted) */
   trustScore?: number;
+  /** How the scheduler runs this source, beyond its cron schedule */
+  schedule?: SourceScheduleMeta;
+}
+
+/**
+ * Scheduling settings a source declares for itself. Environment overrides take precedence.
+ */
+export interface SourceScheduleMeta {
+  /** IANA timezone the cron schedule and active windows are read in (default UTC) */
+  timezone?: string;
+  /** Whether scheduled runs happen at all (default true) */
+  enabled?: boolean;
+  /** Only run on dates inside one of these windows, e.g. for a seasonal festival */
+  activeWindows?: ActiveWindow[];
+  /** How a failed scheduled run is retried */
+  retry?: RetryPolicy;
+  /** Hours after its last successful run that the source's data counts as stale */
+  freshnessSlaHours?: number;
+}
+
+/**
+ * An inclusive range of calendar dates (YYYY-MM-DD) in the source's schedule timezone
+ */
+export interface ActiveWindow {
+  start: string;
+  end: string;
+}
+
+export interface RetryPolicy {
+  /** Retries after the first failed attempt */
+  attempts: number;
+  /** Wait before the first retry, doubled for each one after it */
+  backoffMs: number;
+}
+
+/**
+ * Options passed to a plugin when the ingestor fetches from it
+ */
+export interface FetchRawOptions {
+  /** Aborted when the run times out or is cancelled; plugins should stop work when it fires */
+  signal?: AbortSignal;
+  /** Called for each URL the plugin skipped because the site asked not to be crawled there */
+  onBlocked?: (request: BlockedRequest) => void;
+  /** The listing's fingerprint from the last full run. Plugins may stop early when it still matches. */
+  previousFingerprint?: ListingFingerprint;
+  /** Called by plugins that fingerprint their listing, with this run's fingerprint */
+  onFingerprint?: (fingerprint: ListingFingerprint) => void;
+}
+
+/**
+ * What a source's listing looked like, used to tell whether it changed since the last run
+ */
+export interface ListingFingerprint {
+  /** Hash of the listing content the scraper extracted from, and the config it used */
+  hash: string;
+  /** Hash of the scraper config alone, so a run with an edited config doesn't count as unchanged */
+  configHash?: string;
+  /** HTTP validators of the first listing page, when the site sends them */
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * A request a scraper didn't make, and why
+ */
+export interface BlockedRequest {
+  url: string;
+  /** e.g. "Disallowed by robots.txt (Disallow: /private)" */
+  reason: string;
 }
 
 /**
@@ -26,7 +95,7 @@ export interface ScraperPlugin {
   upstreamMeta: ScraperPluginMeta;
   
   /** Fetch raw data from the source */
-  fetchRaw(): Promise<unknown[]>;
+  fetchRaw(options?: FetchRawOptions): Promise<unknown[]>;
   
   /** Normalize raw data to Gig[] format */
   normalize(rawData: unknown[]): Promise<Gig[]>;
@@ -35,6 +104,31 @@ export interface ScraperPlugin {
   cleanup?(): Promise<void>;
 }
 
+/**
+ * Shape of the gigs a run returned, compared against earlier runs to spot broken scrapes
+ */
+export interface RunQualityProfile {
+  /** Number of valid gigs */
+  gigCount: number;
+  /** Share of gigs (0-1) with each optional field filled in */
+  fillRates: {
+    price: number;
+    images: number;
+    ticketsUrl: number;
+    artists: number;
+  };
+  /** Number of different calendar days the gigs start on */
+  distinctDates: number;
+  /** Days between the earliest and latest gig */
+  dateSpanDays: number;
+}
+
+/**
+ * Kinds of run failure. Network errors, rate limiting and timeouts are usually transient;
+ * parse failures and unknown errors need someone to look at the source.
+ */
+export type ScraperErrorClass = "network" | "rate-limit" | "timeout" | "parse" | "unknown";
+
 /**
  * Statistics from a scraper run
  */
@@ -55,6 +149,10 @@ export interface ScraperRunStats {
   errors?: string[];
   /** Number of errors encountered */
   errorCount?: number;
+  /** What kind of failure stopped the run, if one did */
+  errorClass?: ScraperErrorClass;
+  /** How long the site asked us to wait before trying again, when it rate limited the run */
+  retryAfterMs?: number;
   /** Number of raw items fetched */
   rawCount: number;
   /** Number of normalized gigs */
@@ -63,6 +161,22 @@ export interface ScraperRunStats {
   newCount: number;
   /** Number of updated gigs */
   updatedCount: number;
+  /** Number of gigs flagged as removed in this run */
+  removedCount?: number;
+  /** Number of gigs missing from this run but still within the removal grace period */
+  missingCount?: number;
+  /** Whether removal detection was skipped because the run returned too few gigs */
+  removalGuardTriggered?: boolean;
+  /** Shape of the gigs this run returned */
+  profile?: RunQualityProfile;
+  /** Why the run looked wrong compared with the source's baseline, if it did */
+  anomalies?: string[];
+  /** Whether the run's gigs were discarded in favour of the previous data because it looked wrong */
+  anomalyRejected?: boolean;
+  /** Whether the source's listing matched the last run's, so its data was left as it was */
+  unchanged?: boolean;
+  /** URLs skipped during the run because the site disallows crawling them */
+  blocked?: BlockedRequest[];
   /** Memory usage in MB */
   memoryUsage?: number;
   /** Processing rate (gigs per second) */
@@ -95,12 +209,51 @@ export interface IngestorConfig {
   timeoutMs?: number;
   /** Stagger scraper runs by this many minutes */
   staggerMinutes: number;
-  /** Sources configuration */
+  /** How many sources ingest:all runs at once */
+  concurrency?: {
+    /** Sources scraped in parallel across all hosts */
+    maxConcurrentSources: number;
+    /** Sources scraped in parallel against the same host */
+    maxConcurrentPerHost: number;
+    /** A source's fetch is cancelled after this many milliseconds */
+    sourceTimeoutMs: number;
+    /** Browsers shared between browser-based sources */
+    browserPoolSize: number;
+  };
+  /** When gigs missing from a source's listing are flagged as removed */
+  removalDetection?: {
+    /** Consecutive runs a future gig must be missing before it is flagged */
+    gracePeriodRuns: number;
+    /** Skip removal detection when a run would leave fewer than this share of the previously listed gigs */
+    minRetainedRatio: number;
+  };
+  /** How runs are checked against each source's recent history */
+  anomalyDetection?: {
+    /** Whether runs are checked at all */
+    enabled: boolean;
+    /** Recent good runs used to build a source's baseline */
+    baselineRuns: number;
+    /** Runs needed before a source is checked */
+    minBaselineRuns: number;
+    /** Flag a run whose gig count falls by more than this share of the baseline */
+    maxCountDrop: number;
+    /** Flag a field whose fill rate falls by more than this many percentage points (0-1) */
+    maxFillRateDrop: number;
+    /** Keep the previous data instead of saving a run that looks wrong */
+    rejectAnomalousRuns: boolean;
+  };
+  /** How long a listing fingerprint lets unchanged runs skip saving, before a full run is forced (hours, 0 disables) */
+  fingerprintMaxAgeHours?: number;
+  /** Hours after a source's last successful run that its data counts as stale, unless the source sets its own */
+  freshnessSlaHours?: number;
+  /** Per-source overrides, taking precedence over what each source declares */
   sources: {
     [sourceName: string]: {
-      enabled: boolean;
+      enabled?: boolean;
       schedule?: string;
+      timezone?: string;
       rateLimitPerMin?: number;
+      trustScore?: number;
     };
   };
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import crypto from "crypto";
 import { Gig, GigSchema } from "./gig";
+import type { GigFieldChange } from "./history";
 
 /**
  * Creates a URL-safe slug from a string
@@ -57,6 +58,51 @@ export function generateGigHash(gig: Partial<Gig>): string {
 }
 
 
+/**
+ * Fields compared by diffGigs, as dotted paths into the gig
+ */
+export const TRACKED_GIG_FIELDS = [
+  "title",
+  "artists",
+  "tags",
+  "dateStart",
+  "dateEnd",
+  "venue.name",
+  "venue.address",
+  "venue.city",
+  "price.min",
+  "price.max",
+  "price.currency",
+  "ageRestriction",
+  "status",
+  "ticketsUrl",
+  "eventUrl",
+] as const;
+
+/**
+ * Lists the tracked fields that differ between two versions of a gig.
+ * Missing values are reported as null so changes survive JSON and MongoDB storage.
+ */
+export function diffGigs(previous: Partial<Gig>, current: Partial<Gig>): GigFieldChange[] {
+  const changes: GigFieldChange[] = [];
+
+  for (const field of TRACKED_GIG_FIELDS) {
+    const before = getFieldValue(previous, field);
+    const after = getFieldValue(current, field);
+
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ field, previous: before, current: after });
+    }
+  }
+
+  return changes;
+}
+
+function getFieldValue(gig: Partial<Gig>, field: string): unknown {
+  const value = field.split(".").reduce<any>((target, key) => target?.[key], gig);
+  return value === undefined ? null : value;
+}
+
 /**
  * Validates and normalizes a gig object using the GigSchema
  */
@@ -0,0 +1,205 @@
+/**
+ * Tests for the blocking index, with benchmarks on synthetic national-scale listings
+ */
+
+import { Gig } from '@gigateer/contracts';
+import { createBlockingIndex, createBlockingKeys } from '../utils/blocking-index';
+import { findPotentialDuplicates, fuzzyMatchGigs } from '../utils/fuzzy-matching';
+import { deduplicateGigs } from '../deduplicator';
+
+describe('Blocking Index', () => {
+  const createMockGig = (overrides: Partial<Gig> = {}): Gig => ({
+    id: 'test-gig-1',
+    source: 'venue-site',
+    title: 'Massive Attack',
+    artists: ['Massive Attack'],
+    genre: [],
+    dateStart: new Date(2024, 2, 15, 20, 0).toISOString(),
+    venue: { name: 'The Fleece', city: 'Bristol' },
+    status: 'scheduled',
+    images: [],
+    updatedAt: '2024-03-01T10:00:00Z',
+    hash: 'test-hash',
+    ...overrides
+  });
+
+  const ids = (gigs: Gig[]) => gigs.map(gig => gig.id);
+
+  describe('createBlockingKeys', () => {
+    it('should file listings of one show under a shared key', () => {
+      const venueSite = createBlockingKeys(createMockGig());
+      const aggregator = createBlockingKeys(createMockGig({
+        id: 'test-gig-2',
+        title: 'MASSIVE ATTACK + Support',
+        artists: [],
+        venue: { name: 'Fleece', city: 'Bristol, UK' }
+      }));
+
+      expect(venueSite.lookup.filter(key => aggregator.index.includes(key))).not.toHaveLength(0);
+      expect(aggregator.lookup.filter(key => venueSite.index.includes(key))).not.toHaveLength(0);
+    });
+
+    it('should keep shows in other cities and on other days apart', () => {
+      const gig = createBlockingKeys(createMockGig());
+      const elsewhere = createBlockingKeys(createMockGig({ venue: { name: 'The Fleece', city: 'Leeds' } }));
+      const nextWeek = createBlockingKeys(createMockGig({ dateStart: new Date(2024, 2, 22, 20, 0).toISOString() }));
+
+      expect(gig.lookup.filter(key => elsewhere.index.includes(key) || nextWeek.index.includes(key))).toEqual([]);
+    });
+  });
+
+  describe('createBlockingIndex', () => {
+    const gig = createMockGig();
+    const lateListing = createMockGig({
+      id: 'late',
+      source: 'aggregator',
+      dateStart: new Date(2024, 2, 16, 0, 30).toISOString(),
+      venue: { name: 'Fleece', city: 'Bristol' }
+    });
+    const otherVenue = createMockGig({ id: 'other-venue', title: 'Portishead', artists: [], venue: { name: 'Thekla', city: 'Bristol' } });
+    const noCity = createMockGig({ id: 'no-city', source: 'aggregator', venue: { name: 'Fleece' } });
+    const noTokens = createMockGig({ id: 'no-tokens', source: 'aggregator', title: 'DJ', artists: [], venue: { name: 'The O2', city: 'Bristol' } });
+
+    it('should find candidates on the next day within the date tolerance', () => {
+      expect(ids(createBlockingIndex([gig, lateListing], { dateToleranceHours: 6 }).candidatesFor(gig))).toEqual(['late']);
+      expect(ids(createBlockingIndex([gig, lateListing], { dateToleranceHours: 2 }).candidatesFor(gig))).toEqual([]);
+    });
+
+    it('should compare gigs without a city or usable tokens with the gigs around them', () => {
+      const index = createBlockingIndex([gig, otherVenue, noCity, noTokens]);
+
+      expect(ids(index.candidatesFor(gig))).toEqual(['no-city', 'no-tokens']);
+      expect(ids(index.candidatesFor(noCity))).toEqual(['test-gig-1', 'no-tokens']);
+      expect(ids(index.candidatesFor(noTokens))).toEqual(['test-gig-1', 'other-venue', 'no-city']);
+    });
+
+    it('should be accepted by findPotentialDuplicates in place of a candidate list', () => {
+      const gigs = [gig, otherVenue, noCity, noTokens];
+      const index = createBlockingIndex(gigs);
+
+      expect(findPotentialDuplicates(gig, index)).toEqual(findPotentialDuplicates(gig, gigs));
+    });
+  });
+
+  describe('at scale', () => {
+    const CITY_PARTS = [['Ash', 'Brook', 'Castle', 'Dun', 'Elm', 'Fair', 'Glen', 'Hart', 'Kings', 'Lang'], ['ford', 'ham', 'wick', 'bury', 'mouth', 'field']];
+    const VENUES = ['Fleece', 'Thekla', 'Louisiana', 'Exchange', 'Lanes', 'Trinity', 'Marble Factory', 'Crofters Rights', 'Old Duke', 'Jam Jar', 'Rough Trade', 'Strange Brew', 'Loco Klub', 'Gasworks', 'Canteen'];
+    const WORDS = [
+      'amber', 'basin', 'cobalt', 'delta', 'ember', 'fable', 'granite', 'harbour', 'indigo', 'juniper',
+      'kestrel', 'lantern', 'meadow', 'nimbus', 'orchid', 'pylon', 'quarry', 'raven', 'saffron', 'thistle',
+      'umber', 'velvet', 'willow', 'xenon', 'yonder', 'zephyr', 'anchor', 'bramble', 'cinder', 'drift',
+      'echo', 'falcon', 'gossamer', 'hollow', 'ivory', 'jackdaw', 'kettle', 'lichen', 'marrow', 'nettle',
+      'oxbow', 'pebble', 'quiver', 'ripple', 'sorrel', 'tundra', 'upland', 'vapour', 'wander', 'yarrow'
+    ];
+    const SOURCES = ['venue-site', 'aggregator-a', 'aggregator-b'];
+    const DAYS = 120;
+
+    // Deterministic generator (mulberry32) so every run benchmarks the same listings
+    const createRandom = (seed: number) => () => {
+      seed = (seed + 0x6d2b79f5) | 0;
+      let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+
+    /**
+     * Shows spread over a city per 1,250 listings, one per venue a night at most, each
+     * listed by one to three sources that word the title, venue, city and time differently
+     */
+    const generateListings = (count: number, seed = 42): { gigs: Gig[]; duplicatePairs: Array<[Gig, Gig]> } => {
+      const random = createRandom(seed);
+      const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+      const cities = Math.max(1, Math.round(count / 1250));
+      const taken = new Set<string>();
+      const gigs: Gig[] = [];
+      const duplicatePairs: Array<[Gig, Gig]> = [];
+
+      for (let show = 0; gigs.length < count; show++) {
+        let slot: [number, number, number];
+        do {
+          slot = [Math.floor(random() * cities), Math.floor(random() * VENUES.length), Math.floor(random() * DAYS)];
+        } while (taken.has(slot.join()));
+        taken.add(slot.join());
+
+        const [cityIndex, venueIndex, day] = slot;
+        const city = CITY_PARTS[0][cityIndex % 10] + CITY_PARTS[1][Math.floor(cityIndex / 10) % 6] + (cityIndex >= 60 ? ` ${Math.floor(cityIndex / 60)}` : '');
+        const venue = VENUES[venueIndex];
+        const artist = `${pick(WORDS)} ${pick(WORDS)}`.replace(/\b\w/g, letter => letter.toUpperCase());
+        const start = new Date(2024, 0, 1 + day, 19 + Math.floor(random() * 3), pick([0, 30]));
+        const listings = Math.min(1 + (random() < 0.45 ? 1 : 0) + (random() < 0.2 ? 1 : 0), count - gigs.length);
+
+        const group = SOURCES.slice(0, listings).map((source, variant): Gig => ({
+          id: `${source}-${show}`,
+          source,
+          title: [artist, `${artist} + Support`, `${artist.toUpperCase()} (Live)`][variant],
+          artists: variant === 0 ? [artist] : [],
+          genre: [],
+          dateStart: new Date(start.getTime() + variant * 30 * 60 * 1000).toISOString(),
+          venue: {
+            name: [`The ${venue}`, venue, `${venue} ${city}`][variant],
+            city: variant === 2 ? `${city}, UK` : city
+          },
+          status: 'scheduled',
+          images: [],
+          updatedAt: '2024-01-01T00:00:00Z',
+          hash: `hash-${source}-${show}`
+        }));
+
+        gigs.push(...group);
+        group.forEach((gig, i) => group.slice(i + 1).forEach(other => duplicatePairs.push([gig, other])));
+      }
+
+      return { gigs, duplicatePairs };
+    };
+
+    // Pairs the index puts forward, filtered as deduplicateGigs filters them with the same option
+    const comparisonsPerGig = (gigs: Gig[], { crossSourceOnly = false } = {}) => {
+      const index = createBlockingIndex(gigs);
+      const comparisons = gigs.reduce((total, gig) =>
+        total + index.candidatesFor(gig).filter(candidate => !(crossSourceOnly && candidate.source === gig.source)).length, 0);
+      return comparisons / gigs.length;
+    };
+
+    it('should find every duplicate the matcher accepts in 50k gigs, as comparing all pairs does', () => {
+      const { gigs, duplicatePairs } = generateListings(50000);
+      const index = createBlockingIndex(gigs);
+
+      const matched = duplicatePairs.filter(([gig, other]) => fuzzyMatchGigs(gig, other).isMatch);
+      const blocked = matched.filter(([gig, other]) => index.candidatesFor(gig).includes(other));
+
+      expect(gigs).toHaveLength(50000);
+      expect(matched.length / duplicatePairs.length).toBeGreaterThan(0.99);
+      expect(blocked).toHaveLength(matched.length);
+    }, 120000);
+
+    it('should score a steady number of pairs per gig as listings grow to 50k', () => {
+      const small = comparisonsPerGig(generateListings(5000).gigs);
+      const large = comparisonsPerGig(generateListings(50000).gigs);
+
+      // Comparing all pairs would score tens of thousands per gig
+      expect(large).toBeLessThan(10);
+      expect(large).toBeLessThan(small * 1.25);
+    }, 120000);
+
+    it('should score fewer pairs per gig when only matching across sources', () => {
+      const { gigs } = generateListings(50000);
+      const crossSource = comparisonsPerGig(gigs, { crossSourceOnly: true });
+
+      expect(crossSource).toBeGreaterThan(0);
+      expect(crossSource).toBeLessThan(comparisonsPerGig(gigs));
+    }, 120000);
+
+    it('should deduplicate 50k gigs in close to linear time', () => {
+      const time = (gigs: Gig[]) => {
+        const start = Date.now();
+        deduplicateGigs(gigs);
+        return Date.now() - start;
+      };
+      const tenThousand = time(generateListings(10000).gigs);
+      const fiftyThousand = time(generateListings(50000).gigs);
+
+      // Five times the listings; comparing all pairs would take about 25 times as long
+      expect(fiftyThousand).toBeLessThan(Math.max(tenThousand, 100) * 10);
+    }, 180000);
+  });
+});
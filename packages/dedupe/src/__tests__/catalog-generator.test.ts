@@ -141,7 +141,7 @@ describe('Catalog Generator', () => {
 
     it('should handle multiple source files', async () => {
       const source2 = {
-        gigs: [{ ...mockGig, id: 'gig-2', source: 'source2' }],
+        gigs: [{ ...mockGig, id: 'gig-2', source: 'source2', dateStart: '2024-03-16T20:00:00Z' }],
         metadata: { lastRun: '2024-03-01T10:00:00Z', source: 'source2' }
       };
 
@@ -9,6 +9,7 @@ import {
   validateGigsForDeduplication,
   DeduplicationOptions
 } from '../deduplicator';
+import { createOverride } from '../overrides';
 
 describe('Deduplicator', () => {
   const createMockGig = (overrides: Partial<Gig> = {}): Gig => ({
@@ -119,6 +120,14 @@ describe('Deduplicator', () => {
       expect(result.duplicatesRemoved).toBeGreaterThanOrEqual(0);
     });
 
+    it('should merge look-alike gigs from one source unless only cross-source matches are wanted', () => {
+      const early = createMockGig({ id: 'gig-1', sourceId: 'early', title: 'Jazz Night' });
+      const repeat = createMockGig({ id: 'gig-2', sourceId: 'repeat', title: 'Jazz Night', dateStart: '2024-03-15T20:30:00Z' });
+
+      expect(deduplicateGigs([early, repeat]).dedupedGigs).toHaveLength(1);
+      expect(deduplicateGigs([early, repeat], { crossSourceOnly: true }).dedupedGigs).toHaveLength(2);
+    });
+
     it('should respect date tolerance settings', () => {
       const gig1 = createMockGig({ 
         id: 'gig-1',
@@ -184,6 +193,61 @@ describe('Deduplicator', () => {
     });
   });
 
+  describe('overrides', () => {
+    const venueSite = createMockGig({ id: 'venue-site-gig', source: 'venue-site', sourceId: 'vs-1' });
+    const aggregator = createMockGig({
+      id: 'aggregator-gig',
+      source: 'aggregator',
+      sourceId: 'ag-7',
+      title: 'Spring Tour Opening Night',
+      venue: { name: 'Main Hall, Civic Centre', city: 'Test City' },
+      dateStart: '2024-03-16T02:00:00Z'
+    });
+
+    it('should merge gigs a merge override names, whatever they score', () => {
+      expect(deduplicateGigs([venueSite, aggregator]).dedupedGigs).toHaveLength(2);
+
+      const result = deduplicateGigs([venueSite, aggregator], {
+        overrides: [createOverride('merge', ['venue-site:vs-1', 'aggregator:ag-7'])]
+      });
+
+      expect(result.dedupedGigs).toHaveLength(1);
+      expect(result.duplicatesRemoved).toBe(1);
+      expect(result.mergedGroups).toBe(1);
+    });
+
+    it('should keep gigs a split override names apart, however alike they are', () => {
+      const listing = createMockGig({ id: 'aggregator-gig', source: 'aggregator', sourceId: 'ag-7' });
+      expect(deduplicateGigs([venueSite, listing]).dedupedGigs).toHaveLength(1);
+
+      const result = deduplicateGigs([venueSite, listing], {
+        overrides: [createOverride('split', ['venue-site:vs-1', 'aggregator:ag-7'])]
+      });
+
+      expect(result.dedupedGigs.map(gig => gig.id)).toEqual(['venue-site-gig', 'aggregator-gig']);
+      expect(result.duplicatesRemoved).toBe(0);
+    });
+
+    it('should still apply after a re-ingest gives the gigs new IDs', () => {
+      const overrides = [createOverride('merge', ['venue-site:vs-1', 'aggregator:ag-7'])];
+      const reingested = [
+        { ...venueSite, id: 'venue-site-spring-tour-2024-03-15' },
+        { ...aggregator, id: 'aggregator-spring-tour-opening-night' }
+      ];
+
+      expect(deduplicateGigs(reingested, { overrides }).dedupedGigs).toHaveLength(1);
+    });
+
+    it('should let a split override win over a merge override for the same gigs', () => {
+      const keys = ['venue-site:vs-1', 'aggregator:ag-7'];
+      const result = deduplicateGigs([venueSite, aggregator], {
+        overrides: [createOverride('merge', keys), createOverride('split', keys)]
+      });
+
+      expect(result.dedupedGigs).toHaveLength(2);
+    });
+  });
+
   describe('findExactDuplicates', () => {
     it('should find gigs with identical content hashes', () => {
       const gig1 = createMockGig({ id: 'gig-1' });
@@ -284,8 +348,10 @@ describe('Deduplicator', () => {
       const gigs = Array(1000).fill(0).map((_, i) => 
         createMockGig({ 
           id: `gig-${i}`,
+          sourceId: `src-${i}`,
           title: `Concert ${i}`,
-          dateStart: new Date(2024, 2, 15 + (i % 30)).toISOString()
+          // One show a night: look-alike titles at one venue on the same night would be merged
+          dateStart: new Date(2024, 2, 15 + i, 20).toISOString()
         })
       );
       
@@ -0,0 +1,125 @@
+/**
+ * Tests for manual merge and split overrides
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  addOverride,
+  createOverride,
+  createOverrideRules,
+  overrideKeyFor,
+  JsonFileOverrideStore
+} from '../overrides';
+import { DedupeError } from '../error-handling';
+
+describe('Overrides', () => {
+  const now = new Date('2024-03-01T10:00:00Z');
+
+  describe('overrideKeyFor', () => {
+    it('should key gigs by source and source ID, falling back to the gig ID', () => {
+      expect(overrideKeyFor({ id: 'thekla-the-cure', source: 'thekla', sourceId: 'tk-1' })).toBe('thekla:tk-1');
+      expect(overrideKeyFor({ id: 'thekla-the-cure', source: 'thekla' })).toBe('thekla-the-cure');
+    });
+  });
+
+  describe('createOverride', () => {
+    it('should derive the same ID from the same action and gigs in any order', () => {
+      const override = createOverride('merge', ['b:2', 'a:1'], { reason: 'Same show', now });
+
+      expect(override).toEqual({
+        id: createOverride('merge', ['a:1', 'b:2', 'a:1']).id,
+        action: 'merge',
+        keys: ['a:1', 'b:2'],
+        reason: 'Same show',
+        createdAt: '2024-03-01T10:00:00.000Z'
+      });
+      expect(override.id).toMatch(/^merge-/);
+      expect(createOverride('split', ['a:1', 'b:2']).id).not.toBe(override.id);
+    });
+
+    it('should reject overrides naming fewer than two gigs', () => {
+      expect(() => createOverride('split', ['a:1', 'a:1'])).toThrow(DedupeError);
+    });
+  });
+
+  describe('createOverrideRules', () => {
+    const rules = createOverrideRules([
+      createOverride('merge', ['a:1', 'b:2', 'c:3']),
+      createOverride('split', ['b:2', 'c:3'])
+    ]);
+
+    it('should answer for pairs of merged gigs by any of their keys', () => {
+      expect(rules.covers(['x:9', 'a:1'])).toBe(true);
+      expect(rules.covers(['x:9'])).toBe(false);
+      expect(rules.mustMerge(['a:1'], ['x:9', 'b:2'])).toBe(true);
+      expect(rules.mustMerge(['a:1'], ['x:9'])).toBe(false);
+    });
+
+    it('should let a split win over a merge', () => {
+      expect(rules.mustSplit(['c:3'], ['b:2'])).toBe(true);
+      expect(rules.mustMerge(['c:3'], ['b:2'])).toBe(false);
+      expect(rules.mustMerge(['a:1', 'c:3'], ['b:2'])).toBe(false);
+    });
+  });
+
+  describe('JsonFileOverrideStore', () => {
+    let dir: string;
+    let store: JsonFileOverrideStore;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dedupe-overrides-'));
+      store = new JsonFileOverrideStore(path.join(dir, 'data', 'overrides.json'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should start empty and keep saved overrides once', async () => {
+      const merge = createOverride('merge', ['a:1', 'b:2'], { now });
+
+      expect(await store.list()).toEqual([]);
+      await store.save(merge);
+      await store.save(merge);
+
+      expect(await store.list()).toEqual([merge]);
+      expect(JSON.parse(await fs.readFile(path.join(dir, 'data', 'overrides.json'), 'utf8'))).toEqual({ overrides: [merge] });
+    });
+
+    it('should replace overrides a new one contradicts', async () => {
+      const merge = createOverride('merge', ['a:1', 'b:2'], { now });
+      const otherMerge = createOverride('merge', ['a:1', 'd:4'], { now });
+      await store.save(merge);
+      await store.save(otherMerge);
+
+      const split = createOverride('split', ['a:1', 'b:2', 'c:3'], { now });
+      expect(await addOverride(store, split)).toEqual({ replaced: [merge], remainders: [] });
+      expect(await store.list()).toEqual([otherMerge, split]);
+
+      await store.remove([otherMerge.id]);
+      expect(await store.list()).toEqual([split]);
+    });
+
+    it('should only take the pairs a new override decides out of the ones it contradicts', async () => {
+      const split = createOverride('split', ['a:1', 'b:2', 'c:3'], { reason: 'Early and late shows', now });
+      await store.save(split);
+
+      const merge = createOverride('merge', ['a:1', 'b:2'], { now: new Date('2024-03-02T10:00:00Z') });
+      const { replaced, remainders } = await addOverride(store, merge);
+
+      expect(replaced).toEqual([split]);
+      expect(remainders.map(remainder => [remainder.action, remainder.keys, remainder.reason, remainder.createdAt])).toEqual([
+        ['split', ['a:1', 'c:3'], 'Early and late shows', now.toISOString()],
+        ['split', ['b:2', 'c:3'], 'Early and late shows', now.toISOString()]
+      ]);
+      expect(await store.list()).toEqual([...remainders, merge]);
+
+      const rules = createOverrideRules(await store.list());
+      expect(rules.mustMerge(['a:1'], ['b:2'])).toBe(true);
+      expect(rules.mustSplit(['a:1'], ['c:3'])).toBe(true);
+      expect(rules.mustSplit(['b:2'], ['c:3'])).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Tests for duplicate match review reports
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Gig } from '@gigateer/contracts';
+import {
+  createReviewReport,
+  decideReviewPair,
+  explainMatch,
+  readReviewDecisions,
+  recordReviewDecisions,
+  renderReviewReportHtml,
+  reviewPairId,
+  suggestThreshold,
+  ReviewDecision
+} from '../review';
+import { createOverride } from '../overrides';
+
+describe('Review', () => {
+  const createMockGig = (overrides: Partial<Gig> = {}): Gig => ({
+    id: 'thekla-the-cure',
+    source: 'bristol-thekla',
+    sourceId: 'tk-1',
+    title: 'The Cure',
+    artists: ['The Cure'],
+    genre: [],
+    dateStart: '2024-03-15T19:30:00Z',
+    venue: { name: 'Thekla', city: 'Bristol' },
+    status: 'scheduled',
+    images: [],
+    updatedAt: '2024-03-01T10:00:00Z',
+    hash: 'test-hash',
+    ...overrides
+  });
+
+  const venueSite = createMockGig();
+  // Borderline: same venue and night, but the aggregator words the title its own way
+  const aggregator = createMockGig({
+    id: 'gig-guide-cure',
+    source: 'gig-guide',
+    sourceId: 'gg-99',
+    title: 'Cure Tribute Night <Live>',
+    artists: ['The Cure', 'Support'],
+    dateStart: '2024-03-15T21:00:00Z'
+  });
+  // Certain: the same listing from another source
+  const ticketing = createMockGig({ id: 'tickets-cure', source: 'tickets', sourceId: 't-5' });
+
+  const decision = (confidence: number, verdict: ReviewDecision['verdict']): ReviewDecision => ({
+    pairId: `pair-${confidence}`,
+    keys: ['a:1', 'b:2'],
+    confidence,
+    verdict,
+    decidedAt: '2024-03-01T10:00:00.000Z'
+  });
+
+  describe('explainMatch', () => {
+    it('should break the confidence down into signals', () => {
+      const { match, signals } = explainMatch(venueSite, aggregator);
+
+      expect(signals.venueSimilarity).toBe(1);
+      expect(signals.locationSimilarity).toBe(1);
+      expect(signals.titleJaroWinkler).toBe(match.scores.title);
+      expect(signals.titleJaroWinkler).toBeLessThan(0.9);
+      expect(signals.timeDeltaMinutes).toBe(90);
+      expect(signals.artistOverlap).toBe(0.5);
+      expect(explainMatch(venueSite, createMockGig({ artists: [] })).signals.artistOverlap).toBeNull();
+    });
+  });
+
+  describe('createReviewReport', () => {
+    it('should list each pair in the band once, with its verdict', () => {
+      const { match } = explainMatch(venueSite, aggregator);
+      const pairId = reviewPairId(['gig-guide:gg-99', 'bristol-thekla:tk-1']);
+      const report = createReviewReport([venueSite, aggregator, ticketing], {
+        band: { min: match.confidence - 0.01, max: match.confidence + 0.01 },
+        decisions: [{ ...decision(match.confidence, 'reject'), pairId }]
+      });
+
+      const ids = report.pairs.map(pair => pair.id);
+
+      // The ticketing listing scores the same against the aggregator
+      expect(report.gigCount).toBe(3);
+      expect(ids).toEqual([pairId, reviewPairId(['gig-guide:gg-99', 'tickets:t-5'])]);
+      expect(ids).not.toContain(reviewPairId(['bristol-thekla:tk-1', 'tickets:t-5']));
+      expect(report.pairs[0]).toMatchObject({
+        confidence: match.confidence,
+        aboveThreshold: match.isMatch,
+        verdict: 'reject'
+      });
+      expect(report.pairs[0].gigs.map(gig => gig.key)).toEqual(['bristol-thekla:tk-1', 'gig-guide:gg-99']);
+    });
+
+    it('should leave out pairs from one source and pairs an override settles', () => {
+      const band = { min: 0, max: 1 };
+      const sameSource = createMockGig({ id: 'thekla-the-cure-late', sourceId: 'tk-2' });
+
+      expect(createReviewReport([venueSite, sameSource], { band }).pairs).toEqual([]);
+      expect(createReviewReport([venueSite, aggregator], {
+        band,
+        overrides: [createOverride('split', ['bristol-thekla:tk-1', 'gig-guide:gg-99'])]
+      }).pairs).toEqual([]);
+    });
+  });
+
+  describe('suggestThreshold', () => {
+    it('should suggest the threshold that agrees with the most decisions', () => {
+      const suggestion = suggestThreshold([
+        decision(0.62, 'reject'),
+        decision(0.66, 'reject'),
+        decision(0.76, 'reject'),
+        decision(0.74, 'accept'),
+        decision(0.8, 'accept'),
+        decision(0.68, 'accept')
+      ]);
+
+      expect(suggestion).toEqual({
+        threshold: 0.67,
+        accuracy: 5 / 6,
+        accepted: 3,
+        rejected: 3,
+        falseMerges: 1,
+        missedMerges: 0
+      });
+    });
+
+    it('should only move the threshold as far as the decisions ask', () => {
+      expect(suggestThreshold([decision(0.9, 'accept')], 0.7).threshold).toBe(0.7);
+      expect(suggestThreshold([decision(0.62, 'accept'), decision(0.5, 'reject')], 0.7).threshold).toBe(0.56);
+      expect(suggestThreshold([decision(0.75, 'reject')], 0.7).threshold).toBe(0.76);
+      expect(suggestThreshold([]).threshold).toBeNull();
+    });
+  });
+
+  describe('decisions file', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dedupe-review-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should keep the latest verdict on each pair', async () => {
+      const filePath = path.join(dir, 'decisions.json');
+      const [pair] = createReviewReport([venueSite, aggregator], { band: { min: 0, max: 1 } }).pairs;
+      const now = new Date('2024-03-02T10:00:00Z');
+
+      expect(await readReviewDecisions(filePath)).toEqual([]);
+      await recordReviewDecisions(filePath, [decision(0.7, 'accept'), decideReviewPair(pair, 'accept', now)]);
+      await recordReviewDecisions(filePath, [decideReviewPair(pair, 'reject', now)]);
+
+      expect(await readReviewDecisions(filePath)).toEqual([
+        decision(0.7, 'accept'),
+        {
+          pairId: pair.id,
+          keys: ['bristol-thekla:tk-1', 'gig-guide:gg-99'],
+          confidence: pair.confidence,
+          verdict: 'reject',
+          decidedAt: '2024-03-02T10:00:00.000Z'
+        }
+      ]);
+    });
+  });
+
+  describe('renderReviewReportHtml', () => {
+    it('should escape listings and preselect earlier verdicts', () => {
+      const report = createReviewReport([venueSite, aggregator], { band: { min: 0, max: 1 } });
+      report.pairs[0].verdict = 'accept';
+      const html = renderReviewReportHtml(report);
+
+      expect(html).toContain('Cure Tribute Night &lt;Live&gt;');
+      expect(html).not.toContain('<Live>');
+      expect(html).toContain(`name="${report.pairs[0].id}" value="accept" checked`);
+      expect(html).toContain('Time apart 90 min');
+    });
+  });
+});
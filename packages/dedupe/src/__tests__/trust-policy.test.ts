@@ -0,0 +1,149 @@
+/**
+ * Tests for field-level trust policies and merging by them
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Gig } from '@gigateer/contracts';
+import { loadTrustPolicy, validateTrustPolicy, DEFAULT_TRUST_POLICY, TrustPolicy } from '../trust-policy';
+import { getFieldTrustScore, getPolicyTrustScore, mergeTrustedData } from '../trust-score';
+import { DedupeError } from '../error-handling';
+
+describe('Trust Policy', () => {
+  const createMockGig = (overrides: Partial<Gig> = {}): Gig => ({
+    id: 'thekla-the-cure',
+    source: 'bristol-thekla',
+    sourceId: 'tk-1',
+    title: 'The Cure',
+    artists: ['The Cure'],
+    genre: [],
+    tags: [],
+    dateStart: '2024-03-15T19:30:00Z',
+    venue: { name: 'Thekla', city: 'Bristol' },
+    status: 'scheduled',
+    images: ['https://thekla.example/cure.jpg'],
+    updatedAt: '2024-03-01T10:00:00Z',
+    hash: 'test-hash',
+    ...overrides
+  });
+
+  const policy: TrustPolicy = {
+    ...DEFAULT_TRUST_POLICY,
+    sources: {
+      'bristol-thekla': { trust: 80, kind: 'venue' },
+      'tickets-r-us': { trust: 70, kind: 'ticketing' },
+      'gig-guide': { trust: 90, fields: { title: 50 } }
+    }
+  };
+
+  const venueSite = createMockGig({ price: { min: 20, max: null, currency: 'GBP' } });
+  const ticketing = createMockGig({
+    id: 'tickets-cure',
+    source: 'tickets-r-us',
+    title: 'THE CURE - Songs Of A Lost World',
+    dateStart: '2024-03-15T19:00:00Z',
+    price: { min: 25, max: 35, currency: 'GBP' },
+    ticketsUrl: 'https://tickets.example/cure',
+    images: ['https://tickets.example/cure.png']
+  });
+  const aggregator = createMockGig({
+    id: 'gig-guide-cure',
+    source: 'gig-guide',
+    title: 'Cure',
+    artists: ['The Cure', 'Mogwai'],
+    dateStart: '2024-03-15T20:00:00Z',
+    venue: { name: 'The Thekla', address: 'The Grove', city: 'Bristol' },
+    ageRestriction: '14+',
+    images: ['https://thekla.example/cure.jpg'],
+    updatedAt: '2024-03-02T10:00:00Z'
+  });
+
+  describe('getFieldTrustScore', () => {
+    it('should prefer the source\'s own field trust, then its kind\'s, then its trust score', () => {
+      expect(getFieldTrustScore('gig-guide', 'title', {}, policy)).toBe(50);
+      expect(getFieldTrustScore('bristol-thekla', 'dateStart', {}, policy)).toBe(100);
+      expect(getFieldTrustScore('bristol-thekla', 'price', {}, policy)).toBe(80);
+      expect(getFieldTrustScore('bristol-thekla', 'price', { 'bristol-thekla': 60 }, policy)).toBe(60);
+      expect(getPolicyTrustScore('unknown-source', {}, policy)).toBe(30);
+    });
+  });
+
+  describe('mergeTrustedData', () => {
+    it('should take each field from the source most trusted for it', () => {
+      const merged = mergeTrustedData([ticketing, aggregator, venueSite], {}, policy);
+
+      // The aggregator is the most trusted source overall
+      expect(merged.id).toBe('gig-guide-cure');
+      expect(merged.title).toBe('The Cure');
+      expect(merged.dateStart).toBe('2024-03-15T19:30:00Z');
+      expect(merged.price).toEqual({ min: 25, max: 35, currency: 'GBP' });
+      expect(merged.ticketsUrl).toBe('https://tickets.example/cure');
+      expect(merged.ageRestriction).toBe('14+');
+      expect(merged.venue).toEqual({ name: 'The Thekla', address: 'The Grove', city: 'Bristol' });
+      expect(merged.updatedAt).toBe('2024-03-02T10:00:00Z');
+    });
+
+    it('should collect images and artists from every source', () => {
+      const merged = mergeTrustedData([ticketing, aggregator, venueSite], {}, policy);
+
+      expect(merged.images).toEqual(['https://thekla.example/cure.jpg', 'https://tickets.example/cure.png']);
+      expect(merged.artists).toEqual(['The Cure', 'Mogwai']);
+    });
+
+    it('should record the source of each field', () => {
+      const merged = mergeTrustedData([ticketing, aggregator, venueSite], {}, policy);
+
+      expect(merged.provenance).toMatchObject({
+        title: 'bristol-thekla',
+        dateStart: 'bristol-thekla',
+        price: 'tickets-r-us',
+        ticketsUrl: 'tickets-r-us',
+        ageRestriction: 'gig-guide',
+        venue: 'gig-guide',
+        images: ['gig-guide', 'tickets-r-us'],
+        artists: ['gig-guide']
+      });
+      expect(merged.provenance).not.toHaveProperty('dateEnd');
+    });
+
+    it('should keep the provenance of gigs merged earlier', () => {
+      const earlier = mergeTrustedData([ticketing, venueSite], {}, policy) as Gig;
+      const merged = mergeTrustedData([earlier, aggregator], {}, policy);
+
+      expect(merged.provenance).toMatchObject({ dateStart: 'bristol-thekla', price: 'tickets-r-us' });
+    });
+  });
+
+  describe('loadTrustPolicy', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dedupe-trust-policy-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should read a policy file on top of the default policy', async () => {
+      const filePath = path.join(dir, 'trust-policy.json');
+      await fs.writeFile(filePath, JSON.stringify({ sources: { 'bristol-thekla': { trust: 85, kind: 'venue' } } }));
+
+      const loaded = await loadTrustPolicy(filePath);
+
+      expect(loaded.sources).toMatchObject({ 'bristol-thekla': { trust: 85, kind: 'venue' }, ticketmaster: { kind: 'ticketing' } });
+      expect(loaded.kinds).toEqual(DEFAULT_TRUST_POLICY.kinds);
+      expect(loaded.collect).toEqual(DEFAULT_TRUST_POLICY.collect);
+      expect(await loadTrustPolicy(path.join(dir, 'missing.json'))).toBe(DEFAULT_TRUST_POLICY);
+    });
+
+    it('should reject unknown fields, kinds and out-of-range scores', () => {
+      expect(() => validateTrustPolicy({ sources: { a: { trust: 120 } } })).toThrow(DedupeError);
+      expect(() => validateTrustPolicy({ sources: { a: { kind: 'promoter' } } })).toThrow(/names no kind/);
+      expect(() => validateTrustPolicy({ kinds: { venue: { doorsOpen: 100 } } })).toThrow(/not a field merged by trust/);
+      expect(() => validateTrustPolicy({ collect: ['title'] })).toThrow(DedupeError);
+      expect(validateTrustPolicy({ sources: { a: { kind: 'venue' } } }, ['venue'])).toEqual({ sources: { a: { kind: 'venue' } } });
+    });
+  });
+});
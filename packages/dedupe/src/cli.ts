@@ -6,12 +6,39 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { Gig } from '@gigateer/contracts';
 import { generateCatalog, updateCatalog, compareCatalogs, CatalogGenerationOptions } from './catalog-generator.js';
 import { batchValidateGigs } from './error-handling.js';
 import { DEFAULT_TRUST_SCORES } from './trust-score.js';
+import { loadTrustPolicy } from './trust-policy.js';
+import { MongoClient } from 'mongodb';
+import {
+  addOverride,
+  createOverride,
+  overrideKeyFor,
+  JsonFileOverrideStore,
+  MongoOverrideStore,
+  OVERRIDES_COLLECTION,
+  OverrideAction,
+  OverrideStore
+} from './overrides.js';
+import {
+  createReviewReport,
+  decideReviewPair,
+  readReviewDecisions,
+  recordReviewDecisions,
+  renderReviewReportHtml,
+  suggestThreshold,
+  DEFAULT_REVIEW_BAND,
+  ReviewReport,
+  ReviewVerdict
+} from './review.js';
 
 interface CLIOptions {
-  command: 'generate' | 'update' | 'validate' | 'compare' | 'help';
+  command: 'generate' | 'update' | 'validate' | 'compare' | 'merge' | 'split' | 'list-overrides' |
+    'review' | 'accept' | 'reject' | 'import-decisions' | 'tune-threshold' | 'help';
+  /** Gig IDs or override keys given to merge and split, pair IDs given to accept and reject */
+  gigs: string[];
   sourcesDir: string;
   outputPath: string;
   oldCatalogPath?: string;
@@ -20,9 +47,18 @@ interface CLIOptions {
   requireSameDay?: boolean;
   validateInput?: boolean;
   maxFileAgeHours?: number;
-  trustScores?: string; // JSON string
+  trustScores?: string;
+  trustPolicyPath: string; // JSON string
   verbose?: boolean;
   dryRun?: boolean;
+  overridesPath: string;
+  mongo?: boolean;
+  reason?: string;
+  json?: boolean;
+  reportPath: string;
+  decisionsPath: string;
+  bandMin: number;
+  bandMax: number;
 }
 
 /**
@@ -32,6 +68,7 @@ function parseArgs(): CLIOptions {
   const args = process.argv.slice(2);
   const options: Partial<CLIOptions> = {
     command: 'generate',
+    gigs: [],
     sourcesDir: './data/sources',
     outputPath: './data/catalog.json',
     minConfidence: 0.7,
@@ -40,7 +77,15 @@ function parseArgs(): CLIOptions {
     validateInput: true,
     maxFileAgeHours: 24,
     verbose: false,
-    dryRun: false
+    dryRun: false,
+    overridesPath: './data/dedupe-overrides.json',
+    trustPolicyPath: './data/trust-policy.json',
+    mongo: false,
+    json: false,
+    reportPath: './data/dedupe-review.json',
+    decisionsPath: './data/dedupe-review-decisions.json',
+    bandMin: DEFAULT_REVIEW_BAND.min,
+    bandMax: DEFAULT_REVIEW_BAND.max
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -52,6 +97,14 @@ function parseArgs(): CLIOptions {
       case 'update':
       case 'validate':
       case 'compare':
+      case 'merge':
+      case 'split':
+      case 'list-overrides':
+      case 'review':
+      case 'accept':
+      case 'reject':
+      case 'import-decisions':
+      case 'tune-threshold':
       case 'help':
         options.command = arg;
         break;
@@ -101,6 +154,11 @@ function parseArgs(): CLIOptions {
         i++;
         break;
       
+      case '--trust-policy':
+        if (next) options.trustPolicyPath = next;
+        i++;
+        break;
+      
       case '--verbose':
       case '-v':
         options.verbose = true;
@@ -110,6 +168,44 @@ function parseArgs(): CLIOptions {
         options.dryRun = true;
         break;
       
+      case '--overrides':
+        if (next) options.overridesPath = next;
+        i++;
+        break;
+      
+      case '--mongo':
+        options.mongo = true;
+        break;
+      
+      case '--reason':
+        if (next) options.reason = next;
+        i++;
+        break;
+      
+      case '--json':
+        options.json = true;
+        break;
+      
+      case '--report':
+        if (next) options.reportPath = next;
+        i++;
+        break;
+      
+      case '--decisions':
+        if (next) options.decisionsPath = next;
+        i++;
+        break;
+      
+      case '--band-min':
+        if (next) options.bandMin = parseFloat(next);
+        i++;
+        break;
+      
+      case '--band-max':
+        if (next) options.bandMax = parseFloat(next);
+        i++;
+        break;
+      
       case '--help':
       case '-h':
         options.command = 'help';
@@ -118,6 +214,8 @@ function parseArgs(): CLIOptions {
       default:
         if (arg.startsWith('-')) {
           console.warn(`Unknown option: ${arg}`);
+        } else {
+          options.gigs!.push(arg);
         }
         break;
     }
@@ -141,6 +239,14 @@ COMMANDS:
   update      Update existing catalog with change tracking
   validate    Validate source files without generating catalog
   compare     Compare two catalog files
+  merge       Always merge the given gigs, whatever they score
+  split       Never merge any two of the given gigs
+  list-overrides  List merge and split overrides
+  review      Write a report of borderline pairs to accept or reject (JSON and HTML)
+  accept      Mark reviewed pairs as the same show
+  reject      Mark reviewed pairs as different shows
+  import-decisions  Record the decisions file downloaded from the HTML report
+  tune-threshold    Suggest a --min-confidence from the review decisions
   help        Show this help message
 
 OPTIONS:
@@ -153,8 +259,17 @@ OPTIONS:
   --no-validate               Skip input validation
   --max-age <hours>           Maximum age of source files in hours (default: 24)
   --trust-scores <json>       Custom trust scores as JSON string
+  --trust-policy <path>       Per-source, per-field trust (default: ./data/trust-policy.json)
   -v, --verbose               Verbose output
   --dry-run                   Show what would be done without writing files
+  --overrides <path>          Overrides file (default: ./data/dedupe-overrides.json)
+  --mongo                     Keep overrides in MongoDB (MONGODB_CONNECTION_STRING) instead
+  --reason <text>             Why the gigs are merged or split (merge/split commands)
+  --json                      Print overrides or a threshold suggestion as JSON
+  --report <path>             Review report (default: ./data/dedupe-review.json, HTML beside it)
+  --decisions <path>          Review decisions (default: ./data/dedupe-review-decisions.json)
+  --band-min <number>         Lowest confidence to review (default: ${DEFAULT_REVIEW_BAND.min})
+  --band-max <number>         Highest confidence to review (default: ${DEFAULT_REVIEW_BAND.max})
   -h, --help                  Show this help message
 
 EXAMPLES:
@@ -175,6 +290,23 @@ EXAMPLES:
 
   # Use custom trust scores
   dedupe-cli generate --trust-scores '{"my-source": 95, "other-source": 60}'
+
+  # Merge a missed duplicate, naming one gig by ID and one by source and source ID
+  dedupe-cli merge bristol-thekla-the-cure-2026-05-01 gig-guide:gg-99 --reason "Same show"
+
+  # Keep two support-act shows apart
+  dedupe-cli split bristol-fleece:123 bristol-fleece-late:124 --mongo
+
+  # Review borderline pairs, record verdicts and tune the threshold
+  dedupe-cli review
+  dedupe-cli accept pair-1a2b3c4d5e6f
+  dedupe-cli reject pair-6f5e4d3c2b1a
+  dedupe-cli tune-threshold
+
+Overrides name gigs by source and source ID (source:sourceId), so they still apply after
+a re-ingest changes gig IDs. A gig ID is looked up in the source files, or in the gigs
+collection with --mongo. Merging gigs a split override names replaces that override, and
+the other way round.
 `);
 }
 
@@ -203,7 +335,9 @@ async function generateCommand(options: CLIOptions): Promise<void> {
       minConfidence: options.minConfidence,
       dateToleranceHours: options.dateToleranceHours,
       requireSameDay: options.requireSameDay,
-      customTrustScores
+      customTrustScores,
+      trustPolicy: await loadTrustPolicy(options.trustPolicyPath),
+      overrides: await loadOverrides(options)
     }
   };
 
@@ -257,7 +391,9 @@ async function updateCommand(options: CLIOptions): Promise<void> {
       minConfidence: options.minConfidence,
       dateToleranceHours: options.dateToleranceHours,
       requireSameDay: options.requireSameDay,
-      customTrustScores
+      customTrustScores,
+      trustPolicy: await loadTrustPolicy(options.trustPolicyPath),
+      overrides: await loadOverrides(options)
     }
   };
 
@@ -418,6 +554,273 @@ async function compareCommand(options: CLIOptions): Promise<void> {
   }
 }
 
+/**
+ * Override store the options select, with a way to look up the override key of a gig ID
+ */
+async function openOverrideStore(options: CLIOptions): Promise<{
+  store: OverrideStore;
+  findGig: (gigId: string) => Promise<{ id: string; source: string; sourceId?: string } | null>;
+  close: () => Promise<void>;
+}> {
+  if (options.mongo) {
+    const connectionString = process.env.MONGODB_CONNECTION_STRING;
+    if (!connectionString) {
+      throw new Error('MONGODB_CONNECTION_STRING is required for --mongo');
+    }
+
+    const client = await MongoClient.connect(connectionString);
+    const db = client.db(process.env.MONGODB_DATABASE_NAME || 'gigateer');
+
+    return {
+      store: new MongoOverrideStore(db.collection(OVERRIDES_COLLECTION)),
+      findGig: async gigId => {
+        const gig = await db.collection('gigs').findOne({ gigId });
+        return gig ? { id: gig.gigId, source: gig.source, sourceId: gig.sourceId } : null;
+      },
+      close: () => client.close()
+    };
+  }
+
+  return {
+    store: new JsonFileOverrideStore(options.overridesPath),
+    findGig: async gigId => (await readSourceGigs(options.sourcesDir)).find(gig => gig.id === gigId) ?? null,
+    close: async () => {}
+  };
+}
+
+/**
+ * Gigs in the normalized source files
+ */
+async function readSourceGigs(sourcesDir: string): Promise<Gig[]> {
+  const files = (await fs.readdir(sourcesDir)).filter(f => f.endsWith('.normalized.json'));
+  const gigs: Gig[] = [];
+
+  for (const filename of files) {
+    const sourceFile = JSON.parse(await fs.readFile(path.join(sourcesDir, filename), 'utf8'));
+    gigs.push(...(Array.isArray(sourceFile.gigs) ? sourceFile.gigs : []));
+  }
+
+  return gigs;
+}
+
+/**
+ * Overrides for catalog deduplication
+ */
+async function loadOverrides(options: CLIOptions) {
+  const { store, close } = await openOverrideStore(options);
+  try {
+    return await store.list();
+  } finally {
+    await close();
+  }
+}
+
+/**
+ * Merge and split commands
+ */
+async function overrideCommand(options: CLIOptions, action: OverrideAction): Promise<void> {
+  if (options.gigs.length < 2) {
+    console.error(`❌ ${action} needs at least two gig IDs or source:sourceId keys`);
+    process.exit(1);
+  }
+
+  const { store, findGig, close } = await openOverrideStore(options);
+
+  try {
+    // A colon marks an override key; anything else is a gig ID
+    const keys: string[] = [];
+    for (const arg of options.gigs) {
+      if (arg.includes(':')) {
+        keys.push(arg);
+        continue;
+      }
+
+      const gig = await findGig(arg);
+      if (!gig) {
+        console.error(`❌ Gig not found: ${arg}. Name it by source:sourceId instead.`);
+        process.exit(1);
+      }
+      keys.push(overrideKeyFor(gig));
+    }
+
+    const override = createOverride(action, keys, { reason: options.reason });
+
+    if (options.dryRun) {
+      console.log(`DRY RUN: Would add override:`, override);
+      return;
+    }
+
+    const { replaced, remainders } = await addOverride(store, override);
+
+    console.log(`✅ ${action === 'merge' ? 'Always merging' : 'Never merging'} ${override.keys.join(', ')} (${override.id})`);
+    for (const existing of replaced) {
+      console.log(`   - Replaced ${existing.action} override ${existing.id}: ${existing.keys.join(', ')}`);
+    }
+    for (const remainder of remainders) {
+      console.log(`   + Kept ${remainder.action} override ${remainder.id}: ${remainder.keys.join(', ')}`);
+    }
+    console.log(`   Applies from the next catalog generation.`);
+
+  } catch (error) {
+    console.error(`❌ Failed to add ${action} override:`, error);
+    process.exit(1);
+  } finally {
+    await close();
+  }
+}
+
+/**
+ * List overrides command
+ */
+async function listOverridesCommand(options: CLIOptions): Promise<void> {
+  try {
+    const overrides = await loadOverrides(options);
+
+    if (options.json) {
+      console.log(JSON.stringify(overrides, null, 2));
+      return;
+    }
+
+    if (overrides.length === 0) {
+      console.log('No overrides');
+      return;
+    }
+
+    console.log(`📋 Overrides (${overrides.length}):`);
+    for (const override of overrides) {
+      const emoji = override.action === 'merge' ? '🔗' : '✂️ ';
+      console.log(`   ${emoji} ${override.action} ${override.id} (${override.createdAt})`);
+      console.log(`      ${override.keys.join(', ')}`);
+      if (override.reason) {
+        console.log(`      Reason: ${override.reason}`);
+      }
+    }
+
+  } catch (error) {
+    console.error('❌ Failed to list overrides:', error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Review report command
+ */
+async function reviewCommand(options: CLIOptions): Promise<void> {
+  try {
+    const report = createReviewReport(await readSourceGigs(options.sourcesDir), {
+      band: { min: options.bandMin, max: options.bandMax },
+      minConfidence: options.minConfidence,
+      dateToleranceHours: options.dateToleranceHours,
+      decisions: await readReviewDecisions(options.decisionsPath),
+      overrides: await loadOverrides(options)
+    });
+    const htmlPath = options.reportPath.replace(/\.json$/, '') + '.html';
+
+    if (options.dryRun) {
+      console.log(`DRY RUN: Would write ${report.pairs.length} pairs to ${options.reportPath} and ${htmlPath}`);
+      return;
+    }
+
+    await fs.mkdir(path.dirname(options.reportPath), { recursive: true });
+    await fs.writeFile(options.reportPath, JSON.stringify(report, null, 2), 'utf8');
+    await fs.writeFile(htmlPath, renderReviewReportHtml(report), 'utf8');
+
+    const undecided = report.pairs.filter(pair => !pair.verdict).length;
+    console.log(`✅ ${report.pairs.length} pairs to review from ${report.gigCount} gigs (${undecided} undecided)`);
+    console.log(`   Report: ${options.reportPath}`);
+    console.log(`   HTML: ${htmlPath}`);
+
+    if (options.verbose) {
+      for (const pair of report.pairs) {
+        console.log(`   ${pair.id} ${pair.confidence.toFixed(2)} ${pair.gigs[0].title} @ ${pair.gigs[0].venue} / ${pair.gigs[1].title} @ ${pair.gigs[1].venue}`);
+      }
+    }
+
+  } catch (error) {
+    console.error('❌ Failed to create review report:', error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Accept and reject commands
+ */
+async function decideCommand(options: CLIOptions, verdict: ReviewVerdict): Promise<void> {
+  if (options.gigs.length === 0) {
+    console.error(`❌ ${verdict} needs the IDs of pairs from the review report`);
+    process.exit(1);
+  }
+
+  try {
+    const report: ReviewReport = JSON.parse(await fs.readFile(options.reportPath, 'utf8'));
+    const decisions = options.gigs.map(pairId => {
+      const pair = report.pairs.find(candidate => candidate.id === pairId);
+      if (!pair) {
+        console.error(`❌ Pair not in ${options.reportPath}: ${pairId}`);
+        process.exit(1);
+      }
+      return decideReviewPair(pair, verdict);
+    });
+
+    const all = await recordReviewDecisions(options.decisionsPath, decisions);
+    console.log(`✅ Marked ${decisions.length} pairs as ${verdict === 'accept' ? 'the same show' : 'different shows'} (${all.length} decisions in ${options.decisionsPath})`);
+
+  } catch (error) {
+    console.error(`❌ Failed to ${verdict} pairs:`, error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Import decisions command
+ */
+async function importDecisionsCommand(options: CLIOptions): Promise<void> {
+  const [filePath] = options.gigs;
+  if (!filePath) {
+    console.error('❌ import-decisions needs the decisions file downloaded from the HTML report');
+    process.exit(1);
+  }
+
+  try {
+    const decisions = await readReviewDecisions(filePath);
+    const all = await recordReviewDecisions(options.decisionsPath, decisions);
+    console.log(`✅ Imported ${decisions.length} decisions (${all.length} in ${options.decisionsPath})`);
+
+  } catch (error) {
+    console.error('❌ Failed to import decisions:', error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Tune threshold command
+ */
+async function tuneThresholdCommand(options: CLIOptions): Promise<void> {
+  try {
+    const suggestion = suggestThreshold(await readReviewDecisions(options.decisionsPath), options.minConfidence);
+
+    if (options.json) {
+      console.log(JSON.stringify(suggestion, null, 2));
+      return;
+    }
+
+    if (suggestion.threshold === null) {
+      console.log(`No review decisions in ${options.decisionsPath}`);
+      return;
+    }
+
+    console.log(`📊 Threshold from ${suggestion.accepted + suggestion.rejected} decisions (${suggestion.accepted} same show, ${suggestion.rejected} different):`);
+    console.log(`   Suggested --min-confidence: ${suggestion.threshold} (current: ${options.minConfidence})`);
+    console.log(`   Agrees with: ${(suggestion.accuracy * 100).toFixed(1)}% of decisions`);
+    console.log(`   Still merged though rejected: ${suggestion.falseMerges}`);
+    console.log(`   Kept apart though accepted: ${suggestion.missedMerges}`);
+
+  } catch (error) {
+    console.error('❌ Failed to tune threshold:', error);
+    process.exit(1);
+  }
+}
+
 /**
  * Main CLI function
  */
@@ -445,6 +848,32 @@ async function main(): Promise<void> {
       await compareCommand(options);
       break;
     
+    case 'merge':
+    case 'split':
+      await overrideCommand(options, options.command);
+      break;
+    
+    case 'list-overrides':
+      await listOverridesCommand(options);
+      break;
+    
+    case 'review':
+      await reviewCommand(options);
+      break;
+    
+    case 'accept':
+    case 'reject':
+      await decideCommand(options, options.command);
+      break;
+    
+    case 'import-decisions':
+      await importDecisionsCommand(options);
+      break;
+    
+    case 'tune-threshold':
+      await tuneThresholdCommand(options);
+      break;
+    
     default:
       console.error(`❌ Unknown command: ${options.command}`);
       showHelp();
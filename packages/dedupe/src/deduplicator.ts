@@ -4,8 +4,11 @@
  */
 
 import { Gig } from '@gigateer/contracts';
-import { fuzzyMatchGigs, findPotentialDuplicates, groupGigsByFuzzyKeys, SIMILARITY_THRESHOLDS } from './utils/fuzzy-matching';
+import { fuzzyMatchGigs, findPotentialDuplicates, SIMILARITY_THRESHOLDS } from './utils/fuzzy-matching';
+import { createBlockingIndex } from './utils/blocking-index';
+import { createOverrideRules, overrideKeyFor, type DedupeOverride, type OverrideRules } from './overrides';
 import { getMostTrustedGig, mergeTrustedData, createSourceMetadata } from './trust-score';
+import { DEFAULT_TRUST_POLICY, type TrustPolicy } from './trust-policy';
 import { createGigContentHash, createCompositeKey } from './utils/hash-utils';
 
 /**
@@ -45,8 +48,16 @@ export interface DeduplicationOptions {
   requireSameDay?: boolean;
   /** Custom trust scores for sources */
   customTrustScores?: Record<string, number>;
+  /** Per-source, per-field trust for merging duplicates */
+  trustPolicy?: TrustPolicy;
   /** Whether to preserve original IDs in merged gigs */
   preserveOriginalIds?: boolean;
+  /** Whether to only compare gigs sharing a blocking key; off compares every pair */
+  blocking?: boolean;
+  /** Whether to only fuzzy match gigs from different sources, keeping look-alike listings from one source apart */
+  crossSourceOnly?: boolean;
+  /** Manual merge and split overrides, applied before any gigs are scored */
+  overrides?: DedupeOverride[];
 }
 
 /**
@@ -64,7 +75,11 @@ export function deduplicateGigs(
     dateToleranceHours = 2,
     requireSameDay = false,
     customTrustScores = {},
-    preserveOriginalIds = false
+    trustPolicy = DEFAULT_TRUST_POLICY,
+    preserveOriginalIds = false,
+    blocking = true,
+    crossSourceOnly = false,
+    overrides = []
   } = options;
 
   if (gigs.length === 0) {
@@ -76,18 +91,39 @@ export function deduplicateGigs(
     };
   }
 
+  // Override keys of the gigs merged into each gig, by gig ID
+  const keysById = new Map<string, string[]>();
+  for (const gig of gigs) {
+    keysById.set(gig.id, [...(keysById.get(gig.id) || []), overrideKeyFor(gig)]);
+  }
+  const rules = createOverrideRules(overrides);
+  const keysOf = (gig: Gig) => keysById.get(gig.id) || [overrideKeyFor(gig)];
+
   // Step 1: Primary key deduplication (exact ID matches)
   const primaryDeduped = deduplicateByPrimaryKey(gigs);
   
-  // Step 2: Fuzzy matching for near-duplicates
+  // Step 2: Merge overrides, whatever the gigs score
+  const overridden = deduplicateByMergeOverrides(primaryDeduped.gigs, {
+    rules,
+    keysById,
+    customTrustScores,
+    trustPolicy,
+    preserveOriginalIds
+  });
+  
+  // Step 3: Fuzzy matching for near-duplicates
   const fuzzyDeduped = deduplicateByFuzzyMatching(
-    primaryDeduped.gigs,
+    overridden.gigs,
     {
       minConfidence,
       dateToleranceHours,
       requireSameDay,
       customTrustScores,
-      preserveOriginalIds
+      trustPolicy,
+      preserveOriginalIds,
+      blocking,
+      crossSourceOnly,
+      isSplit: (gig, other) => rules.mustSplit(keysOf(gig), keysOf(other))
     }
   );
 
@@ -96,8 +132,8 @@ export function deduplicateGigs(
 
   return {
     dedupedGigs: fuzzyDeduped.gigs,
-    duplicatesRemoved: primaryDeduped.duplicatesRemoved + fuzzyDeduped.duplicatesRemoved,
-    mergedGroups: primaryDeduped.mergedGroups + fuzzyDeduped.mergedGroups,
+    duplicatesRemoved: primaryDeduped.duplicatesRemoved + overridden.duplicatesRemoved + fuzzyDeduped.duplicatesRemoved,
+    mergedGroups: primaryDeduped.mergedGroups + overridden.mergedGroups + fuzzyDeduped.mergedGroups,
     sourceStats
   };
 }
@@ -148,6 +184,74 @@ function deduplicateByPrimaryKey(gigs: Gig[]): {
   };
 }
 
+/**
+ * Merge the gigs merge overrides name, unless a split override keeps two of them apart
+ * @param gigs Input gigs (after primary dedup)
+ * @param options Override rules, the override keys of each gig (updated with those of
+ * merged gigs) and merge options
+ * @returns Override deduplication result
+ */
+function deduplicateByMergeOverrides(
+  gigs: Gig[],
+  options: {
+    rules: OverrideRules;
+    keysById: Map<string, string[]>;
+    customTrustScores: Record<string, number>;
+    trustPolicy: TrustPolicy;
+    preserveOriginalIds: boolean;
+  }
+): {
+  gigs: Gig[];
+  duplicatesRemoved: number;
+  mergedGroups: number;
+} {
+  const { rules, keysById, customTrustScores, trustPolicy, preserveOriginalIds } = options;
+  const keysOf = (gig: Gig) => keysById.get(gig.id) || [overrideKeyFor(gig)];
+
+  // Only gigs an override names can be merged here, so comparing their pairs is cheap
+  const groups: Gig[][] = [];
+  for (const gig of gigs.filter(gig => rules.covers(keysOf(gig)))) {
+    const joined = groups.filter(group => group.some(member => rules.mustMerge(keysOf(gig), keysOf(member))));
+    const members = [gig, ...joined.flat()];
+    const splitApart = members.some((member, i) =>
+      members.slice(i + 1).some(other => rules.mustSplit(keysOf(member), keysOf(other)))
+    );
+
+    if (joined.length === 0 || splitApart) {
+      groups.push([gig]);
+    } else {
+      groups.splice(0, groups.length, ...groups.filter(group => !joined.includes(group)), members);
+    }
+  }
+
+  const mergedByGig = new Map<Gig, Gig | null>();
+  let mergedGroups = 0;
+
+  for (const group of groups.filter(group => group.length > 1)) {
+    const merged = mergeTrustedData(group, customTrustScores, trustPolicy) as Gig;
+    if (!preserveOriginalIds) {
+      merged.id = createCompositeKey(merged);
+    }
+    merged.hash = createGigContentHash(merged);
+    keysById.set(merged.id, group.flatMap(keysOf));
+
+    // The merged gig takes the place of its first member
+    group.forEach((member, i) => mergedByGig.set(member, i === 0 ? merged : null));
+    mergedGroups += 1;
+  }
+
+  const dedupedGigs = gigs.flatMap(gig => {
+    const merged = mergedByGig.get(gig);
+    return merged === undefined ? [gig] : merged === null ? [] : [merged];
+  });
+
+  return {
+    gigs: dedupedGigs,
+    duplicatesRemoved: gigs.length - dedupedGigs.length,
+    mergedGroups
+  };
+}
+
 /**
  * Deduplicate by fuzzy matching
  * @param gigs Input gigs (after primary dedup)
@@ -156,8 +260,10 @@ function deduplicateByPrimaryKey(gigs: Gig[]): {
  */
 function deduplicateByFuzzyMatching(
   gigs: Gig[],
-  options: Required<Omit<DeduplicationOptions, 'customTrustScores'>> & {
+  options: Required<Omit<DeduplicationOptions, 'customTrustScores' | 'overrides'>> & {
     customTrustScores: Record<string, number>;
+    /** Whether a split override keeps two gigs apart */
+    isSplit: (gig: Gig, other: Gig) => boolean;
   }
 ): {
   gigs: Gig[];
@@ -169,11 +275,15 @@ function deduplicateByFuzzyMatching(
     dateToleranceHours,
     requireSameDay,
     customTrustScores,
-    preserveOriginalIds
+    trustPolicy,
+    preserveOriginalIds,
+    blocking,
+    crossSourceOnly,
+    isSplit
   } = options;
 
-  // Group gigs by fuzzy keys for efficient comparison
-  const fuzzyGroups = groupGigsByFuzzyKeys(gigs);
+  // Index gigs by blocking keys so each gig is only scored against plausible duplicates
+  const index = blocking ? createBlockingIndex(gigs, { dateToleranceHours }) : null;
   
   const processed = new Set<string>();
   const dedupedGigs: Gig[] = [];
@@ -185,7 +295,8 @@ function deduplicateByFuzzyMatching(
     }
 
     // Find potential duplicates
-    const candidates = findCandidatesForGig(gig, fuzzyGroups);
+    const candidates = (index ? index.candidatesFor(gig) : gigs)
+      .filter(candidate => !(crossSourceOnly && candidate.source === gig.source) && !isSplit(gig, candidate));
     const duplicates = findPotentialDuplicates(gig, candidates, {
       dateToleranceHours,
       minConfidence
@@ -196,12 +307,20 @@ function deduplicateByFuzzyMatching(
       dedupedGigs.push(gig);
       processed.add(gig.id);
     } else {
-      // Found duplicates, create merge group
-      const allGigs = [gig, ...duplicates.map(d => d.gig)];
-      const unprocessedGigs = allGigs.filter(g => !processed.has(g.id));
+      // Found duplicates, create merge group without gigs a split override keeps apart
+      const unprocessedGigs = [gig];
+      for (const { gig: duplicate } of duplicates) {
+        if (!processed.has(duplicate.id) && !unprocessedGigs.some(member => isSplit(member, duplicate))) {
+          unprocessedGigs.push(duplicate);
+        }
+      }
       
-      if (unprocessedGigs.length > 1) {
-        const merged = mergeTrustedData(unprocessedGigs, customTrustScores) as Gig;
+      if (unprocessedGigs.length === 1) {
+        // Its duplicates are all in other groups already
+        dedupedGigs.push(gig);
+        processed.add(gig.id);
+      } else {
+        const merged = mergeTrustedData(unprocessedGigs, customTrustScores, trustPolicy) as Gig;
         
         // Generate new ID if not preserving originals
         if (!preserveOriginalIds) {
@@ -238,45 +357,6 @@ function deduplicateByFuzzyMatching(
   };
 }
 
-/**
- * Find candidates for fuzzy matching
- * @param gig Target gig
- * @param fuzzyGroups Grouped gigs by fuzzy keys
- * @returns Array of candidate gigs
- */
-function findCandidatesForGig(
-  gig: Gig,
-  fuzzyGroups: Map<string, Gig[]>
-): Gig[] {
-  const candidates = new Set<Gig>();
-  
-  // Create fuzzy keys for the target gig
-  const venue = gig.venue.name.toLowerCase().replace(/[^a-z0-9]/g, '');
-  const city = (gig.venue.city || '').toLowerCase().replace(/[^a-z0-9]/g, '');
-  const date = new Date(gig.dateStart);
-  const dateKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
-  
-  // Look for candidates using various key combinations
-  const searchKeys = [
-    `${venue}|${dateKey}`,
-    `${city}|${dateKey}`,
-    dateKey
-  ];
-  
-  for (const key of searchKeys) {
-    const group = fuzzyGroups.get(key);
-    if (group) {
-      group.forEach(candidate => {
-        if (candidate.id !== gig.id) {
-          candidates.add(candidate);
-        }
-      });
-    }
-  }
-  
-  return Array.from(candidates);
-}
-
 /**
  * Calculate source statistics
  * @param originalGigs Original gig array
@@ -16,7 +16,9 @@ export enum DedupeErrorType {
   INVALID_URL_FORMAT = 'INVALID_URL_FORMAT',
   HASH_GENERATION_FAILED = 'HASH_GENERATION_FAILED',
   SIMILARITY_CALCULATION_FAILED = 'SIMILARITY_CALCULATION_FAILED',
-  DATA_CORRUPTION = 'DATA_CORRUPTION'
+  DATA_CORRUPTION = 'DATA_CORRUPTION',
+  INVALID_OVERRIDE = 'INVALID_OVERRIDE',
+  INVALID_TRUST_POLICY = 'INVALID_TRUST_POLICY'
 }
 
 /**
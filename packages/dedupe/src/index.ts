@@ -12,6 +12,43 @@ export {
   type DuplicateGroup
 } from './deduplicator';
 
+// Manual overrides
+export {
+  overrideKeyFor,
+  createOverride,
+  addOverride,
+  createOverrideRules,
+  JsonFileOverrideStore,
+  MongoOverrideStore,
+  OVERRIDES_COLLECTION,
+  type OverrideAction,
+  type DedupeOverride,
+  type DedupeOverrideDocument,
+  type OverrideStore,
+  type OverrideRules,
+  type OverrideChange
+} from './overrides';
+
+// Match review
+export {
+  explainMatch,
+  createReviewReport,
+  reviewPairId,
+  decideReviewPair,
+  suggestThreshold,
+  readReviewDecisions,
+  recordReviewDecisions,
+  renderReviewReportHtml,
+  DEFAULT_REVIEW_BAND,
+  type MatchSignals,
+  type ReviewGig,
+  type ReviewPair,
+  type ReviewReport,
+  type ReviewVerdict,
+  type ReviewDecision,
+  type ThresholdSuggestion
+} from './review';
+
 // Catalog generation
 export {
   generateCatalog,
@@ -27,6 +64,8 @@ export {
 // Trust scoring
 export {
   getTrustScore,
+  getPolicyTrustScore,
+  getFieldTrustScore,
   compareTrustScores,
   getMostTrustedGig,
   mergeTrustedData,
@@ -35,6 +74,21 @@ export {
   DEFAULT_TRUST_SCORES
 } from './trust-score';
 
+// Trust policies
+export {
+  loadTrustPolicy,
+  validateTrustPolicy,
+  getDeclaredFieldTrust,
+  isCollectedField,
+  DEFAULT_TRUST_POLICY,
+  TRUST_FIELDS,
+  type TrustPolicy,
+  type SourceTrustPolicy,
+  type FieldTrust,
+  type TrustField,
+  type CollectedField
+} from './trust-policy';
+
 // Fuzzy matching
 export {
   fuzzyMatchGigs,
@@ -46,6 +100,14 @@ export {
   type FuzzyMatchResult
 } from './utils/fuzzy-matching';
 
+// Candidate blocking
+export {
+  createBlockingIndex,
+  createBlockingKeys,
+  type BlockingIndex,
+  type BlockingKeys
+} from './utils/blocking-index';
+
 // Hash utilities
 export {
   createStableHash,
@@ -0,0 +1,256 @@
+/**
+ * Manual merge and split overrides for deduplication decisions
+ * Overrides name gigs by their source and source ID, so they keep applying after a
+ * re-ingest gives the gigs new IDs
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { Collection } from 'mongodb';
+import { Gig } from '@gigateer/contracts';
+import { DedupeError, DedupeErrorType } from './error-handling';
+import { createStableHash } from './utils/hash-utils';
+
+/** MongoDB collection overrides are kept in */
+export const OVERRIDES_COLLECTION = 'dedupe_overrides';
+
+/**
+ * What an override does with its gigs
+ * - merge: always put them in one group, whatever they score
+ * - split: never put any two of them in one group
+ */
+export type OverrideAction = 'merge' | 'split';
+
+/**
+ * Manual deduplication override
+ */
+export interface DedupeOverride {
+  /** Derived from the action and keys, so a rule is only stored once */
+  id: string;
+  action: OverrideAction;
+  /** Override keys of the gigs (see overrideKeyFor), sorted */
+  keys: string[];
+  /** Why the override was added */
+  reason?: string;
+  /** When the override was added (ISO 8601) */
+  createdAt: string;
+}
+
+/**
+ * Override as stored in MongoDB
+ */
+export interface DedupeOverrideDocument extends Omit<DedupeOverride, 'createdAt'> {
+  createdAt: Date;
+}
+
+/**
+ * Where overrides are kept
+ */
+export interface OverrideStore {
+  list(): Promise<DedupeOverride[]>;
+  /** Insert an override, or replace the one with its ID */
+  save(override: DedupeOverride): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+}
+
+/**
+ * Rules for pairs of gigs, each named by the override keys of the gigs merged into it
+ */
+export interface OverrideRules {
+  /** Whether any override names one of the keys */
+  covers(keys: string[]): boolean;
+  /** Whether a merge override joins the two, and no split override keeps them apart */
+  mustMerge(keys: string[], otherKeys: string[]): boolean;
+  /** Whether a split override keeps the two apart */
+  mustSplit(keys: string[], otherKeys: string[]): boolean;
+}
+
+/**
+ * Key overrides use for a gig: its source and source ID, which stay the same when a
+ * re-ingest changes its ID. Gigs without a source ID fall back to the gig ID.
+ * @param gig Gig object
+ * @returns Override key
+ */
+export function overrideKeyFor(gig: Pick<Gig, 'id' | 'source' | 'sourceId'>): string {
+  return gig.sourceId ? `${gig.source}:${gig.sourceId}` : gig.id;
+}
+
+/**
+ * Create an override
+ * @param action Merge or split
+ * @param keys Override keys of at least two gigs
+ * @param options Override details
+ * @returns Override
+ */
+export function createOverride(
+  action: OverrideAction,
+  keys: string[],
+  options: {
+    reason?: string;
+    now?: Date;
+  } = {}
+): DedupeOverride {
+  const { reason, now = new Date() } = options;
+  const sortedKeys = [...new Set(keys)].sort();
+
+  if (sortedKeys.length < 2) {
+    throw new DedupeError(
+      DedupeErrorType.INVALID_OVERRIDE,
+      `A ${action} override needs at least two different gigs`
+    );
+  }
+
+  return {
+    id: `${action}-${createStableHash(sortedKeys).substring(0, 12)}`,
+    action,
+    keys: sortedKeys,
+    ...(reason ? { reason } : {}),
+    createdAt: now.toISOString()
+  };
+}
+
+/**
+ * What saving an override did to the overrides of the opposite action it contradicts
+ */
+export interface OverrideChange {
+  /** Overrides that named two of the new override's gigs */
+  replaced: DedupeOverride[];
+  /** What is left of them without the pairs the new override decides */
+  remainders: DedupeOverride[];
+}
+
+/**
+ * Save an override, taking the pairs it decides out of overrides of the opposite action:
+ * merging A and B takes the A-B pair out of a split of A, B and C, which stays as splits
+ * of A and C and of B and C.
+ * @param store Override store
+ * @param override Override to save
+ * @returns Overrides replaced and what is left of them
+ */
+export async function addOverride(store: OverrideStore, override: DedupeOverride): Promise<OverrideChange> {
+  const keys = new Set(override.keys);
+  const replaced = (await store.list()).filter(existing =>
+    existing.action !== override.action &&
+    existing.keys.filter(key => keys.has(key)).length >= 2
+  );
+
+  // Every pair left has a gig the new override doesn't name, so each shared gig keeps its
+  // pairs with those gigs
+  const remainders = replaced.flatMap(existing => {
+    const others = existing.keys.filter(key => !keys.has(key));
+    if (others.length === 0) return [];
+    return existing.keys
+      .filter(key => keys.has(key))
+      .map(shared => createOverride(existing.action, [...others, shared], {
+        reason: existing.reason,
+        now: new Date(existing.createdAt)
+      }));
+  });
+
+  if (replaced.length > 0) {
+    await store.remove(replaced.map(existing => existing.id));
+  }
+  for (const remainder of remainders) {
+    await store.save(remainder);
+  }
+  await store.save(override);
+
+  return { replaced, remainders };
+}
+
+/**
+ * Create pair rules from overrides. When a merge and a split override disagree about a
+ * pair, the split wins, as wrongly merged shows hide one of them.
+ * @param overrides Overrides
+ * @returns Override rules
+ */
+export function createOverrideRules(overrides: DedupeOverride[]): OverrideRules {
+  const mergePairs = new Set<string>();
+  const splitPairs = new Set<string>();
+  const covered = new Set<string>();
+
+  for (const override of overrides) {
+    const pairs = override.action === 'merge' ? mergePairs : splitPairs;
+    override.keys.forEach((key, i) => {
+      covered.add(key);
+      override.keys.slice(i + 1).forEach(other => pairs.add(pairKey(key, other)));
+    });
+  }
+
+  const anyPair = (pairs: Set<string>, keys: string[], otherKeys: string[]) =>
+    pairs.size > 0 && keys.some(key => otherKeys.some(other => pairs.has(pairKey(key, other))));
+
+  return {
+    covers: keys => keys.some(key => covered.has(key)),
+    mustMerge: (keys, otherKeys) => anyPair(mergePairs, keys, otherKeys) && !anyPair(splitPairs, keys, otherKeys),
+    mustSplit: (keys, otherKeys) => anyPair(splitPairs, keys, otherKeys)
+  };
+}
+
+/**
+ * Overrides kept in a JSON file, for the file-based catalog
+ */
+export class JsonFileOverrideStore implements OverrideStore {
+  constructor(private readonly filePath: string) {}
+
+  async list(): Promise<DedupeOverride[]> {
+    try {
+      const content = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      return Array.isArray(content.overrides) ? content.overrides : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async save(override: DedupeOverride): Promise<void> {
+    const overrides = (await this.list()).filter(existing => existing.id !== override.id);
+    await this.write([...overrides, override]);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const overrides = await this.list();
+    await this.write(overrides.filter(existing => !ids.includes(existing.id)));
+  }
+
+  // Written to a temporary file first so a crash never leaves half a file
+  private async write(overrides: DedupeOverride[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify({ overrides }, null, 2), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Overrides kept in a MongoDB collection, for the database-backed pipeline
+ */
+export class MongoOverrideStore implements OverrideStore {
+  constructor(private readonly collection: Collection<DedupeOverrideDocument>) {}
+
+  async list(): Promise<DedupeOverride[]> {
+    const documents = await this.collection.find({}).sort({ createdAt: 1 }).toArray();
+    return documents.map(({ _id, createdAt, ...override }) => ({
+      ...override,
+      createdAt: createdAt.toISOString()
+    }));
+  }
+
+  async save(override: DedupeOverride): Promise<void> {
+    await this.collection.replaceOne(
+      { id: override.id },
+      { ...override, createdAt: new Date(override.createdAt) },
+      { upsert: true }
+    );
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    await this.collection.deleteMany({ id: { $in: ids } });
+  }
+}
+
+function pairKey(key: string, other: string): string {
+  return key < other ? `${key}\n${other}` : `${other}\n${key}`;
+}
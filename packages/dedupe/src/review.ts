@@ -0,0 +1,439 @@
+/**
+ * Review reports for borderline duplicate matches
+ * Lists the pairs whose confidence falls in an uncertainty band with a breakdown of each
+ * signal, so an operator can accept or reject them and tune the threshold from the answers
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Gig } from '@gigateer/contracts';
+import { createBlockingIndex } from './utils/blocking-index';
+import { fuzzyMatchGigs, FuzzyMatchResult, SIMILARITY_THRESHOLDS } from './utils/fuzzy-matching';
+import { jaroWinklerSimilarity } from './utils/string-similarity';
+import { normalizeText, normalizeTitle, normalizeVenueName } from './utils/text-normalization';
+import { createStableHash } from './utils/hash-utils';
+import { createOverrideRules, DedupeOverride, overrideKeyFor } from './overrides';
+
+/**
+ * Confidence band pairs are reviewed in by default
+ */
+export const DEFAULT_REVIEW_BAND = {
+  min: 0.6,
+  max: 0.85
+};
+
+/**
+ * Why two gigs scored what they did
+ */
+export interface MatchSignals {
+  /** Jaro-Winkler similarity of the normalized titles */
+  titleJaroWinkler: number;
+  /** Jaro-Winkler similarity of the normalized venue names */
+  venueSimilarity: number;
+  /** Similarity of the cities, or of the addresses when either city is missing */
+  locationSimilarity: number;
+  /** Minutes between the start times, or null when either is not a valid date */
+  timeDeltaMinutes: number | null;
+  /** Share of the two artist lists in common (0-1), or null when either has none */
+  artistOverlap: number | null;
+}
+
+/**
+ * Gig as a review report shows it
+ */
+export interface ReviewGig {
+  id: string;
+  /** Override key (see overrideKeyFor) */
+  key: string;
+  source: string;
+  title: string;
+  artists: string[];
+  venue: string;
+  city?: string;
+  dateStart: string;
+  eventUrl?: string;
+}
+
+export type ReviewVerdict = 'accept' | 'reject';
+
+/**
+ * Pair of gigs up for review
+ */
+export interface ReviewPair {
+  /** Derived from the override keys of the two gigs, so it survives new gig IDs */
+  id: string;
+  gigs: [ReviewGig, ReviewGig];
+  confidence: number;
+  /** Whether the confidence reaches the threshold deduplication runs with */
+  aboveThreshold: boolean;
+  scores: FuzzyMatchResult['scores'];
+  signals: MatchSignals;
+  reasons: string[];
+  /** Verdict an operator gave the pair earlier */
+  verdict?: ReviewVerdict;
+}
+
+/**
+ * Review report
+ */
+export interface ReviewReport {
+  generatedAt: string;
+  band: { min: number; max: number };
+  minConfidence: number;
+  dateToleranceHours: number;
+  gigCount: number;
+  pairs: ReviewPair[];
+}
+
+/**
+ * Operator's verdict on a pair: accept means the two gigs are the same show
+ */
+export interface ReviewDecision {
+  pairId: string;
+  keys: [string, string];
+  /** Confidence the pair had when it was decided */
+  confidence: number;
+  verdict: ReviewVerdict;
+  decidedAt: string;
+}
+
+/**
+ * Threshold suggested by review decisions
+ */
+export interface ThresholdSuggestion {
+  /** Lowest confidence to merge at; null without any decisions */
+  threshold: number | null;
+  /** Share of decisions the threshold agrees with */
+  accuracy: number;
+  accepted: number;
+  rejected: number;
+  /** Rejected pairs the threshold still merges */
+  falseMerges: number;
+  /** Accepted pairs the threshold does not merge */
+  missedMerges: number;
+}
+
+/**
+ * Score two gigs and break the score down into the signals behind it
+ * @param gig1 First gig
+ * @param gig2 Second gig
+ * @param options Matching options
+ * @returns Match result and signals
+ */
+export function explainMatch(
+  gig1: Gig,
+  gig2: Gig,
+  options: {
+    dateToleranceHours?: number;
+    minConfidence?: number;
+  } = {}
+): { match: FuzzyMatchResult; signals: MatchSignals } {
+  const { dateToleranceHours = 2, minConfidence = SIMILARITY_THRESHOLDS.MEDIUM_SIMILARITY } = options;
+
+  const match = fuzzyMatchGigs(gig1, gig2, { dateToleranceHours, minOverallScore: minConfidence });
+  const start1 = new Date(gig1.dateStart).getTime();
+  const start2 = new Date(gig2.dateStart).getTime();
+  const artists1 = new Set((gig1.artists || []).map(normalizeText).filter(Boolean));
+  const artists2 = new Set((gig2.artists || []).map(normalizeText).filter(Boolean));
+  const shared = [...artists1].filter(artist => artists2.has(artist)).length;
+
+  return {
+    match,
+    signals: {
+      titleJaroWinkler: jaroWinklerSimilarity(normalizeTitle(gig1.title), normalizeTitle(gig2.title)),
+      venueSimilarity: jaroWinklerSimilarity(normalizeVenueName(gig1.venue.name), normalizeVenueName(gig2.venue.name)),
+      locationSimilarity: match.scores.location,
+      timeDeltaMinutes: isNaN(start1) || isNaN(start2) ? null : Math.round(Math.abs(start1 - start2) / 60000),
+      artistOverlap: artists1.size > 0 && artists2.size > 0
+        ? shared / new Set([...artists1, ...artists2]).size
+        : null
+    }
+  };
+}
+
+/**
+ * Build a review report of the pairs deduplication would score whose confidence falls in
+ * the band. Pairs are those the blocking index puts forward from different sources;
+ * pairs an override already settles are left out.
+ * @param gigs Gigs to review
+ * @param options Report options
+ * @returns Review report, most confident pairs first
+ */
+export function createReviewReport(
+  gigs: Gig[],
+  options: {
+    band?: { min: number; max: number };
+    minConfidence?: number;
+    dateToleranceHours?: number;
+    decisions?: ReviewDecision[];
+    overrides?: DedupeOverride[];
+    now?: Date;
+  } = {}
+): ReviewReport {
+  const {
+    band = DEFAULT_REVIEW_BAND,
+    minConfidence = SIMILARITY_THRESHOLDS.MEDIUM_SIMILARITY,
+    dateToleranceHours = 2,
+    decisions = [],
+    overrides = [],
+    now = new Date()
+  } = options;
+
+  const rules = createOverrideRules(overrides);
+  const verdicts = new Map(decisions.map(decision => [decision.pairId, decision.verdict]));
+  const index = createBlockingIndex(gigs, { dateToleranceHours });
+  const seen = new Set<string>();
+  const pairs: ReviewPair[] = [];
+
+  for (const gig of gigs) {
+    for (const candidate of index.candidatesFor(gig)) {
+      const keys = [overrideKeyFor(gig), overrideKeyFor(candidate)];
+      const id = reviewPairId(keys);
+      if (candidate.source === gig.source || seen.has(id)) continue;
+      seen.add(id);
+
+      if (rules.mustMerge([keys[0]], [keys[1]]) || rules.mustSplit([keys[0]], [keys[1]])) continue;
+
+      const { match, signals } = explainMatch(gig, candidate, { dateToleranceHours, minConfidence });
+      if (match.confidence < band.min || match.confidence > band.max) continue;
+
+      const verdict = verdicts.get(id);
+      pairs.push({
+        id,
+        gigs: [toReviewGig(gig), toReviewGig(candidate)],
+        confidence: match.confidence,
+        aboveThreshold: match.isMatch,
+        scores: match.scores,
+        signals,
+        reasons: match.reasons,
+        ...(verdict ? { verdict } : {})
+      });
+    }
+  }
+
+  return {
+    generatedAt: now.toISOString(),
+    band,
+    minConfidence,
+    dateToleranceHours,
+    gigCount: gigs.length,
+    pairs: pairs.sort((a, b) => b.confidence - a.confidence)
+  };
+}
+
+/**
+ * ID of a review pair
+ * @param keys Override keys of the two gigs, in any order
+ * @returns Pair ID
+ */
+export function reviewPairId(keys: string[]): string {
+  return `pair-${createStableHash([...keys].sort()).substring(0, 12)}`;
+}
+
+/**
+ * Record a verdict on a pair from a report
+ * @param pair Reviewed pair
+ * @param verdict Accept or reject
+ * @param now When the pair was decided
+ * @returns Review decision
+ */
+export function decideReviewPair(pair: ReviewPair, verdict: ReviewVerdict, now: Date = new Date()): ReviewDecision {
+  return {
+    pairId: pair.id,
+    keys: [pair.gigs[0].key, pair.gigs[1].key],
+    confidence: pair.confidence,
+    verdict,
+    decidedAt: now.toISOString()
+  };
+}
+
+/**
+ * Suggest the threshold that agrees with the most review decisions. Of thresholds that
+ * agree with as many, the one closest to the current threshold is suggested, so the
+ * threshold only moves as far as the decisions ask.
+ * @param decisions Review decisions
+ * @param currentThreshold Threshold deduplication runs with now
+ * @returns Threshold suggestion
+ */
+export function suggestThreshold(
+  decisions: ReviewDecision[],
+  currentThreshold: number = SIMILARITY_THRESHOLDS.MEDIUM_SIMILARITY
+): ThresholdSuggestion {
+  const accepted = decisions.filter(decision => decision.verdict === 'accept');
+  const rejected = decisions.filter(decision => decision.verdict === 'reject');
+
+  if (decisions.length === 0) {
+    return { threshold: null, accuracy: 0, accepted: 0, rejected: 0, falseMerges: 0, missedMerges: 0 };
+  }
+
+  // Halfway between neighbouring confidences, plus merging everything and nothing
+  const confidences = [...new Set(decisions.map(decision => decision.confidence))].sort((a, b) => a - b);
+  const thresholds = [
+    currentThreshold,
+    confidences[0],
+    ...confidences.slice(1).map((confidence, i) => (confidences[i] + confidence) / 2),
+    Math.min(1, confidences[confidences.length - 1] + 0.01)
+  ];
+
+  let best: ThresholdSuggestion | null = null;
+  for (const threshold of thresholds) {
+    const falseMerges = rejected.filter(decision => decision.confidence >= threshold).length;
+    const missedMerges = accepted.filter(decision => decision.confidence < threshold).length;
+    const accuracy = (decisions.length - falseMerges - missedMerges) / decisions.length;
+
+    const closer = best !== null && accuracy === best.accuracy &&
+      Math.abs(threshold - currentThreshold) < Math.abs(best.threshold! - currentThreshold);
+
+    if (!best || accuracy > best.accuracy || closer) {
+      best = {
+        threshold: Math.round(threshold * 1000) / 1000,
+        accuracy,
+        accepted: accepted.length,
+        rejected: rejected.length,
+        falseMerges,
+        missedMerges
+      };
+    }
+  }
+
+  return best!;
+}
+
+/**
+ * Read review decisions from a JSON file
+ * @param filePath Decisions file
+ * @returns Decisions, or none if the file does not exist
+ */
+export async function readReviewDecisions(filePath: string): Promise<ReviewDecision[]> {
+  try {
+    const content = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    return Array.isArray(content.decisions) ? content.decisions : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Add decisions to a JSON file, replacing earlier verdicts on the same pairs
+ * @param filePath Decisions file
+ * @param decisions New decisions
+ * @returns All decisions in the file
+ */
+export async function recordReviewDecisions(filePath: string, decisions: ReviewDecision[]): Promise<ReviewDecision[]> {
+  const pairIds = new Set(decisions.map(decision => decision.pairId));
+  const all = [
+    ...(await readReviewDecisions(filePath)).filter(decision => !pairIds.has(decision.pairId)),
+    ...decisions
+  ];
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify({ decisions: all }, null, 2), 'utf8');
+  await fs.rename(tempPath, filePath);
+
+  return all;
+}
+
+/**
+ * Render a review report as a standalone HTML page. Operators pick a verdict for each
+ * pair and download the decisions file the CLI reads.
+ * @param report Review report
+ * @returns HTML document
+ */
+export function renderReviewReportHtml(report: ReviewReport): string {
+  const percent = (value: number | null) => value === null ? 'n/a' : `${Math.round(value * 100)}%`;
+  const gigCell = (gig: ReviewGig) => `
+        <td>
+          <strong>${escapeHtml(gig.title)}</strong><br>
+          ${escapeHtml(gig.venue)}${gig.city ? `, ${escapeHtml(gig.city)}` : ''}<br>
+          ${escapeHtml(gig.dateStart)}<br>
+          <small>${escapeHtml(gig.source)} &middot; ${gig.eventUrl ? `<a href="${escapeHtml(gig.eventUrl)}">${escapeHtml(gig.key)}</a>` : escapeHtml(gig.key)}</small>
+        </td>`;
+
+  const rows = report.pairs.map(pair => `
+      <tr data-pair="${escapeHtml(JSON.stringify({ pairId: pair.id, keys: [pair.gigs[0].key, pair.gigs[1].key], confidence: pair.confidence }))}">
+        <td><strong>${percent(pair.confidence)}</strong><br><small>${pair.aboveThreshold ? 'merged' : 'kept apart'}</small></td>${gigCell(pair.gigs[0])}${gigCell(pair.gigs[1])}
+        <td>
+          Title ${percent(pair.signals.titleJaroWinkler)}<br>
+          Venue ${percent(pair.signals.venueSimilarity)}<br>
+          Location ${percent(pair.signals.locationSimilarity)}<br>
+          Time apart ${pair.signals.timeDeltaMinutes === null ? 'n/a' : `${pair.signals.timeDeltaMinutes} min`}<br>
+          Artists ${percent(pair.signals.artistOverlap)}
+        </td>
+        <td>
+          <label><input type="radio" name="${pair.id}" value="accept"${pair.verdict === 'accept' ? ' checked' : ''}> Same show</label><br>
+          <label><input type="radio" name="${pair.id}" value="reject"${pair.verdict === 'reject' ? ' checked' : ''}> Different</label>
+        </td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Duplicate review</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border-bottom: 1px solid #ddd; padding: 0.5rem; text-align: left; vertical-align: top; }
+  </style>
+</head>
+<body>
+  <h1>Duplicate review</h1>
+  <p>
+    ${report.pairs.length} pairs from ${report.gigCount} gigs scored between ${percent(report.band.min)} and ${percent(report.band.max)};
+    gigs merge from ${percent(report.minConfidence)}. Generated ${escapeHtml(report.generatedAt)}.
+  </p>
+  <p><button id="download">Download decisions</button></p>
+  <table>
+    <thead>
+      <tr><th>Confidence</th><th>Gig</th><th>Gig</th><th>Signals</th><th>Verdict</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  <script>
+    document.getElementById('download').addEventListener('click', function () {
+      var decisions = [];
+      document.querySelectorAll('tr[data-pair]').forEach(function (row) {
+        var pair = JSON.parse(row.getAttribute('data-pair'));
+        var checked = row.querySelector('input:checked');
+        if (checked) {
+          decisions.push({ pairId: pair.pairId, keys: pair.keys, confidence: pair.confidence, verdict: checked.value, decidedAt: new Date().toISOString() });
+        }
+      });
+      var link = document.createElement('a');
+      link.href = URL.createObjectURL(new Blob([JSON.stringify({ decisions: decisions }, null, 2)], { type: 'application/json' }));
+      link.download = 'dedupe-review-decisions.json';
+      link.click();
+    });
+  </script>
+</body>
+</html>
+`;
+}
+
+function toReviewGig(gig: Gig): ReviewGig {
+  return {
+    id: gig.id,
+    key: overrideKeyFor(gig),
+    source: gig.source,
+    title: gig.title,
+    artists: gig.artists || [],
+    venue: gig.venue.name,
+    ...(gig.venue.city ? { city: gig.venue.city } : {}),
+    dateStart: gig.dateStart,
+    ...(gig.eventUrl ? { eventUrl: gig.eventUrl } : {})
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,193 @@
+/**
+ * Trust policies for merging duplicate gigs field by field
+ * A policy says how far each source is trusted for each field, so a venue's own site can
+ * win on start times while a ticketing site wins on prices
+ */
+
+import * as fs from 'fs/promises';
+import { DedupeError, DedupeErrorType } from './error-handling';
+
+/**
+ * Gig fields merged by trust
+ */
+export const TRUST_FIELDS = [
+  'title',
+  'artists',
+  'genre',
+  'tags',
+  'dateStart',
+  'dateEnd',
+  'timezone',
+  'venue',
+  'price',
+  'ageRestriction',
+  'status',
+  'ticketsUrl',
+  'eventUrl',
+  'images'
+] as const;
+
+export type TrustField = typeof TRUST_FIELDS[number];
+
+/**
+ * Array fields that can be collected from every source
+ */
+export type CollectedField = 'artists' | 'genre' | 'tags' | 'images';
+
+const COLLECTABLE_FIELDS: CollectedField[] = ['artists', 'genre', 'tags', 'images'];
+
+/**
+ * Trust (0-100) by field; fields left out fall back to the source's trust score
+ */
+export type FieldTrust = Partial<Record<TrustField, number>>;
+
+/**
+ * What a policy declares about one source
+ */
+export interface SourceTrustPolicy {
+  /** Trust score for every field the policy doesn't set (0-100) */
+  trust?: number;
+  /** Kind of source, such as venue or ticketing, whose field trust it shares */
+  kind?: string;
+  /** Field trust of this source alone, ahead of its kind's */
+  fields?: FieldTrust;
+}
+
+/**
+ * Per-source, per-field trust for merging
+ */
+export interface TrustPolicy {
+  /** Field trust by kind of source */
+  kinds?: Record<string, FieldTrust>;
+  sources?: Record<string, SourceTrustPolicy>;
+  /**
+   * Fields merged from every source, most trusted first, rather than taken from the
+   * most trusted source that has them
+   */
+  collect?: CollectedField[];
+}
+
+/**
+ * Policy used when none is given: venue sites decide times, ticketing sources decide
+ * prices and ticket links, and artists, genres, tags and images come from every source
+ */
+export const DEFAULT_TRUST_POLICY: TrustPolicy = {
+  kinds: {
+    venue: { dateStart: 100, dateEnd: 100, timezone: 100 },
+    ticketing: { price: 100, ticketsUrl: 100 }
+  },
+  sources: {
+    'venue-official': { kind: 'venue' },
+    'venue-direct': { kind: 'venue' },
+    'ticketmaster': { kind: 'ticketing' },
+    'eventbrite': { kind: 'ticketing' },
+    'stubhub': { kind: 'ticketing' }
+  },
+  collect: [...COLLECTABLE_FIELDS]
+};
+
+/**
+ * Field trust a policy declares for a source, if any
+ * @param policy Trust policy
+ * @param source Source name
+ * @param field Gig field
+ * @returns Declared trust, or undefined when the source's trust score applies
+ */
+export function getDeclaredFieldTrust(policy: TrustPolicy, source: string, field: TrustField): number | undefined {
+  const declared = policy.sources?.[source];
+  return declared?.fields?.[field] ?? (declared?.kind ? policy.kinds?.[declared.kind]?.[field] : undefined);
+}
+
+/**
+ * Whether a policy collects a field from every source
+ * @param policy Trust policy
+ * @param field Gig field
+ */
+export function isCollectedField(policy: TrustPolicy, field: TrustField): field is CollectedField {
+  return (policy.collect ?? []).includes(field as CollectedField);
+}
+
+/**
+ * Check a trust policy read from a file
+ * @param value Parsed policy
+ * @param inheritedKinds Kinds sources may name without the policy declaring them
+ * @returns Trust policy
+ */
+export function validateTrustPolicy(value: unknown, inheritedKinds: string[] = []): TrustPolicy {
+  const fail = (message: string): never => {
+    throw new DedupeError(DedupeErrorType.INVALID_TRUST_POLICY, `Invalid trust policy: ${message}`);
+  };
+  const isObject = (candidate: unknown): candidate is Record<string, unknown> =>
+    typeof candidate === 'object' && candidate !== null && !Array.isArray(candidate);
+  const checkScore = (score: unknown, at: string) => {
+    if (typeof score !== 'number' || score < 0 || score > 100) fail(`${at} must be a number from 0 to 100`);
+  };
+  const checkFields = (fields: unknown, at: string) => {
+    if (!isObject(fields)) return fail(`${at} must be an object`);
+    for (const [field, score] of Object.entries(fields)) {
+      if (!(TRUST_FIELDS as readonly string[]).includes(field)) fail(`${at}.${field} is not a field merged by trust`);
+      checkScore(score, `${at}.${field}`);
+    }
+  };
+
+  if (!isObject(value)) return fail('expected an object');
+  const { kinds = {}, sources = {}, collect = [] } = value;
+
+  if (!isObject(kinds)) return fail('kinds must be an object');
+  for (const [kind, fields] of Object.entries(kinds)) {
+    checkFields(fields, `kinds.${kind}`);
+  }
+
+  if (!isObject(sources)) return fail('sources must be an object');
+  for (const [source, declared] of Object.entries(sources)) {
+    if (!isObject(declared)) return fail(`sources.${source} must be an object`);
+    if (declared.trust !== undefined) checkScore(declared.trust, `sources.${source}.trust`);
+    if (declared.kind !== undefined &&
+      (typeof declared.kind !== 'string' || !(declared.kind in kinds || inheritedKinds.includes(declared.kind)))) {
+      fail(`sources.${source}.kind names no kind in kinds`);
+    }
+    if (declared.fields !== undefined) checkFields(declared.fields, `sources.${source}.fields`);
+  }
+
+  if (!Array.isArray(collect) || collect.some(field => !COLLECTABLE_FIELDS.includes(field))) {
+    fail(`collect may only list ${COLLECTABLE_FIELDS.join(', ')}`);
+  }
+
+  return value as TrustPolicy;
+}
+
+/**
+ * Read a trust policy file on top of the default policy. Kinds and sources the file
+ * declares replace the default ones of the same name, and its collect list replaces the
+ * default list.
+ * @param filePath Policy file (JSON)
+ * @returns Trust policy, or the default policy if the file does not exist
+ */
+export async function loadTrustPolicy(filePath: string): Promise<TrustPolicy> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return DEFAULT_TRUST_POLICY;
+    }
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new DedupeError(DedupeErrorType.INVALID_TRUST_POLICY, `Invalid trust policy: ${filePath} is not valid JSON`, {
+      originalError: error as Error
+    });
+  }
+
+  const policy = validateTrustPolicy(parsed, Object.keys(DEFAULT_TRUST_POLICY.kinds!));
+
+  return {
+    kinds: { ...DEFAULT_TRUST_POLICY.kinds, ...policy.kinds },
+    sources: { ...DEFAULT_TRUST_POLICY.sources, ...policy.sources },
+    collect: policy.collect ?? DEFAULT_TRUST_POLICY.collect
+  };
+}
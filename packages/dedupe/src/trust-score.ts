@@ -4,6 +4,14 @@
  */
 
 import { Gig } from '@gigateer/contracts';
+import {
+  DEFAULT_TRUST_POLICY,
+  getDeclaredFieldTrust,
+  isCollectedField,
+  TRUST_FIELDS,
+  TrustField,
+  TrustPolicy
+} from './trust-policy';
 
 /**
  * Source trust scores (0-100)
@@ -135,14 +143,55 @@ export function getMostTrustedGig(
 }
 
 /**
- * Merge field data from multiple gigs based on trust scores
+ * Trust score of a source under a policy: custom scores first, then the trust the
+ * policy declares for the source, then the default scores
+ * @param source Source name
+ * @param customScores Custom score overrides
+ * @param policy Trust policy
+ * @returns Trust score (0-100)
+ */
+export function getPolicyTrustScore(
+  source: string,
+  customScores: Record<string, number> = {},
+  policy: TrustPolicy = DEFAULT_TRUST_POLICY
+): number {
+  const declared = policy.sources?.[source]?.trust;
+  return customScores[source] === undefined && declared !== undefined
+    ? declared
+    : getTrustScore(source, customScores);
+}
+
+/**
+ * Trust of a source for one field, falling back to its trust score
+ * @param source Source name
+ * @param field Gig field
+ * @param customScores Custom score overrides
+ * @param policy Trust policy
+ * @returns Field trust (0-100)
+ */
+export function getFieldTrustScore(
+  source: string,
+  field: TrustField,
+  customScores: Record<string, number> = {},
+  policy: TrustPolicy = DEFAULT_TRUST_POLICY
+): number {
+  return getDeclaredFieldTrust(policy, source, field) ?? getPolicyTrustScore(source, customScores, policy);
+}
+
+/**
+ * Merge field data from multiple gigs by trust. The most trusted gig gives the merged
+ * gig its ID and source. Each field is then taken from the gig most trusted for that
+ * field that has a value, and fields the policy collects are combined from every gig.
+ * The merged gig's provenance records where each field came from.
  * @param gigs Array of gigs to merge
  * @param customScores Custom score overrides
+ * @param policy Per-source, per-field trust policy
  * @returns Merged gig data
  */
 export function mergeTrustedData(
   gigs: Gig[],
-  customScores: Record<string, number> = {}
+  customScores: Record<string, number> = {},
+  policy: TrustPolicy = DEFAULT_TRUST_POLICY
 ): Partial<Gig> {
   if (gigs.length === 0) {
     throw new Error('Cannot merge empty array of gigs');
@@ -152,92 +201,80 @@ export function mergeTrustedData(
     return { ...gigs[0] };
   }
   
-  // Sort gigs by trust score (highest first)
-  const sortedGigs = [...gigs].sort((a, b) => 
-    compareTrustScores(b.source, a.source, customScores)
+  // Sort gigs by trust score (highest first); sources trusted alike keep their order
+  const sortedGigs = [...gigs].sort((a, b) =>
+    getPolicyTrustScore(b.source, customScores, policy) - getPolicyTrustScore(a.source, customScores, policy)
   );
   
   // Start with the most trusted gig as base
   const merged: Partial<Gig> = { ...sortedGigs[0] };
+  const provenance: NonNullable<Gig['provenance']> = {};
   
-  // Override fields with data from higher-trust sources
-  for (let i = 1; i < sortedGigs.length; i++) {
-    const gig = sortedGigs[i];
-    const gigTrustScore = getTrustScore(gig.source, customScores);
-    const baseTrustScore = getTrustScore(merged.source!, customScores);
+  for (const field of TRUST_FIELDS) {
+    const ranked = [...sortedGigs].sort((a, b) =>
+      getFieldTrustScore(b.source, field, customScores, policy) - getFieldTrustScore(a.source, field, customScores, policy)
+    );
     
-    // Only use data from equal or higher trust sources
-    if (gigTrustScore >= baseTrustScore) {
-      mergeGigFields(merged, gig, gigTrustScore >= baseTrustScore);
+    if (isCollectedField(policy, field)) {
+      const values: string[] = [];
+      const suppliers = new Set<string>();
+      
+      for (const gig of ranked) {
+        const added = (gig[field] || []).filter(value => !values.includes(value));
+        if (added.length > 0) {
+          values.push(...added);
+          suppliersOf(gig, field).forEach(supplier => suppliers.add(supplier));
+        }
+      }
+      
+      merged[field] = values;
+      if (suppliers.size > 0) {
+        provenance[field] = [...suppliers];
+      }
+      continue;
     }
+    
+    const supplier = ranked.find(gig => hasFieldValue(gig, field));
+    if (!supplier) {
+      delete merged[field];
+      continue;
+    }
+    
+    (merged as Record<TrustField, unknown>)[field] = supplier[field];
+    provenance[field] = suppliersOf(supplier, field)[0];
   }
   
-  return merged;
-}
-
-/**
- * Merge individual fields from source gig into target gig
- * @param target Target gig to merge into
- * @param source Source gig to merge from
- * @param preferSource Whether to prefer source data
- */
-function mergeGigFields(target: Partial<Gig>, source: Gig, preferSource: boolean): void {
-  // Merge arrays (concatenate and dedupe)
-  if (source.artists && source.artists.length > 0) {
-    target.artists = [...new Set([...(target.artists || []), ...source.artists])];
-  }
-  
-  if (source.genre && source.genre.length > 0) {
-    target.genre = [...new Set([...(target.genre || []), ...source.genre])];
-  }
-  
-  if (source.tags && source.tags.length > 0) {
-    target.tags = [...new Set([...(target.tags || []), ...source.tags])];
-  }
-  
-  if (source.images && source.images.length > 0) {
-    target.images = [...new Set([...(target.images || []), ...source.images])];
-  }
-  
-  // Merge venue data (prefer more complete data)
-  if (source.venue) {
-    target.venue = {
-      name: target.venue?.name || source.venue.name,
-      address: target.venue?.address || source.venue.address,
-      city: target.venue?.city || source.venue.city,
-      country: target.venue?.country || source.venue.country,
-      lat: target.venue?.lat ?? source.venue.lat,
-      lng: target.venue?.lng ?? source.venue.lng
+  // Venue details the chosen listing leaves out are filled in from the others
+  for (const gig of sortedGigs) {
+    merged.venue = {
+      ...merged.venue!,
+      address: merged.venue?.address || gig.venue.address,
+      city: merged.venue?.city || gig.venue.city,
+      country: merged.venue?.country || gig.venue.country,
+      lat: merged.venue?.lat ?? gig.venue.lat,
+      lng: merged.venue?.lng ?? gig.venue.lng
     };
   }
   
-  
-  // Merge URLs (prefer non-empty values)
-  if (source.ticketsUrl && (!target.ticketsUrl || preferSource)) {
-    target.ticketsUrl = source.ticketsUrl;
-  }
-  
-  if (source.eventUrl && (!target.eventUrl || preferSource)) {
-    target.eventUrl = source.eventUrl;
-  }
-  
-  // Merge other optional fields
-  if (source.dateEnd && (!target.dateEnd || preferSource)) {
-    target.dateEnd = source.dateEnd;
-  }
-  
-  if (source.timezone && (!target.timezone || preferSource)) {
-    target.timezone = source.timezone;
-  }
-  
-  if (source.ageRestriction && (!target.ageRestriction || preferSource)) {
-    target.ageRestriction = source.ageRestriction;
-  }
-  
   // Always keep the most recent updatedAt
-  if (source.updatedAt && (!target.updatedAt || source.updatedAt > target.updatedAt)) {
-    target.updatedAt = source.updatedAt;
+  merged.updatedAt = sortedGigs.map(gig => gig.updatedAt).filter(Boolean).sort().pop() ?? merged.updatedAt;
+  merged.provenance = provenance;
+  
+  return merged;
+}
+
+function hasFieldValue(gig: Gig, field: TrustField): boolean {
+  const value = gig[field];
+  if (field === 'price') {
+    return gig.price !== undefined && (gig.price.min !== null || gig.price.max !== null);
   }
+  return value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+}
+
+// Sources behind a gig's field; gigs merged earlier know theirs
+function suppliersOf(gig: Gig, field: TrustField): string[] {
+  const recorded = gig.provenance?.[field];
+  return recorded === undefined ? [gig.source] : ([] as string[]).concat(recorded);
 }
 
 /**
@@ -269,6 +306,7 @@ export function createSourceMetadata(gigs: Gig[]): {
 
 /**
  * Check if a source should be trusted for specific types of data
+ * @deprecated Declare per-field trust in a trust policy and use getFieldTrustScore
  * @param source Source name
  * @param dataType Type of data to check
  * @returns True if source is trusted for this data type
@@ -0,0 +1,148 @@
+/**
+ * Blocking index for fuzzy deduplication
+ * Generates candidate pairs so only plausible duplicates reach the fuzzy matcher
+ */
+
+import { Gig } from '@gigateer/contracts';
+import { createFuzzyKey } from './fuzzy-matching';
+import { createFuzzyDateKeys } from './date-utils';
+import { normalizeText } from './text-normalization';
+
+/**
+ * Index of gigs by blocking key
+ */
+export interface BlockingIndex {
+  /** Hours either side of a gig's start searched for candidates */
+  dateToleranceHours: number;
+  /** Number of gigs in the index */
+  size: number;
+  /**
+   * Gigs sharing a blocking key with a gig, in input order, leaving out the gig itself
+   * @param gig Gig to find candidates for; it need not be in the index
+   */
+  candidatesFor(gig: Gig): Gig[];
+}
+
+/**
+ * Blocking keys of a gig
+ */
+export interface BlockingKeys {
+  /** Keys the gig is filed under */
+  index: string[];
+  /** Keys its candidates are looked up by */
+  lookup: string[];
+}
+
+// Shorter tokens ("o2", "dj", "&") are too common to block on
+const MIN_TOKEN_LENGTH = 3;
+
+const UNDATED = 'undated';
+
+/**
+ * Create the blocking keys of a gig. It is filed under its own day and looked up under
+ * every day within the date tolerance, combined with each city token and with each venue
+ * name token or title and artist token. Two listings of a show in one city therefore
+ * share a block as long as they agree on a venue word or an artist word.
+ *
+ * A gig without a city is compared with gigs in any city, and a gig with no usable tokens
+ * with every gig of the days around it. Gigs without a valid start date share the
+ * `undated` day.
+ * @param gig Gig object
+ * @param dateToleranceHours Hours either side of the start to look up (default: 2)
+ * @returns Blocking keys
+ */
+export function createBlockingKeys(gig: Gig, dateToleranceHours: number = 2): BlockingKeys {
+  const fuzzyKey = createFuzzyKey(gig);
+  const day = isNaN(new Date(gig.dateStart).getTime()) ? UNDATED : fuzzyKey.dateKey;
+
+  // Date keys are YYYY-MM-DD-HH; only the day is used for blocking
+  const days = new Set([day]);
+  if (dateToleranceHours > 0) {
+    for (const dateKey of createFuzzyDateKeys(gig.dateStart, dateToleranceHours)) {
+      days.add(dateKey.substring(0, 10));
+    }
+  }
+
+  const venueTokens = tokenize(fuzzyKey.venue);
+  if (venueTokens.length === 0) {
+    // Names made up of venue words only, like "The Hall"
+    venueTokens.push(...tokenize(normalizeText(gig.venue.name)));
+  }
+  const artistTokens = new Set([
+    ...tokenize(fuzzyKey.title),
+    ...(gig.artists || []).flatMap(artist => tokenize(normalizeText(artist)))
+  ]);
+  const blocks = [
+    ...venueTokens.map(token => `v:${token}`),
+    ...[...artistTokens].map(token => `a:${token}`)
+  ];
+
+  if (blocks.length === 0) {
+    return {
+      index: [day, `${day}|*`],
+      lookup: [...days]
+    };
+  }
+
+  // Cities are matched by token so "Bristol" and "Bristol, UK" share blocks. Every gig is
+  // also filed under any city ("*") for gigs without one (""), which look up any city.
+  const cityTokens = tokenize(fuzzyKey.city);
+  const ownCities = cityTokens.length > 0 ? [...cityTokens, '*'] : ['', '*'];
+  const lookupCities = cityTokens.length > 0 ? [...cityTokens, ''] : ['*'];
+  const keysFor = (keyDays: string[], cities: string[]) =>
+    keyDays.flatMap(keyDay => cities.flatMap(city => blocks.map(block => `${keyDay}|${city}|${block}`)));
+
+  return {
+    index: [day, ...keysFor([day], ownCities)],
+    lookup: [...days].flatMap(lookupDay => [`${lookupDay}|*`, ...keysFor([lookupDay], lookupCities)])
+  };
+}
+
+/**
+ * Build a blocking index over gigs. Looking a gig up costs the size of the blocks it
+ * falls in rather than the number of gigs, so deduplicating n gigs takes close to linear
+ * time as long as a city's shows on a day are spread over several venues and artists.
+ * @param gigs Gigs to index
+ * @param options Blocking options
+ * @returns Blocking index
+ */
+export function createBlockingIndex(
+  gigs: Gig[],
+  options: {
+    dateToleranceHours?: number;
+  } = {}
+): BlockingIndex {
+  const { dateToleranceHours = 2 } = options;
+
+  const blocks = new Map<string, number[]>();
+
+  gigs.forEach((gig, position) => {
+    for (const key of createBlockingKeys(gig, dateToleranceHours).index) {
+      if (!blocks.has(key)) {
+        blocks.set(key, []);
+      }
+      blocks.get(key)!.push(position);
+    }
+  });
+
+  return {
+    dateToleranceHours,
+    size: gigs.length,
+    candidatesFor(gig: Gig): Gig[] {
+      const positions = new Set<number>();
+
+      for (const key of createBlockingKeys(gig, dateToleranceHours).lookup) {
+        blocks.get(key)?.forEach(position => positions.add(position));
+      }
+
+      return [...positions]
+        .sort((a, b) => a - b)
+        .map(position => gigs[position])
+        .filter(candidate => candidate !== gig && candidate.id !== gig.id);
+    }
+  };
+}
+
+function tokenize(text: string): string[] {
+  return [...new Set(text.split(' ').filter(token => token.length >= MIN_TOKEN_LENGTH))];
+}
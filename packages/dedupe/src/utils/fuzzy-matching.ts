@@ -7,6 +7,7 @@ import { Gig } from '@gigateer/contracts';
 import { jaroWinklerSimilarity } from './string-similarity';
 import { normalizeText, normalizeVenueName, normalizeTitle, normalizeCity } from './text-normalization';
 import { isWithinTimeWindow, isSameDay } from './date-utils';
+import type { BlockingIndex } from './blocking-index';
 
 /**
  * Similarity thresholds for fuzzy matching
@@ -229,13 +230,14 @@ export function groupGigsByFuzzyKeys(gigs: Gig[]): Map<string, Gig[]> {
 /**
  * Find potential duplicates for a gig within a group
  * @param targetGig Gig to find duplicates for
- * @param candidateGigs Array of candidate gigs
+ * @param candidateGigs Array of candidate gigs, or a blocking index to compare only
+ * the gigs sharing a block with the target
  * @param options Matching options
  * @returns Array of potential duplicates with match results
  */
 export function findPotentialDuplicates(
   targetGig: Gig,
-  candidateGigs: Gig[],
+  candidateGigs: Gig[] | BlockingIndex,
   options: {
     dateToleranceHours?: number;
     minConfidence?: number;
@@ -244,8 +246,9 @@ export function findPotentialDuplicates(
   const { dateToleranceHours = 2, minConfidence = SIMILARITY_THRESHOLDS.MEDIUM_SIMILARITY } = options;
   
   const duplicates: Array<{ gig: Gig; match: FuzzyMatchResult }> = [];
+  const candidates = Array.isArray(candidateGigs) ? candidateGigs : candidateGigs.candidatesFor(targetGig);
   
-  for (const candidate of candidateGigs) {
+  for (const candidate of candidates) {
     if (candidate.id === targetGig.id) continue;
     
     const matchResult = fuzzyMatchGigs(targetGig, candidate, {
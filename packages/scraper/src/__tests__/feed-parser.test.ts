@@ -1,4 +1,5 @@
 import { RSSParser, ICalParser, JSONFeedParser, FeedParser } from "../feed-parser";
+import { NetworkError, RateLimitError, ScraperError } from "../errors";
 
 describe("RSSParser", () => {
   const mockRSSFeed = `
@@ -48,6 +49,36 @@ describe("RSSParser", () => {
   test("should handle malformed RSS", () => {
     expect(() => RSSParser.parseXML("invalid xml", "test-source")).toThrow();
   });
+
+  test("should parse Atom feeds", () => {
+    const atomFeed = `
+      <feed xmlns="http://www.w3.org/2005/Atom">
+        <title>Venue Listings</title>
+        <entry>
+          <id>urn:uuid:event-1</id>
+          <title><![CDATA[Jazz Night & Friends]]></title>
+          <link rel="alternate" href="https://example.com/events/jazz-night"/>
+          <published>2024-03-15T20:00:00Z</published>
+          <summary>An evening of smooth jazz</summary>
+          <category term="Jazz"/>
+        </entry>
+        <entry>
+          <title>Missing date</title>
+        </entry>
+      </feed>
+    `;
+
+    const items = RSSParser.parseXML(atomFeed, "test-source");
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      id: "urn:uuid:event-1",
+      title: "Jazz Night & Friends",
+      link: "https://example.com/events/jazz-night",
+      description: "An evening of smooth jazz",
+      categories: ["Jazz"],
+    });
+  });
 });
 
 describe("ICalParser", () => {
@@ -81,6 +112,7 @@ END:VCALENDAR
     expect(items).toHaveLength(2);
     
     expect(items[0]).toMatchObject({
+      id: "test-event-1@example.com",
       title: "Jazz Night at Blue Note",
       description: "An evening of smooth jazz",
       location: "Blue Note NYC, 131 W 3rd St, New York, NY",
@@ -216,4 +248,56 @@ END:VCALENDAR
   test("should throw error for unrecognized format", () => {
     expect(() => FeedParser.parseContent("plain text", "", "test-source")).toThrow();
   });
-});
\ No newline at end of file
+
+  describe("fetchFeed", () => {
+    const originalFetch = global.fetch;
+    const respond = (response: Response) => {
+      global.fetch = jest.fn(async () => response) as typeof fetch;
+    };
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    test("should return the body with its validators", async () => {
+      respond(new Response("BEGIN:VCALENDAR", { status: 200, headers: { "Content-Type": "text/calendar", "ETag": "\"v1\"" } }));
+      await expect(FeedParser.fetchFeed("https://venue.example/feed", "test-source")).resolves.toEqual({
+        content: "BEGIN:VCALENDAR",
+        contentType: "text/calendar",
+        etag: "\"v1\"",
+        lastModified: undefined,
+      });
+    });
+
+    test("should return null for 304 Not Modified", async () => {
+      respond(new Response(null, { status: 304 }));
+      await expect(FeedParser.fetchFeed("https://venue.example/feed", "test-source")).resolves.toBeNull();
+    });
+
+    test("should tell rate limits, client errors and server errors apart", async () => {
+      respond(new Response("Slow down", { status: 429, headers: { "Retry-After": "30" } }));
+      await expect(FeedParser.fetchFeed("https://venue.example/feed", "test-source")).rejects.toMatchObject({
+        name: "RateLimitError",
+        retryAfter: 30000,
+      });
+
+      respond(new Response("Gone", { status: 410 }));
+      const clientError = await FeedParser.fetchFeed("https://venue.example/feed", "test-source").catch(error => error);
+      expect(clientError).toBeInstanceOf(ScraperError);
+      expect(clientError).not.toBeInstanceOf(NetworkError);
+      expect(clientError).not.toBeInstanceOf(RateLimitError);
+
+      respond(new Response("Unavailable", { status: 503 }));
+      await expect(FeedParser.fetchFeed("https://venue.example/feed", "test-source")).rejects.toBeInstanceOf(NetworkError);
+    });
+
+    test("should rethrow the abort reason when the signal ends the request", async () => {
+      global.fetch = jest.fn((_input: any, init?: RequestInit) => new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+      })) as typeof fetch;
+
+      await expect(FeedParser.fetchFeed("https://venue.example/feed", "test-source", { signal: AbortSignal.timeout(10) }))
+        .rejects.toMatchObject({ name: "TimeoutError" });
+    });
+  });
+});
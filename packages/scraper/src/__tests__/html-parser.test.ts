@@ -146,6 +146,83 @@ describe("HTMLParser", () => {
     });
   });
 
+  describe("Selector-driven extraction", () => {
+    const listingHtml = `
+      <ul>
+        <li class="event">
+          <h3>  First Gig </h3>
+          <a class="more" href="/events/1">More</a>
+          <span class="tag">rock</span><span class="tag">indie</span>
+        </li>
+        <li class="event">
+          <h3>Second Gig</h3>
+        </li>
+      </ul>
+      <a class="next" href="?page=2">Next</a>
+    `;
+
+    test("should read the first match raw, like a browser would", () => {
+      const listing = new HTMLParser(listingHtml, "test-source");
+      expect(listing.extractValue("h3")).toBe("  First Gig ");
+      expect(listing.extractValue("a.next", "href")).toBe("?page=2");
+      expect(listing.extractValue("li.event", "innerHTML")).toContain("<h3>");
+      expect(listing.extractValue(".missing")).toBeNull();
+    });
+
+    test("should return each match's markup including the element", () => {
+      const listing = new HTMLParser(listingHtml, "test-source");
+      const containers = listing.extractOuterHtml("li.event");
+
+      expect(containers).toHaveLength(2);
+      expect(containers[0]).toMatch(/^<li class="event">[\s\S]*<\/li>$/);
+      expect(listing.extractOuterHtml(".missing")).toEqual([]);
+    });
+
+    test("should extract fields relative to each container", () => {
+      const listing = new HTMLParser(listingHtml, "test-source");
+      const items = listing.extractContainers("li.event", {
+        title: { selector: "h3" },
+        link: { selector: "a.more", attribute: "href" },
+        tags: { selector: ".tag", multiple: true },
+      });
+
+      expect(items).toEqual([
+        { title: "  First Gig ", link: "/events/1", tags: ["rock", "indie"] },
+        { title: "Second Gig", link: null, tags: [] },
+      ]);
+    });
+
+    test("should keep nested microdata scopes and resolve their links", () => {
+      const microdata = new HTMLParser(`
+        <div itemscope itemtype="https://schema.org/MusicEvent">
+          <span itemprop="name">Nested Event</span>
+          <time itemprop="startDate" datetime="2026-05-01T20:00"></time>
+          <a itemprop="url" href="/events/nested">Details</a>
+          <div itemprop="location" itemscope itemtype="https://schema.org/Place">
+            <span itemprop="name">The Venue</span>
+          </div>
+        </div>
+      `, "test-source");
+
+      expect(microdata.extractMicrodataScopes("https://example.com/listing")).toEqual([{
+        "@type": "MusicEvent",
+        name: "Nested Event",
+        startDate: "2026-05-01T20:00",
+        url: "https://example.com/events/nested",
+        location: { "@type": "Place", name: "The Venue" },
+      }]);
+    });
+  });
+
+  describe("Selector checks", () => {
+    test("should explain selectors that don't parse", () => {
+      expect(HTMLParser.selectorError("main article:has(a[href*='dice.fm'])")).toBeNull();
+      expect(HTMLParser.selectorError("a[href")).toMatch(/didn't terminate/);
+      expect(HTMLParser.selectorError("div,")).not.toBeNull();
+      expect(HTMLParser.selectorError(" ")).toBe("Selector is empty");
+    });
+  });
+
   describe("Error handling", () => {
     test("should handle empty HTML", () => {
       const emptyParser = new HTMLParser("", "test-source");
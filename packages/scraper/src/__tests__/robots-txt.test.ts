@@ -0,0 +1,46 @@
+import { RobotsTxt } from "../robots-txt";
+
+describe("RobotsTxt", () => {
+  const robots = RobotsTxt.parse(`
+# Example robots.txt
+User-agent: *
+Disallow: /admin
+Disallow: /events/*?print=
+Allow: /admin/public
+Crawl-delay: 2
+
+User-agent: Gigateer
+User-agent: OtherBot
+Disallow: /private$
+
+Sitemap: https://venue.example/sitemap.xml
+`);
+
+  test("should apply the longest matching rule", () => {
+    expect(robots.check("/admin/settings")).toEqual({ allowed: false, rule: "Disallow: /admin" });
+    expect(robots.check("/admin/public/page")).toEqual({ allowed: true, rule: "Allow: /admin/public" });
+    expect(robots.check("/events")).toEqual({ allowed: true });
+  });
+
+  test("should support wildcards and end anchors", () => {
+    expect(robots.isAllowed("/events/42?print=1")).toBe(false);
+    expect(robots.isAllowed("/events/42")).toBe(true);
+    expect(robots.isAllowed("/private", "Gigateer")).toBe(false);
+    expect(robots.isAllowed("/private/page", "Gigateer")).toBe(true);
+  });
+
+  test("should pick the group named in a full user agent string", () => {
+    const userAgent = "Mozilla/5.0 (compatible; Gigateer/1.0; Event Aggregator)";
+
+    expect(robots.isAllowed("/admin", userAgent)).toBe(true);
+    expect(robots.getCrawlDelay(userAgent)).toBeUndefined();
+    expect(robots.getCrawlDelay("SomeBrowser")).toBe(2);
+  });
+
+  test("should allow everything when there are no rules", () => {
+    const empty = RobotsTxt.parse("User-agent: *\nDisallow:\n");
+
+    expect(empty.isAllowed("/anything")).toBe(true);
+    expect(RobotsTxt.parse("").isAllowed("/")).toBe(true);
+  });
+});
@@ -2,7 +2,7 @@
  * Date and time parsing utilities for scrapers
  */
 
-import { ParseError } from "./errors";
+import { ParseError } from "./errors.js";
 
 /**
  * Common date format patterns
@@ -14,7 +14,7 @@ export class ScraperError extends Error {
 }
 
 export class RateLimitError extends ScraperError {
-  constructor(source: string, retryAfter?: number) {
+  constructor(source: string, public readonly retryAfter?: number) {
     super(
       `Rate limit exceeded for ${source}${retryAfter ? `, retry after ${retryAfter}ms` : ""}`,
       source
@@ -35,4 +35,10 @@ export class NetworkError extends ScraperError {
     super(`Network request failed for ${source} at ${url}`, source, originalError);
     this.name = "NetworkError";
   }
-}
\ No newline at end of file
+}
+export class RobotsDisallowedError extends ScraperError {
+  constructor(source: string, public readonly url: string, public readonly rule?: string) {
+    super(`robots.txt disallows ${url}${rule ? ` (${rule})` : ""}`, source);
+    this.name = "RobotsDisallowedError";
+  }
+}
@@ -2,14 +2,17 @@
  * RSS, iCal, and JSON feed parsing utilities
  */
 
-import { ParseError, NetworkError } from "./errors";
-import { parseDate, combineDateAndTime } from "./date-utils";
-import { normalizeText, extractPrice, extractArtists, parseAddress } from "./text-utils";
+import { ParseError, NetworkError, RateLimitError, ScraperError } from "./errors.js";
+import { parseRetryAfter } from "./rate-limiter.js";
+import { parseDate, combineDateAndTime } from "./date-utils.js";
+import { normalizeText, extractPrice, extractArtists, parseAddress } from "./text-utils.js";
 
 /**
  * Generic feed item interface
  */
 export interface FeedItem {
+  /** Stable identifier from the feed (RSS guid, Atom id, iCal UID, JSON Feed id) */
+  id?: string;
   title: string;
   description?: string;
   link?: string;
@@ -21,11 +24,11 @@ export interface FeedItem {
 }
 
 /**
- * RSS feed parser
+ * RSS and Atom feed parser
  */
 export class RSSParser {
   /**
-   * Parse RSS feed from XML string
+   * Parse RSS (or Atom) feed from XML string
    */
   static parseXML(xmlContent: string, source: string): FeedItem[] {
     const items: FeedItem[] = [];
@@ -35,7 +38,16 @@ export class RSSParser {
       const itemMatches = xmlContent.match(/<item[^>]*>([\s\S]*?)<\/item>/gi);
       
       if (!itemMatches) {
-        throw new ParseError(source, "No RSS items found in feed");
+        const entryMatches = xmlContent.match(/<entry[^>]*>([\s\S]*?)<\/entry>/gi);
+        if (!entryMatches) {
+          throw new ParseError(source, "No RSS items found in feed");
+        }
+
+        for (const entryXml of entryMatches) {
+          const item = this.parseAtomEntry(entryXml, source);
+          if (item) items.push(item);
+        }
+        return items;
       }
       
       for (const itemXml of itemMatches) {
@@ -50,13 +62,55 @@ export class RSSParser {
     return items;
   }
 
-  private static parseRSSItem(itemXml: string, source: string): FeedItem | null {
+  private static getTagContent(xml: string, tag: string): string {
+    const match = xml.match(new RegExp(`<${tag}[^>]*>([\\s\\S]*?)<\\/${tag}>`, "i"));
+    return match ? this.unwrapCData(match[1].trim()) : "";
+  }
+
+  private static unwrapCData(value: string): string {
+    const match = value.match(/^<!\[CDATA\[([\s\S]*)\]\]>$/);
+    return match ? match[1].trim() : value;
+  }
+
+  private static parseAtomEntry(entryXml: string, source: string): FeedItem | null {
     try {
-      const getTagContent = (tag: string): string => {
-        const match = itemXml.match(new RegExp(`<${tag}[^>]*>([\\s\\S]*?)<\\/${tag}>`, "i"));
-        return match ? match[1].trim() : "";
+      const title = this.getTagContent(entryXml, "title");
+      const description = this.getTagContent(entryXml, "summary") || this.getTagContent(entryXml, "content");
+      const published = this.getTagContent(entryXml, "published") || this.getTagContent(entryXml, "updated");
+      const id = this.getTagContent(entryXml, "id");
+
+      // Prefer the alternate link, which points at the event page
+      const linkMatch = entryXml.match(/<link[^>]*rel=["']alternate["'][^>]*>/i) || entryXml.match(/<link[^>]*>/i);
+      const link = linkMatch?.[0].match(/href=["']([^"']+)["']/i)?.[1];
+
+      const categoryMatches = entryXml.match(/<category[^>]*>/gi);
+      const categories = categoryMatches
+        ?.map(match => match.match(/term=["']([^"']+)["']/i)?.[1]?.trim())
+        .filter((category): category is string => Boolean(category)) || [];
+
+      if (!title || !published) {
+        return null;
+      }
+
+      return {
+        id: id || undefined,
+        title: normalizeText(title),
+        description: description ? normalizeText(description) : undefined,
+        link: link || undefined,
+        dateStart: parseDate(published, source),
+        categories,
       };
 
+    } catch (error) {
+      console.warn(`Failed to parse Atom entry from ${source}:`, error);
+      return null;
+    }
+  }
+
+  private static parseRSSItem(itemXml: string, source: string): FeedItem | null {
+    try {
+      const getTagContent = (tag: string): string => this.getTagContent(itemXml, tag);
+
       const title = getTagContent("title");
       const description = getTagContent("description");
       const link = getTagContent("link");
@@ -74,6 +128,7 @@ export class RSSParser {
       }
 
       return {
+        id: getTagContent("guid") || undefined,
         title: normalizeText(title),
         description: description ? normalizeText(description) : undefined,
         link: link || undefined,
@@ -150,12 +205,14 @@ export class ICalParser {
       const location = properties.LOCATION;
       const categories = properties.CATEGORIES?.split(",") || [];
       const url = properties.URL;
+      const uid = properties.UID;
 
       if (!title || !dtStart) {
         return null;
       }
 
       return {
+        id: uid || undefined,
         title: normalizeText(title),
         description: description ? normalizeText(description) : undefined,
         link: url || undefined,
@@ -272,6 +329,7 @@ export class JSONFeedParser {
 
   private static parseJSONFeedFormat(feed: any, source: string): FeedItem[] {
     return feed.items.map((item: any) => ({
+      id: item.id !== undefined ? String(item.id) : undefined,
       title: normalizeText(item.title || item.summary || ""),
       description: item.content_text || item.content_html || undefined,
       link: item.url || item.external_url || undefined,
@@ -299,6 +357,7 @@ export class JSONFeedParser {
         if (!title || !startDate) return null;
         
         return {
+          id: event.id !== undefined ? String(event.id) : undefined,
           title: normalizeText(title),
           description: description ? normalizeText(description) : undefined,
           link,
@@ -315,39 +374,86 @@ export class JSONFeedParser {
   }
 }
 
+/**
+ * How to request a feed
+ */
+export interface FeedFetchOptions {
+  /** Aborting cancels the request; pass AbortSignal.timeout() to bound it */
+  signal?: AbortSignal;
+  userAgent?: string;
+  /** Extra request headers, such as conditional request validators */
+  headers?: Record<string, string>;
+}
+
+/**
+ * A fetched feed body, not yet parsed
+ */
+export interface FetchedFeed {
+  content: string;
+  contentType: string;
+  etag?: string;
+  lastModified?: string;
+}
+
 /**
  * Unified feed fetcher and parser
  */
 export class FeedParser {
   /**
-   * Fetch and parse a feed from URL
+   * Fetch a feed without parsing it. Returns null when conditional headers get a
+   * 304 Not Modified. HTTP 429 throws RateLimitError, other 4xx responses a ScraperError
+   * (retrying won't help) and 5xx responses or failed requests a NetworkError.
    */
-  static async fetchAndParse(url: string, source: string): Promise<FeedItem[]> {
+  static async fetchFeed(url: string, source: string, options: FeedFetchOptions = {}): Promise<FetchedFeed | null> {
     try {
       const response = await fetch(url, {
         headers: {
-          "User-Agent": "Mozilla/5.0 (compatible; Gigateer/1.0; Event Aggregator)",
+          "User-Agent": options.userAgent || "Mozilla/5.0 (compatible; Gigateer/1.0; Event Aggregator)",
           "Accept": "application/rss+xml, application/xml, text/xml, application/json, text/calendar",
+          ...options.headers,
         },
+        signal: options.signal,
       });
-      
+
+      if (response.status === 304) {
+        return null;
+      }
+      if (response.status === 429) {
+        throw new RateLimitError(source, parseRetryAfter(response.headers.get("retry-after")));
+      }
+      if (response.status >= 400 && response.status < 500) {
+        throw new ScraperError(`HTTP ${response.status} fetching feed ${url}`, source);
+      }
       if (!response.ok) {
         throw new NetworkError(source, url, new Error(`HTTP ${response.status}`));
       }
-      
-      const contentType = response.headers.get("content-type") || "";
-      const content = await response.text();
-      
-      return this.parseContent(content, contentType, source);
-      
+
+      return {
+        content: await response.text(),
+        contentType: response.headers.get("content-type") || "",
+        etag: response.headers.get("etag") ?? undefined,
+        lastModified: response.headers.get("last-modified") ?? undefined,
+      };
     } catch (error) {
-      if (error instanceof NetworkError || error instanceof ParseError) {
+      if (error instanceof ScraperError) {
         throw error;
       }
+      // Timeouts and cancellations keep their own error rather than passing for network failures
+      if (options.signal?.aborted) {
+        throw options.signal.reason;
+      }
       throw new NetworkError(source, url, error as Error);
     }
   }
 
+  /**
+   * Fetch and parse a feed from URL
+   */
+  static async fetchAndParse(url: string, source: string, options: FeedFetchOptions = {}): Promise<FeedItem[]> {
+    const feed = await this.fetchFeed(url, source, options);
+    return feed ? this.parseContent(feed.content, feed.contentType, source) : [];
+  }
+
   /**
    * Parse content based on content type
    */
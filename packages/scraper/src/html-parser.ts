@@ -3,9 +3,9 @@
  */
 
 import * as cheerio from "cheerio";
-import { ParseError } from "./errors";
-import { parseDate, combineDateAndTime, extractTimezone } from "./date-utils";
-import { normalizeText, extractPrice, extractArtists, parseAddress, extractGenres } from "./text-utils";
+import { ParseError } from "./errors.js";
+import { parseDate, combineDateAndTime, extractTimezone } from "./date-utils.js";
+import { normalizeText, extractPrice, extractArtists, parseAddress, extractGenres } from "./text-utils.js";
 
 /**
  * Generic HTML event data structure
@@ -40,6 +40,22 @@ export class HTMLParser {
     this.source = source;
   }
 
+  /**
+   * Why a CSS selector can't be used, or null when it parses
+   */
+  static selectorError(selector: string): string | null {
+    if (!selector.trim()) {
+      return "Selector is empty";
+    }
+
+    try {
+      cheerio.load("")(selector);
+      return null;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+
   /**
    * Extract text content from selectors
    */
@@ -188,6 +204,127 @@ export class HTMLParser {
     return items;
   }
 
+  /**
+   * Extract the first match of a selector as it appears in the page, without normalising
+   * whitespace. `attribute` is "text", "innerHTML" or the name of an attribute.
+   */
+  extractValue(selector: string, attribute: string = "text"): string | null {
+    const element = this.$(selector).first();
+    return element.length ? this.readValue(element, attribute) : null;
+  }
+
+  /**
+   * Extract one record per container, reading each field relative to its container.
+   * Single fields are null when missing; multiple fields list every non-empty match.
+   */
+  extractContainers(
+    containerSelector: string,
+    fields: Record<string, ContainerFieldConfig>
+  ): Array<Record<string, string | string[] | null>> {
+    return this.$(containerSelector).toArray().map(container => {
+      const $container = this.$(container);
+      const record: Record<string, string | string[] | null> = {};
+
+      for (const [fieldName, field] of Object.entries(fields)) {
+        const attribute = field.attribute || "text";
+        const matches = $container.find(field.selector);
+
+        if (field.multiple) {
+          record[fieldName] = matches.toArray()
+            .map(match => this.readValue(this.$(match), attribute))
+            .filter((value): value is string => !!value);
+        } else {
+          record[fieldName] = matches.length ? this.readValue(matches.first(), attribute) : null;
+        }
+      }
+
+      return record;
+    });
+  }
+
+  /**
+   * The markup of every element matching a selector, including the element itself
+   */
+  extractOuterHtml(selector: string): string[] {
+    return this.$(selector).toArray().map(element => this.$.html(element));
+  }
+
+  /**
+   * Extract top-level microdata items, keeping nested itemscopes as nested objects.
+   * Link and media properties are resolved against `baseUrl`, as a browser would.
+   */
+  extractMicrodataScopes(baseUrl?: string): Record<string, unknown>[] {
+    const resolve = (value: string | undefined): string => {
+      if (!value) return "";
+      try {
+        return baseUrl ? new URL(value, baseUrl).toString() : value;
+      } catch {
+        return value;
+      }
+    };
+
+    const propValue = ($element: cheerio.Cheerio<any>): string | undefined => {
+      if ($element.attr("content") !== undefined) return $element.attr("content");
+
+      switch (($element.prop("tagName") || "").toUpperCase()) {
+        case "A": case "AREA": case "LINK":
+          return resolve($element.attr("href"));
+        case "IMG": case "AUDIO": case "VIDEO": case "SOURCE": case "IFRAME": case "EMBED":
+          return resolve($element.attr("src"));
+        case "TIME":
+          return $element.attr("datetime") || $element.text().trim();
+        case "DATA": case "METER":
+          return $element.attr("value");
+        default:
+          return $element.text().trim();
+      }
+    };
+
+    const readScope = ($scope: cheerio.Cheerio<any>): Record<string, unknown> => {
+      const itemType = $scope.attr("itemtype") || "";
+      const result: Record<string, unknown> = { "@type": itemType.split(/\s+/)[0].split("/").pop() };
+
+      const visit = ($parent: cheerio.Cheerio<any>) => {
+        $parent.children().each((_, child) => {
+          const $child = this.$(child);
+          const names = ($child.attr("itemprop") || "").split(/\s+/).filter(Boolean);
+          const isScope = $child.attr("itemscope") !== undefined;
+
+          if (names.length > 0) {
+            const value = isScope ? readScope($child) : propValue($child);
+            for (const name of names) {
+              const existing = result[name];
+              if (existing === undefined) {
+                result[name] = value;
+              } else {
+                result[name] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+              }
+            }
+          }
+          if (!isScope) visit($child);
+        });
+      };
+
+      visit($scope);
+      return result;
+    };
+
+    return this.$("[itemscope][itemtype]").toArray()
+      .filter(element => this.$(element).attr("itemprop") === undefined)
+      .map(element => readScope(this.$(element)));
+  }
+
+  private readValue(element: cheerio.Cheerio<any>, attribute: string): string | null {
+    switch (attribute) {
+      case "text":
+        return element.text();
+      case "innerHTML":
+        return element.html();
+      default:
+        return element.attr(attribute) ?? null;
+    }
+  }
+
   /**
    * Extract Open Graph metadata
    */
@@ -496,6 +633,17 @@ export class HTMLParser {
   }
 }
 
+/**
+ * A field read from each container by `HTMLParser.extractContainers`
+ */
+export interface ContainerFieldConfig {
+  selector: string;
+  /** "text" (default), "innerHTML" or an attribute name */
+  attribute?: string;
+  /** Collect every match instead of the first */
+  multiple?: boolean;
+}
+
 /**
  * Configuration for event extraction
  */
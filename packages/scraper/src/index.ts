@@ -1,8 +1,9 @@
 // Export all utilities
-export * from "./feed-parser";
-export * from "./html-parser";  
-export * from "./date-utils";
-export * from "./text-utils";
-export * from "./playwright-utils";
-export * from "./rate-limiter";
-export * from "./errors";
\ No newline at end of file
+export * from "./feed-parser.js";
+export * from "./html-parser.js";  
+export * from "./date-utils.js";
+export * from "./text-utils.js";
+export * from "./playwright-utils.js";
+export * from "./robots-txt.js";
+export * from "./rate-limiter.js";
+export * from "./errors.js";
\ No newline at end of file
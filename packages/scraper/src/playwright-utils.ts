@@ -3,8 +3,9 @@
  */
 
 import { Browser, BrowserContext, Page, chromium } from "playwright";
-import { RateLimiter } from "./rate-limiter";
-import { NetworkError, ScraperError } from "./errors";
+import { RateLimiter } from "./rate-limiter.js";
+import { NetworkError, ScraperError } from "./errors.js";
+import { fetchRobotsTxt } from "./robots-txt.js";
 
 /**
  * Configuration for Playwright browser setup
@@ -286,40 +287,9 @@ export async function checkRobotsTxt(
   userAgent = "*"
 ): Promise<boolean> {
   try {
-    const robotsUrl = new URL("/robots.txt", baseUrl).toString();
-    const response = await fetch(robotsUrl);
-    
-    if (!response.ok) {
-      // If robots.txt doesn't exist, assume crawling is allowed
-      return true;
-    }
-    
-    const robotsText = await response.text();
-    const lines = robotsText.split("\n").map(line => line.trim());
-    
-    let currentUserAgent: string | null = null;
-    let isRelevantSection = false;
-    
-    for (const line of lines) {
-      if (line.startsWith("User-agent:")) {
-        const agent = line.substring(11).trim();
-        currentUserAgent = agent;
-        isRelevantSection = agent === "*" || agent.toLowerCase() === userAgent.toLowerCase();
-        continue;
-      }
-      
-      if (!isRelevantSection || !currentUserAgent) continue;
-      
-      if (line.startsWith("Disallow:")) {
-        const disallowPath = line.substring(9).trim();
-        if (disallowPath === "/" || path.startsWith(disallowPath)) {
-          return false;
-        }
-      }
-    }
-    
-    return true;
-    
+    const robots = await fetchRobotsTxt(baseUrl);
+    // If robots.txt doesn't exist, assume crawling is allowed
+    return robots ? robots.isAllowed(path, userAgent) : true;
   } catch (error) {
     // If we can't check robots.txt, err on the side of allowing crawling
     console.warn(`Could not check robots.txt for ${baseUrl}:`, error);
@@ -88,4 +88,16 @@ export class RateLimiter {
       isThrottled: this.backoffDelayMs > 0,
     };
   }
-}
\ No newline at end of file
+}
+/**
+ * Read a Retry-After header (seconds or an HTTP date) as milliseconds to wait
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
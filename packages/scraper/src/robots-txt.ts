@@ -0,0 +1,159 @@
+/**
+ * robots.txt parsing following RFC 9309, plus the widely used Crawl-delay extension
+ */
+
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+  pattern: RegExp;
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+/**
+ * Result of checking a URL path against robots.txt
+ */
+export interface RobotsVerdict {
+  allowed: boolean;
+  /** The rule that decided the verdict, e.g. "Disallow: /private", if any matched */
+  rule?: string;
+}
+
+/**
+ * Parsed robots.txt file
+ */
+export class RobotsTxt {
+  private constructor(private readonly groups: RobotsGroup[]) {}
+
+  /**
+   * Parse a robots.txt body. Unknown directives and malformed lines are ignored.
+   */
+  static parse(text: string): RobotsTxt {
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | null = null;
+    let collectingAgents = false;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, "").trim();
+      const separator = line.indexOf(":");
+      if (separator === -1) continue;
+
+      const directive = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (directive === "user-agent") {
+        // Consecutive user-agent lines share one group
+        if (!current || !collectingAgents) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+        }
+        current.userAgents.push(value.toLowerCase());
+        collectingAgents = true;
+        continue;
+      }
+
+      collectingAgents = false;
+      if (!current) continue;
+
+      if (directive === "allow" || directive === "disallow") {
+        // An empty Disallow allows everything, so it adds no rule
+        if (value) {
+          current.rules.push({ allow: directive === "allow", path: value, pattern: toPattern(value) });
+        }
+      } else if (directive === "crawl-delay") {
+        const delay = parseFloat(value);
+        if (!isNaN(delay) && delay >= 0) current.crawlDelay = delay;
+      }
+    }
+
+    return new RobotsTxt(groups);
+  }
+
+  /**
+   * Check whether a user agent may fetch a path (with query string). The longest matching
+   * rule wins and Allow wins ties; paths no rule matches are allowed.
+   */
+  check(path: string, userAgent = "*"): RobotsVerdict {
+    let best: RobotsRule | null = null;
+
+    for (const rule of this.findGroup(userAgent)?.rules ?? []) {
+      if (!rule.pattern.test(path)) continue;
+      if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.allow)) {
+        best = rule;
+      }
+    }
+
+    if (!best) return { allowed: true };
+    return { allowed: best.allow, rule: `${best.allow ? "Allow" : "Disallow"}: ${best.path}` };
+  }
+
+  isAllowed(path: string, userAgent = "*"): boolean {
+    return this.check(path, userAgent).allowed;
+  }
+
+  /**
+   * Seconds to wait between requests, if the site asks for a delay
+   */
+  getCrawlDelay(userAgent = "*"): number | undefined {
+    return this.findGroup(userAgent)?.crawlDelay;
+  }
+
+  /**
+   * The group for the most specific user-agent token found in `userAgent`, falling back to "*".
+   * Full browser-style user agents match groups named after any product token they contain.
+   */
+  private findGroup(userAgent: string): RobotsGroup | undefined {
+    const agent = userAgent.toLowerCase();
+    let best: { group: RobotsGroup; length: number } | undefined;
+
+    for (const group of this.groups) {
+      for (const token of group.userAgents) {
+        if (token !== "*" && agent.includes(token) && (!best || token.length > best.length)) {
+          best = { group, length: token.length };
+        }
+      }
+    }
+
+    return best?.group ?? this.groups.find(group => group.userAgents.includes("*"));
+  }
+}
+
+/**
+ * Fetch and parse a site's robots.txt. Returns null when the site has none (any 4xx),
+ * which permits everything; other failures throw.
+ */
+export async function fetchRobotsTxt(
+  baseUrl: string,
+  init: { userAgent?: string; signal?: AbortSignal } = {}
+): Promise<RobotsTxt | null> {
+  const robotsUrl = new URL("/robots.txt", baseUrl).toString();
+  const response = await fetch(robotsUrl, {
+    headers: init.userAgent ? { "User-Agent": init.userAgent } : undefined,
+    signal: init.signal,
+  });
+
+  if (response.status >= 400 && response.status < 500) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} fetching ${robotsUrl}`);
+  }
+
+  return RobotsTxt.parse(await response.text());
+}
+
+/**
+ * Compile a robots.txt path, where `*` matches anything and a trailing `$` anchors the end
+ */
+function toPattern(path: string): RegExp {
+  const anchored = path.endsWith("$");
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split("*")
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
@@ -4,6 +4,8 @@ export default {
   extensionsToTreatAsEsm: ['.ts'],
   testTimeout: 60000,
   roots: ['<rootDir>/src'],
+  // Prefer TypeScript sources over the compiled files checked in next to them
+  moduleFileExtensions: ['ts', 'js', 'json'],
   testMatch: [
     '**/__tests__/**/*.ts',
     '**/?(*.)+(spec|test).ts'
@@ -39,5 +41,8 @@ export default {
   ],
   moduleNameMapper: {
     '^@gigateer/contracts$': '<rootDir>/../../packages/contracts/src/index.ts',
+    '^@gigateer/dedupe$': '<rootDir>/../../packages/dedupe/src/index.ts',
+    '^@gigateer/scraper$': '<rootDir>/../../packages/scraper/src/index.ts',
+    '^(\\.{1,2}/.*)\\.js$': '$1',
   },
 };
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { describe, it, expect } from '@jest/globals';
+import pino from 'pino';
+import type { Gig, RunQualityProfile } from '@gigateer/contracts';
+import { AnomalyDetector, DEFAULT_ANOMALY_DETECTION, buildBaseline, profileGigs } from '../anomaly-detector';
+
+const logger = pino({ level: 'silent' });
+
+function createGig(id: string, dateStart: string, overrides: Partial<Gig> = {}): Gig {
+  return {
+    id,
+    source: 'test-venue',
+    title: `Gig ${id}`,
+    artists: ['Band'],
+    genre: [],
+    tags: [],
+    dateStart,
+    venue: { name: 'Test Venue', city: 'Bristol' },
+    price: { min: 10, max: 15, currency: 'GBP' },
+    images: ['https://example.com/poster.jpg'],
+    ticketsUrl: 'https://example.com/tickets',
+    status: 'scheduled',
+    hash: `hash-${id}`,
+    updatedAt: new Date().toISOString(),
+    ...overrides
+  } as Gig;
+}
+
+function createProfile(overrides: Partial<RunQualityProfile> = {}): RunQualityProfile {
+  return {
+    gigCount: 40,
+    fillRates: { price: 0.9, images: 1, ticketsUrl: 0.8, artists: 1 },
+    distinctDates: 25,
+    dateSpanDays: 60,
+    ...overrides
+  };
+}
+
+describe('profileGigs', () => {
+  it('should measure fill rates and date spread', () => {
+    const profile = profileGigs([
+      createGig('a', '2026-03-01T20:00:00Z'),
+      createGig('b', '2026-03-01T22:00:00Z', { price: undefined, images: [] }),
+      createGig('c', '2026-03-11T20:00:00Z', { ticketsUrl: undefined }),
+      createGig('d', '2026-03-21T20:00:00Z', { price: { min: null, max: null, currency: null } })
+    ]);
+
+    expect(profile).toEqual({
+      gigCount: 4,
+      fillRates: { price: 0.5, images: 0.75, ticketsUrl: 0.75, artists: 1 },
+      distinctDates: 3,
+      dateSpanDays: 20
+    });
+  });
+
+  it('should handle an empty run', () => {
+    expect(profileGigs([])).toEqual({
+      gigCount: 0,
+      fillRates: { price: 0, images: 0, ticketsUrl: 0, artists: 0 },
+      distinctDates: 0,
+      dateSpanDays: 0
+    });
+  });
+});
+
+describe('buildBaseline', () => {
+  it('should take the median of each measure so one odd run does not skew it', () => {
+    const baseline = buildBaseline([
+      createProfile({ gigCount: 40 }),
+      createProfile({ gigCount: 2, fillRates: { price: 0, images: 0, ticketsUrl: 0, artists: 0 } }),
+      createProfile({ gigCount: 44 })
+    ]);
+
+    expect(baseline).toEqual({
+      runs: 3,
+      gigCount: 40,
+      fillRates: { price: 0.9, images: 1, ticketsUrl: 0.8, artists: 1 },
+      distinctDates: 25
+    });
+  });
+
+  it('should return null without history', () => {
+    expect(buildBaseline([])).toBeNull();
+  });
+});
+
+describe('AnomalyDetector', () => {
+  const history = [createProfile(), createProfile({ gigCount: 38 }), createProfile({ gigCount: 42 })];
+
+  it('should accept a run in line with the baseline', () => {
+    const detector = new AnomalyDetector(logger);
+
+    expect(detector.detect('test-venue', createProfile({ gigCount: 35 }), history)).toEqual([]);
+  });
+
+  it('should flag a sharp drop in gig count', () => {
+    const detector = new AnomalyDetector(logger);
+
+    expect(detector.detect('test-venue', createProfile({ gigCount: 6 }), history)).toEqual([
+      'Gig count dropped to 6 from a typical 40'
+    ]);
+  });
+
+  it('should flag fields that stopped being filled in and dates collapsing to one day', () => {
+    const detector = new AnomalyDetector(logger);
+    const profile = createProfile({
+      fillRates: { price: 0, images: 1, ticketsUrl: 0.7, artists: 1 },
+      distinctDates: 1,
+      dateSpanDays: 0
+    });
+
+    expect(detector.detect('test-venue', profile, history)).toEqual([
+      'Gigs with price fell to 0% from a typical 90%',
+      'All 40 gigs start on the same day, usually spread over 25 days'
+    ]);
+  });
+
+  it('should not judge sources without enough history', () => {
+    const detector = new AnomalyDetector(logger);
+
+    expect(detector.detect('test-venue', createProfile({ gigCount: 0 }), history.slice(0, 2))).toEqual([]);
+  });
+
+  it('should do nothing when disabled', () => {
+    const detector = new AnomalyDetector(logger, { ...DEFAULT_ANOMALY_DETECTION, enabled: false });
+
+    expect(detector.detect('test-venue', createProfile({ gigCount: 0 }), history)).toEqual([]);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Replay tests for Bristol venue scrapers
+ * Runs each config against its recorded page responses, so config breakages show up
+ * in CI without touching the live sites.
+ *
+ * Record (or refresh) a source's fixtures with:
+ *   npx tsx src/cli.ts test-config data/scraper-configs/<source>.json --record src/__tests__/fixtures/scrapers/<source>
+ */
+
+import { describe, it, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import { existsSync, readdirSync } from 'fs';
+import path from 'path';
+import { chromium, type Browser } from 'playwright';
+import { ConfigDrivenScraper } from '../scrapers/config-driven-scraper';
+import { FixtureStore } from '../scrapers/fixture-store';
+
+const fixturesRoot = path.join(__dirname, 'fixtures/scrapers');
+const configDir = path.resolve(__dirname, '../../data/scraper-configs');
+
+const recordedSources = existsSync(fixturesRoot)
+  ? readdirSync(fixturesRoot).filter(source => existsSync(path.join(fixturesRoot, source, 'manifest.json')))
+  : [];
+
+describe('Bristol Scrapers Replay Tests', () => {
+  let browser: Browser | undefined;
+
+  beforeAll(async () => {
+    if (recordedSources.length > 0) {
+      browser = await chromium.launch({ headless: true });
+    }
+  });
+
+  afterAll(async () => {
+    await browser?.close();
+  });
+
+  if (recordedSources.length === 0) {
+    it.skip('has no recorded fixtures yet', () => undefined);
+    return;
+  }
+
+  it.each(recordedSources)('%s should extract the recorded events', async (source) => {
+    const store = await FixtureStore.load(path.join(fixturesRoot, source));
+
+    // Pin the clock to the recording so year inference and updatedAt are stable,
+    // while leaving real timers to Playwright
+    jest.useFakeTimers({
+      now: new Date(store.getRecordedAt()),
+      doNotFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'setImmediate', 'clearImmediate', 'nextTick', 'queueMicrotask', 'hrtime', 'performance']
+    });
+
+    try {
+      const scraper = await ConfigDrivenScraper.fromFile(path.join(configDir, `${source}.json`));
+      const gigs = await scraper.scrape(browser!, { fixtures: { mode: 'replay', store } });
+
+      expect(gigs.length).toBeGreaterThan(0);
+      expect(gigs).toMatchSnapshot();
+    } finally {
+      jest.useRealTimers();
+    }
+  }, 60000);
+});
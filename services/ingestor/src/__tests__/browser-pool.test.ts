@@ -0,0 +1,114 @@
+import { describe, it, expect } from '@jest/globals';
+import { EventEmitter } from 'events';
+import pino from 'pino';
+import type { Browser, LaunchOptions } from 'playwright';
+import { BrowserPool } from '../browser-pool';
+
+const logger = pino({ level: 'silent' });
+
+function createFakeLauncher() {
+  const launched: Array<{ options: LaunchOptions; browser: Browser & EventEmitter; closed: boolean }> = [];
+
+  const launch = async (options: LaunchOptions): Promise<Browser> => {
+    const entry = { options, browser: undefined as unknown as Browser & EventEmitter, closed: false };
+    const browser = Object.assign(new EventEmitter(), {
+      isConnected: () => !entry.closed,
+      close: async () => {
+        entry.closed = true;
+        browser.emit('disconnected');
+      }
+    });
+    entry.browser = browser as unknown as Browser & EventEmitter;
+    launched.push(entry);
+    return entry.browser;
+  };
+
+  return { launch, launched };
+}
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(done => { resolve = done; });
+  return { promise, resolve };
+}
+
+describe('BrowserPool', () => {
+  it('should reuse an idle browser', async () => {
+    const { launch, launched } = createFakeLauncher();
+    const pool = new BrowserPool(2, logger, launch);
+
+    const first = await pool.withBrowser({ headless: true }, async browser => browser);
+    const second = await pool.withBrowser({ headless: true }, async browser => browser);
+
+    expect(first).toBe(second);
+    expect(launched).toHaveLength(1);
+    await pool.close();
+  });
+
+  it('should launch up to its size and then share browsers', async () => {
+    const { launch, launched } = createFakeLauncher();
+    const pool = new BrowserPool(2, logger, launch);
+    const hold = deferred();
+
+    const runs = [1, 2, 3].map(() => pool.withBrowser({ headless: true }, async browser => {
+      await hold.promise;
+      return browser;
+    }));
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(launched).toHaveLength(2);
+    expect(pool.getStats()).toEqual({ browsers: 2, leases: 3 });
+
+    hold.resolve();
+    await Promise.all(runs);
+    expect(pool.getStats()).toEqual({ browsers: 2, leases: 0 });
+    await pool.close();
+  });
+
+  it('should replace browsers that crashed and close everything on close', async () => {
+    const { launch, launched } = createFakeLauncher();
+    const pool = new BrowserPool(1, logger, launch);
+
+    await pool.withBrowser({ headless: true }, async browser => browser.close());
+    await pool.withBrowser({ headless: true }, async () => undefined);
+    expect(launched).toHaveLength(2);
+
+    await pool.close();
+    expect(launched.every(entry => entry.closed)).toBe(true);
+    await expect(pool.withBrowser({ headless: true }, async () => undefined)).rejects.toThrow('closed');
+  });
+
+  it('should recycle an idle browser launched with other options when full', async () => {
+    const { launch, launched } = createFakeLauncher();
+    const pool = new BrowserPool(1, logger, launch);
+
+    await pool.withBrowser({ headless: true }, async () => undefined);
+    await pool.withBrowser({ headless: true, args: ['--no-sandbox'] }, async () => undefined);
+
+    expect(launched.map(entry => entry.closed)).toEqual([true, false]);
+    await pool.close();
+  });
+
+  it('should let queued scrapes launch their own browser when a launch fails', async () => {
+    const { launch, launched } = createFakeLauncher();
+    const firstLaunch = deferred();
+    let attempts = 0;
+    const pool = new BrowserPool(1, logger, async options => {
+      if (++attempts === 1) {
+        await firstLaunch.promise;
+        throw new Error('Executable doesn\'t exist');
+      }
+      return launch(options);
+    });
+
+    const failed = pool.withBrowser({ headless: true }, async () => 'first');
+    const queued = pool.withBrowser({ headless: true }, async () => 'queued');
+    await new Promise(resolve => setImmediate(resolve));
+
+    firstLaunch.resolve();
+    await expect(failed).rejects.toThrow('Executable');
+    await expect(queued).resolves.toBe('queued');
+    expect(launched).toHaveLength(1);
+    await pool.close();
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import type { CanonicalEvent, Gig } from '@gigateer/contracts';
+import { createOverride, loadTrustPolicy, type DedupeOverride } from '@gigateer/dedupe';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { buildEvent, linkCanonicalEvents, type EventStore } from '../canonical-events';
+import { DatabaseManager } from '../database/database-manager';
+
+const gig = (overrides: Partial<Gig> = {}): Gig => ({
+  id: 'bristol-thekla-the-cure-2026-05-01',
+  source: 'bristol-thekla',
+  sourceId: 'tk-1',
+  title: 'The Cure',
+  artists: ['The Cure'],
+  genre: [],
+  tags: [],
+  dateStart: '2026-05-01T19:30:00.000Z',
+  venue: { name: 'Thekla', city: 'Bristol', country: 'UK' },
+  status: 'scheduled',
+  images: [],
+  updatedAt: '2026-04-01T09:00:00.000Z',
+  firstSeenAt: '2026-03-01T09:00:00.000Z',
+  lastSeenAt: '2026-04-01T09:00:00.000Z',
+  hash: 'hash',
+  ...overrides
+});
+
+// The same show as an aggregator lists it
+const listing = (overrides: Partial<Gig> = {}) => gig({
+  id: 'gig-guide-the-cure-2026-05-01',
+  source: 'gig-guide',
+  sourceId: 'gg-99',
+  title: 'The Cure',
+  dateStart: '2026-05-01T20:00:00.000Z',
+  ticketsUrl: 'https://tickets.example/the-cure',
+  firstSeenAt: '2026-02-15T09:00:00.000Z',
+  ...overrides
+});
+
+/**
+ * Events and gigs kept in memory in place of Mongo
+ */
+class MemoryEventStore implements EventStore {
+  events = new Map<string, CanonicalEvent>();
+  gigs = new Map<string, Gig>();
+
+  store(...gigs: Gig[]) {
+    gigs.forEach(entry => this.gigs.set(entry.id, entry));
+  }
+
+  async findEventsByGigIds(gigIds: string[]) {
+    return [...this.events.values()].filter(event => event.sources.some(link => gigIds.includes(link.gigId)));
+  }
+
+  async findEventsStartingBetween(start: Date, end: Date) {
+    return [...this.events.values()].filter(event => {
+      const at = new Date(event.dateStart);
+      return at >= start && at <= end;
+    });
+  }
+
+  async findGigsByIds(gigIds: string[]) {
+    return gigIds.flatMap(id => this.gigs.get(id) ?? []);
+  }
+
+  async findEventById(eventId: string) {
+    return this.events.get(eventId) ?? null;
+  }
+
+  async saveEvent(event: CanonicalEvent) {
+    this.events.set(event.id, event);
+  }
+
+  async deleteEvent(eventId: string) {
+    this.events.delete(eventId);
+  }
+}
+
+const trust: Record<string, number> = { 'bristol-thekla': 90, 'gig-guide': 60 };
+const trustScoreOf = (source: string) => trust[source] ?? 80;
+const now = new Date('2026-04-01T10:00:00Z');
+
+describe('linkCanonicalEvents', () => {
+  let store: MemoryEventStore;
+
+  const link = async (gigs: Gig[], changed: Gig[] = gigs, previousIds?: Map<string, string>, overrides?: DedupeOverride[]) => {
+    store.store(...gigs);
+    return linkCanonicalEvents(gigs, store, { changedIds: new Set(changed.map(entry => entry.id)), previousIds, trustScoreOf, overrides, now });
+  };
+
+  beforeEach(() => {
+    store = new MemoryEventStore();
+  });
+
+  it('should merge the same show from two sources into one event, most trusted first', async () => {
+    expect(await link([listing()])).toEqual({ created: 1, linked: 0, unlinked: 0, refreshed: 0 });
+    expect(await link([gig()])).toEqual({ created: 0, linked: 1, unlinked: 0, refreshed: 0 });
+
+    const [event] = store.events.values();
+    expect(store.events.size).toBe(1);
+    expect(event.id).toBe('event-gig-guide-the-cure-2026-05-01');
+    expect(event.source).toBe('bristol-thekla');
+    expect(event.dateStart).toBe('2026-05-01T19:30:00.000Z');
+    expect(event.firstSeenAt).toBe('2026-02-15T09:00:00.000Z');
+    expect(event.sources.map(entry => [entry.source, entry.trustScore])).toEqual([['bristol-thekla', 90], ['gig-guide', 60]]);
+    expect(event.sources[0].matchConfidence).toBeGreaterThanOrEqual(0.85);
+    expect(event.sources[1]).toMatchObject({ gigId: 'gig-guide-the-cure-2026-05-01', ticketsUrl: 'https://tickets.example/the-cure', matchConfidence: 1 });
+  });
+
+  it('should keep different shows and two shows from one source apart', async () => {
+    await link([gig(), gig({ id: 'bristol-thekla-the-cure-late', sourceId: 'tk-2', dateStart: '2026-05-01T22:30:00.000Z' })]);
+    await link([listing({ id: 'gig-guide-other', title: 'Slowdive' })]);
+
+    expect(store.events.size).toBe(3);
+  });
+
+  it('should only link gigs that changed or have no event yet', async () => {
+    await link([gig()]);
+    const before = store.events.get('event-bristol-thekla-the-cure-2026-05-01');
+
+    expect(await link([gig()], [])).toEqual({ created: 0, linked: 0, unlinked: 0, refreshed: 0 });
+    expect(await link([gig({ ticketsUrl: 'https://thekla.example/tickets' })])).toMatchObject({ refreshed: 1 });
+    expect(store.events.get('event-bristol-thekla-the-cure-2026-05-01')).not.toEqual(before);
+    expect(store.events.get('event-bristol-thekla-the-cure-2026-05-01')!.sources[0].ticketsUrl).toBe('https://thekla.example/tickets');
+  });
+
+  it('should unlink a gig that no longer matches its event', async () => {
+    await link([listing()]);
+    await link([gig()]);
+
+    const moved = gig({ dateStart: '2026-06-12T19:30:00.000Z' });
+    expect(await link([moved])).toEqual({ created: 1, linked: 0, unlinked: 1, refreshed: 0 });
+
+    const listed = store.events.get('event-gig-guide-the-cure-2026-05-01')!;
+    expect(listed.sources.map(entry => entry.source)).toEqual(['gig-guide']);
+    expect(listed.source).toBe('gig-guide');
+  });
+
+  it('should keep the event of a gig that moved to a new ID', async () => {
+    await link([listing()]);
+    await link([gig()]);
+
+    store.gigs.delete(gig().id);
+    const renamed = gig({ id: 'bristol-thekla-the-cure-renamed' });
+    expect(await link([renamed], [renamed], new Map([[renamed.id, gig().id]]))).toMatchObject({ refreshed: 1 });
+
+    const [event] = store.events.values();
+    expect(event.sources.map(entry => entry.gigId).sort()).toEqual(['bristol-thekla-the-cure-renamed', 'gig-guide-the-cure-2026-05-01']);
+  });
+
+  it('should follow merge and split overrides for stored events, even unchanged gigs', async () => {
+    const retitled = listing({ title: 'Robert Smith & Friends', artists: ['Robert Smith'], venue: { name: 'Mud Dock', city: 'Bristol' } });
+    await link([retitled]);
+    await link([gig()]);
+    expect(store.events.size).toBe(2);
+
+    const merge = createOverride('merge', ['bristol-thekla:tk-1', 'gig-guide:gg-99']);
+    expect(await link([gig()], [], undefined, [merge])).toEqual({ created: 0, linked: 1, unlinked: 1, refreshed: 0 });
+    expect([...store.events.keys()]).toEqual(['event-gig-guide-the-cure-2026-05-01']);
+
+    const split = createOverride('split', merge.keys);
+    expect(await link([gig()], [], undefined, [split])).toEqual({ created: 1, linked: 0, unlinked: 1, refreshed: 0 });
+    expect(await link([listing()], [listing()], undefined, [split])).toMatchObject({ refreshed: 1 });
+    expect(store.events.size).toBe(2);
+  });
+
+  it('should give a gig split from the event it started a new event ID', async () => {
+    await link([gig()]);
+    await link([listing()]);
+    expect([...store.events.keys()]).toEqual(['event-bristol-thekla-the-cure-2026-05-01']);
+
+    const split = createOverride('split', ['bristol-thekla:tk-1', 'gig-guide:gg-99']);
+    expect(await link([gig()], [], undefined, [split])).toEqual({ created: 1, linked: 0, unlinked: 1, refreshed: 0 });
+
+    const eventOf = (gigId: string) => [...store.events.values()].filter(event => event.sources.some(entry => entry.gigId === gigId));
+    expect(store.events.size).toBe(2);
+    expect(eventOf(gig().id).map(event => event.id)).toEqual(['event-bristol-thekla-the-cure-2026-05-01-2']);
+    expect(eventOf(listing().id).map(event => event.id)).toEqual(['event-bristol-thekla-the-cure-2026-05-01']);
+  });
+});
+
+describe('DatabaseManager.linkEvents', () => {
+  it('should link sources one at a time so neither loses the other\'s event', async () => {
+    const store = new MemoryEventStore();
+    store.store(gig(), listing());
+    // Reads that return late let a second source read before the first has saved
+    const slowStore = Object.assign(Object.create(store), {
+      findEventsStartingBetween: async (start: Date, end: Date) => {
+        const events = await store.findEventsStartingBetween(start, end);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return events;
+      },
+      listDedupeOverrides: async () => []
+    });
+
+    const manager = new DatabaseManager({ enabled: true, mongodb: { connectionString: 'mongodb://localhost', databaseName: 'test' }, maintainFileStorage: false });
+    // Swap in the in-memory store rather than connecting to Mongo
+    Object.assign(manager as any, { dataLayer: slowStore, isInitialized: true });
+
+    await Promise.all([
+      manager.linkEvents([gig()], 'bristol-thekla', { changedIds: new Set([gig().id]), trustScoreOf, now }),
+      manager.linkEvents([listing()], 'gig-guide', { changedIds: new Set([listing().id]), trustScoreOf, now })
+    ]);
+
+    const [event] = store.events.values();
+    expect(store.events.size).toBe(1);
+    expect(event.sources.map(entry => entry.source)).toEqual(['bristol-thekla', 'gig-guide']);
+  });
+});
+
+describe('buildEvent', () => {
+  it('should only fall back to removed gigs when no source lists the show any more', () => {
+    const removed = gig({ status: 'removed', title: 'The Cure (removed)' });
+    const event = buildEvent('event-1', [removed, listing()], [], trustScoreOf, now);
+
+    expect(event.status).toBe('scheduled');
+    expect(event.source).toBe('gig-guide');
+    expect(event.sources).toHaveLength(2);
+    expect(buildEvent('event-1', [removed], [], trustScoreOf, now).status).toBe('removed');
+  });
+
+  it('should merge fields by the trust policy and record where each came from', () => {
+    const trustPolicy = {
+      kinds: { venue: { dateStart: 100 }, ticketing: { ticketsUrl: 100 } },
+      sources: { 'bristol-thekla': { kind: 'venue' }, 'gig-guide': { kind: 'ticketing' } },
+    };
+    const event = buildEvent('event-1', [listing(), gig({ ticketsUrl: 'https://thekla.example/tickets' })], [], trustScoreOf, now, trustPolicy);
+
+    expect(event.dateStart).toBe('2026-05-01T19:30:00.000Z');
+    expect(event.ticketsUrl).toBe('https://tickets.example/the-cure');
+    expect(event.provenance).toMatchObject({ dateStart: 'bristol-thekla', ticketsUrl: 'gig-guide', title: 'bristol-thekla' });
+  });
+
+  it('should score sources that declare no trust score by the policy file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gigateer-trust-'));
+    const policyPath = path.join(dir, 'trust-policy.json');
+    const declared = (source: string) => (source === 'bristol-thekla' ? 90 : undefined);
+
+    try {
+      await fs.writeFile(policyPath, JSON.stringify({ sources: { 'gig-guide': { trust: 40 } } }));
+      const distrusted = buildEvent('event-1', [listing(), gig()], [], declared, now, await loadTrustPolicy(policyPath));
+      expect(distrusted.dateStart).toBe('2026-05-01T19:30:00.000Z');
+      expect(distrusted.provenance).toMatchObject({ dateStart: 'bristol-thekla' });
+
+      await fs.writeFile(policyPath, JSON.stringify({ sources: { 'gig-guide': { trust: 95 } } }));
+      const trusted = buildEvent('event-1', [listing(), gig()], [], declared, now, await loadTrustPolicy(policyPath));
+      expect(trusted.dateStart).toBe('2026-05-01T20:00:00.000Z');
+      expect(trusted.provenance).toMatchObject({ dateStart: 'gig-guide' });
+      expect(trusted.sources.map(entry => [entry.source, entry.trustScore])).toEqual([['gig-guide', 95], ['bristol-thekla', 90]]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from '@jest/globals';
+import pino from 'pino';
+import type { Gig } from '@gigateer/contracts';
+import { ChangeDetector } from '../change-detector';
+
+const logger = pino({ level: 'silent' });
+
+function createGig(id: string, daysFromNow: number, overrides: Partial<Gig> = {}): Gig {
+  return {
+    id,
+    source: 'test-venue',
+    title: `Gig ${id}`,
+    artists: [],
+    tags: [],
+    dateStart: new Date(Date.now() + daysFromNow * 24 * 60 * 60 * 1000).toISOString(),
+    venue: { name: 'Test Venue', city: 'Bristol' },
+    images: [],
+    status: 'scheduled',
+    hash: `hash-${id}`,
+    updatedAt: new Date().toISOString(),
+    ...overrides
+  } as Gig;
+}
+
+/**
+ * Runs the detector the way the ingestor does, feeding each run's output into the next
+ */
+function runSequence(detector: ChangeDetector, previous: Gig[], runs: Gig[][]): Gig[] {
+  return runs.reduce(
+    (stored, current) => detector.mergeResults(detector.detectChanges(current.map(gig => ({ ...gig })), stored)),
+    previous
+  );
+}
+
+describe('ChangeDetector removal detection', () => {
+  const listing = [createGig('a', 5), createGig('b', 10), createGig('c', 15)];
+
+  it('should track missing gigs through the grace period before flagging them as removed', () => {
+    const detector = new ChangeDetector(logger, { gracePeriodRuns: 2, minRetainedRatio: 0.5 });
+    const current = listing.slice(0, 2);
+
+    const first = detector.detectChanges(current, listing);
+    expect(first.missingGigs.map(gig => [gig.id, gig.missedRuns])).toEqual([['c', 1]]);
+    expect(first.removedGigs).toHaveLength(0);
+
+    const second = detector.detectChanges(current, detector.mergeResults(first));
+    expect(second.missingGigs).toHaveLength(0);
+    expect(second.removedGigs).toHaveLength(1);
+    expect(second.removedGigs[0]).toMatchObject({ id: 'c', status: 'removed', missedRuns: 2 });
+    expect(second.removedGigs[0].removedAt).toBeDefined();
+    expect(second.removedGigs[0].hash).not.toBe('hash-c');
+
+    // Once flagged it is carried along without being counted again
+    const third = detector.detectChanges(current, detector.mergeResults(second));
+    expect(third.removedGigs).toHaveLength(0);
+    expect(third.previouslyRemovedGigs.map(gig => gig.id)).toEqual(['c']);
+  });
+
+  it('should drop past gigs that are no longer listed', () => {
+    const detector = new ChangeDetector(logger);
+    const previous = [...listing, createGig('old', -3)];
+
+    const result = detector.detectChanges(listing, previous);
+
+    expect(result.missingGigs).toHaveLength(0);
+    expect(detector.mergeResults(result).map(gig => gig.id)).not.toContain('old');
+  });
+
+  it('should reset a gig that reappears before the grace period ends', () => {
+    const detector = new ChangeDetector(logger, { gracePeriodRuns: 3, minRetainedRatio: 0.5 });
+
+    const stored = runSequence(detector, listing, [listing.slice(0, 2), listing]);
+
+    expect(stored.find(gig => gig.id === 'c')?.missedRuns).toBeUndefined();
+  });
+
+  it('should skip removal detection when a run returns nothing', () => {
+    const detector = new ChangeDetector(logger, { gracePeriodRuns: 1, minRetainedRatio: 0.5 });
+
+    const result = detector.detectChanges([], listing);
+
+    expect(result.removalGuardTriggered).toBe(true);
+    expect(result.removedGigs).toHaveLength(0);
+    expect(detector.mergeResults(result).map(gig => [gig.id, gig.status, gig.missedRuns])).toEqual([
+      ['a', 'scheduled', undefined],
+      ['b', 'scheduled', undefined],
+      ['c', 'scheduled', undefined]
+    ]);
+  });
+
+  it('should skip removal detection when a run returns abnormally few gigs', () => {
+    const detector = new ChangeDetector(logger, { gracePeriodRuns: 1, minRetainedRatio: 0.5 });
+    const previous = [...listing, createGig('d', 20), createGig('e', 25)];
+
+    const guarded = detector.detectChanges(listing.slice(0, 2), previous);
+    expect(guarded.removalGuardTriggered).toBe(true);
+    expect(guarded.removedGigs).toHaveLength(0);
+
+    const normal = detector.detectChanges(listing, previous);
+    expect(normal.removalGuardTriggered).toBe(false);
+    expect(normal.removedGigs.map(gig => gig.id)).toEqual(['d', 'e']);
+  });
+});
+
+describe('ChangeDetector change history', () => {
+  it('should record field-level changes for updated gigs', () => {
+    const detector = new ChangeDetector(logger);
+    const previous = createGig('a', 5, { price: { min: 10, max: 10, currency: 'GBP' } });
+    const current = { ...previous, price: { min: 12, max: 12, currency: 'GBP' }, status: 'postponed' as const };
+
+    const result = detector.detectChanges([current], [previous]);
+
+    expect(result.updatedGigs.map(gig => gig.id)).toEqual(['a']);
+    expect(result.history).toEqual([{
+      gigId: 'a',
+      source: 'test-venue',
+      changedAt: expect.any(String),
+      changes: [
+        { field: 'price.min', previous: 10, current: 12 },
+        { field: 'price.max', previous: 10, current: 12 },
+        { field: 'status', previous: 'scheduled', current: 'postponed' }
+      ]
+    }]);
+  });
+
+  it('should follow a rescheduled gig to its new ID', () => {
+    const detector = new ChangeDetector(logger);
+    const previous = createGig('jazz-night-2024-05-01', 5, {
+      title: 'Jazz Night',
+      sourceId: 'evt-42',
+      firstSeenAt: '2024-01-01T00:00:00.000Z'
+    });
+    const rescheduled = createGig('jazz-night-2024-05-08', 12, { title: 'Jazz Night', sourceId: 'evt-42' });
+
+    const result = detector.detectChanges([rescheduled], [previous]);
+
+    expect(result.newGigs).toHaveLength(0);
+    expect(result.missingGigs).toHaveLength(0);
+    expect(result.updatedGigs[0]).toMatchObject({ id: 'jazz-night-2024-05-08', firstSeenAt: '2024-01-01T00:00:00.000Z' });
+    expect(result.history).toHaveLength(1);
+    expect(result.history[0]).toMatchObject({
+      gigId: 'jazz-night-2024-05-08',
+      previousGigId: 'jazz-night-2024-05-01',
+      changes: [{ field: 'dateStart', previous: previous.dateStart, current: rescheduled.dateStart }]
+    });
+    expect(detector.mergeResults(result).map(gig => gig.id)).toEqual(['jazz-night-2024-05-08']);
+  });
+
+  it('should not match gigs by an event URL shared between several gigs', () => {
+    const detector = new ChangeDetector(logger);
+    const listingUrl = 'https://venue.example/whats-on';
+    const previous = [createGig('a', 5, { eventUrl: listingUrl }), createGig('b', 6, { eventUrl: listingUrl })];
+    const current = [createGig('c', 7, { eventUrl: listingUrl }), createGig('d', 8, { eventUrl: listingUrl })];
+
+    const result = detector.detectChanges(current, previous);
+
+    expect(result.newGigs.map(gig => gig.id)).toEqual(['c', 'd']);
+    expect(result.history).toHaveLength(0);
+  });
+
+  it('should record the status change when a gig is flagged as removed', () => {
+    const detector = new ChangeDetector(logger, { gracePeriodRuns: 1, minRetainedRatio: 0.5 });
+    const previous = [createGig('a', 5), createGig('b', 10), createGig('c', 15)];
+
+    const result = detector.detectChanges(previous.slice(0, 2), previous);
+
+    expect(result.history).toEqual([{
+      gigId: 'c',
+      source: 'test-venue',
+      changedAt: expect.any(String),
+      changes: [{ field: 'status', previous: 'scheduled', current: 'removed' }]
+    }]);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from '@jest/globals';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import path from 'path';
+
+const execFileAsync = promisify(execFile);
+const ingestorDir = path.resolve(__dirname, '../..');
+
+/**
+ * Runs the CLI the way the package scripts do, so the workspace packages are loaded by
+ * Node's own module loader rather than jest's
+ */
+function runCli(...args: string[]) {
+  return execFileAsync('npx', ['tsx', 'src/cli.ts', ...args], { cwd: ingestorDir, timeout: 60000 });
+}
+
+describe('ingestor CLI', () => {
+  it('should start and list its commands', async () => {
+    const { stdout } = await runCli('--help');
+
+    expect(stdout).toMatch(/Usage: ingestor/);
+    expect(stdout).toMatch(/ingest:source/);
+    expect(stdout).toMatch(/daemon/);
+  });
+
+  it('should load every configured scraper with its politeness settings', async () => {
+    const { stdout } = await runCli('scheduler:list');
+
+    expect(stdout).toMatch(/"source": "bristol-thekla"/);
+    expect(stdout).toMatch(/"source": "bristol-electric"/);
+  });
+
+  it('should classify scraper errors for retries outside jest', async () => {
+    const script = [
+      "Promise.all([import('@gigateer/scraper'), import('./src/error-classifier.ts')])",
+      ".then(([{ RateLimitError }, { classifyError, getRetryAfter }]) => {",
+      "const error = new RateLimitError('test-venue', 5000);",
+      "console.log(classifyError(error), getRetryAfter(error));",
+      "});"
+    ].join(' ');
+    const { stdout } = await execFileAsync('npx', ['tsx', '--eval', script], { cwd: ingestorDir, timeout: 60000 });
+
+    expect(stdout.trim()).toBe('rate-limit 5000');
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect } from '@jest/globals';
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { lintScraperConfig, toJsonPath } from '../config-lint';
+
+const execFileAsync = promisify(execFile);
+const ingestorDir = path.resolve(__dirname, '../..');
+const configDir = path.join(ingestorDir, 'data/scraper-configs');
+
+function createConfig(overrides: Record<string, any> = {}): Record<string, any> {
+  return {
+    site: { name: 'Test Venue', baseUrl: 'https://venue.example', source: 'test-venue' },
+    engine: 'http',
+    workflow: [
+      { type: 'navigate', url: 'https://venue.example/events' },
+      {
+        type: 'extract',
+        containerSelector: '.event',
+        fields: {
+          title: { selector: '.title', transform: 'trim' },
+          date: { selector: 'time', attribute: 'datetime', transform: 'date' },
+          link: { selector: 'a', attribute: 'href', transform: 'url' }
+        }
+      }
+    ],
+    mapping: {
+      id: { strategy: 'generated' },
+      title: 'title',
+      venue: { name: 'Test Venue', city: 'Bristol' },
+      date: { start: 'date' },
+      urls: { event: 'link' }
+    },
+    ...overrides
+  };
+}
+
+const rules = (config: unknown) => lintScraperConfig(config).map(({ rule, path }) => `${rule} ${path}`);
+
+describe('lintScraperConfig', () => {
+  it('should pass a config whose mapping matches its workflow', () => {
+    expect(lintScraperConfig(createConfig())).toEqual([]);
+  });
+
+  it('should report only schema errors for configs that do not parse', () => {
+    const issues = lintScraperConfig(createConfig({ mapping: { title: 'title' } }));
+
+    expect(issues.length).toBeGreaterThan(0);
+    expect(issues.every(issue => issue.rule === 'schema' && issue.severity === 'error')).toBe(true);
+    expect(issues.map(issue => issue.path)).toContain('$.mapping.venue');
+  });
+
+  it('should report mapping entries and follow-ups naming fields nothing extracts', () => {
+    const config = createConfig();
+    config.workflow[1].followUp = { urlField: 'detailUrl', fields: { doors: { selector: '.doors' } } };
+    config.mapping.description = 'summary';
+    config.mapping.ageRestriction = 'doors';
+
+    const issues = lintScraperConfig(config);
+
+    expect(issues).toContainEqual({
+      severity: 'error',
+      rule: 'follow-up-url-field',
+      path: '$.workflow[1].followUp.urlField',
+      message: 'Follow-up URL field "detailUrl" is not extracted before the follow-up'
+    });
+    expect(rules(config)).toEqual([
+      'follow-up-url-field $.workflow[1].followUp.urlField',
+      'unknown-field $.mapping.description'
+    ]);
+  });
+
+  it('should report transforms that do not fit the gig field and start dates left unparsed', () => {
+    const config = createConfig();
+    config.workflow[1].fields.link.transform = 'date';
+    config.workflow[1].fields.date.transform = 'trim';
+
+    expect(rules(config)).toEqual([
+      'transform-mismatch $.mapping.urls.event',
+      'date-without-transform $.mapping.date.start'
+    ]);
+
+    config.mapping.date.start = { field: 'date', transform: 'date' };
+    expect(rules(config)).toEqual(['transform-mismatch $.mapping.urls.event']);
+  });
+
+  it('should report required fields the mapping cannot fill in', () => {
+    const config = createConfig({ validation: { required: ['title', 'price.min', 'headliner'] } });
+
+    expect(rules(config)).toEqual([
+      'unreachable-required $.validation.required[1]',
+      'unreachable-required $.validation.required[2]'
+    ]);
+  });
+
+  it('should report containers extracted twice and mapping keys the schema drops', () => {
+    const config = createConfig();
+    config.workflow.push({ type: 'extract', containerSelector: ' .event', fields: { title: { selector: 'h2' } } });
+    config.mapping.ticketInfo = 'title';
+
+    expect(rules(config)).toEqual([
+      'duplicate-container $.workflow[2].containerSelector',
+      'unknown-mapping-key $.mapping.ticketInfo'
+    ]);
+  });
+
+  it('should report selectors that do not parse, allowing Playwright syntax for the browser engine', () => {
+    const config = createConfig();
+    config.workflow[1].fields.title.selector = '.title[';
+    config.workflow[1].fields.date.selector = 'time:has-text("Doors")';
+
+    expect(rules(config)).toEqual([
+      'invalid-selector $.workflow[1].fields.title.selector',
+      'invalid-selector $.workflow[1].fields.date.selector'
+    ]);
+    expect(rules({ ...config, engine: 'browser' })).toEqual(['invalid-selector $.workflow[1].fields.title.selector']);
+  });
+
+  it('should report venues outside UTC whose gigs get no timezone', () => {
+    expect(rules(createConfig({ schedule: { timezone: 'Europe/London' } }))).toEqual(['missing-timezone $.mapping.date']);
+    expect(rules(createConfig({ schedule: { timezone: 'UTC' } }))).toEqual([]);
+
+    const literal = createConfig({ schedule: { timezone: 'Europe/London' } });
+    literal.mapping.date.timezone = 'Europe/London';
+    expect(lintScraperConfig(literal)).toEqual([expect.objectContaining({ severity: 'warning', rule: 'missing-timezone', path: '$.mapping.date.timezone' })]);
+  });
+
+  it('should check feed configs against feed item properties', () => {
+    const config = {
+      site: { name: 'Test Venue', baseUrl: 'https://venue.example', source: 'test-venue' },
+      type: 'feed',
+      feed: { url: 'https://venue.example/events.ics', fields: { venueName: { from: 'location', transform: 'trim' } } },
+      mapping: {
+        id: { strategy: 'generated' },
+        title: 'title',
+        venue: { name: 'venueName' },
+        date: { start: 'dateStart', end: 'summary' },
+        urls: { event: 'dateEnd' }
+      }
+    };
+
+    expect(lintScraperConfig(config).map(({ severity, rule, path }) => `${severity} ${rule} ${path}`)).toEqual([
+      'warning unknown-field $.mapping.date.end',
+      'warning transform-mismatch $.mapping.urls.event'
+    ]);
+  });
+
+  it('should find no errors in the committed configs', async () => {
+    const files = (await fs.readdir(configDir)).filter(file => file.endsWith('.json'));
+
+    for (const file of files) {
+      const config = JSON.parse(await fs.readFile(path.join(configDir, file), 'utf-8'));
+      const errors = lintScraperConfig(config).filter(issue => issue.severity === 'error');
+      expect({ file, errors }).toEqual({ file, errors: [] });
+    }
+  });
+});
+
+describe('config lint command', () => {
+  const lint = (...args: string[]) =>
+    execFileAsync('npx', ['tsx', 'src/cli.ts', 'config', 'lint', '--json', ...args], {
+      cwd: ingestorDir,
+      timeout: 60000,
+      // dotenv's banner would otherwise come before the JSON, and some of its tips contain braces
+      env: { ...process.env, DOTENV_CONFIG_QUIET: 'true' }
+    });
+
+  it('should lint the committed configs and exit cleanly', async () => {
+    const { stdout } = await lint();
+    const report = JSON.parse(stdout);
+
+    expect(report.errors).toBe(0);
+    expect(report.files.length).toBeGreaterThan(0);
+  });
+
+  it('should exit with 1 when a config has lint errors', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gigateer-lint-'));
+    const file = path.join(dir, 'broken.json');
+    const config = createConfig();
+    config.workflow[1].followUp = { urlField: 'detailUrl', fields: {} };
+
+    try {
+      await fs.writeFile(file, JSON.stringify(config));
+      await expect(lint(file)).rejects.toMatchObject({ code: 1, stdout: expect.stringContaining('follow-up-url-field') });
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('toJsonPath', () => {
+  it('should quote keys that are not identifiers', () => {
+    expect(toJsonPath(['workflow', 2, 'fields', 'ticket-url'])).toBe("$.workflow[2].fields['ticket-url']");
+  });
+});
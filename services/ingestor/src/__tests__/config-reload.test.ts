@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import pino from 'pino';
+import type { IngestorConfig } from '@gigateer/contracts';
+import { HybridPluginLoader } from '../hybrid-plugin-loader';
+import { ConfigWatcher } from '../config-watcher';
+import { Scheduler, type ScheduledJob } from '../scheduler';
+
+const logger = pino({ level: 'silent' });
+
+function scraperConfig(overrides: Record<string, any> = {}) {
+  return {
+    site: { name: 'Test Venue', baseUrl: 'https://venue.example', source: 'test-venue' },
+    workflow: [{ type: 'navigate', url: 'https://venue.example/events' }],
+    mapping: { id: { strategy: 'generated' }, title: 'title', venue: { name: 'Test Venue' }, date: { start: 'date' } },
+    schedule: { cron: '0 */3 * * *' },
+    ...overrides
+  };
+}
+
+describe('scraper config reload', () => {
+  let dir: string;
+  let configDir: string;
+  let loader: HybridPluginLoader;
+
+  const writeConfig = (filename: string, config: unknown) =>
+    fs.writeFile(path.join(configDir, filename), typeof config === 'string' ? config : JSON.stringify(config));
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gigateer-configs-'));
+    configDir = path.join(dir, 'scraper-configs');
+    await fs.mkdir(configDir);
+    await fs.mkdir(path.join(dir, 'plugins'));
+    loader = new HybridPluginLoader(path.join(dir, 'plugins'), configDir, logger);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('HybridPluginLoader.reloadConfig', () => {
+    it('should add, replace and remove plugins as their files change', async () => {
+      await writeConfig('test-venue.json', scraperConfig());
+      expect(await loader.reloadConfig('test-venue.json')).toMatchObject({ type: 'added', source: 'test-venue' });
+
+      await writeConfig('test-venue.json', scraperConfig({ schedule: { cron: '0 6 * * *' } }));
+      expect(await loader.reloadConfig('test-venue.json')).toMatchObject({ type: 'replaced' });
+      expect(loader.getPlugin('test-venue')?.upstreamMeta.defaultSchedule).toBe('0 6 * * *');
+
+      await fs.unlink(path.join(configDir, 'test-venue.json'));
+      expect(await loader.reloadConfig('test-venue.json')).toEqual({ type: 'removed', source: 'test-venue' });
+      expect(loader.hasPlugin('test-venue')).toBe(false);
+      expect(await loader.reloadConfig('test-venue.json')).toBeNull();
+    });
+
+    it('should reject invalid configs and keep the loaded version', async () => {
+      await writeConfig('test-venue.json', scraperConfig());
+      await loader.reloadConfig('test-venue.json');
+      const loaded = loader.getPlugin('test-venue');
+
+      await writeConfig('test-venue.json', scraperConfig({ workflow: [{ type: 'teleport' }] }));
+      const invalid = await loader.reloadConfig('test-venue.json');
+      await writeConfig('test-venue.json', scraperConfig({ schedule: { cron: 'every hour' } }));
+      const badCron = await loader.reloadConfig('test-venue.json');
+      await writeConfig('test-venue.json', '{ "site": ');
+      const badJson = await loader.reloadConfig('test-venue.json');
+
+      expect(invalid).toMatchObject({ type: 'rejected', reason: expect.stringContaining('workflow') });
+      expect(badCron).toMatchObject({ type: 'rejected', reason: 'schedule.cron: Invalid cron expression "every hour"' });
+      expect(badJson).toMatchObject({ type: 'rejected', source: 'test-venue' });
+      expect(loader.getPlugin('test-venue')).toBe(loaded);
+    });
+
+    it('should keep running the loaded version after a change is rejected', async () => {
+      const originalFetch = global.fetch;
+      global.fetch = jest.fn(async () => new Response(
+        '<div class="event"><h2>Jazz Night</h2><time>2025-03-15T20:00:00Z</time></div>',
+        { status: 200, headers: { 'Content-Type': 'text/html' } }
+      )) as typeof fetch;
+
+      try {
+        await writeConfig('test-venue.json', scraperConfig({
+          engine: 'http',
+          workflow: [
+            { type: 'navigate', url: 'https://venue.example/events' },
+            { type: 'extract', containerSelector: '.event', fields: { title: { selector: 'h2' }, date: { selector: 'time' } } }
+          ],
+          rateLimit: { respectRobotsTxt: false }
+        }));
+        await loader.reloadConfig('test-venue.json');
+        const loaded = loader.getPlugin('test-venue')!;
+
+        await writeConfig('test-venue.json', scraperConfig({ workflow: [{ type: 'teleport' }] }));
+        expect(await loader.reloadConfig('test-venue.json')).toMatchObject({ type: 'rejected' });
+
+        expect(await loaded.fetchRaw()).toEqual([expect.objectContaining({ title: 'Jazz Night' })]);
+      } finally {
+        global.fetch = originalFetch;
+      }
+    });
+  });
+
+  describe('Scheduler.applyConfigChange', () => {
+    let scheduler: Scheduler;
+
+    beforeEach(() => {
+      const ingestorConfig = { dataDir: dir, rawDataDir: dir, normalizedDataDir: dir, logDir: dir, concurrency: undefined } as unknown as IngestorConfig;
+      scheduler = new Scheduler(ingestorConfig, { enabled: true, defaultSchedule: '0 * * * *', disabledSources: ['disabled-venue'] }, logger);
+      // Reload through the test loader rather than the repo's config directory
+      (scheduler as any).ingestor = { reloadSourceConfig: (filename: string) => loader.reloadConfig(filename) };
+    });
+
+    afterEach(() => {
+      jobs().forEach(job => job.task.stop());
+    });
+
+    const jobs = (): Map<string, ScheduledJob> => (scheduler as any).jobs;
+
+    it('should schedule, reschedule and unschedule sources without losing run history', async () => {
+      await writeConfig('test-venue.json', scraperConfig());
+      await scheduler.applyConfigChange('test-venue.json');
+      const job = jobs().get('test-venue')!;
+      job.runCount = 4;
+
+      await writeConfig('test-venue.json', scraperConfig({ schedule: { cron: '30 6 * * *' }, site: { ...scraperConfig().site, name: 'Renamed Venue' } }));
+      await scheduler.applyConfigChange('test-venue.json');
+
+      expect(jobs().get('test-venue')).toBe(job);
+      expect(job).toMatchObject({ schedule: '30 6 * * *', runCount: 4, status: 'scheduled' });
+      expect(job.plugin.upstreamMeta.name).toBe('Renamed Venue');
+
+      await fs.unlink(path.join(configDir, 'test-venue.json'));
+      await scheduler.applyConfigChange('test-venue.json');
+
+      expect(jobs().has('test-venue')).toBe(false);
+    });
+
+    it('should keep the running version when a change is rejected', async () => {
+      await writeConfig('test-venue.json', scraperConfig());
+      await scheduler.applyConfigChange('test-venue.json');
+      const { plugin, task } = jobs().get('test-venue')!;
+
+      await writeConfig('test-venue.json', scraperConfig({ schedule: { cron: '61 * * * *' } }));
+      await scheduler.applyConfigChange('test-venue.json');
+
+      expect(jobs().get('test-venue')).toMatchObject({ plugin, task, schedule: '0 */3 * * *' });
+    });
+
+    it('should not schedule disabled sources', async () => {
+      await writeConfig('disabled-venue.json', scraperConfig());
+      await scheduler.applyConfigChange('disabled-venue.json');
+
+      expect(jobs().has('disabled-venue')).toBe(false);
+    });
+
+    it('should unschedule a source whose config disables it and follow timezone changes', async () => {
+      await writeConfig('test-venue.json', scraperConfig());
+      await scheduler.applyConfigChange('test-venue.json');
+      const { task } = jobs().get('test-venue')!;
+
+      await writeConfig('test-venue.json', scraperConfig({ schedule: { cron: '0 */3 * * *', timezone: 'Europe/London' } }));
+      await scheduler.applyConfigChange('test-venue.json');
+      const job = jobs().get('test-venue')!;
+
+      expect(job.task).not.toBe(task);
+      expect(job.settings.timezone).toBe('Europe/London');
+
+      await writeConfig('test-venue.json', scraperConfig({ schedule: { enabled: false } }));
+      await scheduler.applyConfigChange('test-venue.json');
+
+      expect(jobs().has('test-venue')).toBe(false);
+    });
+
+    it('should retry failed scheduled runs as the retry policy allows', async () => {
+      await writeConfig('test-venue.json', scraperConfig({ schedule: { retry: { attempts: 2, backoffMs: 1 } } }));
+      await scheduler.applyConfigChange('test-venue.json');
+
+      const timeout = Object.assign(new Error('Navigation timeout'), { name: 'TimeoutError' });
+      const outcomes = [timeout, { success: false, errorClass: 'network', errors: ['fetch failed'] }, { success: true }];
+      let calls = 0;
+      (scheduler as any).ingestor.ingestSource = async () => {
+        const outcome = outcomes[calls++];
+        if (outcome instanceof Error) throw outcome;
+        return outcome;
+      };
+
+      await scheduler.triggerSource('test-venue');
+
+      expect(calls).toBe(3);
+      expect(jobs().get('test-venue')).toMatchObject({ runCount: 1, errorCount: 0, status: 'scheduled' });
+    });
+  });
+
+  describe('ConfigWatcher', () => {
+    it('should report each changed config file once it settles', async () => {
+      const changed: string[] = [];
+      const watcher = new ConfigWatcher(configDir, async filename => { changed.push(filename); }, logger, 50);
+      watcher.start();
+
+      await writeConfig('test-venue.json', scraperConfig());
+      await writeConfig('test-venue.json', scraperConfig({ schedule: { cron: '0 6 * * *' } }));
+      await writeConfig('.editor-swap.json', '{}');
+      await fs.writeFile(path.join(configDir, 'notes.txt'), 'not a config');
+      await new Promise(resolve => setTimeout(resolve, 300));
+      await watcher.stop();
+
+      expect(changed).toEqual(['test-venue.json']);
+    });
+  });
+});
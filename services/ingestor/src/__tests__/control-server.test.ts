@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import pino from 'pino';
+import type { IngestorConfig, ScraperPlugin } from '@gigateer/contracts';
+import { Scheduler, type ScheduledJob } from '../scheduler';
+import { ControlServer, createControlToken, writeControlToken } from '../control-server';
+import { ControlApiError, ControlClient, DaemonUnreachableError, readControlToken } from '../control-client';
+import type { IngestProgress } from '../ingestor';
+import type { PausedSource } from '../file-manager';
+
+const logger = pino({ level: 'silent' });
+
+const plugin = {
+  upstreamMeta: { name: 'Test Venue', rateLimitPerMin: 60, defaultSchedule: '0 * * * *' }
+} as unknown as ScraperPlugin;
+
+describe('ControlServer', () => {
+  let scheduler: Scheduler;
+  let server: ControlServer;
+  let client: ControlClient;
+  let paused: Record<string, PausedSource>;
+  // Resolves the run under way, which waits for it after reporting it is normalizing
+  let finishRun: (success: boolean) => void;
+
+  const jobs = (): Map<string, ScheduledJob> => (scheduler as any).jobs;
+
+  const waitForRun = async () => {
+    while (jobs().get('test-venue')!.status === 'running') {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  };
+
+  beforeEach(async () => {
+    paused = {};
+
+    // The real ingestor is swapped for a fake below, so nothing is written here
+    const dir = os.tmpdir();
+    const ingestorConfig = { dataDir: dir, rawDataDir: dir, normalizedDataDir: dir, logDir: dir, defaultRateLimitPerMin: 60, sources: {} } as unknown as IngestorConfig;
+    scheduler = new Scheduler(ingestorConfig, { enabled: true, defaultSchedule: '0 * * * *' }, logger);
+    (scheduler as any).ingestor = {
+      reloadSourceConfig: async () => ({ type: 'added', source: 'test-venue', plugin }),
+      ingestSource: async (_source: string, _logType: string, onProgress: (progress: IngestProgress) => void) => {
+        onProgress({ phase: 'fetching' });
+        onProgress({ phase: 'normalizing', rawCount: 12 });
+        const success = await new Promise<boolean>(resolve => { finishRun = resolve; });
+        return { success, duration: 40, rawCount: 12, normalizedCount: success ? 10 : 0, newCount: 2, updatedCount: 1, errors: success ? [] : ['Selector changed'] };
+      },
+      getPausedSources: async () => ({ ...paused }),
+      resumeSource: async (source: string) => {
+        const entry = paused[source];
+        delete paused[source];
+        return entry ?? null;
+      }
+    };
+    await scheduler.applyConfigChange('test-venue.json');
+
+    server = new ControlServer(scheduler, logger, 'test-token');
+    client = new ControlClient(await server.start(0), 'test-token');
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    jobs().forEach(job => job.task.stop());
+  });
+
+  it('should report the scheduler status, health and performance', async () => {
+    const status = await client.getStatus();
+
+    expect(status).toMatchObject({ totalJobs: 1, runningJobs: 0 });
+    expect(status.jobs[0]).toMatchObject({ source: 'test-venue', name: 'Test Venue', schedule: '0 * * * *', timezone: 'UTC', status: 'scheduled' });
+    expect(status.jobs[0]).not.toHaveProperty('task');
+    expect(await client.getHealth()).toMatchObject({ overall: 'healthy', stats: { totalJobs: 1, healthyJobs: 1 } });
+    expect(await client.getPerformance()).toMatchObject({ totalRuns: 0, jobs: [{ source: 'test-venue' }] });
+  });
+
+  it('should trigger runs without waiting for them and show their progress live', async () => {
+    const triggered = await client.trigger('test-venue');
+
+    expect(triggered).toMatchObject({ status: 'running', progress: { phase: 'normalizing', attempt: 1, rawCount: 12 } });
+    expect(Date.parse(triggered.progress!.startedAt)).not.toBeNaN();
+    expect((await client.getJobs())[0].progress).toMatchObject({ phase: 'normalizing' });
+    await expect(client.trigger('test-venue')).rejects.toMatchObject({ status: 409, message: 'test-venue is already running' });
+
+    finishRun(true);
+    await waitForRun();
+    const job = await client.getJob('test-venue');
+
+    expect(job).toMatchObject({ status: 'scheduled', runCount: 1, lastResult: { success: true, normalizedCount: 10, duration: 40 } });
+    expect(job.progress).toBeUndefined();
+  });
+
+  it('should pause and resume a source', async () => {
+    // Pausing during a run stops the runs after it
+    await client.trigger('test-venue');
+    expect(await client.pause('test-venue')).toMatchObject({ status: 'stopped' });
+    finishRun(true);
+    await waitForRun();
+    expect(jobs().get('test-venue')).toMatchObject({ status: 'stopped', runCount: 1 });
+
+    // So does triggering a run while paused
+    await client.trigger('test-venue');
+    finishRun(false);
+    await waitForRun();
+    expect(jobs().get('test-venue')).toMatchObject({ status: 'stopped', runCount: 2, lastError: 'Selector changed' });
+
+    expect(await client.resume('test-venue')).toMatchObject({ status: 'scheduled' });
+  });
+
+  it('should lift a circuit breaker pause when resuming', async () => {
+    const job = jobs().get('test-venue')!;
+    job.status = 'paused';
+    job.consecutiveFailures = 5;
+    paused['test-venue'] = { source: 'test-venue', pausedAt: new Date().toISOString(), consecutiveFailures: 5 };
+
+    await expect(client.trigger('test-venue')).rejects.toMatchObject({ status: 409 });
+    expect(await client.resume('test-venue')).toMatchObject({ status: 'scheduled', consecutiveFailures: 0 });
+    expect(paused).toEqual({});
+  });
+
+  it('should reject unknown sources and routes', async () => {
+    const error = await client.getJob('nowhere').catch(e => e);
+
+    expect(error).toBeInstanceOf(ControlApiError);
+    expect(error).toMatchObject({ status: 404, message: 'No scheduled job for source: nowhere' });
+    await expect((client as any).request('GET', '/jobs/test-venue/trigger')).rejects.toMatchObject({ status: 405 });
+    await expect((client as any).request('DELETE', '/status')).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('should refuse requests without the token or from a browser', async () => {
+    const port = Number(new URL(client.baseUrl).port);
+
+    await expect(new ControlClient(port).trigger('test-venue')).rejects.toMatchObject({ status: 401 });
+    await expect(new ControlClient(port, 'wrong-token').pause('test-venue')).rejects.toMatchObject({ status: 401 });
+
+    // A page in a local browser sends its Origin even when it can guess the token
+    const response = await fetch(`${client.baseUrl}/jobs/test-venue/trigger`, {
+      method: 'POST',
+      headers: { 'x-control-token': 'test-token', origin: 'https://attacker.example' }
+    });
+    expect(response.status).toBe(403);
+    expect(jobs().get('test-venue')).toMatchObject({ status: 'scheduled', runCount: 0 });
+  });
+
+  it('should report a daemon that is not listening as unreachable', async () => {
+    const port = Number(new URL(client.baseUrl).port);
+    await server.stop();
+
+    await expect(new ControlClient(port).getStatus()).rejects.toBeInstanceOf(DaemonUnreachableError);
+  });
+});
+
+describe('control token', () => {
+  it('should be read from the environment before the file the daemon writes', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gigateer-control-'));
+
+    try {
+      expect(readControlToken(dir, {})).toBeUndefined();
+
+      const token = createControlToken({});
+      expect(token).toMatch(/^[0-9a-f]{64}$/);
+      expect(createControlToken({})).not.toBe(token);
+
+      const tokenPath = await writeControlToken(dir, token);
+      expect((await fs.stat(tokenPath)).mode & 0o777).toBe(0o600);
+      expect(readControlToken(dir, {})).toBe(token);
+      expect(readControlToken(dir, { INGESTOR_CONTROL_TOKEN: 'shared' })).toBe('shared');
+      expect(createControlToken({ INGESTOR_CONTROL_TOKEN: 'shared' })).toBe('shared');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import { ICalParser, RobotsTxt } from '@gigateer/scraper';
+import type { BlockedRequest, ListingFingerprint } from '@gigateer/contracts';
+import { FeedScraper } from '../scrapers/feed-scraper';
+import { ConfigDrivenScraper } from '../scrapers/config-driven-scraper';
+import { ScraperConfigSchema } from '../schemas/scraper-config';
+import { Politeness } from '../scrapers/politeness';
+import { classifyError, isTransient } from '../error-classifier';
+
+const originalFetch = global.fetch;
+
+function withRobots(robotsTxt?: string): Politeness {
+  return new Politeness({ fetchRobots: async () => (robotsTxt === undefined ? null : RobotsTxt.parse(robotsTxt)) });
+}
+
+const feedConfig = {
+  type: 'feed',
+  site: {
+    name: 'Test Venue',
+    baseUrl: 'https://venue.example',
+    source: 'test-venue'
+  },
+  feed: {
+    url: 'https://venue.example/events.ics',
+    fields: {
+      venueName: { from: 'location', transform: 'regex', transformParams: { pattern: ',.*$' }, fallback: 'Test Venue' }
+    }
+  },
+  mapping: {
+    id: { strategy: 'generated' },
+    sourceId: 'id',
+    title: 'title',
+    venue: { name: 'venueName', city: 'Bristol', country: 'UK' },
+    date: { start: 'dateStart', end: 'dateEnd' },
+    urls: { event: 'link' },
+    genres: 'categories'
+  }
+};
+
+const icsFeed = `
+BEGIN:VCALENDAR
+VERSION:2.0
+BEGIN:VEVENT
+UID:event-1@venue.example
+DTSTART:20250315T200000Z
+DTEND:20250315T230000Z
+SUMMARY:Jazz Night
+LOCATION:Main Room, 1 High Street, Bristol
+CATEGORIES:Jazz,Live
+URL:https://venue.example/events/jazz-night
+END:VEVENT
+BEGIN:VEVENT
+UID:event-2@venue.example
+DTSTART:20250316T210000Z
+SUMMARY:Rock Night
+END:VEVENT
+END:VCALENDAR
+`;
+
+describe('FeedScraper', () => {
+  it('should accept feed configs and treat untyped configs as browser configs', () => {
+    const feed = ScraperConfigSchema.parse(feedConfig);
+    expect(feed.type).toBe('feed');
+
+    const { type: _type, feed: _feed, ...rest } = feedConfig;
+    const browser = ScraperConfigSchema.parse({
+      ...rest,
+      workflow: [{ type: 'navigate', url: 'https://venue.example/events' }]
+    });
+    expect(browser.type).toBe('browser');
+  });
+
+  it('should reject feed configs without a feed url', () => {
+    const result = ScraperConfigSchema.safeParse({ ...feedConfig, feed: { fields: {} } });
+    expect(result.success).toBe(false);
+  });
+
+  it('should report unknown transforms in feed fields', () => {
+    const config = JSON.parse(JSON.stringify(feedConfig));
+    config.feed.fields.venueName.transform = 'not-a-transform';
+
+    const result = ScraperConfigSchema.safeParse(config);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(['feed', 'fields', 'venueName', 'transform']);
+    }
+  });
+
+  it('should map feed items to gigs using the config mapping', () => {
+    const scraper = new FeedScraper(feedConfig as any);
+    const gigs = scraper.mapFeedItems(ICalParser.parseICS(icsFeed, 'test-venue'));
+
+    expect(gigs).toHaveLength(2);
+    expect(gigs[0]).toMatchObject({
+      source: 'test-venue',
+      sourceId: 'event-1@venue.example',
+      title: 'Jazz Night',
+      venue: { name: 'Main Room', city: 'Bristol', country: 'UK' },
+      eventUrl: 'https://venue.example/events/jazz-night',
+      genre: ['Jazz', 'Live']
+    });
+    expect(new Date(gigs[0].dateStart).toISOString()).toBe('2025-03-15T20:00:00.000Z');
+    expect(gigs[1].venue.name).toBe('Test Venue');
+    expect(gigs[1].sourceId).toBe('event-2@venue.example');
+  });
+
+  it('should not build browser scrapers from feed configs', () => {
+    expect(() => new ConfigDrivenScraper(feedConfig as any)).toThrow('not a browser config');
+    expect(() => new FeedScraper({ ...feedConfig, type: 'browser', workflow: [] } as any)).toThrow('not a feed config');
+  });
+
+  describe('scrape', () => {
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('should skip an unchanged feed and report its fingerprint', async () => {
+      global.fetch = jest.fn(async () => new Response(icsFeed, { status: 200, headers: { 'Content-Type': 'text/calendar' } })) as typeof fetch;
+      const fingerprints: ListingFingerprint[] = [];
+
+      const first = await new FeedScraper(feedConfig as any).scrape({
+        politeness: withRobots(),
+        onFingerprint: fingerprint => fingerprints.push(fingerprint)
+      });
+      const second = await new FeedScraper(feedConfig as any).scrape({
+        politeness: withRobots(),
+        previousFingerprint: fingerprints[0],
+        onFingerprint: fingerprint => fingerprints.push(fingerprint)
+      });
+
+      expect(first).toHaveLength(2);
+      expect(second).toEqual([]);
+      expect(fingerprints[1]).toEqual(fingerprints[0]);
+    });
+
+    it('should give up on a feed that outlasts the configured timeout', async () => {
+      global.fetch = jest.fn((_input: any, init?: RequestInit) => new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      })) as typeof fetch;
+      const scraper = new FeedScraper({ ...feedConfig, browser: { timeout: 20 } } as any);
+
+      await expect(scraper.scrape({ politeness: withRobots() })).rejects.toMatchObject({ name: 'TimeoutError' });
+    });
+
+    it('should only retry feeds that failed for transient reasons', async () => {
+      const failWith = async (response: Response) => {
+        global.fetch = jest.fn(async () => response) as typeof fetch;
+        return classifyError(await new FeedScraper(feedConfig as any).scrape({ politeness: withRobots() }).catch(caught => caught));
+      };
+
+      expect(await failWith(new Response('Slow down', { status: 429 }))).toBe('rate-limit');
+      expect(isTransient(await failWith(new Response('Not Found', { status: 404 })))).toBe(false);
+      expect(await failWith(new Response('Unavailable', { status: 503 }))).toBe('network');
+    });
+
+    it('should not fetch a feed robots.txt disallows', async () => {
+      global.fetch = jest.fn(async () => new Response(icsFeed, { status: 200 })) as typeof fetch;
+      const blocked: BlockedRequest[] = [];
+
+      await expect(new FeedScraper(feedConfig as any).scrape({
+        politeness: withRobots('User-agent: *\nDisallow: /events.ics'),
+        onBlocked: request => blocked.push(request)
+      })).rejects.toMatchObject({ name: 'RobotsDisallowedError' });
+
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(blocked).toEqual([{ url: 'https://venue.example/events.ics', reason: expect.stringContaining('robots.txt') }]);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Route, Request } from 'playwright';
+import { FixtureStore } from '../scrapers/fixture-store';
+
+interface FakeRoute {
+  route: Route;
+  fulfilled: Record<string, any>[];
+  aborted: (string | undefined)[];
+}
+
+function fakeRequest(url: string, resourceType = 'document'): Request {
+  return { method: () => 'GET', url: () => url, resourceType: () => resourceType } as unknown as Request;
+}
+
+function fakeRoute(live?: { status: number; headers: Record<string, string>; body: string }): FakeRoute {
+  const fulfilled: Record<string, any>[] = [];
+  const aborted: (string | undefined)[] = [];
+  const route = {
+    fetch: async () => {
+      if (!live) throw new Error('net::ERR_NAME_NOT_RESOLVED');
+      return { status: () => live.status, headers: () => live.headers, body: async () => Buffer.from(live.body) };
+    },
+    fulfill: async (options: Record<string, any>) => { fulfilled.push(options); },
+    abort: async (reason?: string) => { aborted.push(reason); }
+  } as unknown as Route;
+  return { route, fulfilled, aborted };
+}
+
+describe('FixtureStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gigateer-fixtures-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should replay recorded responses', async () => {
+    const recorder = new FixtureStore(dir, 'test-venue');
+    const live = fakeRoute({
+      status: 200,
+      headers: { 'content-type': 'text/html', 'content-encoding': 'gzip' },
+      body: '<ul><li>Jazz Night</li></ul>'
+    });
+    await recorder.recordRoute(live.route, fakeRequest('https://venue.example/events#top'));
+    await recorder.save();
+
+    expect(live.fulfilled).toHaveLength(1);
+
+    const replayer = await FixtureStore.load(dir);
+    const replayed = fakeRoute();
+    await replayer.replayRoute(replayed.route, fakeRequest('https://venue.example/events'));
+
+    expect(replayed.fulfilled).toHaveLength(1);
+    expect(replayed.fulfilled[0].status).toBe(200);
+    expect(replayed.fulfilled[0].headers).toEqual({ 'content-type': 'text/html' });
+    expect(replayed.fulfilled[0].body.toString()).toBe('<ul><li>Jazz Night</li></ul>');
+    expect(replayer.getRecordedAt()).toBe(recorder.getRecordedAt());
+  });
+
+  it('should fail requests that were not recorded', async () => {
+    await new FixtureStore(dir, 'test-venue').save();
+    const replayer = await FixtureStore.load(dir);
+
+    const document = fakeRoute();
+    await replayer.replayRoute(document.route, fakeRequest('https://venue.example/events?page=2'));
+    const image = fakeRoute();
+    await replayer.replayRoute(image.route, fakeRequest('https://venue.example/poster.jpg', 'image'));
+
+    expect(document.aborted).toEqual(['internetdisconnected']);
+    expect(image.aborted).toEqual(['internetdisconnected']);
+    expect(replayer.getMisses()).toEqual(['https://venue.example/events?page=2']);
+  });
+
+  it('should skip images and unreachable requests when recording', async () => {
+    const recorder = new FixtureStore(dir, 'test-venue');
+
+    const image = fakeRoute({ status: 200, headers: {}, body: '' });
+    await recorder.recordRoute(image.route, fakeRequest('https://venue.example/poster.jpg', 'image'));
+    const offline = fakeRoute();
+    await recorder.recordRoute(offline.route, fakeRequest('https://cdn.example/widget.js', 'script'));
+    await recorder.save();
+
+    const manifest = JSON.parse(await fs.readFile(path.join(dir, 'manifest.json'), 'utf-8'));
+    expect(manifest).toMatchObject({ source: 'test-venue', entries: [] });
+    expect(image.aborted).toHaveLength(1);
+    expect(offline.aborted).toEqual(['failed']);
+  });
+
+  it('should report a missing recording clearly', async () => {
+    await expect(FixtureStore.load(path.join(dir, 'missing'))).rejects.toThrow('No recorded fixtures found');
+  });
+});
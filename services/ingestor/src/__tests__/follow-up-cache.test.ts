@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FollowUpCache } from '../scrapers/follow-up-cache';
+import type { FollowUpConfig } from '../schemas/scraper-config';
+
+const followUp: FollowUpConfig = {
+  urlField: 'link',
+  fields: { price: { selector: '.price' } },
+  cacheTtlHours: 24
+};
+
+const HOUR = 60 * 60 * 1000;
+
+describe('FollowUpCache', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gigateer-follow-ups-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should reuse entries within the TTL after a reload', async () => {
+    const cache = await FollowUpCache.load(dir, 'test-venue');
+    cache.set('https://venue.example/events/1', followUp, { price: '£10' }, { etag: '"v1"' });
+    await cache.save();
+
+    const reloaded = await FollowUpCache.load(dir, 'test-venue');
+    const entry = reloaded.get('https://venue.example/events/1', followUp)!;
+
+    expect(entry).toMatchObject({ data: { price: '£10' }, etag: '"v1"' });
+    expect(reloaded.isFresh(entry, followUp)).toBe(true);
+    expect(reloaded.isFresh(entry, followUp, Date.now() + 25 * HOUR)).toBe(false);
+    expect(reloaded.getStats()).toEqual({ fresh: 1, revalidated: 0, fetched: 0 });
+  });
+
+  it('should miss when the follow-up extracts different fields', async () => {
+    const cache = await FollowUpCache.load(dir, 'test-venue');
+    cache.set('https://venue.example/events/1', followUp, { price: '£10' });
+
+    expect(cache.get('https://venue.example/events/1', { ...followUp, fields: { doors: { selector: '.doors' } } }))
+      .toBeUndefined();
+    expect(cache.get('https://venue.example/events/1', { ...followUp, cacheTtlHours: 1 })).toBeDefined();
+  });
+
+  it('should drop entries the last scrape did not use', async () => {
+    const first = await FollowUpCache.load(dir, 'test-venue');
+    first.set('https://venue.example/events/1', followUp, { price: '£10' });
+    first.set('https://venue.example/events/2', followUp, { price: '£12' });
+    await first.save();
+
+    const second = await FollowUpCache.load(dir, 'test-venue');
+    second.get('https://venue.example/events/2', followUp);
+    await second.save();
+
+    const third = await FollowUpCache.load(dir, 'test-venue');
+    expect(third.get('https://venue.example/events/1', followUp)).toBeUndefined();
+    expect(third.get('https://venue.example/events/2', followUp)).toBeDefined();
+  });
+
+  it('should build conditional request headers from validators', () => {
+    expect(FollowUpCache.conditionalHeaders({ etag: '"v1"', lastModified: 'Tue, 01 Sep 2026 10:00:00 GMT' })).toEqual({
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': 'Tue, 01 Sep 2026 10:00:00 GMT'
+    });
+    expect(FollowUpCache.conditionalHeaders({})).toEqual({});
+  });
+
+  it('should start empty when the cache file is unreadable', async () => {
+    await fs.writeFile(path.join(dir, 'test-venue.json'), '{ not json');
+
+    const cache = await FollowUpCache.load(dir, 'test-venue');
+
+    expect(cache.get('https://venue.example/events/1', followUp)).toBeUndefined();
+  });
+});
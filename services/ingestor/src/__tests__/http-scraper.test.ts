@@ -0,0 +1,400 @@
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { NetworkError, RobotsTxt } from '@gigateer/scraper';
+import type { BlockedRequest, ListingFingerprint } from '@gigateer/contracts';
+import { HttpScraper } from '../scrapers/http-scraper';
+import { Politeness } from '../scrapers/politeness';
+import { FollowUpCache } from '../scrapers/follow-up-cache';
+import { ScraperConfigSchema } from '../schemas/scraper-config';
+
+const originalFetch = global.fetch;
+
+function withRobots(robotsTxt?: string): Politeness {
+  return new Politeness({ fetchRobots: async () => (robotsTxt === undefined ? null : RobotsTxt.parse(robotsTxt)) });
+}
+
+/**
+ * Serve static HTML pages by URL in place of the network
+ */
+function servePages(pages: Record<string, string>): string[] {
+  const requested: string[] = [];
+
+  global.fetch = jest.fn(async (input: any) => {
+    const url = String(input);
+    requested.push(url);
+    const html = pages[url];
+    return html === undefined
+      ? new Response('Not Found', { status: 404, statusText: 'Not Found' })
+      : new Response(html, { status: 200, headers: { 'Content-Type': 'text/html' } });
+  }) as typeof fetch;
+
+  return requested;
+}
+
+function listing(events: { title: string; date: string; link?: string }[], next?: string): string {
+  return `<html><body>
+    ${events.map(event => `
+      <div class="event">
+        <h2 class="title">${event.title}</h2>
+        <time datetime="${event.date}">${event.date}</time>
+        ${event.link ? `<a class="link" href="${event.link}">More</a>` : ''}
+      </div>`).join('')}
+    ${next ? `<a class="next" href="${next}">Next</a>` : ''}
+  </body></html>`;
+}
+
+function createConfig(workflow: Record<string, any>[], mapping: Record<string, any> = {}) {
+  return {
+    site: { name: 'Test Venue', baseUrl: 'https://venue.example', source: 'test-venue' },
+    engine: 'http',
+    workflow,
+    mapping: {
+      id: { strategy: 'generated' },
+      title: 'title',
+      venue: { name: 'Test Venue' },
+      date: { start: 'date' },
+      ...mapping
+    }
+  };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const extractEvents = {
+  type: 'extract',
+  containerSelector: '.event',
+  fields: {
+    title: { selector: '.title', transform: 'trim' },
+    date: { selector: 'time', attribute: 'datetime' }
+  }
+};
+
+describe('HttpScraper', () => {
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should extract container fields from a fetched page', async () => {
+    servePages({
+      'https://venue.example/events': listing([
+        { title: 'Jazz Night', date: '2026-05-01T20:00:00Z' },
+        { title: 'Rock Night', date: '2026-05-02T20:00:00Z' }
+      ])
+    });
+
+    const scraper = new HttpScraper(createConfig([
+      { type: 'navigate', url: 'https://venue.example/events' },
+      extractEvents
+    ]) as any);
+    const gigs = await scraper.scrape({ politeness: withRobots() });
+
+    expect(gigs.map(gig => gig.title)).toEqual(['Jazz Night', 'Rock Night']);
+    expect(gigs[0]).toMatchObject({ source: 'test-venue', venue: { name: 'Test Venue' } });
+  });
+
+  it('should follow next links and fetch follow-up pages relative to the listing', async () => {
+    const requested = servePages({
+      'https://venue.example/events': listing([{ title: 'One', date: '2026-05-01T20:00:00Z', link: '/events/1' }], '?page=2'),
+      'https://venue.example/events?page=2': listing([{ title: 'Two', date: '2026-05-02T20:00:00Z', link: '/events/2' }]),
+      'https://venue.example/events/1': '<p class="price">£10</p>',
+      'https://venue.example/events/2': '<p class="price">£12</p>'
+    });
+
+    const scraper = new HttpScraper(createConfig([
+      { type: 'navigate', url: 'https://venue.example/events' },
+      {
+        type: 'paginate',
+        nextSelector: '.next',
+        steps: [{
+          ...extractEvents,
+          fields: { ...extractEvents.fields, link: { selector: '.link', attribute: 'href' } },
+          followUp: { urlField: 'link', fields: { price: { selector: '.price' } } }
+        }]
+      }
+    ], { price: { min: 'price' } }) as any);
+    const gigs = await scraper.scrape({ politeness: withRobots() });
+
+    expect(gigs.map(gig => [gig.title, gig.price?.min])).toEqual([['One', 10], ['Two', 12]]);
+    expect(requested).toEqual([
+      'https://venue.example/events',
+      'https://venue.example/events/1',
+      'https://venue.example/events?page=2',
+      'https://venue.example/events/2'
+    ]);
+  });
+
+  describe('follow-ups', () => {
+    let cacheDir: string;
+
+    afterEach(async () => {
+      if (cacheDir) await fs.rm(cacheDir, { recursive: true, force: true });
+    });
+
+    const detailPages = (ttlHours: number, maxConcurrent = 1) => new HttpScraper({
+      ...createConfig([
+        { type: 'navigate', url: 'https://venue.example/events' },
+        {
+          ...extractEvents,
+          fields: { ...extractEvents.fields, link: { selector: '.link', attribute: 'href' } },
+          followUp: { urlField: 'link', cacheTtlHours: ttlHours, fields: { price: { selector: '.price' } } }
+        }
+      ], { price: { min: 'price' } }),
+      rateLimit: { maxConcurrent, delayBetweenRequests: 0 }
+    } as any);
+
+    const eventListing = listing([1, 2, 3].map(n => ({ title: `Gig ${n}`, date: `2026-05-0${n}T20:00:00Z`, link: `/events/${n}` })));
+
+    it('should reuse detail pages cached within the TTL', async () => {
+      cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gigateer-follow-ups-'));
+      servePages({
+        'https://venue.example/events': eventListing,
+        'https://venue.example/events/1': '<p class="price">£10</p>',
+        'https://venue.example/events/2': '<p class="price">£12</p>',
+        'https://venue.example/events/3': '<p class="price">£14</p>'
+      });
+      await detailPages(24).scrape({ politeness: withRobots(), followUpCache: await FollowUpCache.load(cacheDir, 'test-venue') });
+
+      const requested = servePages({ 'https://venue.example/events': eventListing });
+      const gigs = await detailPages(24).scrape({ politeness: withRobots(), followUpCache: await FollowUpCache.load(cacheDir, 'test-venue') });
+
+      expect(gigs.map(gig => gig.price?.min)).toEqual([10, 12, 14]);
+      expect(requested).toEqual(['https://venue.example/events']);
+    });
+
+    it('should revalidate stale detail pages with their ETag', async () => {
+      cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gigateer-follow-ups-'));
+      const conditional: (string | null)[] = [];
+      global.fetch = jest.fn(async (input: any, init?: RequestInit) => {
+        const url = String(input);
+        if (url === 'https://venue.example/events') {
+          return new Response(eventListing, { status: 200 });
+        }
+        const ifNoneMatch = new Headers(init?.headers).get('If-None-Match');
+        conditional.push(ifNoneMatch);
+        return ifNoneMatch === `"${url}"`
+          ? new Response(null, { status: 304 })
+          : new Response(`<p class="price">£${url.slice(-1)}0</p>`, { status: 200, headers: { ETag: `"${url}"` } });
+      }) as typeof fetch;
+
+      await detailPages(0).scrape({ politeness: withRobots(), followUpCache: await FollowUpCache.load(cacheDir, 'test-venue') });
+      const followUpCache = await FollowUpCache.load(cacheDir, 'test-venue');
+      const gigs = await detailPages(0).scrape({ politeness: withRobots(), followUpCache });
+
+      expect(gigs.map(gig => gig.price?.min)).toEqual([10, 20, 30]);
+      expect(conditional).toEqual([null, null, null, '"https://venue.example/events/1"', '"https://venue.example/events/2"', '"https://venue.example/events/3"']);
+      expect(followUpCache.getStats()).toEqual({ fresh: 0, revalidated: 3, fetched: 0 });
+    });
+
+    it('should fetch detail pages up to maxConcurrent at a time', async () => {
+      let inFlight = 0;
+      let peak = 0;
+      global.fetch = jest.fn(async (input: any) => {
+        const url = String(input);
+        if (url === 'https://venue.example/events') {
+          return new Response(eventListing, { status: 200 });
+        }
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await sleep(20);
+        inFlight--;
+        return new Response('<p class="price">£10</p>', { status: 200 });
+      }) as typeof fetch;
+
+      const gigs = await detailPages(24, 2).scrape({ politeness: withRobots() });
+
+      expect(gigs.map(gig => gig.title)).toEqual(['Gig 1', 'Gig 2', 'Gig 3']);
+      expect(peak).toBe(2);
+    });
+  });
+
+  describe('listing fingerprint', () => {
+    const scraper = (mapping: Record<string, any> = {}) => new HttpScraper(createConfig([
+      { type: 'navigate', url: 'https://venue.example/events' },
+      {
+        ...extractEvents,
+        fields: { ...extractEvents.fields, link: { selector: '.link', attribute: 'href' } },
+        followUp: { urlField: 'link', fields: { price: { selector: '.price' } } }
+      }
+    ], mapping) as any);
+
+    const scrapeFingerprint = async (previousFingerprint?: ListingFingerprint, mapping?: Record<string, any>) => {
+      let fingerprint: ListingFingerprint | undefined;
+      const gigs = await scraper(mapping).scrape({
+        politeness: withRobots(),
+        previousFingerprint,
+        onFingerprint: reported => { fingerprint = reported; }
+      });
+      return { gigs, fingerprint: fingerprint! };
+    };
+
+    it('should stop before follow-ups when the listing matches the last run', async () => {
+      const pages = {
+        'https://venue.example/events': listing([{ title: 'One', date: '2026-05-01T20:00:00Z', link: '/events/1' }]),
+        'https://venue.example/events/1': '<p class="price">£10</p>'
+      };
+      servePages(pages);
+      const first = await scrapeFingerprint();
+
+      const requested = servePages(pages);
+      const second = await scrapeFingerprint(first.fingerprint);
+
+      expect(first.gigs).toHaveLength(1);
+      expect(second).toEqual({ gigs: [], fingerprint: first.fingerprint });
+      expect(requested).toEqual(['https://venue.example/events']);
+
+      servePages({ ...pages, 'https://venue.example/events': listing([{ title: 'One (moved)', date: '2026-05-02T20:00:00Z', link: '/events/1' }]) });
+      const changed = await scrapeFingerprint(first.fingerprint);
+
+      expect(changed.gigs).toHaveLength(1);
+      expect(changed.fingerprint.hash).not.toBe(first.fingerprint.hash);
+    });
+
+    it('should run in full after a mapping edit even though the listing is unchanged', async () => {
+      const pages = {
+        'https://venue.example/events': listing([{ title: 'One', date: '2026-05-01T20:00:00Z', link: '/events/1' }]),
+        'https://venue.example/events/1': '<p class="price">£10</p>'
+      };
+      servePages(pages);
+      const first = await scrapeFingerprint();
+
+      const requested = servePages(pages);
+      const remapped = await scrapeFingerprint(first.fingerprint, { urls: { event: 'link' } });
+
+      expect(remapped.gigs).toHaveLength(1);
+      expect(remapped.gigs[0].eventUrl).toBe('/events/1');
+      expect(remapped.fingerprint.hash).not.toBe(first.fingerprint.hash);
+      expect(requested).toEqual(['https://venue.example/events', 'https://venue.example/events/1']);
+    });
+
+    it('should ask for the listing conditionally when the site sent validators', async () => {
+      const conditional: (string | null)[] = [];
+      global.fetch = jest.fn(async (input: any, init?: RequestInit) => {
+        const ifNoneMatch = new Headers(init?.headers).get('If-None-Match');
+        conditional.push(ifNoneMatch);
+        return ifNoneMatch === '"listing-v1"'
+          ? new Response(null, { status: 304 })
+          : new Response(listing([{ title: 'One', date: '2026-05-01T20:00:00Z' }]), { status: 200, headers: { ETag: '"listing-v1"' } });
+      }) as typeof fetch;
+
+      const first = await scrapeFingerprint();
+      const second = await scrapeFingerprint(first.fingerprint);
+
+      expect(first.fingerprint).toMatchObject({ etag: '"listing-v1"' });
+      expect(second).toEqual({ gigs: [], fingerprint: first.fingerprint });
+      expect(conditional).toEqual([null, '"listing-v1"']);
+    });
+  });
+
+  it('should read schema.org events from JSON-LD', async () => {
+    servePages({
+      'https://venue.example/whats-on': `<script type="application/ld+json">${JSON.stringify({
+        '@context': 'https://schema.org',
+        '@type': 'MusicEvent',
+        name: 'Structured Gig',
+        startDate: '2026-06-01T19:30:00Z',
+        location: { '@type': 'Place', name: 'Main Room' }
+      })}</script>`
+    });
+
+    const scraper = new HttpScraper(createConfig([
+      { type: 'navigate', url: 'https://venue.example/whats-on' },
+      { type: 'extract', method: 'structured-data', fields: {} }
+    ], { venue: { name: 'venueName' }, date: { start: 'dateStart' } }) as any);
+    const [gig] = await scraper.scrape({ politeness: withRobots() });
+
+    expect(gig).toMatchObject({ title: 'Structured Gig', venue: { name: 'Main Room' } });
+  });
+
+  it('should skip and report follow-up pages robots.txt disallows', async () => {
+    const requested = servePages({
+      'https://venue.example/events': listing([
+        { title: 'One', date: '2026-05-01T20:00:00Z', link: '/events/1' },
+        { title: 'Two', date: '2026-05-02T20:00:00Z', link: '/private/2' }
+      ]),
+      'https://venue.example/events/1': '<p class="price">£10</p>'
+    });
+    const blocked: BlockedRequest[] = [];
+
+    const scraper = new HttpScraper(createConfig([
+      { type: 'navigate', url: 'https://venue.example/events' },
+      {
+        ...extractEvents,
+        fields: { ...extractEvents.fields, link: { selector: '.link', attribute: 'href' } },
+        followUp: { urlField: 'link', fields: { price: { selector: '.price' } } }
+      }
+    ], { price: { min: 'price' } }) as any);
+    const gigs = await scraper.scrape({
+      politeness: withRobots('User-agent: *\nDisallow: /private'),
+      onBlocked: request => blocked.push(request)
+    });
+
+    expect(gigs.map(gig => [gig.title, gig.price?.min ?? null])).toEqual([['One', 10], ['Two', null]]);
+    expect(requested).not.toContain('https://venue.example/private/2');
+    expect(blocked).toEqual([
+      { url: 'https://venue.example/private/2', reason: 'Disallowed by robots.txt (Disallow: /private)' }
+    ]);
+  });
+
+  it('should fail the scrape when robots.txt disallows the listing', async () => {
+    servePages({ 'https://venue.example/events': listing([]) });
+
+    const scraper = new HttpScraper(createConfig([
+      { type: 'navigate', url: 'https://venue.example/events' },
+      extractEvents
+    ]) as any);
+
+    await expect(scraper.scrape({ politeness: withRobots('User-agent: *\nDisallow: /') }))
+      .rejects.toThrow('robots.txt disallows https://venue.example/events (Disallow: /)');
+  });
+
+  it('should fail the scrape when the listing cannot be fetched', async () => {
+    servePages({});
+
+    const scraper = new HttpScraper(createConfig([
+      { type: 'navigate', url: 'https://venue.example/events' },
+      extractEvents
+    ]) as any);
+
+    await expect(scraper.scrape({ politeness: withRobots() })).rejects.toThrow('HTTP 404');
+  });
+
+  it('should report rate limiting and server errors as typed scraper errors', async () => {
+    const scraper = () => new HttpScraper(createConfig([
+      { type: 'navigate', url: 'https://venue.example/events' },
+      extractEvents
+    ]) as any);
+
+    global.fetch = jest.fn(async () => new Response('Slow down', { status: 429, headers: { 'Retry-After': '120' } })) as typeof fetch;
+    await expect(scraper().scrape({ politeness: withRobots() })).rejects.toMatchObject({ name: 'RateLimitError', retryAfter: 120000 });
+
+    global.fetch = jest.fn(async () => new Response('Oops', { status: 503, statusText: 'Service Unavailable' })) as typeof fetch;
+    await expect(scraper().scrape({ politeness: withRobots() })).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it('should reject browser-only actions and extraction methods', () => {
+    const result = ScraperConfigSchema.safeParse(createConfig([
+      { type: 'navigate', url: 'https://venue.example/events' },
+      { type: 'wait', selector: '.event' },
+      { type: 'paginate', urlTemplate: 'https://venue.example/events?page={page}', steps: [{ type: 'scroll' }, extractEvents] },
+      { type: 'extract', method: 'bristol-exchange', containerSelector: '.event', fields: {} }
+    ]));
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues.map(issue => [issue.path.join('.'), issue.message])).toEqual([
+        ['workflow.1.type', '"wait" actions need the browser engine'],
+        ['workflow.2.steps.0.type', '"scroll" actions need the browser engine'],
+        ['workflow.3.method', 'Extraction method "bristol-exchange" needs the browser engine']
+      ]);
+    }
+  });
+
+  it('should default configs to the browser engine', () => {
+    const { engine: _engine, ...config } = createConfig([{ type: 'wait', selector: '.event' }]);
+    const parsed = ScraperConfigSchema.parse(config);
+
+    expect(parsed.type === 'browser' && parsed.engine).toBe('browser');
+  });
+});
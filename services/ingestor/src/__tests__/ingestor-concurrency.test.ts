@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import pino from 'pino';
+import type { IngestorConfig, ScraperPlugin, FetchRawOptions, ListingFingerprint } from '@gigateer/contracts';
+import { Ingestor } from '../ingestor';
+
+const logger = pino({ level: 'silent' });
+
+interface FakeSource {
+  website: string;
+  fetch: (options?: FetchRawOptions) => Promise<unknown[]>;
+}
+
+function createIngestor(dataDir: string, sources: Record<string, FakeSource>, concurrency: IngestorConfig['concurrency']) {
+  const config: IngestorConfig = {
+    mode: 'development',
+    dataDir,
+    rawDataDir: path.join(dataDir, 'raw'),
+    normalizedDataDir: path.join(dataDir, 'normalized'),
+    logDir: path.join(dataDir, 'logs'),
+    logRetentionDays: 1,
+    pidFile: path.join(dataDir, 'ingestor.pid'),
+    defaultRateLimitPerMin: 60,
+    staggerMinutes: 0,
+    concurrency,
+    sources: {}
+  };
+
+  const plugins = new Map<string, ScraperPlugin>(Object.entries(sources).map(([name, source]) => [name, {
+    upstreamMeta: { name, rateLimitPerMin: 60, defaultSchedule: '0 * * * *', website: source.website },
+    fetchRaw: source.fetch,
+    normalize: async () => []
+  }]));
+
+  const ingestor = new Ingestor(config, logger);
+  // Swap in fake plugins rather than loading them from disk
+  (ingestor as any).pluginLoader = {
+    getPluginNames: () => [...plugins.keys()],
+    getPlugin: (name: string) => plugins.get(name)
+  };
+  return ingestor;
+}
+
+/**
+ * Tracks how many fake fetches run at once, overall and per host
+ */
+function createTracker() {
+  const running = new Map<string, number>();
+  const peaks = new Map<string, number>();
+
+  const track = (key: string, delta: number) => {
+    running.set(key, (running.get(key) || 0) + delta);
+    peaks.set(key, Math.max(peaks.get(key) || 0, running.get(key)!));
+  };
+
+  const source = (website: string, delayMs = 20): FakeSource => {
+    const host = new URL(website).hostname.replace(/^www\./, '');
+    return {
+      website,
+      fetch: async () => {
+        track('all', 1);
+        track(host, 1);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+        track('all', -1);
+        track(host, -1);
+        return [];
+      }
+    };
+  };
+
+  return { source, peaks };
+}
+
+describe('Ingestor concurrency', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gigateer-ingestor-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should run sources in parallel up to the limit and keep results in source order', async () => {
+    const { source, peaks } = createTracker();
+    const ingestor = createIngestor(dataDir, {
+      'venue-a': source('https://a.example', 40),
+      'venue-b': source('https://b.example', 10),
+      'venue-c': source('https://c.example', 30),
+      'venue-d': source('https://d.example', 10)
+    }, { maxConcurrentSources: 2, maxConcurrentPerHost: 1, sourceTimeoutMs: 5000, browserPoolSize: 1 });
+
+    const results = await ingestor.ingestAll();
+    await ingestor.cleanup();
+
+    expect(results.map(result => [result.source, result.success])).toEqual([
+      ['venue-a', true],
+      ['venue-b', true],
+      ['venue-c', true],
+      ['venue-d', true]
+    ]);
+    expect(peaks.get('all')).toBe(2);
+  });
+
+  it('should not scrape the same host twice at once', async () => {
+    const { source, peaks } = createTracker();
+    const ingestor = createIngestor(dataDir, {
+      'venue-main-room': source('https://venue.example/main'),
+      'venue-studio': source('https://www.venue.example/studio'),
+      'other-venue': source('https://other.example')
+    }, { maxConcurrentSources: 3, maxConcurrentPerHost: 1, sourceTimeoutMs: 5000, browserPoolSize: 1 });
+
+    await ingestor.ingestAll();
+    await ingestor.cleanup();
+
+    expect(peaks.get('venue.example')).toBe(1);
+    expect(peaks.get('all')).toBe(2);
+  });
+
+  it('should cancel sources that run past the timeout', async () => {
+    let signal: AbortSignal | undefined;
+    const ingestor = createIngestor(dataDir, {
+      'slow-venue': {
+        website: 'https://slow.example',
+        fetch: options => {
+          signal = options?.signal;
+          return new Promise(() => undefined);
+        }
+      }
+    }, { maxConcurrentSources: 1, maxConcurrentPerHost: 1, sourceTimeoutMs: 50, browserPoolSize: 1 });
+
+    const [result] = await ingestor.ingestAll();
+    await ingestor.cleanup();
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(['Source slow-venue timed out after 50ms']);
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('should keep previous data when a source reports an unchanged listing', async () => {
+    const previous: (ListingFingerprint | undefined)[] = [];
+    let hash = 'listing-v1';
+    const ingestor = createIngestor(dataDir, {
+      'steady-venue': {
+        website: 'https://steady.example',
+        fetch: async options => {
+          previous.push(options?.previousFingerprint);
+          options?.onFingerprint?.({ hash });
+          return [];
+        }
+      }
+    }, { maxConcurrentSources: 1, maxConcurrentPerHost: 1, sourceTimeoutMs: 5000, browserPoolSize: 1 });
+
+    const first = await ingestor.ingestSource('steady-venue');
+    const second = await ingestor.ingestSource('steady-venue');
+    hash = 'listing-v2';
+    const third = await ingestor.ingestSource('steady-venue');
+    await ingestor.cleanup();
+
+    expect([first, second, third].map(result => [result.success, result.unchanged])).toEqual([
+      [true, undefined],
+      [true, true],
+      [true, undefined]
+    ]);
+    expect(previous).toEqual([undefined, { hash: 'listing-v1' }, { hash: 'listing-v1' }]);
+  });
+
+  it('should keep every pause when sources trip and resume at once', async () => {
+    const ingestor = createIngestor(dataDir, {}, { maxConcurrentSources: 2, maxConcurrentPerHost: 1, sourceTimeoutMs: 5000, browserPoolSize: 1 });
+    const pause = (source: string) => ingestor.pauseSource({ source, pausedAt: '2026-05-01T09:00:00.000Z', consecutiveFailures: 5 });
+
+    await Promise.all([pause('venue-a'), pause('venue-b'), pause('venue-c')]);
+    const [lifted] = await Promise.all([ingestor.resumeSource('venue-a'), pause('venue-d'), ingestor.resumeSource('venue-x')]);
+    await ingestor.cleanup();
+
+    expect(lifted).toMatchObject({ source: 'venue-a' });
+    expect(Object.keys(await ingestor.getPausedSources()).sort()).toEqual(['venue-b', 'venue-c', 'venue-d']);
+    expect(await fs.readdir(path.join(dataDir, 'raw'))).toEqual(['paused-sources.json']);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from '@jest/globals';
+import type { Browser } from 'playwright';
+import type { ListingFingerprint } from '@gigateer/contracts';
+import { ConfigDrivenScraper } from '../scrapers/config-driven-scraper';
+import { ScraperConfigSchema } from '../schemas/scraper-config';
+import { Politeness } from '../scrapers/politeness';
+
+// Fake pages have no robots.txt to fetch
+const politeness = new Politeness({ fetchRobots: async () => null });
+
+interface FakeListing {
+  titles: string[];
+  next?: string;
+}
+
+/**
+ * Minimal stand-in for a Playwright browser serving static listing pages
+ */
+function createFakeBrowser(listings: Record<string, FakeListing>): { browser: Browser; visited: string[] } {
+  const visited: string[] = [];
+  let currentUrl = 'about:blank';
+
+  const element = (attributes: Record<string, string | null>, text = '') => ({
+    textContent: async () => text,
+    getAttribute: async (name: string) => attributes[name] ?? null,
+    click: async () => undefined
+  });
+
+  const page = {
+    setDefaultTimeout: () => undefined,
+    goto: async (url: string) => {
+      currentUrl = url;
+      visited.push(url);
+    },
+    waitForLoadState: async () => undefined,
+    url: () => currentUrl,
+    close: async () => undefined,
+    $$: async () => (listings[currentUrl]?.titles ?? []).map(title => ({
+      $: async () => element({}, title),
+      $$: async () => []
+    })),
+    $$eval: async (_selector: string, read: (elements: { outerHTML: string }[]) => unknown) =>
+      read((listings[currentUrl]?.titles ?? []).map(title => ({ outerHTML: `<li class="event">${title}</li>` }))),
+    $: async (selector: string) => {
+      const next = listings[currentUrl]?.next;
+      return selector === '.next' && next ? element({ href: next }) : null;
+    }
+  };
+
+  return { browser: { newPage: async () => page } as unknown as Browser, visited };
+}
+
+function createConfig(paginate: Record<string, any>, navigate = true) {
+  return {
+    site: { name: 'Test Venue', baseUrl: 'https://venue.example', source: 'test-venue' },
+    workflow: [
+      ...(navigate ? [{ type: 'navigate', url: 'https://venue.example/events' }] : []),
+      {
+        type: 'paginate',
+        steps: [{ type: 'extract', containerSelector: '.event', fields: { title: { selector: '.title' } } }],
+        ...paginate
+      }
+    ],
+    mapping: {
+      id: { strategy: 'generated' },
+      title: 'title',
+      venue: { name: 'Test Venue' },
+      date: { start: 'date' }
+    }
+  };
+}
+
+describe('paginate action', () => {
+  it('should follow next links until there are none', async () => {
+    const { browser, visited } = createFakeBrowser({
+      'https://venue.example/events': { titles: ['One', 'Two'], next: '/events?page=2' },
+      'https://venue.example/events?page=2': { titles: ['Three'], next: '/events?page=3' },
+      'https://venue.example/events?page=3': { titles: ['Four'] }
+    });
+
+    const scraper = new ConfigDrivenScraper(createConfig({ nextSelector: '.next' }) as any);
+    const gigs = await scraper.scrape(browser, { politeness });
+
+    expect(gigs.map(gig => gig.title)).toEqual(['One', 'Two', 'Three', 'Four']);
+    expect(visited).toHaveLength(3);
+  });
+
+  it('should stop at maxPages', async () => {
+    const { browser } = createFakeBrowser({
+      'https://venue.example/events': { titles: ['One'], next: '/events?page=2' },
+      'https://venue.example/events?page=2': { titles: ['Two'], next: '/events?page=3' },
+      'https://venue.example/events?page=3': { titles: ['Three'] }
+    });
+
+    const scraper = new ConfigDrivenScraper(createConfig({ nextSelector: '.next', maxPages: 2 }) as any);
+    const gigs = await scraper.scrape(browser, { politeness });
+
+    expect(gigs.map(gig => gig.title)).toEqual(['One', 'Two']);
+  });
+
+  it('should walk a url template and stop when a page has no new items', async () => {
+    const { browser, visited } = createFakeBrowser({
+      'https://venue.example/events?page=1': { titles: ['One', 'Two'] },
+      'https://venue.example/events?page=2': { titles: ['Three'] },
+      // Out-of-range pages repeat the last page
+      'https://venue.example/events?page=3': { titles: ['Three'] },
+      'https://venue.example/events?page=4': { titles: ['Three'] }
+    });
+
+    const config = createConfig({ urlTemplate: 'https://venue.example/events?page={page}' }, false);
+    const gigs = await new ConfigDrivenScraper(config as any).scrape(browser, { politeness });
+
+    expect(gigs.map(gig => gig.title)).toEqual(['One', 'Two', 'Three']);
+    expect(visited).toEqual([
+      'https://venue.example/events?page=1',
+      'https://venue.example/events?page=2',
+      'https://venue.example/events?page=3'
+    ]);
+  });
+
+  it('should fingerprint every listing page without stopping early', async () => {
+    const listings = {
+      'https://venue.example/events': { titles: ['One'], next: '/events?page=2' },
+      'https://venue.example/events?page=2': { titles: ['Two'] }
+    };
+    const scrape = async (pages: Record<string, FakeListing>, previousFingerprint?: ListingFingerprint) => {
+      let fingerprint: ListingFingerprint | undefined;
+      const { browser } = createFakeBrowser(pages);
+      const gigs = await new ConfigDrivenScraper(createConfig({ nextSelector: '.next' }) as any).scrape(browser, {
+        politeness,
+        previousFingerprint,
+        onFingerprint: reported => { fingerprint = reported; }
+      });
+      return { gigs, fingerprint: fingerprint! };
+    };
+
+    const first = await scrape(listings);
+    const repeat = await scrape(listings, first.fingerprint);
+    const changed = await scrape({ ...listings, 'https://venue.example/events?page=2': { titles: ['Three'] } }, first.fingerprint);
+
+    expect(repeat.gigs.map(gig => gig.title)).toEqual(['One', 'Two']);
+    expect(repeat.fingerprint).toEqual(first.fingerprint);
+    expect(changed.fingerprint.hash).not.toBe(first.fingerprint.hash);
+  });
+
+  it('should require exactly one of nextSelector or urlTemplate', () => {
+    expect(ScraperConfigSchema.safeParse(createConfig({})).success).toBe(false);
+    expect(ScraperConfigSchema.safeParse(createConfig({
+      nextSelector: '.next',
+      urlTemplate: 'https://venue.example/events?page={page}'
+    })).success).toBe(false);
+    expect(ScraperConfigSchema.safeParse(createConfig({ urlTemplate: 'https://venue.example/events' })).success).toBe(false);
+  });
+
+  it('should validate transforms inside paginate steps', () => {
+    const config = createConfig({ nextSelector: '.next' });
+    (config.workflow[1] as any).steps[0].fields.title.transform = 'not-a-transform';
+
+    const result = ScraperConfigSchema.safeParse(config);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(['workflow', 1, 'steps', 0, 'fields', 'title', 'transform']);
+    }
+  });
+});
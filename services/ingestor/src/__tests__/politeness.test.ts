@@ -0,0 +1,93 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { RobotsTxt, RobotsDisallowedError } from '@gigateer/scraper';
+import { Politeness, getPolitenessSettings, type PolitenessSettings } from '../scrapers/politeness';
+import { ScraperConfigSchema, type BrowserScraperConfig } from '../schemas/scraper-config';
+
+const settings: PolitenessSettings = {
+  source: 'test-venue',
+  userAgent: 'Mozilla/5.0 (compatible; Gigateer/1.0; Event Aggregator)',
+  respectRobotsTxt: true,
+  maxConcurrent: 1
+};
+
+function createPoliteness(robotsTxt: string | null) {
+  const fetchRobots = jest.fn(async () => (robotsTxt === null ? null : RobotsTxt.parse(robotsTxt)));
+  return { politeness: new Politeness({ fetchRobots }), fetchRobots };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Politeness', () => {
+  it('should refuse URLs robots.txt disallows without requesting them', async () => {
+    const { politeness } = createPoliteness('User-agent: *\nDisallow: /admin');
+    const request = jest.fn(async () => 'page');
+
+    await expect(politeness.schedule('https://venue.example/events', settings, request)).resolves.toBe('page');
+
+    const blocked = politeness.schedule('https://venue.example/admin/events', settings, request);
+    await expect(blocked).rejects.toBeInstanceOf(RobotsDisallowedError);
+    await expect(blocked).rejects.toMatchObject({ url: 'https://venue.example/admin/events', rule: 'Disallow: /admin' });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fetch robots.txt once per site', async () => {
+    const { politeness, fetchRobots } = createPoliteness(null);
+    const request = async () => undefined;
+
+    await politeness.schedule('https://venue.example/events', settings, request);
+    await politeness.schedule('https://venue.example/events/1', settings, request);
+    await politeness.schedule('https://other.example/events', settings, request);
+
+    expect(fetchRobots.mock.calls.map(call => (call as unknown[])[0])).toEqual(['https://venue.example', 'https://other.example']);
+  });
+
+  it('should ignore robots.txt when the config opts out', async () => {
+    const { politeness, fetchRobots } = createPoliteness('User-agent: *\nDisallow: /');
+
+    await expect(politeness.schedule('https://venue.example/', { ...settings, respectRobotsTxt: false }, async () => 'page'))
+      .resolves.toBe('page');
+    expect(fetchRobots).not.toHaveBeenCalled();
+  });
+
+  it('should limit requests in flight per host to maxConcurrent', async () => {
+    const { politeness } = createPoliteness(null);
+    let inFlight = 0;
+    let peak = 0;
+    const request = async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await sleep(20);
+      inFlight--;
+    };
+
+    await Promise.all([1, 2, 3, 4, 5].map(page =>
+      politeness.schedule(`https://venue.example/events/${page}`, { ...settings, maxConcurrent: 2 }, request)
+    ));
+
+    expect(peak).toBe(2);
+  });
+
+  it('should space requests by the crawl delay', async () => {
+    const { politeness } = createPoliteness('User-agent: *\nCrawl-delay: 0.05');
+    const starts: number[] = [];
+
+    await Promise.all([1, 2, 3].map(page =>
+      politeness.schedule(`https://venue.example/events/${page}`, { ...settings, maxConcurrent: 3 }, async () => {
+        starts.push(Date.now());
+      })
+    ));
+
+    expect(starts[1] - starts[0]).toBeGreaterThanOrEqual(40);
+    expect(starts[2] - starts[1]).toBeGreaterThanOrEqual(40);
+  });
+
+  it('should default to respecting robots.txt one request at a time', () => {
+    const config = ScraperConfigSchema.parse({
+      site: { name: 'Test Venue', baseUrl: 'https://venue.example', source: 'test-venue' },
+      workflow: [{ type: 'navigate', url: 'https://venue.example/events' }],
+      mapping: { id: { strategy: 'generated' }, title: 'title', venue: { name: 'Test Venue' }, date: { start: 'date' } }
+    }) as BrowserScraperConfig;
+
+    expect(getPolitenessSettings(config)).toEqual({ ...settings, respectRobotsTxt: true, maxConcurrent: 1 });
+  });
+});
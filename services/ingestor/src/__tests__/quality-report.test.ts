@@ -0,0 +1,111 @@
+import { describe, it, expect } from '@jest/globals';
+import type { Gig } from '@gigateer/contracts';
+import { buildQualityReport, withSourceReport } from '../quality-report';
+
+const now = new Date('2026-03-01T12:00:00Z');
+
+function createGig(id: string, overrides: Partial<Gig> = {}): Gig {
+  return {
+    id,
+    source: 'test-venue',
+    title: `Gig ${id}`,
+    artists: [],
+    genre: [],
+    tags: [],
+    dateStart: '2026-03-10T20:00:00.000Z',
+    venue: { name: 'Test Venue', city: 'Bristol' },
+    images: [],
+    status: 'scheduled',
+    hash: `hash-${id}`,
+    updatedAt: now.toISOString(),
+    ...overrides
+  } as Gig;
+}
+
+describe('buildQualityReport', () => {
+  it('should report fill rates over listed gigs only', () => {
+    const catalog = [
+      createGig('a', { artists: ['Band'], price: { min: 10, max: null, currency: 'GBP' }, venue: { name: 'Test Venue', lat: 51.4, lng: -2.6 } }),
+      createGig('b', { artists: ['Band'], price: { min: null, max: null, currency: null } }),
+      createGig('c', { status: 'removed', artists: ['Band'], images: ['https://example.com/a.jpg'] })
+    ];
+
+    const report = buildQualityReport('test-venue', { raw: catalog, mapped: catalog, catalog }, now);
+
+    expect(report.gigCount).toBe(2);
+    expect(report.fillRates.artists).toBe(1);
+    expect(report.fillRates.price).toBe(0.5);
+    expect(report.fillRates['venue.lat']).toBe(0.5);
+    expect(report.fillRates['venue.city']).toBe(0.5);
+    expect(report.fillRates.images).toBe(0);
+  });
+
+  it('should count dropped items and validation failures by reason', () => {
+    const raw = new Array(6).fill({});
+    const mapped = [
+      createGig('a'),
+      createGig('b', { title: '' }),
+      createGig('c', { dateStart: undefined as unknown as string }),
+      createGig('d', { ticketsUrl: 'not a url' }),
+      createGig('e', { ticketsUrl: '/tickets' })
+    ];
+
+    const report = buildQualityReport('test-venue', { raw, mapped, catalog: [] }, now);
+
+    expect(report).toMatchObject({
+      rawCount: 6,
+      mappedCount: 5,
+      validCount: 1,
+      dropped: {
+        count: 3,
+        reasons: { 'filtered out by normalize': 1, 'missing title': 1, 'missing start date': 1 }
+      },
+      validationFailures: {
+        count: 2,
+        issues: { 'ticketsUrl: Invalid url': 2 }
+      }
+    });
+  });
+
+  it('should flag midnight starts, past dates, unparseable dates and duplicate titles', () => {
+    const catalog = [
+      createGig('a', { dateStart: '2026-03-10T00:00:00.000Z' }),
+      createGig('b', { dateStart: '2026-02-10T20:00:00.000Z' }),
+      createGig('c', { dateStart: 'Friday 15th' }),
+      createGig('d', { title: 'Live Music' }),
+      createGig('e', { title: 'live music ' }),
+      createGig('f', { dateStart: '2026-02-28T20:00:00.000Z', dateEnd: '2026-03-05T23:00:00.000Z' })
+    ];
+
+    const report = buildQualityReport('test-venue', { raw: catalog, mapped: catalog, catalog }, now);
+
+    expect(report.suspicious).toEqual({
+      midnightStarts: 1,
+      pastDates: 1,
+      unparseableDates: 1,
+      duplicateTitles: 2
+    });
+  });
+
+  it('should record why normalize dropped everything', () => {
+    const report = buildQualityReport('test-venue', {
+      raw: [{}, {}],
+      mapped: [],
+      normalizeDropReason: 'normalize failed: boom',
+      catalog: []
+    }, now);
+
+    expect(report.dropped).toEqual({ count: 2, reasons: { 'normalize failed: boom': 2 } });
+  });
+});
+
+describe('withSourceReport', () => {
+  it('should replace only the reported source in the report file', () => {
+    const empty = { raw: null, mapped: [], catalog: [] };
+    const file = withSourceReport(withSourceReport(null, buildQualityReport('b-venue', empty, now), now), buildQualityReport('a-venue', empty, now), now);
+    const updated = withSourceReport(file, buildQualityReport('b-venue', { ...empty, catalog: [createGig('x')] }, now), now);
+
+    expect(updated.generatedAt).toBe(now.toISOString());
+    expect(updated.sources.map(entry => [entry.source, entry.gigCount])).toEqual([['a-venue', 0], ['b-venue', 1]]);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import os from 'os';
+import pino from 'pino';
+import type { IngestorConfig, ScraperPlugin } from '@gigateer/contracts';
+import { NetworkError, ParseError, RateLimitError } from '@gigateer/scraper';
+import { Scheduler, type ScheduledJob } from '../scheduler';
+import type { PausedSource } from '../file-manager';
+import { classifyError, isTransient } from '../error-classifier';
+
+const logger = pino({ level: 'silent' });
+
+const plugin = {
+  upstreamMeta: {
+    name: 'Test Venue',
+    rateLimitPerMin: 60,
+    defaultSchedule: '0 * * * *',
+    schedule: { retry: { attempts: 2, backoffMs: 1 } }
+  }
+} as unknown as ScraperPlugin;
+
+type Outcome = Error | { success: boolean; errorClass?: string; retryAfterMs?: number; errors?: string[] };
+
+describe('classifyError', () => {
+  it('should classify scraper errors by type', () => {
+    expect(classifyError(new NetworkError('venue', 'https://venue.example'))).toBe('network');
+    expect(classifyError(new RateLimitError('venue', 1000))).toBe('rate-limit');
+    expect(classifyError(new ParseError('venue', 'No RSS items found in feed'))).toBe('parse');
+  });
+
+  it('should recognise timeouts and low-level network failures', () => {
+    expect(classifyError(Object.assign(new Error('page.goto: Timeout 30000ms exceeded'), { name: 'TimeoutError' }))).toBe('timeout');
+    expect(classifyError(new TypeError('fetch failed'))).toBe('network');
+    expect(classifyError(new Error('page.goto: net::ERR_NAME_NOT_RESOLVED at https://venue.example'))).toBe('network');
+    expect(classifyError(new Error('Scrape failed', { cause: Object.assign(new Error('read'), { code: 'ECONNRESET' }) }))).toBe('network');
+  });
+
+  it('should leave other errors unknown and not transient', () => {
+    const errorClass = classifyError(new Error('Cannot read properties of undefined'));
+
+    expect(errorClass).toBe('unknown');
+    expect(isTransient(errorClass)).toBe(false);
+    expect(isTransient('rate-limit')).toBe(true);
+  });
+});
+
+describe('Scheduler failure handling', () => {
+  let scheduler: Scheduler;
+  let outcomes: Outcome[];
+  let calls: number;
+  let paused: Record<string, PausedSource>;
+
+  const jobs = (): Map<string, ScheduledJob> => (scheduler as any).jobs;
+
+  // Fire the job's cron task and wait for it to finish
+  const tick = async (job: ScheduledJob) => {
+    const done = new Promise(resolve => (job.task as any).once('task-done', (result: unknown) => Promise.resolve(result).then(resolve)));
+    job.task.now();
+    await done;
+  };
+
+  beforeEach(async () => {
+    outcomes = [];
+    calls = 0;
+    paused = {};
+
+    // The real ingestor is swapped for a fake below, so nothing is written here
+    const dir = os.tmpdir();
+    const ingestorConfig = { dataDir: dir, rawDataDir: dir, normalizedDataDir: dir, logDir: dir, defaultRateLimitPerMin: 60, sources: {} } as unknown as IngestorConfig;
+    scheduler = new Scheduler(ingestorConfig, { enabled: true, defaultSchedule: '0 * * * *', circuitBreakerThreshold: 2 }, logger);
+    (scheduler as any).ingestor = {
+      reloadSourceConfig: async () => ({ type: 'added', source: 'test-venue', plugin }),
+      ingestSource: async () => {
+        calls++;
+        const outcome = outcomes.shift() ?? { success: true };
+        if (outcome instanceof Error) throw outcome;
+        return outcome;
+      },
+      getPausedSources: async () => ({ ...paused }),
+      pauseSource: async (entry: PausedSource) => { paused[entry.source] = entry; }
+    };
+
+    await scheduler.applyConfigChange('test-venue.json');
+  });
+
+  afterEach(() => {
+    jobs().forEach(job => job.task.stop());
+  });
+
+  it('should retry transient failures, waiting at least as long as a rate limited site asks', async () => {
+    outcomes = [
+      { success: false, errorClass: 'rate-limit', retryAfterMs: 50, errors: ['Rate limit exceeded'] },
+      new NetworkError('test-venue', 'https://venue.example'),
+      { success: true }
+    ];
+
+    const started = Date.now();
+    await scheduler.triggerSource('test-venue');
+
+    expect(calls).toBe(3);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+    expect(jobs().get('test-venue')).toMatchObject({ runCount: 1, errorCount: 0, consecutiveFailures: 0 });
+  });
+
+  it('should not retry parse failures', async () => {
+    outcomes = [{ success: false, errorClass: 'parse', errors: ['No events found'] }];
+
+    await scheduler.triggerSource('test-venue');
+
+    expect(calls).toBe(1);
+    expect(jobs().get('test-venue')).toMatchObject({ errorCount: 1, consecutiveFailures: 1, status: 'scheduled' });
+  });
+
+  it('should give up on transient failures once the retries run out', async () => {
+    outcomes = [new TypeError('fetch failed'), new TypeError('fetch failed'), new TypeError('fetch failed')];
+
+    await scheduler.triggerSource('test-venue');
+
+    expect(calls).toBe(3);
+    expect(jobs().get('test-venue')).toMatchObject({ status: 'error', consecutiveFailures: 1, lastError: 'fetch failed' });
+  });
+
+  it('should pause a source after consecutive failures until it is re-enabled', async () => {
+    outcomes = [
+      { success: false, errorClass: 'parse', errors: ['No events found'] },
+      { success: false, errorClass: 'unknown', errors: ['Selector changed'] }
+    ];
+
+    await scheduler.triggerSource('test-venue');
+    await scheduler.triggerSource('test-venue');
+    const job = jobs().get('test-venue')!;
+
+    expect(job.status).toBe('paused');
+    expect(paused['test-venue']).toMatchObject({ consecutiveFailures: 2, errorClass: 'unknown', lastError: 'Selector changed' });
+    expect(scheduler.getHealthStatus().stats.pausedJobs).toBe(1);
+
+    expect(await scheduler.triggerSource('test-venue')).toBe(false);
+    await tick(job);
+    expect(calls).toBe(2);
+
+    delete paused['test-venue'];
+    await tick(job);
+
+    expect(calls).toBe(3);
+    expect(job).toMatchObject({ status: 'scheduled', consecutiveFailures: 0 });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import os from 'os';
+import pino from 'pino';
+import type { IngestorConfig, ScraperPlugin, ScraperRunStats } from '@gigateer/contracts';
+import { countTrend, freshnessSlaFor, nextSourceHealth } from '../source-health';
+import { Scheduler, type ScheduledJob } from '../scheduler';
+import type { ProbeRequestDocument } from '../database';
+
+const logger = pino({ level: 'silent' });
+
+const run = (overrides: Partial<ScraperRunStats> = {}): ScraperRunStats => ({
+  source: 'test-venue',
+  startTime: '2026-03-10T09:00:00.000Z',
+  endTime: '2026-03-10T09:01:00.000Z',
+  duration: 60000,
+  rawCount: 40,
+  normalizedCount: 40,
+  newCount: 0,
+  updatedCount: 0,
+  success: true,
+  errors: [],
+  ...overrides
+});
+
+describe('nextSourceHealth', () => {
+  const now = new Date('2026-03-10T09:01:00Z');
+
+  it('should start a record from the first run', () => {
+    const health = nextSourceHealth(null, run(), 12, now);
+
+    expect(health).toEqual({
+      source: 'test-venue',
+      configured: true,
+      freshnessSlaHours: 12,
+      lastRunAt: new Date('2026-03-10T09:00:00Z'),
+      lastSuccessAt: new Date('2026-03-10T09:00:00Z'),
+      consecutiveFailures: 0,
+      recentCounts: [{ at: new Date('2026-03-10T09:00:00Z'), count: 40 }],
+      countTrend: 'unknown',
+      updatedAt: now
+    });
+  });
+
+  it('should count failures until the next successful run', () => {
+    const failure = run({ success: false, errors: ['Selector changed'], errorClass: 'parse' });
+    const first = nextSourceHealth(nextSourceHealth(null, run(), 24, now), failure, 24, now);
+    const second = nextSourceHealth(first, failure, 24, now);
+
+    expect(second).toMatchObject({ consecutiveFailures: 2, lastError: 'Selector changed', lastErrorClass: 'parse' });
+    expect(second.lastSuccessAt).toEqual(new Date('2026-03-10T09:00:00Z'));
+    expect(second.recentCounts).toHaveLength(1);
+
+    const recovered = nextSourceHealth(second, run({ startTime: '2026-03-10T12:00:00.000Z' }), 24, now);
+    expect(recovered).toMatchObject({ consecutiveFailures: 0, lastSuccessAt: new Date('2026-03-10T12:00:00Z') });
+  });
+
+  it('should leave the count history alone on unchanged runs', () => {
+    const previous = nextSourceHealth(null, run(), 24, now);
+    const unchanged = nextSourceHealth(previous, run({ unchanged: true, normalizedCount: 0, startTime: '2026-03-10T12:00:00.000Z' }), 24, now);
+
+    expect(unchanged.recentCounts).toEqual(previous.recentCounts);
+    expect(unchanged.lastSuccessAt).toEqual(new Date('2026-03-10T12:00:00Z'));
+  });
+
+  it('should compare the latest count with the median of earlier ones', () => {
+    const counts = (...values: number[]) => values.map(count => ({ count }));
+
+    expect(countTrend(counts(10, 40))).toBe('unknown');
+    expect(countTrend(counts(20, 40, 42, 38))).toBe('falling');
+    expect(countTrend(counts(41, 40, 42, 38))).toBe('steady');
+    expect(countTrend(counts(60, 40, 42, 38))).toBe('rising');
+  });
+
+  it('should prefer the freshness SLA a source declares', () => {
+    const config = { freshnessSlaHours: 48 } as IngestorConfig;
+
+    expect(freshnessSlaFor({ name: 'Test', rateLimitPerMin: 60, schedule: { freshnessSlaHours: 6 } }, config)).toBe(6);
+    expect(freshnessSlaFor({ name: 'Test', rateLimitPerMin: 60 }, config)).toBe(48);
+    expect(freshnessSlaFor({ name: 'Test', rateLimitPerMin: 60 }, {} as IngestorConfig)).toBe(24);
+  });
+});
+
+describe('Scheduler probe requests', () => {
+  let scheduler: Scheduler;
+  let queued: ProbeRequestDocument[];
+  let updates: Array<{ source: string; status?: string; success?: boolean; reason?: string }>;
+  let finishRun: (success: boolean) => void;
+
+  const plugin = {
+    upstreamMeta: { name: 'Test Venue', rateLimitPerMin: 60, defaultSchedule: '0 * * * *' }
+  } as unknown as ScraperPlugin;
+  const jobs = (): Map<string, ScheduledJob> => (scheduler as any).jobs;
+  const probe = (source: string): ProbeRequestDocument => ({ source, requestedAt: new Date(), status: 'queued' });
+
+  beforeEach(async () => {
+    queued = [];
+    updates = [];
+
+    const dir = os.tmpdir();
+    const ingestorConfig = { dataDir: dir, rawDataDir: dir, normalizedDataDir: dir, logDir: dir, defaultRateLimitPerMin: 60, sources: {} } as unknown as IngestorConfig;
+    scheduler = new Scheduler(ingestorConfig, { enabled: true, defaultSchedule: '0 * * * *' }, logger);
+    (scheduler as any).ingestor = {
+      reloadSourceConfig: async () => ({ type: 'added', source: 'test-venue', plugin }),
+      ingestSource: async () => {
+        const success = await new Promise<boolean>(resolve => { finishRun = resolve; });
+        return { success, duration: 40, rawCount: 12, normalizedCount: success ? 10 : 0, newCount: 0, updatedCount: 0, errors: success ? [] : ['Selector changed'] };
+      },
+      getQueuedProbes: async () => queued.filter(entry => entry.status === 'queued'),
+      updateProbe: async (entry: ProbeRequestDocument, update: Partial<ProbeRequestDocument>) => {
+        Object.assign(entry, update);
+        updates.push({ source: entry.source, ...update });
+      }
+    };
+    await scheduler.applyConfigChange('test-venue.json');
+  });
+
+  afterEach(() => {
+    jobs().forEach(job => job.task.stop());
+  });
+
+  const waitForRun = async () => {
+    while (jobs().get('test-venue')!.status === 'running') {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    await new Promise(resolve => setImmediate(resolve));
+  };
+
+  it('should run queued probes without waiting for them and record the result', async () => {
+    queued.push(probe('test-venue'));
+
+    await (scheduler as any).runQueuedProbes();
+    expect(jobs().get('test-venue')!.status).toBe('running');
+    expect(queued[0].status).toBe('running');
+
+    finishRun(false);
+    await waitForRun();
+    expect(queued[0]).toMatchObject({ status: 'completed', success: false, reason: 'Selector changed' });
+  });
+
+  it('should keep probes of running sources queued and reject ones that cannot run', async () => {
+    queued.push(probe('nowhere'));
+    jobs().get('test-venue')!.status = 'running';
+    queued.push(probe('test-venue'));
+
+    await (scheduler as any).runQueuedProbes();
+
+    expect(queued[0]).toMatchObject({ status: 'rejected', reason: 'No scheduled job for source: nowhere' });
+    expect(queued[1].status).toBe('queued');
+
+    jobs().get('test-venue')!.status = 'paused';
+    await (scheduler as any).runQueuedProbes();
+    expect(queued[1]).toMatchObject({ status: 'rejected', reason: 'Source is paused by its circuit breaker' });
+    expect(updates).toHaveLength(2);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from '@jest/globals';
+import type { IngestorConfig, ScraperPluginMeta } from '@gigateer/contracts';
+import { resolveSourceSettings, isActiveOn, trustScoreFor } from '../source-settings';
+import { ConfigManager } from '../config';
+import { createPluginMeta } from '../config-driven-plugin-loader';
+import type { ScheduleConfig } from '../scheduler';
+
+const scheduleConfig: ScheduleConfig = { enabled: true, defaultSchedule: '0 */3 * * *' };
+
+function ingestorConfig(sources: IngestorConfig['sources'] = {}): IngestorConfig {
+  return { defaultRateLimitPerMin: 60, sources } as unknown as IngestorConfig;
+}
+
+const meta: ScraperPluginMeta = {
+  name: 'Test Venue',
+  rateLimitPerMin: 10,
+  defaultSchedule: '0 6 * * *',
+  trustScore: 70,
+  schedule: { timezone: 'Europe/London', enabled: true, retry: { attempts: 1, backoffMs: 1000 } }
+};
+
+describe('resolveSourceSettings', () => {
+  it('should use what the source declares over the defaults', () => {
+    const settings = resolveSourceSettings('test-venue', meta, ingestorConfig(), scheduleConfig);
+
+    expect(settings).toMatchObject({
+      schedule: '0 6 * * *',
+      timezone: 'Europe/London',
+      enabled: true,
+      trustScore: 70,
+      rateLimitPerMin: 10,
+      retry: { attempts: 1, backoffMs: 1000 },
+      origins: { schedule: 'source', timezone: 'source', enabled: 'source', trustScore: 'source' }
+    });
+  });
+
+  it('should fall back to the ingestor defaults for settings a config leaves out', () => {
+    const configMeta = createPluginMeta({ site: { name: 'Test Venue', baseUrl: 'https://venue.example' }, schedule: { retry: {} } });
+    const settings = resolveSourceSettings('test-venue', configMeta, ingestorConfig(), scheduleConfig);
+
+    expect(settings).toMatchObject({
+      schedule: '0 */3 * * *',
+      timezone: 'UTC',
+      enabled: true,
+      trustScore: 80,
+      activeWindows: [],
+      retry: { attempts: 2, backoffMs: 60000 },
+      origins: { schedule: 'default', timezone: 'default', trustScore: 'default' }
+    });
+  });
+
+  it('should let environment overrides win over the source', () => {
+    const settings = resolveSourceSettings(
+      'test-venue',
+      meta,
+      ingestorConfig({ 'test-venue': { schedule: '*/30 * * * *', trustScore: 95, rateLimitPerMin: 5 } }),
+      { ...scheduleConfig, disabledSources: ['test-venue'] }
+    );
+
+    expect(settings).toMatchObject({
+      schedule: '*/30 * * * *',
+      timezone: 'Europe/London',
+      enabled: false,
+      trustScore: 95,
+      rateLimitPerMin: 5,
+      origins: { schedule: 'env', timezone: 'source', enabled: 'env', trustScore: 'env', rateLimitPerMin: 'env' }
+    });
+  });
+
+  it('should prefer a per-source enabled override to the source lists', () => {
+    const settings = resolveSourceSettings(
+      'test-venue',
+      { ...meta, schedule: { enabled: false } },
+      ingestorConfig({ 'test-venue': { enabled: true } }),
+      { ...scheduleConfig, enabledSources: ['other-venue'] }
+    );
+
+    expect(settings.enabled).toBe(true);
+  });
+});
+
+describe('trustScoreFor', () => {
+  it('should only return a trust score the environment or the source declares', () => {
+    const { trustScore, ...undeclared } = meta;
+
+    expect(trustScoreFor('test-venue', meta, ingestorConfig())).toBe(70);
+    expect(trustScoreFor('test-venue', meta, ingestorConfig({ 'test-venue': { trustScore: 95 } }))).toBe(95);
+    expect(trustScoreFor('test-venue', undeclared, ingestorConfig())).toBeUndefined();
+  });
+});
+
+describe('isActiveOn', () => {
+  const settings = resolveSourceSettings(
+    'festival',
+    { ...meta, schedule: { timezone: 'Europe/London', activeWindows: [{ start: '2026-06-01', end: '2026-06-30' }] } },
+    ingestorConfig(),
+    scheduleConfig
+  );
+
+  it('should only run inside the active windows, on dates in the source timezone', () => {
+    // 23:30 UTC on 31 May is already 1 June in London
+    expect(isActiveOn(settings, new Date('2026-05-31T23:30:00Z'))).toBe(true);
+    expect(isActiveOn(settings, new Date('2026-06-30T22:59:00Z'))).toBe(true);
+    expect(isActiveOn(settings, new Date('2026-06-30T23:00:00Z'))).toBe(false);
+    expect(isActiveOn(settings, new Date('2026-05-31T22:00:00Z'))).toBe(false);
+  });
+
+  it('should always run without active windows', () => {
+    const always = resolveSourceSettings('test-venue', meta, ingestorConfig(), scheduleConfig);
+
+    expect(isActiveOn(always, new Date('2001-01-01T00:00:00Z'))).toBe(true);
+  });
+});
+
+describe('ConfigManager.loadSourceOverrides', () => {
+  it('should read per-source environment overrides', () => {
+    const sources = ConfigManager.loadSourceOverrides({
+      INGESTOR_SOURCE_BRISTOL_THEKLA_SCHEDULE: '0 */6 * * *',
+      INGESTOR_SOURCE_BRISTOL_THEKLA_TRUST_SCORE: '90',
+      INGESTOR_SOURCE_BRISTOL_THEKLA_RATE_LIMIT_PER_MIN: '30',
+      INGESTOR_SOURCE_EXAMPLE_ENABLED: 'false',
+      INGESTOR_SOURCE_TIMEOUT_MS: '300000',
+      INGESTOR_SOURCE_BLANK_TIMEZONE: ''
+    });
+
+    expect(sources).toEqual({
+      'bristol-thekla': { schedule: '0 */6 * * *', trustScore: 90, rateLimitPerMin: 30 },
+      example: { enabled: false }
+    });
+  });
+
+  it('should report invalid overrides', () => {
+    const { ingestorConfig: config, scheduleConfig: schedule } = ConfigManager.getDevelopmentDefaults();
+    config.sources = { 'test-venue': { schedule: 'hourly', timezone: 'Mars/Olympus', trustScore: 150 } };
+
+    expect(ConfigManager.validateConfig(config, schedule)).toEqual([
+      'Schedule override for test-venue is not a valid cron expression',
+      'Timezone override for test-venue is not a known timezone',
+      'Trust score override for test-venue must be between 0 and 100'
+    ]);
+  });
+});
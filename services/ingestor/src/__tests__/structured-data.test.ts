@@ -0,0 +1,166 @@
+import { describe, it, expect } from '@jest/globals';
+import { findStructuredEvents, structuredEventToItem, mergeStructuredItems } from '../scrapers/structured-data';
+import { GigMapper } from '../scrapers/gig-mapper';
+import { ScraperConfigSchema } from '../schemas/scraper-config';
+import fs from 'fs/promises';
+import path from 'path';
+
+const configDir = path.resolve(__dirname, '../../data/scraper-configs');
+
+const musicEvent = {
+  '@context': 'https://schema.org',
+  '@type': 'MusicEvent',
+  '@id': 'https://venue.example/events/42#event',
+  name: ' Jazz Night ',
+  startDate: '2025-03-15T20:00:00Z',
+  endDate: '2025-03-15T23:00:00Z',
+  eventStatus: 'https://schema.org/EventPostponed',
+  url: '/events/42',
+  image: [{ '@type': 'ImageObject', url: '/images/42.jpg' }],
+  performer: [{ '@type': 'MusicGroup', name: 'The Quartet' }, 'Guest Singer'],
+  location: {
+    '@type': 'Place',
+    name: 'Main Room',
+    address: {
+      '@type': 'PostalAddress',
+      streetAddress: '1 High Street',
+      addressLocality: 'Bristol',
+      addressCountry: { '@type': 'Country', name: 'UK' }
+    }
+  },
+  offers: [
+    { '@type': 'Offer', price: '12.50', priceCurrency: 'GBP', url: 'https://tickets.example/42' },
+    { '@type': 'Offer', price: 20, priceCurrency: 'GBP' }
+  ]
+};
+
+describe('structured data extraction', () => {
+  it('should find events in JSON-LD graphs, item lists and microdata', () => {
+    const events = findStructuredEvents({
+      jsonLd: [
+        JSON.stringify({ '@graph': [{ '@type': 'WebPage' }, musicEvent] }),
+        JSON.stringify({ '@type': 'ItemList', itemListElement: [{ '@type': 'ListItem', item: { '@type': 'Event', name: 'Listed' } }] }),
+        '{ not json'
+      ],
+      microdata: [{ '@type': 'Organization' }, { '@type': 'ComedyEvent', name: 'Microdata Event' }]
+    });
+
+    expect(events.map(event => event.name)).toEqual([' Jazz Night ', 'Listed', 'Microdata Event']);
+  });
+
+  it('should flatten performer, offers, location, dates and status', () => {
+    const item = structuredEventToItem(musicEvent, 'https://venue.example/whats-on');
+
+    expect(item).toEqual({
+      title: 'Jazz Night',
+      dateStart: '2025-03-15T20:00:00.000Z',
+      dateEnd: '2025-03-15T23:00:00.000Z',
+      status: 'postponed',
+      artists: ['The Quartet', 'Guest Singer'],
+      venueName: 'Main Room',
+      venueAddress: '1 High Street',
+      venueCity: 'Bristol',
+      venueCountry: 'UK',
+      eventUrl: 'https://venue.example/events/42',
+      ticketsUrl: 'https://tickets.example/42',
+      priceMin: 12.5,
+      priceMax: 20,
+      priceCurrency: 'GBP',
+      images: ['https://venue.example/images/42.jpg'],
+      sourceId: 'https://venue.example/events/42#event'
+    });
+  });
+
+  it('should treat date-only start dates as local calendar days', () => {
+    const item = structuredEventToItem({ '@type': 'Event', startDate: '2025-03-15' });
+    const date = new Date(item.dateStart);
+
+    expect(date.getFullYear()).toBe(2025);
+    expect(date.getMonth()).toBe(2);
+    expect(date.getDate()).toBe(15);
+  });
+
+  it('should use selector fields to fill gaps in structured events', () => {
+    const structured = [
+      { title: 'Jazz Night', eventUrl: 'https://venue.example/events/42' },
+      { title: 'Rock Night', eventUrl: 'https://venue.example/events/43' }
+    ];
+    const selectorItems = [
+      { title: 'Rock!', dateText: 'Sat 16 March', eventUrl: 'https://venue.example/events/43/' },
+      { title: 'Unlisted', dateText: 'Sun 17 March', eventUrl: 'https://venue.example/events/44' }
+    ];
+
+    const merged = mergeStructuredItems(structured, selectorItems, { venueName: 'The Venue' });
+
+    expect(merged).toEqual([
+      { title: 'Jazz Night', eventUrl: 'https://venue.example/events/42', venueName: 'The Venue' },
+      { title: 'Rock Night', dateText: 'Sat 16 March', eventUrl: 'https://venue.example/events/43' },
+      { title: 'Unlisted', dateText: 'Sun 17 March', eventUrl: 'https://venue.example/events/44' }
+    ]);
+  });
+
+  it('should map structured status and prices onto gigs', () => {
+    const config = ScraperConfigSchema.parse({
+      site: { name: 'Test Venue', baseUrl: 'https://venue.example', source: 'test-venue' },
+      workflow: [
+        { type: 'navigate', url: 'https://venue.example/whats-on' },
+        { type: 'extract', method: 'structured-data', fields: {} }
+      ],
+      mapping: {
+        id: { strategy: 'generated' },
+        sourceId: 'sourceId',
+        title: 'title',
+        artist: 'artists',
+        venue: { name: 'venueName', city: 'venueCity' },
+        date: { start: 'dateStart', end: 'dateEnd' },
+        urls: { event: 'eventUrl', tickets: 'ticketsUrl' },
+        status: 'status',
+        price: { min: 'priceMin', max: 'priceMax', currency: 'priceCurrency' }
+      }
+    });
+
+    const [gig] = new GigMapper(config).mapItems([structuredEventToItem(musicEvent, 'https://venue.example/')]);
+
+    expect(gig).toMatchObject({
+      sourceId: 'https://venue.example/events/42#event',
+      artists: ['The Quartet', 'Guest Singer'],
+      venue: { name: 'Main Room', city: 'Bristol' },
+      status: 'postponed',
+      price: { min: 12.5, max: 20, currency: 'GBP' },
+      ticketsUrl: 'https://tickets.example/42'
+    });
+  });
+
+  it('should read a price mapped to a single field as the minimum price', () => {
+    const config = ScraperConfigSchema.parse({
+      site: { name: 'Test Venue', baseUrl: 'https://venue.example', source: 'test-venue' },
+      workflow: [{ type: 'extract', containerSelector: '.event', fields: {} }],
+      mapping: { id: { strategy: 'generated' }, title: 'title', venue: { name: 'Test Venue' }, date: { start: 'date' }, price: 'price' }
+    });
+
+    expect(config.mapping.price).toEqual({ min: 'price' });
+  });
+
+  it('should accept every committed scraper config', async () => {
+    const files = (await fs.readdir(configDir)).filter(file => file.endsWith('.json'));
+    expect(files.length).toBeGreaterThan(0);
+
+    for (const file of files) {
+      const result = ScraperConfigSchema.safeParse(JSON.parse(await fs.readFile(path.join(configDir, file), 'utf-8')));
+      expect({ file, issues: result.success ? [] : result.error.issues }).toEqual({ file, issues: [] });
+    }
+  });
+
+  it('should require a container selector for selector-only extraction', () => {
+    const result = ScraperConfigSchema.safeParse({
+      site: { name: 'Test Venue', baseUrl: 'https://venue.example', source: 'test-venue' },
+      workflow: [{ type: 'extract', fields: {} }],
+      mapping: { id: { strategy: 'generated' }, title: 'title', venue: { name: 'Test Venue' }, date: { start: 'date' } }
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(['workflow', 0, 'containerSelector']);
+    }
+  });
+});
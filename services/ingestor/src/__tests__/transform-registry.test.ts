@@ -0,0 +1,163 @@
+import { describe, it, expect } from '@jest/globals';
+import { TransformRegistry, createDefaultTransformRegistry, transformRegistry } from '../scrapers/transform-registry';
+import { ScraperConfigSchema } from '../schemas/scraper-config';
+
+const baseConfig = {
+  site: {
+    name: 'Test Venue',
+    baseUrl: 'https://example.com',
+    source: 'test-venue'
+  },
+  workflow: [
+    { type: 'navigate', url: 'https://example.com/events' },
+    {
+      type: 'extract',
+      containerSelector: '.event',
+      fields: {
+        title: { selector: '.title', transform: 'trim' },
+        date: { selector: '.date' }
+      }
+    }
+  ],
+  mapping: {
+    id: { strategy: 'generated' },
+    title: 'title',
+    venue: { name: 'Test Venue' },
+    date: { start: 'date' }
+  }
+};
+
+describe('TransformRegistry', () => {
+  describe('registration', () => {
+    it('should apply registered transforms by name', () => {
+      const registry = new TransformRegistry().register({
+        name: 'reverse',
+        handler: (val) => val.split('').reverse().join('')
+      });
+
+      expect(registry.has('reverse')).toBe(true);
+      expect(registry.apply('reverse', 'abc', undefined)).toBe('cba');
+    });
+
+    it('should reject duplicate registrations', () => {
+      const registry = createDefaultTransformRegistry();
+      expect(() => registry.register({ name: 'trim', handler: (val) => val })).toThrow('already registered');
+    });
+
+    it('should return the value unchanged for unknown transforms', () => {
+      expect(transformRegistry.apply('does-not-exist', ' value ', undefined)).toBe(' value ');
+    });
+
+    it('should resolve relative urls against the context base url', () => {
+      expect(transformRegistry.apply('url', '/events/1', undefined, { baseUrl: 'https://example.com' }))
+        .toBe('https://example.com/events/1');
+    });
+  });
+
+  describe('date-format transform', () => {
+    it('should parse dates with an explicit year and apply the default time', () => {
+      const result = transformRegistry.apply('date-format', 'Tuesday 12 Aug 2025', {
+        format: 'dddd D MMM YYYY',
+        defaultTime: '7:30pm'
+      });
+
+      const date = new Date(result!);
+      expect(date.getFullYear()).toBe(2025);
+      expect(date.getMonth()).toBe(7);
+      expect(date.getDate()).toBe(12);
+      expect(date.getHours()).toBe(19);
+      expect(date.getMinutes()).toBe(30);
+    });
+
+    it('should prefer a time in the value over the default time', () => {
+      const result = transformRegistry.apply('date-format', 'Thu, 28 Aug 2025, 8:15 pm', {
+        format: 'ddd, D MMM YYYY, h:mm a',
+        defaultTime: '19:00'
+      });
+
+      const date = new Date(result!);
+      expect(date.getHours()).toBe(20);
+      expect(date.getMinutes()).toBe(15);
+    });
+
+    it('should infer the next occurrence when the format has no year', () => {
+      const result = transformRegistry.apply('date-format', 'Friday 15th August', {
+        format: 'dddd Do MMMM',
+        yearInference: 'next-occurrence'
+      });
+
+      const date = new Date(result!);
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      expect(date.getMonth()).toBe(7);
+      expect(date.getDate()).toBe(15);
+      expect(date.getTime()).toBeGreaterThanOrEqual(today.getTime());
+    });
+
+    it('should return null when the year cannot be inferred or the date is invalid', () => {
+      expect(transformRegistry.apply('date-format', '15 August', { format: 'D MMMM', yearInference: 'none' })).toBeNull();
+      expect(transformRegistry.apply('date-format', '31 Feb 2025', { format: 'D MMM YYYY' })).toBeNull();
+      expect(transformRegistry.apply('date-format', 'TBC', { format: 'D MMM YYYY' })).toBeNull();
+    });
+
+    it('should merge params from config-declared transforms', () => {
+      const result = transformRegistry.apply('date-format-with-time', '04/09/2025', { time: '21:00' }, {
+        localTransforms: {
+          'date-format-with-time': { type: 'date-format', params: { format: 'DD/MM/YYYY', defaultTime: '19:00' } }
+        }
+      });
+
+      const date = new Date(result!);
+      expect(date.getMonth()).toBe(8);
+      expect(date.getDate()).toBe(4);
+      expect(date.getHours()).toBe(21);
+    });
+  });
+
+  describe('config validation', () => {
+    it('should accept configs using registered and config-declared transforms', () => {
+      const config = {
+        ...baseConfig,
+        transforms: {
+          'venue-date': { type: 'date-format', params: { format: 'dddd Do MMMM', defaultTime: '19:30' } }
+        },
+        mapping: {
+          ...baseConfig.mapping,
+          date: { start: { field: 'date', transform: 'venue-date' } }
+        }
+      };
+
+      expect(ScraperConfigSchema.safeParse(config).success).toBe(true);
+    });
+
+    it('should report unknown transforms with their config path', () => {
+      const config = JSON.parse(JSON.stringify(baseConfig));
+      config.workflow[1].fields.title.transform = 'not-a-transform';
+
+      const result = ScraperConfigSchema.safeParse(config);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].path).toEqual(['workflow', 1, 'fields', 'title', 'transform']);
+        expect(result.error.issues[0].message).toContain('Unknown transform "not-a-transform"');
+      }
+    });
+
+    it('should validate transform params', () => {
+      const config = {
+        ...baseConfig,
+        mapping: {
+          ...baseConfig.mapping,
+          date: { start: { field: 'date', transform: 'date-format', transformParams: { yearInference: 'sometimes' } } }
+        }
+      };
+
+      const result = ScraperConfigSchema.safeParse(config);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        const messages = result.error.issues.map(issue => issue.message).join('\n');
+        expect(messages).toContain('.format');
+        expect(messages).toContain('.yearInference');
+      }
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import type { Gig, IngestorConfig, RunQualityProfile } from "@gigateer/contracts";
+import type { Logger } from "./logger.js";
+
+export type AnomalyDetectionOptions = NonNullable<IngestorConfig["anomalyDetection"]>;
+
+export const DEFAULT_ANOMALY_DETECTION: AnomalyDetectionOptions = {
+  enabled: true,
+  baselineRuns: 10,
+  minBaselineRuns: 3,
+  maxCountDrop: 0.8,
+  maxFillRateDrop: 0.5,
+  rejectAnomalousRuns: false,
+};
+
+/**
+ * Typical shape of a source's runs, taken as the median of its recent good runs
+ */
+export interface SourceBaseline {
+  runs: number;
+  gigCount: number;
+  fillRates: RunQualityProfile["fillRates"];
+  distinctDates: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Summarises the gigs a run returned
+ */
+export function profileGigs(gigs: Gig[]): RunQualityProfile {
+  const share = (filled: (gig: Gig) => boolean) =>
+    gigs.length > 0 ? gigs.filter(filled).length / gigs.length : 0;
+
+  const days = new Set(gigs.map(gig => gig.dateStart.substring(0, 10)));
+  const times = gigs.map(gig => new Date(gig.dateStart).getTime()).filter(time => !isNaN(time));
+
+  return {
+    gigCount: gigs.length,
+    fillRates: {
+      price: share(gig => gig.price?.min != null || gig.price?.max != null),
+      images: share(gig => gig.images.length > 0),
+      ticketsUrl: share(gig => !!gig.ticketsUrl),
+      artists: share(gig => gig.artists.length > 0),
+    },
+    distinctDates: days.size,
+    dateSpanDays: times.length > 0
+      ? Math.round((Math.max(...times) - Math.min(...times)) / DAY_MS)
+      : 0,
+  };
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Builds a baseline from recent run profiles, or returns null when there are none
+ */
+export function buildBaseline(profiles: RunQualityProfile[]): SourceBaseline | null {
+  if (profiles.length === 0) {
+    return null;
+  }
+
+  const fields = Object.keys(profiles[0].fillRates) as Array<keyof RunQualityProfile["fillRates"]>;
+
+  return {
+    runs: profiles.length,
+    gigCount: median(profiles.map(profile => profile.gigCount)),
+    fillRates: Object.fromEntries(
+      fields.map(field => [field, median(profiles.map(profile => profile.fillRates[field] ?? 0))])
+    ) as RunQualityProfile["fillRates"],
+    distinctDates: median(profiles.map(profile => profile.distinctDates)),
+  };
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export class AnomalyDetector {
+  constructor(
+    private readonly logger: Logger,
+    private readonly options: AnomalyDetectionOptions = DEFAULT_ANOMALY_DETECTION
+  ) {}
+
+  /**
+   * Compares a run against the source's baseline and describes anything that looks broken.
+   * Returns an empty list when the run looks normal or there isn't enough history to judge.
+   */
+  detect(source: string, profile: RunQualityProfile, history: RunQualityProfile[]): string[] {
+    if (!this.options.enabled || history.length < this.options.minBaselineRuns) {
+      return [];
+    }
+
+    const baseline = buildBaseline(history.slice(0, this.options.baselineRuns));
+    if (!baseline || baseline.gigCount === 0) {
+      return [];
+    }
+
+    const anomalies: string[] = [];
+
+    if (profile.gigCount < baseline.gigCount * (1 - this.options.maxCountDrop)) {
+      anomalies.push(`Gig count dropped to ${profile.gigCount} from a typical ${baseline.gigCount}`);
+    }
+
+    // An empty run has no fill rates or dates to compare
+    if (profile.gigCount > 0) {
+      for (const [field, typical] of Object.entries(baseline.fillRates)) {
+        const current = profile.fillRates[field as keyof RunQualityProfile["fillRates"]] ?? 0;
+        if (typical - current > this.options.maxFillRateDrop) {
+          anomalies.push(`Gigs with ${field} fell to ${percent(current)} from a typical ${percent(typical)}`);
+        }
+      }
+
+      if (profile.gigCount > 1 && profile.distinctDates === 1 && baseline.distinctDates > 2) {
+        anomalies.push(
+          `All ${profile.gigCount} gigs start on the same day, usually spread over ${baseline.distinctDates} days`
+        );
+      }
+    }
+
+    if (anomalies.length > 0) {
+      this.logger.warn({ source, anomalies, profile, baseline }, "Run deviates from source baseline");
+    }
+
+    return anomalies;
+  }
+}
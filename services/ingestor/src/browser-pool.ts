@@ -0,0 +1,130 @@
+import { chromium, type Browser, type LaunchOptions } from "playwright";
+import type { Logger } from "./logger.js";
+
+interface PooledBrowser {
+  key: string;
+  browser: Browser;
+  leases: number;
+}
+
+/**
+ * Shares a bounded set of Playwright browsers between scrapes. Each scrape opens its own
+ * page (and so its own browser context), so several sources can use one browser at once.
+ * Browsers are launched lazily, keyed by their launch options, and replaced if they crash.
+ */
+export class BrowserPool {
+  private browsers: PooledBrowser[] = [];
+  private launching = 0;
+  private waiters: Array<() => void> = [];
+  private closed = false;
+
+  constructor(
+    private readonly size: number,
+    private readonly logger: Logger,
+    private readonly launch: (options: LaunchOptions) => Promise<Browser> = options => chromium.launch(options)
+  ) {}
+
+  /**
+   * Runs `fn` with a pooled browser launched with `options`, releasing it afterwards
+   */
+  async withBrowser<T>(options: LaunchOptions, fn: (browser: Browser) => Promise<T>): Promise<T> {
+    const pooled = await this.acquire(options);
+    try {
+      return await fn(pooled.browser);
+    } finally {
+      this.release(pooled);
+    }
+  }
+
+  /**
+   * Closes every browser; later acquisitions fail
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    const browsers = this.browsers;
+    this.browsers = [];
+    this.notifyWaiters();
+    await Promise.all(browsers.map(pooled => pooled.browser.close().catch(() => undefined)));
+  }
+
+  getStats(): { browsers: number; leases: number } {
+    return {
+      browsers: this.browsers.length,
+      leases: this.browsers.reduce((sum, pooled) => sum + pooled.leases, 0),
+    };
+  }
+
+  private async acquire(options: LaunchOptions): Promise<PooledBrowser> {
+    const key = JSON.stringify(options);
+
+    for (;;) {
+      if (this.closed) {
+        throw new Error("Browser pool is closed");
+      }
+
+      this.browsers = this.browsers.filter(pooled => pooled.browser.isConnected());
+
+      const matching = this.browsers
+        .filter(pooled => pooled.key === key)
+        .sort((a, b) => a.leases - b.leases);
+      const hasRoom = this.browsers.length + this.launching < this.size;
+
+      // Prefer an idle browser, then a new one while there is room, then sharing the least busy
+      if (matching[0] && (matching[0].leases === 0 || !hasRoom)) {
+        matching[0].leases++;
+        return matching[0];
+      }
+
+      if (hasRoom) {
+        return this.launchBrowser(key, options);
+      }
+
+      // Full with browsers launched for other options: recycle an idle one
+      const idle = this.browsers.find(pooled => pooled.leases === 0);
+      if (idle) {
+        this.browsers = this.browsers.filter(pooled => pooled !== idle);
+        await idle.browser.close().catch(() => undefined);
+        continue;
+      }
+
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+  }
+
+  private async launchBrowser(key: string, options: LaunchOptions): Promise<PooledBrowser> {
+    this.launching++;
+    try {
+      const browser = await this.launch(options);
+      const pooled: PooledBrowser = { key, browser, leases: 1 };
+      this.browsers.push(pooled);
+
+      browser.on("disconnected", () => {
+        this.browsers = this.browsers.filter(entry => entry !== pooled);
+        this.notifyWaiters();
+      });
+
+      this.logger.debug({ browsers: this.browsers.length, size: this.size }, "Launched pooled browser");
+      // Anyone who queued while this launched can now share it
+      this.notifyWaiters();
+      return pooled;
+    } catch (error) {
+      // Anyone who queued for room behind this launch tries one of their own
+      this.logger.warn({ error: (error as Error).message }, "Failed to launch pooled browser");
+      this.notifyWaiters();
+      throw error;
+    } finally {
+      this.launching--;
+    }
+  }
+
+  private release(pooled: PooledBrowser): void {
+    pooled.leases--;
+    this.notifyWaiters();
+  }
+
+  private notifyWaiters(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
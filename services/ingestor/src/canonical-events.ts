@@ -0,0 +1,249 @@
+import type { CanonicalEvent, EventSourceLink, Gig } from "@gigateer/contracts";
+import { generateGigHash } from "@gigateer/contracts";
+import {
+  createOverrideRules,
+  findPotentialDuplicates,
+  fuzzyMatchGigs,
+  getPolicyTrustScore,
+  mergeTrustedData,
+  overrideKeyFor,
+  SIMILARITY_THRESHOLDS,
+  type DedupeOverride,
+  type TrustPolicy,
+} from "@gigateer/dedupe";
+
+/**
+ * How closely a gig must match an event to be linked to it. The matcher's default
+ * threshold is met by any two gigs at one venue on one day, so linking asks for the
+ * high similarity band, which also needs the titles to agree.
+ */
+export const EVENT_MATCHING = {
+  minConfidence: SIMILARITY_THRESHOLDS.HIGH_SIMILARITY,
+  dateToleranceHours: 2,
+};
+
+// Events starting this close to a gig are fetched as match candidates
+const CANDIDATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Where canonical events and the gigs linked to them are kept
+ */
+export interface EventStore {
+  findEventsByGigIds(gigIds: string[]): Promise<CanonicalEvent[]>;
+  findEventsStartingBetween(start: Date, end: Date): Promise<CanonicalEvent[]>;
+  findGigsByIds(gigIds: string[]): Promise<Gig[]>;
+  findEventById(eventId: string): Promise<CanonicalEvent | null>;
+  saveEvent(event: CanonicalEvent): Promise<void>;
+  deleteEvent(eventId: string): Promise<void>;
+}
+
+export interface EventLinkResult {
+  /** Events started by gigs that matched none */
+  created: number;
+  /** Gigs linked to an event other sources had started */
+  linked: number;
+  /** Gigs unlinked from an event they no longer match */
+  unlinked: number;
+  /** Events merged again because a linked gig changed */
+  refreshed: number;
+}
+
+/**
+ * Links a source's gigs to canonical events after they are stored. Gigs that changed in
+ * the run, or that have no event yet, are matched against events from other sources
+ * around the same time and merged into the best one, or start an event of their own.
+ * An event never links two gigs from one source, since a venue listing two shows on one
+ * night means two shows. Gigs that moved to a new ID keep their event.
+ *
+ * Manual overrides beat the matcher: a gig a merge override names joins the event of its
+ * partner when that event starts within a day of it, whatever they score, and a gig is
+ * never linked to an event holding a gig a split override keeps it apart from. Gigs
+ * overrides name are checked on every run, so new overrides apply to stored events too.
+ */
+export async function linkCanonicalEvents(
+  gigs: Gig[],
+  store: EventStore,
+  options: {
+    /** IDs of the gigs that are new or changed in the run */
+    changedIds: Set<string>;
+    /** Earlier IDs of gigs that moved to a new ID, by their new ID */
+    previousIds?: Map<string, string>;
+    /** Trust score a source declares, ahead of the trust policy's; undefined leaves it to the policy */
+    trustScoreOf: (source: string) => number | undefined;
+    /** Manual merge and split overrides */
+    overrides?: DedupeOverride[];
+    /** Per-field trust the events' fields are merged with */
+    trustPolicy?: TrustPolicy;
+    now?: Date;
+  }
+): Promise<EventLinkResult> {
+  const { changedIds, previousIds = new Map(), trustScoreOf, overrides = [], trustPolicy, now = new Date() } = options;
+  const result: EventLinkResult = { created: 0, linked: 0, unlinked: 0, refreshed: 0 };
+  const rules = createOverrideRules(overrides);
+  const scoreOf = (source: string) => sourceTrustScore(source, trustScoreOf, trustPolicy);
+
+  const linkedIds = new Set(
+    (await store.findEventsByGigIds(gigs.map(gig => gig.id)))
+      .flatMap(event => event.sources.map(link => link.gigId))
+  );
+  const pending = gigs.filter(gig =>
+    changedIds.has(gig.id) || !linkedIds.has(gig.id) || rules.covers([overrideKeyFor(gig)])
+  );
+
+  for (const gig of pending) {
+    const keys = [overrideKeyFor(gig)];
+    const previousId = previousIds.get(gig.id);
+    const [current] = await store.findEventsByGigIds(previousId ? [gig.id, previousId] : [gig.id]);
+    const start = new Date(gig.dateStart).getTime();
+    const eventsAround = () =>
+      store.findEventsStartingBetween(new Date(start - CANDIDATE_WINDOW_MS), new Date(start + CANDIDATE_WINDOW_MS));
+
+    const forced = rules.covers(keys)
+      ? (await eventsAround()).find(event => rules.mustMerge(keys, linkKeysOf(event, [gig.id, previousId])))
+      : undefined;
+
+    if (current) {
+      const otherLinks = current.sources.filter(link => link.gigId !== gig.id && link.gigId !== previousId);
+      const others = await store.findGigsByIds(otherLinks.map(link => link.gigId));
+      const otherKeys = otherLinks.map(linkKeyOf);
+      const stillMatches = !rules.mustSplit(keys, otherKeys) && (!forced || forced.id === current.id) && (
+        others.length === 0 ||
+        rules.mustMerge(keys, otherKeys) ||
+        fuzzyMatchGigs(gig, mergeEventGigs(others, trustScoreOf, trustPolicy), {
+          dateToleranceHours: EVENT_MATCHING.dateToleranceHours,
+          minOverallScore: EVENT_MATCHING.minConfidence,
+        }).isMatch
+      );
+
+      if (stillMatches) {
+        const link = current.sources.find(entry => entry.gigId === gig.id || entry.gigId === previousId)!;
+        await store.saveEvent(buildEvent(current.id, [...others, gig], [...current.sources, { ...link, gigId: gig.id }], trustScoreOf, now, trustPolicy));
+        result.refreshed++;
+        continue;
+      }
+
+      // The gig changed enough (a new date, say) that it is a different show now, or an
+      // override moved it; a gig alone in its event takes the event with it
+      if (others.length > 0) {
+        await store.saveEvent(buildEvent(current.id, others, current.sources, trustScoreOf, now, trustPolicy));
+      } else {
+        await store.deleteEvent(current.id);
+      }
+      result.unlinked++;
+    }
+
+    const candidates = forced ? [] : (await eventsAround())
+      .filter(event => !event.sources.some(link => link.source === gig.source) && !rules.mustSplit(keys, linkKeysOf(event)));
+    const [best] = forced
+      ? [{ gig: forced, match: { confidence: 1 } }]
+      : findPotentialDuplicates(gig, candidates, EVENT_MATCHING);
+
+    if (best) {
+      const event = best.gig as CanonicalEvent;
+      const members = await store.findGigsByIds(event.sources.map(link => link.gigId));
+      const link = newLink(gig, best.match.confidence, scoreOf, now);
+      await store.saveEvent(buildEvent(event.id, [...members, gig], [...event.sources, link], trustScoreOf, now, trustPolicy));
+      result.linked++;
+    } else {
+      const id = await freeEventIdFor(gig, store);
+      await store.saveEvent(buildEvent(id, [gig], [newLink(gig, 1, scoreOf, now)], trustScoreOf, now, trustPolicy));
+      result.created++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * ID of the event a gig starts; it stays with the event after the gig is unlinked
+ */
+export function eventIdFor(gig: Gig): string {
+  return `event-${gig.id}`;
+}
+
+/**
+ * ID for a new event of a gig. A gig unlinked from the event it started leaves that
+ * event's ID to the gigs still in it, so it numbers its next event instead.
+ */
+async function freeEventIdFor(gig: Gig, store: EventStore): Promise<string> {
+  const base = eventIdFor(gig);
+  let id = base;
+  for (let n = 2; await store.findEventById(id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+/**
+ * Merges an event's gigs into its canonical record. Gigs their sources flagged as removed
+ * only count while no source still lists the show.
+ */
+export function buildEvent(
+  eventId: string,
+  gigs: Gig[],
+  links: EventSourceLink[],
+  trustScoreOf: (source: string) => number | undefined,
+  now: Date = new Date(),
+  trustPolicy?: TrustPolicy
+): CanonicalEvent {
+  const listed = gigs.filter(gig => gig.status !== "removed");
+  const members = listed.length > 0 ? listed : gigs;
+  const merged = mergeEventGigs(members, trustScoreOf, trustPolicy);
+  const scoreOf = (source: string) => sourceTrustScore(source, trustScoreOf, trustPolicy);
+  const seen = (field: "firstSeenAt" | "lastSeenAt") => gigs.map(gig => gig[field]).filter((at): at is string => Boolean(at)).sort();
+  const firstSeen = seen("firstSeenAt");
+  const lastSeen = seen("lastSeenAt");
+
+  // One link per gig, refreshed from the gig as it is now
+  const sources = gigs.map(gig => {
+    const link = links.find(entry => entry.gigId === gig.id) ?? newLink(gig, 1, scoreOf, now);
+    return { ...link, sourceId: gig.sourceId, trustScore: scoreOf(gig.source), eventUrl: gig.eventUrl, ticketsUrl: gig.ticketsUrl };
+  }).sort((a, b) => b.trustScore - a.trustScore);
+
+  const event: CanonicalEvent = {
+    ...merged,
+    id: eventId,
+    firstSeenAt: firstSeen[0],
+    lastSeenAt: lastSeen[lastSeen.length - 1],
+    sources,
+  };
+  event.hash = generateGigHash(event);
+  return event;
+}
+
+function linkKeyOf(link: EventSourceLink): string {
+  return overrideKeyFor({ id: link.gigId, source: link.source, sourceId: link.sourceId });
+}
+
+// Override keys of an event's gigs, leaving out the given gig IDs
+function linkKeysOf(event: CanonicalEvent, excludedIds: Array<string | undefined> = []): string[] {
+  return event.sources.filter(link => !excludedIds.includes(link.gigId)).map(linkKeyOf);
+}
+
+// Only declared scores are passed on, so the policy's trust for the other sources applies
+function mergeEventGigs(gigs: Gig[], trustScoreOf: (source: string) => number | undefined, trustPolicy?: TrustPolicy): Gig {
+  const scores = Object.fromEntries(gigs.flatMap(gig => {
+    const score = trustScoreOf(gig.source);
+    return score === undefined ? [] : [[gig.source, score]];
+  }));
+  return mergeTrustedData(gigs, scores, trustPolicy) as Gig;
+}
+
+// Trust score a source's gigs are merged with: its declared one, else the policy's
+function sourceTrustScore(source: string, trustScoreOf: (source: string) => number | undefined, trustPolicy?: TrustPolicy): number {
+  const declared = trustScoreOf(source);
+  return getPolicyTrustScore(source, declared === undefined ? {} : { [source]: declared }, trustPolicy);
+}
+
+function newLink(gig: Gig, matchConfidence: number, scoreOf: (source: string) => number, now: Date): EventSourceLink {
+  return {
+    source: gig.source,
+    gigId: gig.id,
+    sourceId: gig.sourceId,
+    trustScore: scoreOf(gig.source),
+    matchConfidence,
+    eventUrl: gig.eventUrl,
+    ticketsUrl: gig.ticketsUrl,
+    linkedAt: now.toISOString(),
+  };
+}
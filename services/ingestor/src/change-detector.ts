@@ -1,16 +1,36 @@
-import type { Gig } from "@gigateer/contracts";
-import { createGigHash, createGigId } from "@gigateer/contracts";
+import type { Gig, GigHistoryEntry, IngestorConfig } from "@gigateer/contracts";
+import { createGigHash, createGigId, diffGigs } from "@gigateer/contracts";
 import type { Logger } from "./logger.js";
 
 export interface ChangeDetectionResult {
   newGigs: Gig[];
   updatedGigs: Gig[];
   unchangedGigs: Gig[];
+  /** Upcoming gigs the source stopped listing that have not been flagged as removed yet */
+  missingGigs: Gig[];
+  /** Gigs flagged as removed in this run */
+  removedGigs: Gig[];
+  /** Gigs flagged in an earlier run that are still absent */
+  previouslyRemovedGigs: Gig[];
+  /** Whether removal detection was skipped because the run looked incomplete */
+  removalGuardTriggered: boolean;
+  /** Field-level changes for every updated or removed gig */
+  history: GigHistoryEntry[];
   totalCount: number;
 }
 
+export type RemovalDetectionOptions = NonNullable<IngestorConfig["removalDetection"]>;
+
+export const DEFAULT_REMOVAL_DETECTION: RemovalDetectionOptions = {
+  gracePeriodRuns: 3,
+  minRetainedRatio: 0.5,
+};
+
 export class ChangeDetector {
-  constructor(private readonly logger: Logger) {}
+  constructor(
+    private readonly logger: Logger,
+    private readonly removalOptions: RemovalDetectionOptions = DEFAULT_REMOVAL_DETECTION
+  ) {}
 
   /**
    * Compares current gigs with previous gigs to detect changes
@@ -24,6 +44,11 @@ export class ChangeDetector {
       newGigs: [],
       updatedGigs: [],
       unchangedGigs: [],
+      missingGigs: [],
+      removedGigs: [],
+      previouslyRemovedGigs: [],
+      removalGuardTriggered: false,
+      history: [],
       totalCount: currentGigs.length,
     };
 
@@ -48,8 +73,29 @@ export class ChangeDetector {
       if (!currentGig.hash) {
         currentGig.hash = createGigHash(currentGig);
       }
+    }
+
+    const listedIds = new Set(currentGigs.map(gig => gig.id));
+    const findMovedGig = this.createMovedGigLookup(currentGigs, previousGigs ?? [], listedIds);
+
+    for (const currentGig of currentGigs) {
+      const previousGig = previousGigsMap.get(currentGig.id) ?? findMovedGig(currentGig);
+      const changes = previousGig ? diffGigs(previousGig, currentGig) : [];
 
-      const previousGig = previousGigsMap.get(currentGig.id);
+      if (previousGig) {
+        // A moved gig replaces the previous one, so that no longer counts as missing
+        listedIds.add(previousGig.id);
+
+        if (changes.length > 0) {
+          result.history.push({
+            gigId: currentGig.id,
+            ...(previousGig.id !== currentGig.id && { previousGigId: previousGig.id }),
+            source: currentGig.source,
+            changedAt: now,
+            changes,
+          });
+        }
+      }
 
       if (!previousGig) {
         // This is a new gig
@@ -60,7 +106,7 @@ export class ChangeDetector {
           firstSeenAt: now,
           lastSeenAt: now,
         });
-      } else if (previousGig.hash !== currentGig.hash) {
+      } else if (previousGig.hash !== currentGig.hash || changes.length > 0) {
         // This gig has been updated
         result.updatedGigs.push({
           ...currentGig,
@@ -81,12 +127,18 @@ export class ChangeDetector {
       }
     }
 
+    this.detectRemovals(currentGigs, previousGigs, listedIds, result, now);
+
     this.logger.info(
       {
         total: result.totalCount,
         new: result.newGigs.length,
         updated: result.updatedGigs.length,
         unchanged: result.unchangedGigs.length,
+        missing: result.missingGigs.length,
+        removed: result.removedGigs.length,
+        removalGuardTriggered: result.removalGuardTriggered,
+        changedGigs: result.history.length,
       },
       "Change detection completed"
     );
@@ -94,10 +146,131 @@ export class ChangeDetector {
     return result;
   }
 
+  /**
+   * Generated IDs are derived from the title and date, so a rescheduled gig arrives under a
+   * new ID. This matches such gigs back to the previous gig they replace by identifiers that
+   * survive the move: the upstream sourceId, or an eventUrl unique to one gig on both sides.
+   */
+  private createMovedGigLookup(
+    currentGigs: Gig[],
+    previousGigs: Gig[],
+    listedIds: Set<string>
+  ): (gig: Gig) => Gig | undefined {
+    const unlisted = previousGigs.filter(gig => !listedIds.has(gig.id));
+    if (unlisted.length === 0) {
+      return () => undefined;
+    }
+
+    const currentUrlCounts = countBy(currentGigs, gig => gig.eventUrl);
+    const previousUrlCounts = countBy(previousGigs, gig => gig.eventUrl);
+    const bySourceId = new Map(unlisted.filter(gig => gig.sourceId).map(gig => [gig.sourceId!, gig]));
+    const byEventUrl = new Map(
+      unlisted.filter(gig => gig.eventUrl && previousUrlCounts.get(gig.eventUrl) === 1).map(gig => [gig.eventUrl!, gig])
+    );
+    const matched = new Set<string>();
+
+    return (gig: Gig) => {
+      let candidate = gig.sourceId ? bySourceId.get(gig.sourceId) : undefined;
+      if (!candidate && gig.eventUrl && currentUrlCounts.get(gig.eventUrl) === 1) {
+        candidate = byEventUrl.get(gig.eventUrl);
+      }
+      if (!candidate || matched.has(candidate.id)) {
+        return undefined;
+      }
+
+      matched.add(candidate.id);
+      return candidate;
+    };
+  }
+
+  /**
+   * Tracks upcoming gigs that are absent from the current run. A gig is flagged as
+   * removed once it has been missing for `gracePeriodRuns` consecutive runs; past gigs
+   * simply age out. When the run returned too few gigs to be trusted (e.g. a broken
+   * selector returning nothing), absent gigs are carried forward untouched instead.
+   */
+  private detectRemovals(
+    currentGigs: Gig[],
+    previousGigs: Gig[] | null,
+    listedIds: Set<string>,
+    result: ChangeDetectionResult,
+    now: string
+  ): void {
+    if (!previousGigs) return;
+
+    const nowTime = new Date(now).getTime();
+    const upcomingGigs = previousGigs.filter(gig => new Date(gig.dateStart).getTime() >= nowTime);
+    const absentGigs = upcomingGigs.filter(gig => !listedIds.has(gig.id));
+
+    const listedCount = upcomingGigs.filter(gig => gig.status !== "removed").length;
+    const newlyAbsentCount = absentGigs.filter(gig => gig.status !== "removed").length;
+
+    if (
+      newlyAbsentCount > 0 &&
+      (currentGigs.length === 0 || currentGigs.length < listedCount * this.removalOptions.minRetainedRatio)
+    ) {
+      result.removalGuardTriggered = true;
+      this.logger.warn(
+        {
+          current: currentGigs.length,
+          previouslyListed: listedCount,
+          absent: newlyAbsentCount,
+          minRetainedRatio: this.removalOptions.minRetainedRatio,
+        },
+        "Run returned too few gigs - skipping removal detection"
+      );
+    }
+
+    for (const gig of absentGigs) {
+      if (gig.status === "removed") {
+        result.previouslyRemovedGigs.push({ ...gig, isNew: false, isUpdated: false });
+        continue;
+      }
+
+      if (result.removalGuardTriggered) {
+        result.missingGigs.push({ ...gig, isNew: false, isUpdated: false });
+        continue;
+      }
+
+      const missedRuns = (gig.missedRuns || 0) + 1;
+      if (missedRuns >= this.removalOptions.gracePeriodRuns) {
+        const removedGig: Gig = { ...gig, status: "removed", missedRuns, removedAt: now, isNew: false, isUpdated: true };
+        removedGig.hash = createGigHash(removedGig);
+        result.removedGigs.push(removedGig);
+        result.history.push({
+          gigId: gig.id,
+          source: gig.source,
+          changedAt: now,
+          changes: diffGigs(gig, removedGig),
+        });
+      } else {
+        result.missingGigs.push({ ...gig, missedRuns, isNew: false, isUpdated: false });
+      }
+    }
+  }
+
   /**
    * Merges change detection results back into a single array
    */
   mergeResults(result: ChangeDetectionResult): Gig[] {
-    return [...result.newGigs, ...result.updatedGigs, ...result.unchangedGigs];
+    return [
+      ...result.newGigs,
+      ...result.updatedGigs,
+      ...result.unchangedGigs,
+      ...result.missingGigs,
+      ...result.removedGigs,
+      ...result.previouslyRemovedGigs,
+    ];
   }
-}
\ No newline at end of file
+}
+
+function countBy(gigs: Gig[], key: (gig: Gig) => string | undefined): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const gig of gigs) {
+    const value = key(gig);
+    if (value) {
+      counts.set(value, (counts.get(value) || 0) + 1);
+    }
+  }
+  return counts;
+}
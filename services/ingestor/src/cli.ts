@@ -10,11 +10,21 @@ config({ path: envPath });
 
 import { Command } from "commander";
 import { join } from "path";
-import { writeFileSync } from "fs";
+import { rmSync, writeFileSync } from "fs";
 import type { IngestorConfig } from "@gigateer/contracts";
 import { Ingestor } from "./ingestor.js";
-import { Scheduler, type ScheduleConfig, readPidFile, isProcessRunning } from "./scheduler.js";
+import { Scheduler, type ScheduleConfig, DEFAULT_CONTROL_PORT, readPidFile, isProcessRunning } from "./scheduler.js";
+import { ControlServer, createControlToken, writeControlToken } from "./control-server.js";
+import {
+  ControlClient,
+  ControlApiError,
+  DaemonUnreachableError,
+  readControlToken,
+  type JobView
+} from "./control-client.js";
 import { ConfigManager } from "./config.js";
+import { resolveSourceSettings } from "./source-settings.js";
+import { DatabaseManager } from "./database/index.js";
 import { logger } from "./logger.js";
 
 const program = new Command();
@@ -47,6 +57,8 @@ program
         totalGigs: results.reduce((sum, r) => sum + r.normalizedCount, 0),
         totalNew: results.reduce((sum, r) => sum + r.newCount, 0),
         totalUpdated: results.reduce((sum, r) => sum + r.updatedCount, 0),
+        totalRemoved: results.reduce((sum, r) => sum + (r.removedCount || 0), 0),
+        unchangedSources: results.filter(r => r.unchanged).length,
         totalErrors: results.reduce((sum, r) => sum + (r.errorCount || 0), 0),
       };
       
@@ -86,6 +98,8 @@ program
           normalized: result.normalizedCount,
           new: result.newCount,
           updated: result.updatedCount,
+          removed: result.removedCount,
+          unchanged: result.unchanged,
           errors: result.errorCount,
         },
         "Source ingestion completed"
@@ -211,6 +225,80 @@ program
     }
   });
 
+program
+  .command("quality")
+  .description("Report field fill rates, dropped items and suspicious values per source")
+  .argument("[source]", "Only report on this source")
+  .option("-c, --config <path>", "Path to configuration file")
+  .option("--json", "Print the report as JSON")
+  .option("-o, --output <path>", "Write the report as JSON to a file, for the web dashboard")
+  .action(async (source: string | undefined, options) => {
+    try {
+      const config = await loadConfig(options.config);
+      const ingestor = new Ingestor(config);
+      
+      await ingestor.initialize();
+      const reports = await ingestor.getQualityReport(source ? [source] : undefined);
+      await ingestor.cleanup();
+      
+      const report = JSON.stringify({ generatedAt: new Date().toISOString(), sources: reports }, null, 2);
+      
+      if (options.output) {
+        writeFileSync(options.output, report);
+        logger.info({ output: options.output, sources: reports.length }, "Quality report written");
+      }
+      
+      if (options.json) {
+        console.log(report);
+        return;
+      }
+      
+      const percent = (value: number) => `${Math.round(value * 100)}%`.padStart(4);
+      
+      for (const report of reports) {
+        console.log(`\n📋 ${report.source}`);
+        console.log("=".repeat(report.source.length + 3));
+        console.log(`Raw items: ${report.rawCount}  Mapped: ${report.mappedCount}  Valid: ${report.validCount}  Listed gigs: ${report.gigCount}`);
+        
+        console.log("\nField fill rates:");
+        for (const [field, rate] of Object.entries(report.fillRates)) {
+          console.log(`  ${percent(rate)}  ${field}`);
+        }
+        
+        if (report.dropped.count > 0) {
+          console.log(`\n🗑️  Dropped items: ${report.dropped.count}`);
+          for (const [reason, count] of Object.entries(report.dropped.reasons)) {
+            console.log(`  - ${reason}: ${count}`);
+          }
+        }
+        
+        if (report.validationFailures.count > 0) {
+          console.log(`\n❌ Validation failures: ${report.validationFailures.count}`);
+          for (const [issue, count] of Object.entries(report.validationFailures.issues)) {
+            console.log(`  - ${issue}: ${count}`);
+          }
+        }
+        
+        const { midnightStarts, pastDates, unparseableDates, duplicateTitles } = report.suspicious;
+        if (midnightStarts + pastDates + unparseableDates + duplicateTitles > 0) {
+          console.log("\n⚠️  Suspicious values:");
+          if (midnightStarts > 0) console.log(`  - Midnight start times: ${midnightStarts}`);
+          if (pastDates > 0) console.log(`  - Dates in the past: ${pastDates}`);
+          if (unparseableDates > 0) console.log(`  - Unparseable dates: ${unparseableDates}`);
+          if (duplicateTitles > 0) console.log(`  - Gigs with duplicate titles: ${duplicateTitles}`);
+        }
+      }
+      
+      if (reports.length === 0) {
+        console.log("No sources have been ingested yet");
+      }
+      
+    } catch (error) {
+      logger.error({ error: (error as Error).message }, "Failed to build quality report");
+      process.exit(1);
+    }
+  });
+
 program
   .command("daemon")
   .description("Run the scheduler daemon to automatically ingest sources")
@@ -221,6 +309,8 @@ program
   .option("--enabled-sources <sources>", "Comma-separated list of enabled sources")
   .option("--disabled-sources <sources>", "Comma-separated list of disabled sources")
   .option("--mode <mode>", "Runtime mode (development|production)", defaultScheduleConfig.mode)
+  .option("--no-watch", "Don't reload scraper configs when their files change")
+  .option("--control-port <port>", "Localhost port of the control API (0 disables it)")
   .action(async (options) => {
     try {
       const config = await loadConfig(options.config);
@@ -242,9 +332,14 @@ program
         mode: options.mode as 'development' | 'production' || defaultScheduleConfig.mode,
         enabledSources: options.enabledSources ? options.enabledSources.split(',').map((s: string) => s.trim()) : undefined,
         disabledSources: options.disabledSources ? options.disabledSources.split(',').map((s: string) => s.trim()) : undefined,
+        watchConfigs: options.watch !== false,
+        controlPort: options.controlPort !== undefined ? parseInt(options.controlPort, 10) : defaultScheduleConfig.controlPort,
       };
       
       const scheduler = new Scheduler(config, scheduleConfig);
+      const controlToken = createControlToken();
+      const controlServer = new ControlServer(scheduler, logger, controlToken);
+      let controlTokenPath: string | undefined;
       
       // Handle graceful shutdown
       let isShuttingDown = false;
@@ -255,6 +350,8 @@ program
         logger.info({ signal }, "Received shutdown signal, stopping scheduler...");
         
         try {
+          await controlServer.stop();
+          if (controlTokenPath) rmSync(controlTokenPath, { force: true });
           await scheduler.stop();
           logger.info("Scheduler stopped gracefully");
           process.exit(0);
@@ -280,6 +377,13 @@ program
         shutdown("UNHANDLED_REJECTION");
       });
       
+      // Taken ports fail here, before the scheduler writes its PID file
+      const controlPort = scheduleConfig.controlPort ?? DEFAULT_CONTROL_PORT;
+      if (controlPort > 0) {
+        await controlServer.start(controlPort);
+        controlTokenPath = await writeControlToken(config.dataDir, controlToken);
+      }
+      
       await scheduler.start();
       
       // Keep the process running
@@ -307,29 +411,45 @@ program
 
 program
   .command("scheduler:status")
-  .description("Show status of the scheduler daemon")
+  .description("Show status of the scheduler daemon and its jobs")
   .option("--pid-file <path>", "Path to PID file", defaultScheduleConfig.pidFile)
+  .option("--control-port <port>", "Port of the daemon's control API")
   .action(async (options) => {
     try {
-      const pidFile = options.pidFile || defaultScheduleConfig.pidFile;
-      const pid = readPidFile(pidFile!);
-      
-      if (!pid) {
-        logger.info("No scheduler daemon running (no PID file found)");
-        return;
-      }
+      const status = await controlClient(options).getStatus();
       
-      if (!isProcessRunning(pid)) {
-        logger.info({ pid }, "Scheduler daemon not running (stale PID file)");
-        return;
-      }
+      logger.info(
+        {
+          uptime: Math.floor(status.uptime / 1000),
+          totalJobs: status.totalJobs,
+          runningJobs: status.runningJobs,
+          stoppedJobs: status.stoppedJobs,
+          errorJobs: status.errorJobs,
+          pausedJobs: status.pausedJobs,
+        },
+        "Scheduler daemon is running"
+      );
       
-      logger.info({ pid, pidFile }, "Scheduler daemon is running");
+      console.log("\nScheduled Jobs:");
+      console.log("===============");
+      console.log(`${'Source'.padEnd(20)} ${'Status'.padEnd(10)} ${'Schedule'.padEnd(15)} ${'Last Run'.padEnd(25)} ${'Runs'.padEnd(6)} ${'Errors'.padEnd(7)} Progress`);
+      console.log('-'.repeat(110));
       
-      // TODO: Implement remote status checking via IPC or API
-      // For now, we can only check if the process is running
+      status.jobs.forEach(job => {
+        const progress = job.progress
+          ? `${describeProgress(job.progress)}, ${Math.round((Date.now() - Date.parse(job.progress.startedAt)) / 1000)}s`
+          : '';
+        console.log(
+          `${job.source.padEnd(20)} ${job.status.padEnd(10)} ${job.schedule.padEnd(15)} ${(job.lastRun || 'never').padEnd(25)} ` +
+          `${String(job.runCount).padEnd(6)} ${String(job.errorCount).padEnd(7)} ${progress}`
+        );
+      });
       
     } catch (error) {
+      if (error instanceof DaemonUnreachableError) {
+        reportUnreachable(error, options.pidFile);
+        return;
+      }
       logger.error({ error: (error as Error).message }, "Failed to check scheduler status");
       process.exit(1);
     }
@@ -405,12 +525,21 @@ program
       await ingestor.initialize();
       const plugins = ingestor["pluginLoader"].getAllPlugins();
       
-      const schedules = Array.from(plugins.entries()).map(([source, plugin]) => ({
-        source,
-        name: plugin.upstreamMeta.name,
-        schedule: plugin.upstreamMeta.defaultSchedule || defaultScheduleConfig.defaultSchedule,
-        rateLimitPerMin: plugin.upstreamMeta.rateLimitPerMin,
-      }));
+      const schedules = Array.from(plugins.entries()).map(([source, plugin]) => {
+        const settings = resolveSourceSettings(source, plugin.upstreamMeta, config, defaultScheduleConfig);
+        return {
+          source,
+          name: plugin.upstreamMeta.name,
+          schedule: settings.schedule,
+          timezone: settings.timezone,
+          enabled: settings.enabled,
+          activeWindows: settings.activeWindows,
+          retry: settings.retry,
+          trustScore: settings.trustScore,
+          rateLimitPerMin: settings.rateLimitPerMin,
+          origins: settings.origins,
+        };
+      });
       
       if (schedules.length === 0) {
         logger.info("No schedulable sources found");
@@ -419,18 +548,25 @@ program
       
       logger.info({ schedules }, "Scheduled jobs configuration");
       
-      // Print formatted table
+      // Print formatted table, marking values set by environment overrides
+      const show = (value: unknown, origin: string) => `${value}${origin === 'env' ? '*' : ''}`;
       console.log("\nScheduled Jobs:");
       console.log("===============");
-      console.log(`${'Source'.padEnd(20)} ${'Name'.padEnd(30)} ${'Schedule'.padEnd(15)} ${'Rate Limit/min'.padEnd(15)}`);
-      console.log('-'.repeat(80));
+      console.log(`${'Source'.padEnd(20)} ${'Name'.padEnd(30)} ${'Schedule'.padEnd(15)} ${'Timezone'.padEnd(16)} ${'Enabled'.padEnd(8)} ${'Trust'.padEnd(6)} ${'Rate Limit/min'.padEnd(15)}`);
+      console.log('-'.repeat(116));
       
       schedules.forEach(job => {
         console.log(
-          `${job.source.padEnd(20)} ${job.name.padEnd(30)} ${job.schedule.padEnd(15)} ${job.rateLimitPerMin.toString().padEnd(15)}`
+          `${job.source.padEnd(20)} ${job.name.padEnd(30)} ${show(job.schedule, job.origins.schedule).padEnd(15)} ` +
+          `${show(job.timezone, job.origins.timezone).padEnd(16)} ${show(job.enabled ? 'yes' : 'no', job.origins.enabled).padEnd(8)} ` +
+          `${show(job.trustScore, job.origins.trustScore).padEnd(6)} ${show(job.rateLimitPerMin, job.origins.rateLimitPerMin).padEnd(15)}`
         );
       });
       
+      if (schedules.some(job => Object.values(job.origins).includes('env'))) {
+        console.log("\n* set by an INGESTOR_SOURCE_* environment override");
+      }
+      
       await ingestor.cleanup();
       
     } catch (error) {
@@ -443,22 +579,32 @@ program
   .command("scheduler:health")
   .description("Check health status of scheduled jobs")
   .option("--pid-file <path>", "Path to PID file", defaultScheduleConfig.pidFile)
+  .option("--control-port <port>", "Port of the daemon's control API")
   .action(async (options) => {
     try {
-      const pidFile = options.pidFile || defaultScheduleConfig.pidFile;
-      const pid = readPidFile(pidFile!);
+      const health = await controlClient(options).getHealth();
       
-      if (!pid || !isProcessRunning(pid)) {
-        logger.info("Scheduler daemon is not running");
-        return;
-      }
+      logger.info({ overall: health.overall, ...health.stats }, "Scheduler health");
       
-      // TODO: Implement IPC or API to get real-time health status from running daemon
-      logger.info({ pid }, "Scheduler daemon is running - health check requires IPC/API");
-      console.log("✅ Scheduler daemon process is running");
-      console.log("💡 Real-time health monitoring requires IPC communication (future enhancement)");
+      const icon = health.overall === 'healthy' ? '✅' : health.overall === 'warning' ? '⚠️' : '❌';
+      console.log(`\n${icon} Scheduler health: ${health.overall}`);
+      console.log(
+        `   ${health.stats.healthyJobs}/${health.stats.totalJobs} healthy, ${health.stats.errorJobs} failing, ` +
+        `${health.stats.stuckJobs} stuck, ${health.stats.staleJobs} stale, ${health.stats.pausedJobs} paused`
+      );
+      
+      if (health.issues.length > 0) {
+        console.log("\nIssues:");
+        health.issues.forEach(issue => {
+          console.log(`  [${issue.type}] ${issue.source.padEnd(20)} ${issue.message}`);
+        });
+      }
       
     } catch (error) {
+      if (error instanceof DaemonUnreachableError) {
+        reportUnreachable(error, options.pidFile);
+        return;
+      }
       logger.error({ error: (error as Error).message }, "Failed to check scheduler health");
       process.exit(1);
     }
@@ -468,22 +614,37 @@ program
   .command("scheduler:performance")
   .description("Show performance metrics for scheduled jobs")
   .option("--pid-file <path>", "Path to PID file", defaultScheduleConfig.pidFile)
+  .option("--control-port <port>", "Port of the daemon's control API")
   .action(async (options) => {
     try {
-      const pidFile = options.pidFile || defaultScheduleConfig.pidFile;
-      const pid = readPidFile(pidFile!);
+      const performance = await controlClient(options).getPerformance();
       
-      if (!pid || !isProcessRunning(pid)) {
-        logger.info("Scheduler daemon is not running");
-        return;
-      }
+      logger.info(
+        {
+          totalRuns: performance.totalRuns,
+          totalErrors: performance.totalErrors,
+          successRate: performance.successRate,
+          averageRunsPerJob: performance.averageRunsPerJob,
+        },
+        "Scheduler performance"
+      );
       
-      // TODO: Implement IPC or API to get real-time performance data from running daemon
-      logger.info({ pid }, "Scheduler daemon is running - performance data requires IPC/API");
-      console.log("📊 Performance monitoring available when daemon is running");
-      console.log("💡 Real-time performance data requires IPC communication (future enhancement)");
+      console.log(`\n📊 ${performance.totalRuns} runs, ${performance.totalErrors} failed, ${performance.successRate}% successful`);
+      console.log(`${'Source'.padEnd(20)} ${'Runs'.padEnd(6)} ${'Errors'.padEnd(7)} ${'Success %'.padEnd(10)} Last Run`);
+      console.log('-'.repeat(70));
+      
+      performance.jobs.forEach(job => {
+        console.log(
+          `${job.source.padEnd(20)} ${String(job.runCount).padEnd(6)} ${String(job.errorCount).padEnd(7)} ` +
+          `${String(job.successRate).padEnd(10)} ${job.lastRun || 'never'}`
+        );
+      });
       
     } catch (error) {
+      if (error instanceof DaemonUnreachableError) {
+        reportUnreachable(error, options.pidFile);
+        return;
+      }
       logger.error({ error: (error as Error).message }, "Failed to get scheduler performance");
       process.exit(1);
     }
@@ -491,45 +652,136 @@ program
 
 program
   .command("scheduler:trigger")
-  .description("Manually trigger a scheduled job for a specific source")
+  .description("Run a source now in the scheduler daemon, or in this process when no daemon is running")
   .argument("<source>", "Source name to trigger")
   .option("-c, --config <path>", "Path to configuration file")
+  .option("--control-port <port>", "Port of the daemon's control API")
+  .option("--no-wait", "Return once the daemon has started the run")
   .action(async (source: string, options) => {
     try {
-      const config = await loadConfig(options.config);
-      const ingestor = new Ingestor(config);
+      const client = controlClient(options);
+      let job: JobView;
       
-      logger.info({ source }, "Triggering manual ingestion for source");
+      try {
+        job = await client.trigger(source);
+      } catch (error) {
+        if (!(error instanceof DaemonUnreachableError)) throw error;
+        
+        await triggerLocally(source, options.config);
+        return;
+      }
       
-      await ingestor.initialize();
-      const result = await ingestor.ingestSource(source, 'manual_trigger');
+      logger.info({ source }, "Triggered run in scheduler daemon");
+      if (!options.wait) return;
       
-      logger.info(
-        {
-          source: result.source,
-          success: result.success,
-          duration: result.duration,
-          raw: result.rawCount,
-          normalized: result.normalizedCount,
-          new: result.newCount,
-          updated: result.updatedCount,
-          errors: result.errorCount,
-        },
-        "Manual trigger completed"
-      );
+      // Follow the run's progress until it finishes
+      let reported = '';
+      while (job.status === 'running') {
+        const progress = describeProgress(job.progress);
+        if (progress && progress !== reported) {
+          console.log(`${source}: ${progress}`);
+          reported = progress;
+        }
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        job = await client.getJob(source);
+      }
       
-      if (!result.success) {
-        logger.error({ errors: result.errors }, "Trigger failed");
+      logger.info({ source, ...job.lastResult }, "Manual trigger completed");
+      
+      if (!job.lastResult?.success) {
+        logger.error({ error: job.lastError }, "Trigger failed");
         process.exit(1);
       }
-      
-      await ingestor.cleanup();
     } catch (error) {
       logger.error({ error: (error as Error).message, source }, "Failed to trigger source");
       process.exit(1);
     }
   });
 
+program
+  .command("scheduler:pause")
+  .description("Stop a source's scheduled runs in the running daemon")
+  .argument("<source>", "Source to pause")
+  .option("--control-port <port>", "Port of the daemon's control API")
+  .action(async (source: string, options) => {
+    try {
+      const job = await controlClient(options).pause(source);
+      logger.info({ source, status: job.status }, "Paused source");
+    } catch (error) {
+      logger.error({ error: (error as Error).message, source }, "Failed to pause source");
+      process.exit(1);
+    }
+  });
+
+program
+  .command("scheduler:resume")
+  .description("Resume a source's scheduled runs in the running daemon, including after a circuit breaker pause")
+  .argument("<source>", "Source to resume")
+  .option("--control-port <port>", "Port of the daemon's control API")
+  .action(async (source: string, options) => {
+    try {
+      const job = await controlClient(options).resume(source);
+      logger.info({ source, status: job.status }, "Resumed source");
+    } catch (error) {
+      logger.error({ error: (error as Error).message, source }, "Failed to resume source");
+      process.exit(1);
+    }
+  });
+
+program
+  .command("scheduler:reenable")
+  .description("Resume scheduled runs of a source paused after repeated failures")
+  .argument("[source]", "Source to re-enable; lists paused sources when omitted")
+  .option("-c, --config <path>", "Path to configuration file")
+  .option("--control-port <port>", "Port of the daemon's control API")
+  .action(async (source: string | undefined, options) => {
+    try {
+      const config = await loadConfig(options.config);
+      const ingestor = new Ingestor(config);
+      
+      if (!source) {
+        const paused = Object.values(await ingestor.getPausedSources());
+        if (paused.length === 0) {
+          logger.info("No paused sources");
+          return;
+        }
+        
+        console.log("\nPaused Sources:");
+        console.log("===============");
+        paused.forEach(entry => {
+          console.log(`${entry.source.padEnd(20)} ${entry.pausedAt}  ${entry.consecutiveFailures} failures (${entry.errorClass || 'unknown'}): ${entry.lastError || ''}`);
+        });
+        return;
+      }
+      
+      // A running daemon resumes the source straight away
+      try {
+        const client = controlClient(options);
+        const job = await client.getJob(source);
+        if (job.status === 'paused') {
+          await client.resume(source);
+          logger.info({ source }, "Re-enabled source in scheduler daemon");
+          return;
+        }
+      } catch (error) {
+        if (!(error instanceof DaemonUnreachableError) && !(error instanceof ControlApiError && error.status === 404)) {
+          throw error;
+        }
+      }
+      
+      const lifted = await ingestor.resumeSource(source);
+      if (!lifted) {
+        logger.warn({ source }, "Source is not paused");
+        return;
+      }
+      
+      logger.info({ source, pausedAt: lifted.pausedAt }, "Re-enabled source");
+    } catch (error) {
+      logger.error({ error: (error as Error).message, source }, "Failed to re-enable source");
+      process.exit(1);
+    }
+  });
+
 program
   .command("config:show")
   .description("Show current configuration")
@@ -709,6 +961,53 @@ program
     }
   });
 
+program
+  .command("db:history")
+  .description("Show field-level change history for a gig, or recent changes across all gigs")
+  .argument("[gigId]", "Gig ID to show the history of")
+  .option("-s, --source <source>", "Only show changes from this source")
+  .option("-f, --field <field>", "Only show changes to this field (e.g. dateStart, price.min, status)")
+  .option("-l, --limit <number>", "Maximum number of entries to show", "20")
+  .action(async (gigId: string | undefined, options) => {
+    const databaseManager = DatabaseManager.fromEnvironment();
+    
+    try {
+      await databaseManager.initialize();
+      
+      if (!databaseManager.isEnabled()) {
+        logger.error("Change history is stored in MongoDB - set INGESTOR_USE_DATABASE=true");
+        process.exit(1);
+      }
+      
+      const limit = parseInt(options.limit, 10);
+      const entries = gigId
+        ? await databaseManager.getGigHistory(gigId, limit)
+        : await databaseManager.getRecentGigHistory({ source: options.source, field: options.field, limit });
+      
+      console.log(gigId ? `\n📜 Change History: ${gigId}` : "\n📜 Recent Gig Changes");
+      console.log("=====================");
+      
+      if (entries.length === 0) {
+        console.log("No changes recorded");
+      }
+      
+      for (const entry of entries) {
+        const movedFrom = entry.previousGigId ? ` (was ${entry.previousGigId})` : '';
+        console.log(`\n${entry.changedAt.toISOString()}  ${entry.gigId}${movedFrom}  [${entry.source}]`);
+        for (const change of entry.changes) {
+          if (options.field && change.field !== options.field) continue;
+          console.log(`  ${change.field}: ${JSON.stringify(change.previous)} → ${JSON.stringify(change.current)}`);
+        }
+      }
+      
+      await databaseManager.cleanup();
+      
+    } catch (error) {
+      logger.error({ error: (error as Error).message }, "Failed to show change history");
+      process.exit(1);
+    }
+  });
+
 // Import and add new scraper configuration commands
 import { addTestScraperConfigCommand } from './commands/test-scraper-config.js';
 import { addConfigManagerCommands } from './commands/config-manager.js';
@@ -717,6 +1016,84 @@ import { addConfigManagerCommands } from './commands/config-manager.js';
 addTestScraperConfigCommand(program);
 addConfigManagerCommands(program);
 
+/**
+ * Client for the running daemon's control API, on the port given or the configured one
+ */
+function controlClient(options: { controlPort?: string }): ControlClient {
+  const port = options.controlPort !== undefined
+    ? parseInt(options.controlPort, 10)
+    : defaultScheduleConfig.controlPort || DEFAULT_CONTROL_PORT;
+  return new ControlClient(port, readControlToken(defaultConfig.dataDir));
+}
+
+/**
+ * Explains a daemon that didn't answer, telling one that isn't running from one without a
+ * reachable control API by its PID file
+ */
+function reportUnreachable(error: DaemonUnreachableError, pidFile?: string): void {
+  const pid = readPidFile(pidFile || defaultScheduleConfig.pidFile!);
+  
+  if (pid && isProcessRunning(pid)) {
+    logger.warn({ pid, url: error.url }, "Scheduler daemon is running but its control API is not reachable");
+  } else {
+    logger.info("Scheduler daemon is not running");
+  }
+}
+
+/**
+ * One line describing a running job's progress, e.g. "normalizing (42 raw), attempt 1"
+ */
+function describeProgress(progress: JobView["progress"]): string {
+  if (!progress) return '';
+  
+  if (progress.phase === 'retrying') {
+    return `waiting to retry after attempt ${progress.attempt}, until ${progress.retryAt}`;
+  }
+  
+  const counts = [
+    progress.rawCount !== undefined ? `${progress.rawCount} raw` : '',
+    progress.normalizedCount !== undefined ? `${progress.normalizedCount} normalized` : '',
+  ].filter(Boolean).join(', ');
+  
+  return `${progress.phase}${counts ? ` (${counts})` : ''}, attempt ${progress.attempt}`;
+}
+
+/**
+ * Runs a source in this process, for scheduler:trigger when no daemon is running
+ */
+async function triggerLocally(source: string, configPath?: string): Promise<void> {
+  const config = await loadConfig(configPath);
+  const ingestor = new Ingestor(config);
+  
+  logger.info({ source }, "No scheduler daemon running, triggering ingestion in this process");
+  
+  await ingestor.initialize();
+  const result = await ingestor.ingestSource(source, 'manual_trigger');
+  
+  logger.info(
+    {
+      source: result.source,
+      success: result.success,
+      duration: result.duration,
+      raw: result.rawCount,
+      normalized: result.normalizedCount,
+      new: result.newCount,
+      updated: result.updatedCount,
+      removed: result.removedCount,
+      unchanged: result.unchanged,
+      errors: result.errorCount,
+    },
+    "Manual trigger completed"
+  );
+  
+  if (!result.success) {
+    logger.error({ errors: result.errors }, "Trigger failed");
+    process.exit(1);
+  }
+  
+  await ingestor.cleanup();
+}
+
 /**
  * Load configuration from file or use defaults
  */
@@ -3,6 +3,10 @@ import path from 'path';
 import { promises as fs } from 'fs';
 import { ScraperConfigSchema } from '../schemas/scraper-config.js';
 import { logger as baseLogger } from '../logger.js';
+import { ConfigManager } from '../config.js';
+import { createPluginMeta } from '../config-driven-plugin-loader.js';
+import { resolveSourceSettings } from '../source-settings.js';
+import { lintScraperConfig, type LintIssue } from '../config-lint.js';
 
 const logger = baseLogger.child({ component: 'config-manager' });
 
@@ -39,6 +43,10 @@ export function addConfigManagerCommands(program: Command): void {
         
         logger.info(`Found ${jsonFiles.length} scraper configuration(s):\n`);
         
+        // Schedules are shown as the scheduler will run them, with environment overrides applied
+        const { ingestorConfig, scheduleConfig } = ConfigManager.loadFromEnvironment();
+        const fromEnv = (origin: string) => origin === 'env' ? ' (env override)' : '';
+        
         for (const file of jsonFiles) {
           const configPath = path.join(configsDir, file);
           
@@ -54,14 +62,29 @@ export function addConfigManagerCommands(program: Command): void {
             if (options.detailed) {
               console.log(`   Description: ${config.site?.description || 'None'}`);
               console.log(`   Last Updated: ${config.site?.lastUpdated || 'Unknown'}`);
-              console.log(`   Workflow Steps: ${config.workflow?.length || 0}`);
-              console.log(`   Browser Headless: ${config.browser?.headless !== false ? 'Yes' : 'No'}`);
+              if (config.type === 'feed') {
+                console.log(`   Feed URL: ${config.feed?.url || 'Unknown'}`);
+              } else {
+                console.log(`   Workflow Steps: ${config.workflow?.length || 0}`);
+                console.log(`   Browser Headless: ${config.browser?.headless !== false ? 'Yes' : 'No'}`);
+              }
               
               if (config.validation) {
                 const validation = config.validation;
                 console.log(`   Min Events Expected: ${validation.minEventsExpected || 0}`);
                 console.log(`   Required Fields: ${validation.required?.join(', ') || 'None'}`);
               }
+              
+              const settings = resolveSourceSettings(path.basename(file, '.json'), createPluginMeta(config), ingestorConfig, scheduleConfig);
+              const { origins } = settings;
+              console.log(`   Schedule: ${settings.schedule}${fromEnv(origins.schedule)}`);
+              console.log(`   Timezone: ${settings.timezone}${fromEnv(origins.timezone)}`);
+              console.log(`   Enabled: ${settings.enabled ? 'Yes' : 'No'}${fromEnv(origins.enabled)}`);
+              if (settings.activeWindows.length > 0) {
+                console.log(`   Active Windows: ${settings.activeWindows.map(window => `${window.start} to ${window.end}`).join(', ')}`);
+              }
+              console.log(`   Retry: ${settings.retry.attempts} attempt(s), ${settings.retry.backoffMs}ms backoff`);
+              console.log(`   Trust Score: ${settings.trustScore}${fromEnv(origins.trustScore)}`);
             }
             console.log();
             
@@ -116,9 +139,22 @@ export function addConfigManagerCommands(program: Command): void {
           console.log(`  Site: ${validConfig.site.name}`);
           console.log(`  Source: ${validConfig.site.source}`);
           console.log(`  Base URL: ${validConfig.site.baseUrl}`);
-          console.log(`  Workflow Steps: ${validConfig.workflow.length}`);
+          if (validConfig.type === 'feed') {
+            console.log(`  Feed URL: ${validConfig.feed.url}`);
+          } else {
+            console.log(`  Workflow Steps: ${validConfig.workflow.length}`);
+          }
           console.log(`  Required Fields: ${validConfig.validation?.required?.join(', ') || 'None'}`);
           
+          const issues = lintScraperConfig(config);
+          if (issues.length > 0) {
+            console.log('\nLint:');
+            printLintIssues(issues);
+          }
+          if (issues.some(issue => issue.severity === 'error')) {
+            process.exit(1);
+          }
+          
         } else {
           logger.error('❌ Configuration validation failed:');
           
@@ -180,6 +216,66 @@ export function addConfigManagerCommands(program: Command): void {
       }
     });
 
+  // Lint configurations beyond their schema
+  configCmd
+    .command('lint')
+    .description('Check scraper configurations for mapping, transform, selector and timezone mistakes')
+    .argument('[config-files...]', 'Configuration files to lint (default: every config in data/scraper-configs)')
+    .option('--json', 'Print issues as JSON')
+    .option('--strict', 'Fail on warnings as well as errors')
+    .action(async (configFiles: string[], options) => {
+      // Exit codes: 0 clean, 1 lint failures, 2 files that can't be read or parsed
+      let files = configFiles.map(file => path.isAbsolute(file) ? file : path.join(process.cwd(), file));
+      if (files.length === 0) {
+        const configsDir = path.join(process.cwd(), 'data', 'scraper-configs');
+        try {
+          files = (await fs.readdir(configsDir)).filter(f => f.endsWith('.json')).map(f => path.join(configsDir, f));
+        } catch {
+          logger.error(`No scraper configurations directory found: ${configsDir}`);
+          process.exit(2);
+        }
+      }
+
+      const results: Array<{ file: string; issues: LintIssue[]; error?: string }> = [];
+      for (const file of files) {
+        const relative = path.relative(process.cwd(), file);
+        try {
+          const config = JSON.parse(await fs.readFile(file, 'utf-8'));
+          results.push({ file: relative, issues: lintScraperConfig(config) });
+        } catch (error) {
+          results.push({ file: relative, issues: [], error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      const count = (severity: LintIssue['severity']) =>
+        results.reduce((total, result) => total + result.issues.filter(issue => issue.severity === severity).length, 0);
+      const errors = count('error');
+      const warnings = count('warning');
+
+      if (options.json) {
+        console.log(JSON.stringify({ files: results, errors, warnings }, null, 2));
+      } else {
+        for (const result of results) {
+          if (result.error) {
+            console.log(`❌ ${result.file}: ${result.error}`);
+          } else if (result.issues.length === 0) {
+            console.log(`✅ ${result.file}`);
+          } else {
+            console.log(`${result.issues.some(issue => issue.severity === 'error') ? '❌' : '⚠️ '} ${result.file}`);
+            printLintIssues(result.issues);
+          }
+        }
+        console.log(`\n${results.length} file(s): ${errors} error(s), ${warnings} warning(s)`);
+      }
+
+      if (results.some(result => result.error)) {
+        process.exit(2);
+      }
+      if (errors > 0 || (options.strict && warnings > 0)) {
+        process.exit(1);
+      }
+    });
+
   // Create a new configuration template
   configCmd
     .command('create')
@@ -299,4 +395,10 @@ export function addConfigManagerCommands(program: Command): void {
         process.exit(1);
       }
     });
-}
\ No newline at end of file
+}
+
+function printLintIssues(issues: LintIssue[]): void {
+  for (const issue of issues) {
+    console.log(`  ${issue.severity.padEnd(7)} ${issue.path}  ${issue.message} (${issue.rule})`);
+  }
+}
@@ -2,7 +2,12 @@ import { Command } from 'commander';
 import path from 'path';
 import { promises as fs } from 'fs';
 import { chromium } from 'playwright';
+import type { Gig, BlockedRequest } from '@gigateer/contracts';
 import { ConfigDrivenScraper } from '../scrapers/config-driven-scraper.js';
+import { FeedScraper } from '../scrapers/feed-scraper.js';
+import { HttpScraper } from '../scrapers/http-scraper.js';
+import { FixtureStore } from '../scrapers/fixture-store.js';
+import type { ScraperConfig } from '../schemas/scraper-config.js';
 import { logger as baseLogger } from '../logger.js';
 
 const logger = baseLogger.child({ component: 'test-scraper-config' });
@@ -17,6 +22,8 @@ export function addTestScraperConfigCommand(program: Command): void {
     .option('--screenshots', 'Enable debug screenshots', false)
     .option('--dry-run', 'Validate config only, do not scrape', false)
     .option('--output <file>', 'Save results to JSON file')
+    .option('--record <dir>', 'Record page responses to a fixture directory')
+    .option('--replay <dir>', 'Scrape recorded responses from a fixture directory instead of the live site')
     .action(async (configFile: string, options) => {
       try {
         logger.info(`Testing scraper configuration: ${configFile}`);
@@ -33,6 +40,54 @@ export function addTestScraperConfigCommand(program: Command): void {
           throw new Error(`Configuration file not found: ${configPath}`);
         }
         
+        // Feed configs are fetched directly, without a browser
+        const rawConfig = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+        if (rawConfig.type === 'feed') {
+          const feedScraper = await FeedScraper.fromFile(configPath);
+          const feedConfig = feedScraper.getConfig();
+
+          logger.info(`✓ Configuration loaded successfully`);
+          logger.info(`  Site: ${feedConfig.site.name}`);
+          logger.info(`  Feed URL: ${feedConfig.feed.url}`);
+
+          if (options.dryRun) {
+            logger.info('Dry run complete - configuration is valid');
+            return;
+          }
+
+          logger.info('Starting scrape...');
+          const startTime = Date.now();
+          const results = await feedScraper.scrape();
+          await reportResults(results, Date.now() - startTime, feedConfig, configFile, options);
+          return;
+        }
+
+        // Http engine configs are fetched and parsed without a browser
+        if (rawConfig.engine === 'http') {
+          const httpScraper = await HttpScraper.fromFile(configPath);
+          const httpConfig = httpScraper.getConfig();
+
+          logger.info(`✓ Configuration loaded successfully`);
+          logger.info(`  Site: ${httpConfig.site.name}`);
+          logger.info(`  Base URL: ${httpConfig.site.baseUrl}`);
+          logger.info(`  Workflow steps: ${httpConfig.workflow.length} (http engine)`);
+
+          if (options.dryRun) {
+            logger.info('Dry run complete - configuration is valid');
+            return;
+          }
+
+          if (options.record || options.replay) {
+            throw new Error('--record and --replay need the browser engine');
+          }
+
+          logger.info('Starting scrape...');
+          const startTime = Date.now();
+          const results = await httpScraper.scrape({ onBlocked: logBlocked });
+          await reportResults(results, Date.now() - startTime, httpConfig, configFile, options);
+          return;
+        }
+
         // Load and validate configuration
         const scraper = await ConfigDrivenScraper.fromFile(configPath);
         const config = scraper.getConfig();
@@ -47,6 +102,16 @@ export function addTestScraperConfigCommand(program: Command): void {
           return;
         }
         
+        if (options.record && options.replay) {
+          throw new Error('--record and --replay cannot be used together');
+        }
+
+        const fixtures = options.replay
+          ? { mode: 'replay' as const, store: await FixtureStore.load(options.replay) }
+          : options.record
+            ? { mode: 'record' as const, store: new FixtureStore(options.record, config.site.source) }
+            : undefined;
+
         // Setup browser options
         const browserOptions = {
           headless: options.headless,
@@ -83,68 +148,16 @@ export function addTestScraperConfigCommand(program: Command): void {
           logger.info('Starting scrape...');
           const startTime = Date.now();
           
-          const results = await scraper.scrape(browser);
-          
-          const duration = Date.now() - startTime;
-          
-          // Log results
-          logger.info(`✓ Scrape completed in ${duration}ms`);
-          logger.info(`  Events found: ${results.length}`);
-          
-          if (results.length > 0) {
-            logger.info(`  Sample event: ${results[0].title} at ${results[0].venue?.name}`);
-          }
-          
-          // Validate results
-          const requiredFields = config.validation?.required || [];
-          let validEvents = 0;
-          let invalidEvents = 0;
-          
-          for (const event of results) {
-            let isValid = true;
-            for (const field of requiredFields) {
-              if (!getNestedValue(event, field)) {
-                isValid = false;
-                break;
-              }
-            }
-            
-            if (isValid) {
-              validEvents++;
-            } else {
-              invalidEvents++;
+          const results = await scraper.scrape(browser, { fixtures, onBlocked: logBlocked });
+
+          if (fixtures?.mode === 'replay') {
+            const misses = fixtures.store.getMisses();
+            if (misses.length > 0) {
+              logger.warn(`  ${misses.length} requests had no recorded response: ${misses.slice(0, 5).join(', ')}`);
             }
           }
           
-          logger.info(`  Valid events: ${validEvents}`);
-          if (invalidEvents > 0) {
-            logger.warn(`  Invalid events: ${invalidEvents}`);
-          }
-          
-          // Save output if requested
-          if (options.output) {
-            const outputData = {
-              scrapeInfo: {
-                configFile,
-                timestamp: new Date().toISOString(),
-                duration,
-                url: options.url || config.site.baseUrl
-              },
-              config: {
-                site: config.site,
-                validation: config.validation
-              },
-              results,
-              summary: {
-                totalEvents: results.length,
-                validEvents,
-                invalidEvents
-              }
-            };
-            
-            await fs.writeFile(options.output, JSON.stringify(outputData, null, 2));
-            logger.info(`Results saved to: ${options.output}`);
-          }
+          await reportResults(results, Date.now() - startTime, config, configFile, options);
           
         } finally {
           if (browser) {
@@ -159,6 +172,83 @@ export function addTestScraperConfigCommand(program: Command): void {
     });
 }
 
+/**
+ * Warn about a URL the scraper skipped, e.g. one robots.txt disallows
+ */
+function logBlocked(request: BlockedRequest): void {
+  logger.warn(`  Skipped ${request.url}: ${request.reason}`);
+}
+
+/**
+ * Log a summary of scraped events and optionally save them to a file
+ */
+async function reportResults(
+  results: Gig[],
+  duration: number,
+  config: ScraperConfig,
+  configFile: string,
+  options: { url?: string; output?: string }
+): Promise<void> {
+  // Log results
+  logger.info(`✓ Scrape completed in ${duration}ms`);
+  logger.info(`  Events found: ${results.length}`);
+  
+  if (results.length > 0) {
+    logger.info(`  Sample event: ${results[0].title} at ${results[0].venue?.name}`);
+  }
+  
+  // Validate results
+  const requiredFields = config.validation?.required || [];
+  let validEvents = 0;
+  let invalidEvents = 0;
+  
+  for (const event of results) {
+    let isValid = true;
+    for (const field of requiredFields) {
+      if (!getNestedValue(event, field)) {
+        isValid = false;
+        break;
+      }
+    }
+    
+    if (isValid) {
+      validEvents++;
+    } else {
+      invalidEvents++;
+    }
+  }
+  
+  logger.info(`  Valid events: ${validEvents}`);
+  if (invalidEvents > 0) {
+    logger.warn(`  Invalid events: ${invalidEvents}`);
+  }
+  
+  // Save output if requested
+  if (options.output) {
+    const outputData = {
+      scrapeInfo: {
+        configFile,
+        timestamp: new Date().toISOString(),
+        duration,
+        url: options.url || config.site.baseUrl
+      },
+      config: {
+        site: config.site,
+        validation: config.validation
+      },
+      results,
+      summary: {
+        totalEvents: results.length,
+        validEvents,
+        invalidEvents
+      }
+    };
+    
+    await fs.writeFile(options.output, JSON.stringify(outputData, null, 2));
+    logger.info(`Results saved to: ${options.output}`);
+  }
+}
+
 // Helper function to get nested values
 function getNestedValue(obj: any, path: string): any {
   return path.split('.').reduce((current, key) => current?.[key], obj);
@@ -1,9 +1,46 @@
 import { promises as fs } from "fs";
 import { join, basename } from "path";
-import type { ScraperPlugin, Gig } from "@gigateer/contracts";
+import type { ScraperPlugin, ScraperPluginMeta, Gig, FetchRawOptions } from "@gigateer/contracts";
 import type { Logger } from "./logger.js";
+import type { BrowserPool } from "./browser-pool.js";
 import { ConfigDrivenScraper } from './scrapers/config-driven-scraper.js';
+import { FeedScraper } from './scrapers/feed-scraper.js';
+import { HttpScraper } from './scrapers/http-scraper.js';
+import { FollowUpCache } from './scrapers/follow-up-cache.js';
 import { chromium, Browser } from "playwright";
+import { ScraperConfigSchema } from "./schemas/scraper-config.js";
+
+/**
+ * What reloading a changed config file did to the loaded plugins
+ */
+export type ConfigChange =
+  | { type: "added" | "replaced"; source: string; plugin: ScraperPlugin }
+  | { type: "removed"; source: string }
+  | { type: "rejected"; source: string; reason: string };
+
+/**
+ * Describes a config's source the way plugins describe themselves. Scheduling settings the
+ * config leaves out stay unset, so the scheduler's defaults and environment overrides apply.
+ */
+export function createPluginMeta(config: any): ScraperPluginMeta {
+  const { site, schedule } = config;
+
+  return {
+    name: site.name,
+    rateLimitPerMin: config.rateLimit?.maxRequestsPerMin || 10,
+    defaultSchedule: schedule?.cron,
+    description: site.description || `Configuration-driven scraper for ${site.name}`,
+    website: site.baseUrl || site.website,
+    trustScore: config.trustScore,
+    schedule: schedule && {
+      timezone: schedule.timezone,
+      enabled: schedule.enabled,
+      activeWindows: schedule.activeWindows,
+      retry: schedule.retry,
+      freshnessSlaHours: schedule.freshnessSlaHours
+    }
+  };
+}
 
 /**
  * Generic configuration-driven plugin loader that creates plugins from JSON configurations
@@ -13,7 +50,13 @@ export class ConfigDrivenPluginLoader {
   private plugins: Map<string, ScraperPlugin> = new Map();
   private configDir: string;
 
-  constructor(configDir: string, private readonly logger: Logger) {
+  constructor(
+    configDir: string,
+    private readonly logger: Logger,
+    private readonly browserPool?: BrowserPool,
+    // Where browser and http scrapers keep follow-up pages between runs; no caching when unset
+    private readonly followUpCacheDir?: string
+  ) {
     this.configDir = configDir;
   }
 
@@ -57,7 +100,7 @@ export class ConfigDrivenPluginLoader {
       }
 
       // Create a generic plugin from the configuration
-      const plugin = this.createPluginFromConfig(sourceName, config, filePath);
+      const plugin = this.createPluginFromConfig(sourceName, config);
       
       this.plugins.set(sourceName, plugin);
       
@@ -78,45 +121,115 @@ export class ConfigDrivenPluginLoader {
     }
   }
 
+  /**
+   * Re-reads one config file after it changed on disk. A config that fails the full schema
+   * is rejected and the loaded version stays in place; a deleted file removes its plugin.
+   * Returns null when a file that was never loaded is deleted.
+   */
+  async reloadConfig(filename: string): Promise<ConfigChange | null> {
+    const filePath = join(this.configDir, filename);
+    const sourceName = basename(filename, ".json");
+    const reject = (reason: string): ConfigChange => ({ type: "rejected", source: sourceName, reason });
+
+    let config: any;
+    try {
+      config = JSON.parse(await fs.readFile(filePath, "utf-8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return this.plugins.delete(sourceName) ? { type: "removed", source: sourceName } : null;
+      }
+      return reject((error as Error).message);
+    }
+
+    const result = ScraperConfigSchema.safeParse(config);
+    if (!result.success) {
+      return reject(result.error.issues.map(issue => `${issue.path.join(".") || "(config)"}: ${issue.message}`).join("; "));
+    }
+
+    const type = this.plugins.has(sourceName) ? "replaced" : "added";
+    const plugin = this.createPluginFromConfig(sourceName, config);
+    this.plugins.set(sourceName, plugin);
+    return { type, source: sourceName, plugin };
+  }
+
   /**
    * Validates basic configuration structure
    */
   private validateConfig(config: any): boolean {
-    return (
-      config &&
-      config.site &&
-      typeof config.site.name === "string" &&
-      typeof config.site.source === "string" &&
-      Array.isArray(config.workflow) &&
-      config.workflow.length > 0
-    );
+    if (!config || !config.site || typeof config.site.name !== "string" || typeof config.site.source !== "string") {
+      return false;
+    }
+
+    // Feed sources need a feed URL instead of a browser workflow
+    if (config.type === "feed") {
+      return typeof config.feed?.url === "string";
+    }
+
+    return Array.isArray(config.workflow) && config.workflow.length > 0;
   }
 
   /**
-   * Creates a ScraperPlugin from a configuration object
+   * Creates a ScraperPlugin from a configuration object. Every run builds its scraper from
+   * this object rather than the file, so a later edit only takes effect once it is reloaded.
    */
-  private createPluginFromConfig(sourceName: string, config: any, configPath: string): ScraperPlugin {
+  private createPluginFromConfig(sourceName: string, config: any): ScraperPlugin {
     const site = config.site;
-    const rateLimit = config.rateLimit || {};
     const logger = this.logger; // Capture logger from constructor
+    const browserPool = this.browserPool;
+    const followUpCacheDir = this.followUpCacheDir;
     
     return {
-      upstreamMeta: {
-        name: site.name,
-        rateLimitPerMin: rateLimit.maxRequestsPerMin || 10,
-        defaultSchedule: config.schedule?.cron || "0 */3 * * *", // Every 3 hours default
-        description: site.description || `Configuration-driven scraper for ${site.name}`,
-        website: site.baseUrl || site.website,
-        trustScore: config.trustScore || 80
-      },
+      upstreamMeta: createPluginMeta(config),
+
+      async fetchRaw(options: FetchRawOptions = {}): Promise<unknown[]> {
+        if (config.type === "feed") {
+          logger?.info(`Starting ${sourceName} scrape with feed scraper`);
+
+          try {
+            const scraper = new FeedScraper(config);
+            const gigs = await scraper.scrape({
+              signal: options.signal,
+              onBlocked: options.onBlocked,
+              previousFingerprint: options.previousFingerprint,
+              onFingerprint: options.onFingerprint
+            });
+            logger?.info(`Successfully scraped ${gigs.length} events from ${site.name}`);
+            return gigs;
+          } catch (error) {
+            logger?.error(`${sourceName} feed scrape failed:`, error);
+            throw error;
+          }
+        }
+
+        const followUpCache = followUpCacheDir ? await FollowUpCache.load(followUpCacheDir, sourceName) : undefined;
+        const scrapeOptions = {
+          signal: options.signal,
+          onBlocked: options.onBlocked,
+          followUpCache,
+          previousFingerprint: options.previousFingerprint,
+          onFingerprint: options.onFingerprint
+        };
+
+        // Static sites run the same workflow over plain HTTP, without a browser
+        if (config.engine === "http") {
+          logger?.info(`Starting ${sourceName} scrape with http scraper`);
+
+          try {
+            const scraper = new HttpScraper(config);
+            const gigs = await scraper.scrape(scrapeOptions);
+            logger?.info(`Successfully scraped ${gigs.length} events from ${site.name}`);
+            return gigs;
+          } catch (error) {
+            logger?.error(`${sourceName} http scrape failed:`, error);
+            throw error;
+          }
+        }
 
-      async fetchRaw(): Promise<unknown[]> {
         logger?.info(`Starting ${sourceName} scrape with config-driven scraper`);
         
         let browser: Browser | undefined;
         try {
-          // Load configuration and create scraper
-          const scraper = await ConfigDrivenScraper.fromFile(configPath);
+          const scraper = new ConfigDrivenScraper(config);
           
           // Create browser with configuration options
           const browserOptions = {
@@ -124,10 +237,14 @@ export class ConfigDrivenPluginLoader {
             ...(config.browser?.args && { args: config.browser.args })
           };
           
-          browser = await chromium.launch(browserOptions);
-          
-          // Execute the configured scraping workflow
-          const gigs = await scraper.scrape(browser);
+          // Execute the configured scraping workflow, in a shared browser when the ingestor provides one
+          let gigs: Gig[];
+          if (browserPool) {
+            gigs = await browserPool.withBrowser(browserOptions, pooled => scraper.scrape(pooled, scrapeOptions));
+          } else {
+            browser = await chromium.launch(browserOptions);
+            gigs = await scraper.scrape(browser, scrapeOptions);
+          }
           
           logger?.info(`Successfully scraped ${gigs.length} events from ${site.name}`);
           
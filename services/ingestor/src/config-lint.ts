@@ -0,0 +1,384 @@
+import { HTMLParser } from "@gigateer/scraper";
+import {
+  BrowserScraperConfigSchema,
+  ScraperConfigSchema,
+  flattenWorkflow,
+  type FollowUpConfig,
+  type ScraperConfig,
+} from "./schemas/scraper-config.js";
+import { transformRegistry, type LocalTransformDefinition, type TransformOutput } from "./scrapers/transform-registry.js";
+import { STRUCTURED_ITEM_FIELDS } from "./scrapers/structured-data.js";
+
+export type LintSeverity = "error" | "warning";
+
+export type LintRule =
+  | "schema"
+  | "unknown-field"
+  | "unknown-mapping-key"
+  | "follow-up-url-field"
+  | "transform-mismatch"
+  | "date-without-transform"
+  | "unreachable-required"
+  | "duplicate-container"
+  | "invalid-selector"
+  | "missing-timezone";
+
+export interface LintIssue {
+  severity: LintSeverity;
+  rule: LintRule;
+  /** JSON path of the offending value, e.g. `$.workflow[2].fields.date.transform` */
+  path: string;
+  message: string;
+}
+
+type Path = (string | number)[];
+
+/**
+ * A field raw items carry before mapping, and what kind of value its transform leaves in it
+ */
+interface ItemField {
+  path: Path;
+  transform?: string;
+  output?: TransformOutput;
+}
+
+/**
+ * What a mapping entry fills in on the gig, and the kind of value it expects
+ */
+interface MappingReference {
+  path: Path;
+  field: string;
+  expects?: TransformOutput | "text";
+  /** Venue details may be written out literally instead of naming a field */
+  literalAllowed?: boolean;
+  transform?: string;
+}
+
+// Feed items always have these properties; `feed.fields` adds more
+const FEED_ITEM_FIELDS: Record<string, TransformOutput | undefined> = {
+  id: undefined, title: undefined, description: undefined, link: "url", dateStart: "date",
+  dateEnd: "date", location: undefined, categories: undefined,
+};
+
+const STRUCTURED_FIELD_OUTPUTS: Partial<Record<string, TransformOutput>> = {
+  dateStart: "date", dateEnd: "date", eventUrl: "url", ticketsUrl: "url", images: "url",
+};
+
+// Gig fields validation.required can name, and the mapping entry that fills each in
+const REQUIRABLE_GIG_FIELDS: Record<string, Path | null> = {
+  id: null, source: null, sourceId: null, hash: null, updatedAt: null, status: null,
+  title: ["mapping", "title"],
+  artists: ["mapping", "artist"],
+  "venue.name": ["mapping", "venue", "name"],
+  "venue.address": ["mapping", "venue", "address"],
+  "venue.city": ["mapping", "venue", "city"],
+  "venue.country": ["mapping", "venue", "country"],
+  dateStart: ["mapping", "date", "start"],
+  dateEnd: ["mapping", "date", "end"],
+  timezone: ["mapping", "date", "timezone"],
+  eventUrl: ["mapping", "urls", "event"],
+  ticketsUrl: ["mapping", "urls", "tickets"],
+  images: ["mapping", "images"],
+  genre: ["mapping", "genres"],
+  ageRestriction: ["mapping", "ageRestriction"],
+  description: ["mapping", "description"],
+  "price.min": ["mapping", "price", "min"],
+  "price.max": ["mapping", "price", "max"],
+  "price.currency": ["mapping", "price", "currency"],
+};
+
+// Selector syntax Playwright adds on top of CSS, removed before checking browser engine selectors
+const PLAYWRIGHT_PSEUDO_CLASSES = /:(?:has-text|text|text-is|text-matches|nth-match|left-of|right-of|above|below|near)\((?:"[^"]*"|'[^']*'|[^()])*\)|:visible\b/g;
+const PLAYWRIGHT_ENGINE_PREFIX = /^\s*(?:text|xpath|id|data-testid|internal:[\w-]+)=|^\s*\/\//;
+
+/**
+ * Checks a scraper config beyond its schema: that the mapping only names fields the
+ * workflow or feed produces, follow-ups point at extracted URLs, transforms suit the gig
+ * fields they end up in, start dates are parsed, required gig fields can be filled in,
+ * containers aren't extracted twice, selectors parse, and venues outside UTC give gigs
+ * a timezone. Schema errors are reported on their own, since the other checks rely on
+ * the config's shape.
+ */
+export function lintScraperConfig(input: unknown): LintIssue[] {
+  const parsed = ScraperConfigSchema.safeParse(input);
+  if (!parsed.success) {
+    return parsed.error.issues.map(issue => ({
+      severity: "error",
+      rule: "schema",
+      path: toJsonPath(issue.path),
+      message: issue.message,
+    }));
+  }
+
+  const config = parsed.data;
+  const issues: LintIssue[] = [];
+  const report = (severity: LintSeverity, rule: LintRule, path: Path, message: string) => {
+    issues.push({ severity, rule, path: toJsonPath(path), message });
+  };
+  const localTransforms = config.transforms as Record<string, LocalTransformDefinition> | undefined;
+  const outputOf = (transform?: string) => transform ? transformRegistry.getOutput(transform, localTransforms) : undefined;
+
+  // Fields raw items carry, unless a custom extraction method decides them in code
+  const fields = new Map<string, ItemField>();
+  let fieldsKnown = true;
+  const addField = (name: string, field: ItemField) => {
+    if (!fields.has(name)) fields.set(name, field);
+  };
+  const addFollowUp = (followUp: FollowUpConfig, path: Path, available: (name: string) => boolean) => {
+    if (!available(followUp.urlField)) {
+      report("error", "follow-up-url-field", [...path, "urlField"], `Follow-up URL field "${followUp.urlField}" is not extracted before the follow-up`);
+    }
+    for (const [name, field] of Object.entries(followUp.fields)) {
+      addField(name, { path: [...path, "fields", name], transform: field.transform, output: outputOf(field.transform) });
+    }
+  };
+
+  if (config.type === "feed") {
+    for (const [name, output] of Object.entries(FEED_ITEM_FIELDS)) {
+      addField(name, { path: ["feed"], output });
+    }
+    for (const [name, field] of Object.entries(config.feed.fields ?? {})) {
+      const path = ["feed", "fields", name];
+      fields.set(name, { path, transform: field.transform, output: outputOf(field.transform) ?? FEED_ITEM_FIELDS[field.from] });
+    }
+  } else {
+    const containers = new Map<string, Path>();
+
+    for (const { action, path } of flattenWorkflow(config.workflow)) {
+      if (action.type !== "extract") continue;
+
+      const structured = action.method === "structured-data";
+      if (action.method && !structured) {
+        fieldsKnown = false;
+      }
+      if (structured) {
+        for (const name of STRUCTURED_ITEM_FIELDS) {
+          addField(name, { path: [...path, "method"], output: STRUCTURED_FIELD_OUTPUTS[name] });
+        }
+      }
+
+      for (const [name, field] of Object.entries(action.fields)) {
+        const fieldPath = [...path, "fields", name];
+        addField(name, { path: fieldPath, transform: field.transform, output: outputOf(field.transform) });
+        if (field.followUp) {
+          addFollowUp(field.followUp, [...fieldPath, "followUp"], urlField => urlField in action.fields);
+        }
+      }
+      if (action.followUp) {
+        const available = (urlField: string) =>
+          urlField in action.fields || (structured && (STRUCTURED_ITEM_FIELDS as readonly string[]).includes(urlField));
+        addFollowUp(action.followUp, [...path, "followUp"], available);
+      }
+
+      if (action.containerSelector) {
+        const key = action.containerSelector.replace(/\s+/g, " ").trim();
+        const first = containers.get(key);
+        if (first) {
+          report("warning", "duplicate-container", [...path, "containerSelector"], `Same container as ${toJsonPath(first)}, so its items are extracted twice`);
+        } else {
+          containers.set(key, [...path, "containerSelector"]);
+        }
+      }
+    }
+
+    for (const { path, selector } of collectSelectors(config)) {
+      const message = selectorError(selector, config.engine === "browser");
+      if (message) {
+        report("error", "invalid-selector", path, `Invalid selector "${selector}": ${message}`);
+      }
+    }
+  }
+
+  // Every mapping entry must name a field the items carry, holding the kind of value it expects
+  const references = collectMappingReferences(config);
+  for (const reference of references) {
+    const field = fields.get(reference.field);
+
+    if (!field) {
+      if (!fieldsKnown || reference.literalAllowed) continue;
+      if (mappingName(reference.path) === "date.timezone" && isTimezone(reference.field)) {
+        report("warning", "missing-timezone", reference.path, `Gigs get no timezone: date.timezone names the field holding the timezone, and no field is called "${reference.field}"`);
+        continue;
+      }
+      const message = config.type === "feed"
+        ? `"${reference.field}" is not a feed item property or one of feed.fields`
+        : `"${reference.field}" is not extracted by any workflow step`;
+      // Feed parsers may add properties of their own, so an unknown name might still resolve
+      report(config.type === "feed" ? "warning" : "error", "unknown-field", reference.path, message);
+      continue;
+    }
+
+    const output = outputOf(reference.transform) ?? field.output;
+    if (output && reference.expects && output !== reference.expects) {
+      const producer = reference.transform
+        ? `Transform "${reference.transform}" produces`
+        : field.transform ? `"${reference.field}" goes through "${field.transform}", which produces` : `"${reference.field}" holds`;
+      const message = `${producer} a ${output}, but ${mappingName(reference.path)} expects ${describeOutput(reference.expects)}`;
+      report("warning", "transform-mismatch", reference.path, message);
+    }
+  }
+
+  const start = references.find(reference => mappingName(reference.path) === "date.start");
+  if (start && fields.has(start.field)) {
+    const output = outputOf(start.transform) ?? fields.get(start.field)?.output;
+    if (!output) {
+      report("warning", "date-without-transform", start.path, `"${start.field}" is used as the start date without a date transform, so it must already hold an ISO date`);
+    }
+  }
+
+  // Gig fields validation requires must be filled in by the mapping, or every gig fails
+  for (const [index, required] of (config.validation?.required ?? []).entries()) {
+    const path = ["validation", "required", index];
+    if (!(required in REQUIRABLE_GIG_FIELDS)) {
+      report("error", "unreachable-required", path, `"${required}" is not a gig field, so no gig can have it`);
+      continue;
+    }
+    const mappingPath = REQUIRABLE_GIG_FIELDS[required];
+    if (mappingPath && valueAt(config, mappingPath) === undefined) {
+      report("error", "unreachable-required", path, `"${required}" is required, but ${mappingPath.slice(1).join(".")} isn't mapped`);
+    }
+  }
+
+  // Mapping keys the schema doesn't know are dropped silently when the config loads
+  const mapping = (input as Record<string, any>).mapping ?? {};
+  for (const key of Object.keys(mapping)) {
+    if (!(key in BrowserScraperConfigSchema.shape.mapping.shape)) {
+      report("warning", "unknown-mapping-key", ["mapping", key], `"${key}" is not a mapping target and is ignored`);
+    }
+  }
+
+  // Venues outside UTC need a timezone on their gigs for start times to be read correctly
+  const country = config.mapping.venue.country;
+  const scheduleTimezone = config.schedule?.timezone;
+  const outsideUtc = scheduleTimezone && scheduleTimezone !== "UTC"
+    ? `the schedule runs in ${scheduleTimezone}`
+    : !scheduleTimezone && country && !fields.has(country) ? `the venue is in ${country}` : undefined;
+  if (outsideUtc && !config.mapping.date.timezone) {
+    report("warning", "missing-timezone", ["mapping", "date"], `Gigs get no timezone, though ${outsideUtc}; map date.timezone to a field holding the venue's timezone, or set schedule.timezone to "UTC"`);
+  }
+
+  return issues;
+}
+
+/**
+ * Formats a config path as a JSON path, e.g. `$.workflow[2].fields['ticket-url']`
+ */
+export function toJsonPath(path: Path): string {
+  return "$" + path.map(key =>
+    typeof key === "number" ? `[${key}]` : /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `['${key}']`
+  ).join("");
+}
+
+function mappingName(path: Path): string {
+  return path.slice(1).filter(key => typeof key === "string" && key !== "field").join(".");
+}
+
+function describeOutput(expects: TransformOutput | "text"): string {
+  return expects === "text" ? "text" : `a ${expects}`;
+}
+
+function valueAt(value: any, path: Path): unknown {
+  return path.reduce((current, key) => current?.[key], value);
+}
+
+/**
+ * Every mapping entry that names a field of the raw items
+ */
+function collectMappingReferences(config: ScraperConfig): MappingReference[] {
+  const { mapping } = config;
+  const references: MappingReference[] = [];
+  const add = (path: Path, field: string | undefined, expects?: MappingReference["expects"], extra: Partial<MappingReference> = {}) => {
+    if (field) references.push({ path: ["mapping", ...path], field, expects, ...extra });
+  };
+
+  add(["sourceId"], mapping.sourceId);
+  add(["title"], mapping.title, "text");
+  add(["artist"], mapping.artist, "text");
+  for (const key of ["name", "address", "city", "country"] as const) {
+    add(["venue", key], mapping.venue[key], "text", { literalAllowed: true });
+  }
+  for (const key of ["start", "end"] as const) {
+    const date = mapping.date[key];
+    if (typeof date === "object") {
+      add(["date", key, "field"], date.field, "date", { transform: date.transform });
+    } else {
+      add(["date", key], date, "date");
+    }
+  }
+  add(["date", "timezone"], mapping.date.timezone);
+  add(["urls", "event"], mapping.urls?.event, "url");
+  add(["urls", "tickets"], mapping.urls?.tickets, "url");
+  add(["urls", "info"], mapping.urls?.info, "url");
+  add(["images"], mapping.images, "url");
+  add(["genres"], mapping.genres, "text");
+  add(["ageRestriction"], mapping.ageRestriction, "text");
+  add(["description"], mapping.description, "text");
+  add(["status"], mapping.status);
+  add(["price", "min"], mapping.price?.min);
+  add(["price", "max"], mapping.price?.max);
+  add(["price", "currency"], mapping.price?.currency);
+
+  return references;
+}
+
+/**
+ * Every CSS selector in a browser config's workflow
+ */
+function collectSelectors(config: Extract<ScraperConfig, { type: "browser" }>): Array<{ path: Path; selector: string }> {
+  const selectors: Array<{ path: Path; selector: string }> = [];
+  const addFields = (fields: Record<string, { selector: string }>, path: Path) => {
+    for (const [name, field] of Object.entries(fields)) {
+      selectors.push({ path: [...path, name, "selector"], selector: field.selector });
+    }
+  };
+
+  config.workflow.forEach((action, index) => {
+    if (action.type === "paginate" && action.nextSelector) {
+      selectors.push({ path: ["workflow", index, "nextSelector"], selector: action.nextSelector });
+    }
+  });
+
+  for (const { action, path } of flattenWorkflow(config.workflow)) {
+    if ((action.type === "wait" || action.type === "click") && action.selector !== undefined) {
+      selectors.push({ path: [...path, "selector"], selector: action.selector });
+    }
+    if (action.type !== "extract") continue;
+
+    if (action.containerSelector !== undefined) {
+      selectors.push({ path: [...path, "containerSelector"], selector: action.containerSelector });
+    }
+    addFields(action.fields, [...path, "fields"]);
+    for (const [name, field] of Object.entries(action.fields)) {
+      if (field.followUp) addFields(field.followUp.fields, [...path, "fields", name, "followUp", "fields"]);
+    }
+    if (action.followUp) addFields(action.followUp.fields, [...path, "followUp", "fields"]);
+  }
+
+  return selectors;
+}
+
+/**
+ * Why a selector won't parse. The browser engine also accepts Playwright's selector extensions.
+ */
+function selectorError(selector: string, browser: boolean): string | null {
+  if (!browser) {
+    return HTMLParser.selectorError(selector);
+  }
+
+  for (const part of selector.split(">>")) {
+    if (PLAYWRIGHT_ENGINE_PREFIX.test(part)) continue;
+    const css = part.replace(/^\s*css=/, "").replace(PLAYWRIGHT_PSEUDO_CLASSES, "");
+    const error = HTMLParser.selectorError(css.trim() === "" && part.trim() !== "" ? "*" : css);
+    if (error) return error;
+  }
+  return null;
+}
+
+function isTimezone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
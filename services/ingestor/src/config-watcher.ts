@@ -0,0 +1,57 @@
+import { watch, type FSWatcher } from "fs";
+import type { Logger } from "./logger.js";
+
+/**
+ * Watches the scraper config directory and reports each changed `.json` file once it has
+ * settled. Editors often write a file in several steps (truncate, write, rename), so events
+ * for a file are debounced, and changes are handed over one at a time in the order they settled.
+ */
+export class ConfigWatcher {
+  private watcher?: FSWatcher;
+  private timers = new Map<string, NodeJS.Timeout>();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly configDir: string,
+    private readonly onChange: (filename: string) => Promise<void>,
+    private readonly logger: Logger,
+    private readonly debounceMs = 500
+  ) {}
+
+  start(): void {
+    if (this.watcher) return;
+
+    this.watcher = watch(this.configDir, (_event, filename) => {
+      if (!filename || !filename.endsWith(".json") || filename.startsWith(".")) {
+        return;
+      }
+
+      clearTimeout(this.timers.get(filename));
+      this.timers.set(filename, setTimeout(() => {
+        this.timers.delete(filename);
+        this.queue = this.queue
+          .then(() => this.onChange(filename))
+          .catch(error => {
+            this.logger.error({ filename, error: (error as Error).message }, "Failed to apply scraper config change");
+          });
+      }, this.debounceMs));
+    });
+
+    this.watcher.on("error", error => {
+      this.logger.error({ configDir: this.configDir, error: error.message }, "Scraper config watcher failed");
+    });
+
+    this.logger.info({ configDir: this.configDir }, "Watching scraper configs for changes");
+  }
+
+  /**
+   * Stops watching and waits for any change being applied
+   */
+  async stop(): Promise<void> {
+    this.watcher?.close();
+    this.watcher = undefined;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    await this.queue;
+  }
+}
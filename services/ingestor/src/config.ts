@@ -1,6 +1,10 @@
 import { join } from "path";
 import type { IngestorConfig } from "@gigateer/contracts";
 import type { ScheduleConfig } from "./scheduler.js";
+import * as cron from "node-cron";
+
+// Per-source overrides, e.g. INGESTOR_SOURCE_BRISTOL_THEKLA_SCHEDULE for the bristol-thekla source
+const SOURCE_OVERRIDE_PATTERN = /^INGESTOR_SOURCE_([A-Z0-9_]+?)_(SCHEDULE|TIMEZONE|ENABLED|TRUST_SCORE|RATE_LIMIT_PER_MIN)$/;
 
 export interface EnvironmentConfig {
   NODE_ENV?: string;
@@ -9,6 +13,8 @@ export interface EnvironmentConfig {
   INGESTOR_DISABLED_SOURCES?: string;
   INGESTOR_DEFAULT_SCHEDULE?: string;
   INGESTOR_STAGGER_MINUTES?: string;
+  INGESTOR_CIRCUIT_BREAKER_THRESHOLD?: string;
+  INGESTOR_CONTROL_PORT?: string;
   INGESTOR_PID_FILE?: string;
   INGESTOR_LOG_DIR?: string;
   INGESTOR_RAW_DATA_DIR?: string;
@@ -17,6 +23,20 @@ export interface EnvironmentConfig {
   INGESTOR_DEFAULT_RATE_LIMIT_PER_MIN?: string;
   INGESTOR_TIMEOUT_MS?: string;
   INGESTOR_LOG_RETENTION_DAYS?: string;
+  INGESTOR_MAX_CONCURRENT_SOURCES?: string;
+  INGESTOR_MAX_CONCURRENT_PER_HOST?: string;
+  INGESTOR_SOURCE_TIMEOUT_MS?: string;
+  INGESTOR_BROWSER_POOL_SIZE?: string;
+  INGESTOR_REMOVAL_GRACE_RUNS?: string;
+  INGESTOR_MIN_RETAINED_RATIO?: string;
+  INGESTOR_ANOMALY_DETECTION?: string;
+  INGESTOR_ANOMALY_BASELINE_RUNS?: string;
+  INGESTOR_ANOMALY_MIN_BASELINE_RUNS?: string;
+  INGESTOR_ANOMALY_MAX_COUNT_DROP?: string;
+  INGESTOR_ANOMALY_MAX_FILL_RATE_DROP?: string;
+  INGESTOR_REJECT_ANOMALOUS_RUNS?: string;
+  INGESTOR_FINGERPRINT_MAX_AGE_HOURS?: string;
+  INGESTOR_FRESHNESS_SLA_HOURS?: string;
   // MongoDB Configuration
   MONGODB_CONNECTION_STRING?: string;
   MONGODB_DATABASE_NAME?: string;
@@ -107,7 +127,27 @@ export class ConfigManager {
       globalRateLimitPerMin: parseInt(env.INGESTOR_RATE_LIMIT_PER_MIN || "60", 10),
       timeoutMs: parseInt(env.INGESTOR_TIMEOUT_MS || "30000", 10),
       staggerMinutes: parseInt(env.INGESTOR_STAGGER_MINUTES || "5", 10),
-      sources: {}, // Will be populated later
+      concurrency: {
+        maxConcurrentSources: parseInt(env.INGESTOR_MAX_CONCURRENT_SOURCES || "3", 10),
+        maxConcurrentPerHost: parseInt(env.INGESTOR_MAX_CONCURRENT_PER_HOST || "1", 10),
+        sourceTimeoutMs: parseInt(env.INGESTOR_SOURCE_TIMEOUT_MS || "300000", 10),
+        browserPoolSize: parseInt(env.INGESTOR_BROWSER_POOL_SIZE || "2", 10),
+      },
+      removalDetection: {
+        gracePeriodRuns: parseInt(env.INGESTOR_REMOVAL_GRACE_RUNS || "3", 10),
+        minRetainedRatio: parseFloat(env.INGESTOR_MIN_RETAINED_RATIO || "0.5"),
+      },
+      anomalyDetection: {
+        enabled: env.INGESTOR_ANOMALY_DETECTION?.toLowerCase() !== "false",
+        baselineRuns: parseInt(env.INGESTOR_ANOMALY_BASELINE_RUNS || "10", 10),
+        minBaselineRuns: parseInt(env.INGESTOR_ANOMALY_MIN_BASELINE_RUNS || "3", 10),
+        maxCountDrop: parseFloat(env.INGESTOR_ANOMALY_MAX_COUNT_DROP || "0.8"),
+        maxFillRateDrop: parseFloat(env.INGESTOR_ANOMALY_MAX_FILL_RATE_DROP || "0.5"),
+        rejectAnomalousRuns: env.INGESTOR_REJECT_ANOMALOUS_RUNS?.toLowerCase() === "true",
+      },
+      fingerprintMaxAgeHours: parseFloat(env.INGESTOR_FINGERPRINT_MAX_AGE_HOURS || "24"),
+      freshnessSlaHours: parseFloat(env.INGESTOR_FRESHNESS_SLA_HOURS || "24"),
+      sources: ConfigManager.loadSourceOverrides(process.env),
     };
     
     const scheduleConfig: ScheduleConfig = {
@@ -122,11 +162,48 @@ export class ConfigManager {
         ? env.INGESTOR_DISABLED_SOURCES.split(',').map(s => s.trim()) 
         : undefined,
       pidFile: env.INGESTOR_PID_FILE || join(logDir, "ingestor.pid"),
+      circuitBreakerThreshold: parseInt(env.INGESTOR_CIRCUIT_BREAKER_THRESHOLD || "5", 10),
+      controlPort: parseInt(env.INGESTOR_CONTROL_PORT || "4100", 10),
     };
     
     return { ingestorConfig, scheduleConfig };
   }
   
+  /**
+   * Reads INGESTOR_SOURCE_<NAME>_<SETTING> variables. Names are matched to sources by
+   * lowercasing them and turning underscores into hyphens.
+   */
+  static loadSourceOverrides(env: NodeJS.ProcessEnv): IngestorConfig["sources"] {
+    const sources: IngestorConfig["sources"] = {};
+
+    for (const [key, value] of Object.entries(env)) {
+      const match = SOURCE_OVERRIDE_PATTERN.exec(key);
+      if (!match || value === undefined || value.trim() === "") continue;
+
+      const source = match[1].toLowerCase().replace(/_/g, "-");
+      const overrides = (sources[source] ??= {});
+      switch (match[2]) {
+        case "SCHEDULE":
+          overrides.schedule = value.trim();
+          break;
+        case "TIMEZONE":
+          overrides.timezone = value.trim();
+          break;
+        case "ENABLED":
+          overrides.enabled = value.trim().toLowerCase() !== "false";
+          break;
+        case "TRUST_SCORE":
+          overrides.trustScore = parseFloat(value);
+          break;
+        case "RATE_LIMIT_PER_MIN":
+          overrides.rateLimitPerMin = parseInt(value, 10);
+          break;
+      }
+    }
+
+    return sources;
+  }
+
   /**
    * Validates the configuration
    */
@@ -154,6 +231,62 @@ export class ConfigManager {
       errors.push("Timeout must be positive");
     }
     
+    if (ingestorConfig.concurrency) {
+      const { maxConcurrentSources, maxConcurrentPerHost, sourceTimeoutMs, browserPoolSize } = ingestorConfig.concurrency;
+      if (!(maxConcurrentSources >= 1) || !(maxConcurrentPerHost >= 1)) {
+        errors.push("Concurrency limits must be at least 1");
+      }
+      if (!(sourceTimeoutMs > 0)) {
+        errors.push("Source timeout must be positive");
+      }
+      if (!(browserPoolSize >= 1)) {
+        errors.push("Browser pool size must be at least 1");
+      }
+    }
+    
+    if (ingestorConfig.removalDetection) {
+      if (!(ingestorConfig.removalDetection.gracePeriodRuns >= 1)) {
+        errors.push("Removal grace period must be at least 1 run");
+      }
+      const ratio = ingestorConfig.removalDetection.minRetainedRatio;
+      if (!(ratio >= 0 && ratio <= 1)) {
+        errors.push("Minimum retained ratio must be between 0 and 1");
+      }
+    }
+    
+    if (ingestorConfig.anomalyDetection) {
+      const { baselineRuns, minBaselineRuns, maxCountDrop, maxFillRateDrop } = ingestorConfig.anomalyDetection;
+      if (!(minBaselineRuns >= 1) || !(baselineRuns >= minBaselineRuns)) {
+        errors.push("Anomaly baseline runs must be at least 1 and no fewer than the minimum baseline runs");
+      }
+      if (!(maxCountDrop > 0 && maxCountDrop <= 1) || !(maxFillRateDrop > 0 && maxFillRateDrop <= 1)) {
+        errors.push("Anomaly thresholds must be between 0 and 1");
+      }
+    }
+    
+    if (ingestorConfig.fingerprintMaxAgeHours !== undefined && !(ingestorConfig.fingerprintMaxAgeHours >= 0)) {
+      errors.push("Fingerprint max age must be non-negative");
+    }
+    
+    if (ingestorConfig.freshnessSlaHours !== undefined && !(ingestorConfig.freshnessSlaHours > 0)) {
+      errors.push("Freshness SLA must be positive");
+    }
+    
+    for (const [source, overrides] of Object.entries(ingestorConfig.sources ?? {})) {
+      if (overrides.schedule !== undefined && !cron.validate(overrides.schedule)) {
+        errors.push(`Schedule override for ${source} is not a valid cron expression`);
+      }
+      if (overrides.timezone !== undefined && !isTimezone(overrides.timezone)) {
+        errors.push(`Timezone override for ${source} is not a known timezone`);
+      }
+      if (overrides.trustScore !== undefined && !(overrides.trustScore >= 0 && overrides.trustScore <= 100)) {
+        errors.push(`Trust score override for ${source} must be between 0 and 100`);
+      }
+      if (overrides.rateLimitPerMin !== undefined && !(overrides.rateLimitPerMin > 0)) {
+        errors.push(`Rate limit override for ${source} must be positive`);
+      }
+    }
+    
     // Validate schedule config
     if (!scheduleConfig.defaultSchedule) {
       errors.push("Default schedule must be specified");
@@ -163,6 +296,14 @@ export class ConfigManager {
       errors.push("Stagger minutes must be non-negative");
     }
     
+    if (scheduleConfig.circuitBreakerThreshold !== undefined && !(scheduleConfig.circuitBreakerThreshold >= 0)) {
+      errors.push("Circuit breaker threshold must be non-negative");
+    }
+    
+    if (scheduleConfig.controlPort !== undefined && !(Number.isInteger(scheduleConfig.controlPort) && scheduleConfig.controlPort >= 0 && scheduleConfig.controlPort <= 65535)) {
+      errors.push("Control API port must be between 0 and 65535");
+    }
+    
     // Validate cron schedule format (basic check)
     if (scheduleConfig.defaultSchedule) {
       const cronParts = scheduleConfig.defaultSchedule.split(' ');
@@ -193,8 +334,11 @@ export class ConfigManager {
       mode: scheduleConfig.mode,
       schedule: scheduleConfig.defaultSchedule,
       staggerMinutes: scheduleConfig.staggerMinutes,
+      circuitBreakerThreshold: scheduleConfig.circuitBreakerThreshold,
+      controlPort: scheduleConfig.controlPort,
       rateLimitPerMin: ingestorConfig.globalRateLimitPerMin,
       timeoutMs: ingestorConfig.timeoutMs,
+      freshnessSlaHours: ingestorConfig.freshnessSlaHours,
       enabledSources: scheduleConfig.enabledSources?.length 
         ? scheduleConfig.enabledSources 
         : 'all (default)',
@@ -291,15 +435,33 @@ INGESTOR_MODE=development
 # Scheduling Configuration
 INGESTOR_DEFAULT_SCHEDULE="*/10 * * * *"
 INGESTOR_STAGGER_MINUTES=5
+# Pause a source after this many consecutive failed scheduled runs, until scheduler:reenable (0 never pauses)
+INGESTOR_CIRCUIT_BREAKER_THRESHOLD=5
+# Localhost port of the daemon's control API used by the scheduler:* commands and the web app (0 disables it)
+INGESTOR_CONTROL_PORT=4100
+# Token the control API requires; generated on start and written to data/control-token if unset
+# INGESTOR_CONTROL_TOKEN=
 
 # Source Control (comma-separated lists)
 # INGESTOR_ENABLED_SOURCES=bandsintown,eventbrite
 # INGESTOR_DISABLED_SOURCES=venue1,venue2
 
+# Per-source overrides, taking precedence over a scraper config's schedule block and trustScore
+# (source names uppercased, hyphens as underscores)
+# INGESTOR_SOURCE_BRISTOL_THEKLA_SCHEDULE="0 */6 * * *"
+# INGESTOR_SOURCE_BRISTOL_THEKLA_TIMEZONE=Europe/London
+# INGESTOR_SOURCE_BRISTOL_THEKLA_ENABLED=false
+# INGESTOR_SOURCE_BRISTOL_THEKLA_TRUST_SCORE=90
+# INGESTOR_SOURCE_BRISTOL_THEKLA_RATE_LIMIT_PER_MIN=30
+
 # Rate Limiting and Timeouts
 INGESTOR_RATE_LIMIT_PER_MIN=60
 INGESTOR_TIMEOUT_MS=30000
 
+# Hours after a source's last successful run before health checks report it stale,
+# unless its scraper config sets schedule.freshnessSlaHours
+INGESTOR_FRESHNESS_SLA_HOURS=24
+
 # File Paths (optional - defaults to relative paths)
 # INGESTOR_RAW_DATA_DIR=/path/to/raw/data
 # INGESTOR_NORMALIZED_DATA_DIR=/path/to/normalized/data
@@ -324,4 +486,13 @@ INGESTOR_USE_DATABASE=true
 INGESTOR_USE_FILE_STORAGE=true
 `;
   }
-}
\ No newline at end of file
+}
+
+function isTimezone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,122 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import type { JobSummary, Scheduler, SchedulerStatus } from "./scheduler.js";
+
+/** Request header carrying the token the control API requires */
+export const CONTROL_TOKEN_HEADER = "x-control-token";
+
+/** File in the data directory the daemon writes its control token to */
+export const CONTROL_TOKEN_FILE = "control-token";
+
+/**
+ * A value as it arrives over JSON, with dates as ISO strings
+ */
+export type Serialized<T> = T extends Date
+  ? string
+  : T extends Array<infer U>
+    ? Serialized<U>[]
+    : T extends object
+      ? { [K in keyof T]: Serialized<T[K]> }
+      : T;
+
+export type JobView = Serialized<JobSummary>;
+export type StatusView = Serialized<SchedulerStatus>;
+export type HealthView = Serialized<ReturnType<Scheduler["getHealthStatus"]>>;
+export type PerformanceView = Serialized<ReturnType<Scheduler["getPerformanceSummary"]>>;
+
+/**
+ * Thrown when nothing answers on the control API's port, usually because no daemon is running
+ */
+export class DaemonUnreachableError extends Error {
+  constructor(public readonly url: string) {
+    super(`Scheduler daemon is not reachable at ${url}`);
+    this.name = "DaemonUnreachableError";
+  }
+}
+
+/**
+ * Thrown when the daemon refuses a request, with its HTTP status and reason
+ */
+export class ControlApiError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = "ControlApiError";
+  }
+}
+
+/**
+ * The running daemon's control token: INGESTOR_CONTROL_TOKEN when set, otherwise the one
+ * the daemon wrote to the data directory, if any
+ */
+export function readControlToken(dataDir: string, env: NodeJS.ProcessEnv = process.env): string | undefined {
+  if (env.INGESTOR_CONTROL_TOKEN) {
+    return env.INGESTOR_CONTROL_TOKEN;
+  }
+  try {
+    return readFileSync(join(dataDir, CONTROL_TOKEN_FILE), "utf8").trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Client for a running scheduler daemon's control API (see ControlServer)
+ */
+export class ControlClient {
+  readonly baseUrl: string;
+
+  constructor(port: number, private readonly token?: string, private readonly timeoutMs = 5000) {
+    this.baseUrl = `http://127.0.0.1:${port}`;
+  }
+
+  getStatus(): Promise<StatusView> {
+    return this.request("GET", "/status");
+  }
+
+  getJobs(): Promise<JobView[]> {
+    return this.request("GET", "/jobs");
+  }
+
+  getJob(source: string): Promise<JobView> {
+    return this.request("GET", `/jobs/${encodeURIComponent(source)}`);
+  }
+
+  getHealth(): Promise<HealthView> {
+    return this.request("GET", "/health");
+  }
+
+  getPerformance(): Promise<PerformanceView> {
+    return this.request("GET", "/performance");
+  }
+
+  trigger(source: string): Promise<JobView> {
+    return this.request("POST", `/jobs/${encodeURIComponent(source)}/trigger`);
+  }
+
+  pause(source: string): Promise<JobView> {
+    return this.request("POST", `/jobs/${encodeURIComponent(source)}/pause`);
+  }
+
+  resume(source: string): Promise<JobView> {
+    return this.request("POST", `/jobs/${encodeURIComponent(source)}/resume`);
+  }
+
+  private async request<T>(method: "GET" | "POST", path: string): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: this.token ? { [CONTROL_TOKEN_HEADER]: this.token } : {},
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+    } catch {
+      throw new DaemonUnreachableError(this.baseUrl);
+    }
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new ControlApiError(response.status, body.error || `${method} ${path} failed with HTTP ${response.status}`);
+    }
+    return body as T;
+  }
+}
@@ -0,0 +1,170 @@
+import { randomBytes, timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { join } from "path";
+import { CONTROL_TOKEN_FILE, CONTROL_TOKEN_HEADER } from "./control-client.js";
+import type { Scheduler } from "./scheduler.js";
+import type { Logger } from "./logger.js";
+
+const JOB_ROUTE = /^\/jobs\/([^/]+)(?:\/(trigger|pause|resume))?$/;
+
+/**
+ * Local HTTP API for a running scheduler daemon, so the CLI and the web app can see its
+ * in-memory state and act on its jobs. It only listens on the loopback interface.
+ *
+ * Every request must carry the daemon's token in the X-Control-Token header, since a page
+ * open in a local browser can reach loopback ports too. Requests with an Origin header come
+ * from a browser and are refused outright.
+ *
+ *   GET  /status                 scheduler status with every job
+ *   GET  /jobs                   jobs, including the progress of running ones
+ *   GET  /jobs/:source           a single job
+ *   GET  /health                 health issues and stats
+ *   GET  /performance            run counts and success rates
+ *   POST /jobs/:source/trigger   starts a run without waiting for it to finish
+ *   POST /jobs/:source/pause     stops the source's scheduled runs
+ *   POST /jobs/:source/resume    restarts them, lifting a circuit breaker pause too
+ */
+export class ControlServer {
+  private server?: Server;
+
+  constructor(
+    private readonly scheduler: Scheduler,
+    private readonly logger: Logger,
+    private readonly token: string
+  ) {}
+
+  /**
+   * Starts listening and resolves with the port, which is picked by the OS when 0 is given
+   */
+  async start(port: number, host = "127.0.0.1"): Promise<number> {
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        this.logger.error({ method: req.method, url: req.url, error: (error as Error).message }, "Control API request failed");
+        send(res, 500, { error: (error as Error).message });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    const address = server.address() as AddressInfo;
+    this.logger.info({ host, port: address.port }, "Control API listening");
+    return address.port;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+
+    this.server = undefined;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url || "/", "http://localhost").pathname.replace(/\/+$/, "") || "/";
+
+    if (req.headers.origin !== undefined) {
+      return send(res, 403, { error: "Browser requests are not allowed" });
+    }
+    if (!matchesToken(req.headers[CONTROL_TOKEN_HEADER], this.token)) {
+      return send(res, 401, { error: `Missing or wrong ${CONTROL_TOKEN_HEADER} header` });
+    }
+
+    if (req.method === "GET") {
+      switch (path) {
+        case "/status":
+          return send(res, 200, this.scheduler.getStatus());
+        case "/jobs":
+          return send(res, 200, this.scheduler.getStatus().jobs);
+        case "/health":
+          return send(res, 200, this.scheduler.getHealthStatus());
+        case "/performance":
+          return send(res, 200, this.scheduler.getPerformanceSummary());
+      }
+    }
+
+    const match = JOB_ROUTE.exec(path);
+    if (!match) {
+      return send(res, 404, { error: `Unknown route: ${req.method} ${path}` });
+    }
+
+    const source = decodeURIComponent(match[1]);
+    const action = match[2];
+    const job = this.scheduler.getJob(source);
+
+    if (req.method !== (action ? "POST" : "GET")) {
+      return send(res, 405, { error: `${req.method} is not allowed on ${path}` });
+    }
+    if (!job) {
+      return send(res, 404, { error: `No scheduled job for source: ${source}` });
+    }
+
+    switch (action) {
+      case undefined:
+        return send(res, 200, job);
+
+      case "trigger":
+        if (job.status === "running") {
+          return send(res, 409, { error: `${source} is already running` });
+        }
+        if (job.status === "paused") {
+          return send(res, 409, { error: `${source} is paused by its circuit breaker; resume it first` });
+        }
+        // Runs take minutes, so callers follow the job's progress instead of waiting here
+        void this.scheduler.triggerSource(source);
+        this.logger.info({ source }, "Run triggered through control API");
+        return send(res, 202, this.scheduler.getJob(source));
+
+      case "pause":
+        await this.scheduler.stopSource(source);
+        this.logger.info({ source }, "Source paused through control API");
+        return send(res, 200, this.scheduler.getJob(source));
+
+      case "resume":
+        if (!(await this.scheduler.resumeSource(source))) {
+          return send(res, 409, { error: `${source} can't be resumed while it is ${job.status}` });
+        }
+        this.logger.info({ source }, "Source resumed through control API");
+        return send(res, 200, this.scheduler.getJob(source));
+    }
+  }
+}
+
+/**
+ * Token for a daemon's control API: INGESTOR_CONTROL_TOKEN when set, say for a web app on
+ * another host, otherwise a new random one
+ */
+export function createControlToken(env: NodeJS.ProcessEnv = process.env): string {
+  return env.INGESTOR_CONTROL_TOKEN || randomBytes(32).toString("hex");
+}
+
+/**
+ * Writes the token to the data directory for the CLI and the web app, readable by its owner only
+ */
+export async function writeControlToken(dataDir: string, token: string): Promise<string> {
+  const tokenPath = join(dataDir, CONTROL_TOKEN_FILE);
+  await fs.mkdir(dataDir, { recursive: true });
+  await fs.writeFile(tokenPath, token, { encoding: "utf8", mode: 0o600 });
+  return tokenPath;
+}
+
+function matchesToken(header: string | string[] | undefined, token: string): boolean {
+  if (typeof header !== "string") return false;
+  const given = Buffer.from(header);
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
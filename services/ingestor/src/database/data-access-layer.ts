@@ -11,12 +11,17 @@ import {
   InsertOneOptions,
   WithId
 } from 'mongodb';
-import type { Gig } from '@gigateer/contracts';
+import type { CanonicalEvent, Gig } from '@gigateer/contracts';
+import { MongoOverrideStore, type DedupeOverride } from '@gigateer/dedupe';
 import { 
   GigDocument, 
+  EventDocument,
+  GigHistoryDocument,
   PerformanceDocument, 
   ScraperRunDocument, 
   ErrorLogDocument,
+  SourceHealthDocument,
+  ProbeRequestDocument,
   DatabaseSchema,
   COLLECTIONS 
 } from './schemas.js';
@@ -42,7 +47,7 @@ export interface GigQueryOptions {
     end?: string;
   };
   /** Status filter */
-  status?: 'scheduled' | 'cancelled' | 'postponed';
+  status?: 'scheduled' | 'cancelled' | 'postponed' | 'removed';
   /** Text search */
   search?: string;
   /** Pagination */
@@ -385,6 +390,67 @@ export class DataAccessLayer {
     return stats;
   }
 
+  // ========== GIG HISTORY OPERATIONS ==========
+
+  /**
+   * Insert gig history entries
+   */
+  async insertGigHistory(entries: Omit<GigHistoryDocument, '_id'>[]): Promise<number> {
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    const collection = this.schema.getGigHistoryCollection();
+    const result = await collection.insertMany(entries, { ordered: false });
+
+    logger.debug('Inserted gig history', {
+      insertedCount: result.insertedCount
+    });
+
+    return result.insertedCount;
+  }
+
+  /**
+   * Get the change history of a gig, newest first
+   */
+  async getGigHistory(gigId: string, limit: number = 50): Promise<GigHistoryDocument[]> {
+    const collection = this.schema.getGigHistoryCollection();
+
+    return await collection
+      .find({ gigId })
+      .sort({ changedAt: -1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  /**
+   * Get recent gig changes, optionally for one source or one changed field
+   */
+  async getRecentGigHistory(
+    options: { source?: string; field?: string; limit?: number } = {}
+  ): Promise<GigHistoryDocument[]> {
+    const collection = this.schema.getGigHistoryCollection();
+
+    const filter: Filter<GigHistoryDocument> = {};
+    if (options.source) filter.source = options.source;
+    if (options.field) filter['changes.field'] = options.field;
+
+    return await collection
+      .find(filter)
+      .sort({ changedAt: -1 })
+      .limit(options.limit ?? 50)
+      .toArray();
+  }
+
+  /**
+   * Move the history of a gig to the new ID it was stored under
+   */
+  async reassignGigHistory(fromGigId: string, toGigId: string): Promise<number> {
+    const collection = this.schema.getGigHistoryCollection();
+    const result = await collection.updateMany({ gigId: fromGigId }, { $set: { gigId: toGigId } });
+    return result.modifiedCount;
+  }
+
   // ========== PERFORMANCE METRICS OPERATIONS ==========
 
   /**
@@ -490,6 +556,173 @@ export class DataAccessLayer {
       .toArray();
   }
 
+  // ========== SOURCE HEALTH OPERATIONS ==========
+
+  /**
+   * Get the health record of a source
+   */
+  async getSourceHealth(source: string): Promise<SourceHealthDocument | null> {
+    const collection = this.schema.getSourceHealthCollection();
+    return await collection.findOne({ source });
+  }
+
+  /**
+   * Replace the health record of a source, creating it if needed
+   */
+  async upsertSourceHealth(health: Omit<SourceHealthDocument, '_id'>): Promise<void> {
+    const collection = this.schema.getSourceHealthCollection();
+    await collection.replaceOne({ source: health.source }, health, { upsert: true });
+
+    logger.debug('Upserted source health', {
+      source: health.source,
+      consecutiveFailures: health.consecutiveFailures
+    });
+  }
+
+  /**
+   * Mark sources configured with their freshness SLAs, creating records for new ones;
+   * with `exclusive`, every other source is marked no longer configured
+   */
+  async setConfiguredSources(
+    sources: Array<{ source: string; freshnessSlaHours: number }>,
+    options: { exclusive?: boolean } = {}
+  ): Promise<void> {
+    const collection = this.schema.getSourceHealthCollection();
+    const now = new Date();
+
+    if (sources.length > 0) {
+      await collection.bulkWrite(sources.map(({ source, freshnessSlaHours }) => ({
+        updateOne: {
+          filter: { source },
+          update: {
+            $set: { configured: true, freshnessSlaHours },
+            $setOnInsert: { consecutiveFailures: 0, recentCounts: [], countTrend: 'unknown' as const, updatedAt: now }
+          },
+          upsert: true
+        }
+      })), { ordered: false });
+    }
+
+    if (options.exclusive) {
+      await collection.updateMany(
+        { source: { $nin: sources.map(({ source }) => source) }, configured: true },
+        { $set: { configured: false } }
+      );
+    }
+  }
+
+  /**
+   * Mark a source no longer configured, keeping its history
+   */
+  async unsetConfiguredSource(source: string): Promise<void> {
+    const collection = this.schema.getSourceHealthCollection();
+    await collection.updateOne({ source }, { $set: { configured: false } });
+  }
+
+  // ========== PROBE REQUEST OPERATIONS ==========
+
+  /**
+   * Get the probe requests still waiting for the scheduler, oldest first
+   */
+  async getQueuedProbes(): Promise<WithId<ProbeRequestDocument>[]> {
+    const collection = this.schema.getProbeRequestsCollection();
+
+    return await collection
+      .find({ status: 'queued' })
+      .sort({ requestedAt: 1 })
+      .toArray();
+  }
+
+  /**
+   * Record the progress of a probe request
+   */
+  async updateProbe(
+    id: NonNullable<ProbeRequestDocument['_id']>,
+    update: Partial<Omit<ProbeRequestDocument, '_id' | 'source' | 'requestedAt'>>
+  ): Promise<void> {
+    const collection = this.schema.getProbeRequestsCollection();
+    await collection.updateOne({ _id: id }, { $set: update });
+  }
+
+  // ========== CANONICAL EVENT OPERATIONS ==========
+
+  /**
+   * Find gigs by their IDs
+   */
+  async findGigsByIds(gigIds: string[]): Promise<Gig[]> {
+    if (gigIds.length === 0) {
+      return [];
+    }
+
+    const documents = await this.schema.getGigsCollection().find({ gigId: { $in: gigIds } }).toArray();
+    return documents.map(doc => this.gigDocumentToGig(doc));
+  }
+
+  /**
+   * Find the canonical events any of the given gigs are linked to
+   */
+  async findEventsByGigIds(gigIds: string[]): Promise<CanonicalEvent[]> {
+    if (gigIds.length === 0) {
+      return [];
+    }
+
+    const documents = await this.schema.getEventsCollection().find({ 'sources.gigId': { $in: gigIds } }).toArray();
+    return documents.map(doc => this.eventDocumentToEvent(doc));
+  }
+
+  /**
+   * Find canonical events starting within a time range
+   */
+  async findEventsStartingBetween(start: Date, end: Date): Promise<CanonicalEvent[]> {
+    const documents = await this.schema.getEventsCollection()
+      .find({ dateStart: { $gte: start, $lte: end } })
+      .toArray();
+    return documents.map(doc => this.eventDocumentToEvent(doc));
+  }
+
+  /**
+   * Find a canonical event by ID
+   */
+  async findEventById(eventId: string): Promise<CanonicalEvent | null> {
+    const document = await this.schema.getEventsCollection().findOne({ eventId });
+    return document ? this.eventDocumentToEvent(document) : null;
+  }
+
+  /**
+   * Insert or replace a canonical event
+   */
+  async saveEvent(event: CanonicalEvent): Promise<void> {
+    const { id, sources, ...gigData } = event;
+    const document: Omit<EventDocument, '_id'> = {
+      ...gigData,
+      eventId: id,
+      dateStart: new Date(event.dateStart),
+      dateEnd: event.dateEnd ? new Date(event.dateEnd) : undefined,
+      updatedAt: new Date(event.updatedAt),
+      firstSeenAt: event.firstSeenAt ? new Date(event.firstSeenAt) : undefined,
+      lastSeenAt: event.lastSeenAt ? new Date(event.lastSeenAt) : undefined,
+      // Replacing the document would lose an insert time, so events date from their first sighting
+      createdAt: new Date(event.firstSeenAt ?? event.updatedAt),
+      sources: sources.map(link => ({ ...link, linkedAt: new Date(link.linkedAt) }))
+    };
+
+    await this.schema.getEventsCollection().replaceOne({ eventId: id }, document, { upsert: true });
+  }
+
+  /**
+   * Delete a canonical event
+   */
+  async deleteEvent(eventId: string): Promise<void> {
+    await this.schema.getEventsCollection().deleteOne({ eventId });
+  }
+
+  /**
+   * List the manual merge and split overrides for event linking
+   */
+  async listDedupeOverrides(): Promise<DedupeOverride[]> {
+    return new MongoOverrideStore(this.schema.getDedupeOverridesCollection()).list();
+  }
+
   // ========== HELPER METHODS ==========
 
   /**
@@ -509,6 +742,23 @@ export class DataAccessLayer {
     } as Gig;
   }
 
+  /**
+   * Convert EventDocument to CanonicalEvent
+   */
+  private eventDocumentToEvent(document: WithId<EventDocument>): CanonicalEvent {
+    const { _id, eventId, createdAt, sources, ...eventData } = document;
+    return {
+      ...eventData,
+      id: eventId,
+      dateStart: document.dateStart.toISOString(),
+      dateEnd: document.dateEnd ? document.dateEnd.toISOString() : undefined,
+      updatedAt: document.updatedAt.toISOString(),
+      firstSeenAt: document.firstSeenAt ? document.firstSeenAt.toISOString() : undefined,
+      lastSeenAt: document.lastSeenAt ? document.lastSeenAt.toISOString() : undefined,
+      sources: sources.map(link => ({ ...link, linkedAt: link.linkedAt.toISOString() }))
+    } as CanonicalEvent;
+  }
+
   /**
    * Build MongoDB filter from query options
    */
@@ -1,7 +1,9 @@
 import { MongoDBConnection, type MongoDBConfig } from './mongodb-connection.js';
 import { DataAccessLayer } from './data-access-layer.js';
-import type { Gig } from '@gigateer/contracts';
+import type { Gig, GigHistoryEntry, RunQualityProfile, BlockedRequest, ScraperErrorClass } from '@gigateer/contracts';
+import type { GigHistoryDocument, SourceHealthDocument, ProbeRequestDocument } from './schemas.js';
 import { logger as baseLogger } from '../logger.js';
+import { linkCanonicalEvents } from '../canonical-events.js';
 
 const logger = baseLogger.child({ component: 'database-manager' });
 
@@ -25,6 +27,7 @@ export class DatabaseManager {
   private dataLayer: DataAccessLayer | null = null;
   private config: DatabaseConfig;
   private isInitialized = false;
+  private eventLinking: Promise<void> = Promise.resolve();
 
   constructor(config: DatabaseConfig) {
     this.config = config;
@@ -129,6 +132,101 @@ export class DatabaseManager {
     }
   }
 
+  /**
+   * Store field-level gig changes. Gigs that moved to a new ID take their earlier
+   * history with them, and the document stored under the old ID is dropped.
+   */
+  async storeGigHistory(entries: GigHistoryEntry[], batchId?: string): Promise<void> {
+    if (!this.isEnabled() || entries.length === 0) {
+      return;
+    }
+
+    try {
+      const dataLayer = this.getDataLayer();
+
+      for (const entry of entries) {
+        if (entry.previousGigId) {
+          await dataLayer.reassignGigHistory(entry.previousGigId, entry.gigId);
+          await dataLayer.deleteGig(entry.previousGigId);
+        }
+      }
+
+      await dataLayer.insertGigHistory(entries.map(entry => ({
+        ...entry,
+        changedAt: new Date(entry.changedAt),
+        batchId
+      })));
+
+      logger.debug('Stored gig history in database', {
+        entries: entries.length,
+        batchId
+      });
+
+    } catch (error) {
+      logger.warn('Failed to store gig history in database', {
+        entries: entries.length,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Link a source's stored gigs to the canonical events the web app lists, so a show listed
+   * by several sources appears once. Sources link one at a time: linking reads events and
+   * writes them back whole, so two sources linking the same show at once would each start
+   * an event or drop the other's link.
+   */
+  linkEvents(gigs: Gig[], source: string, options: Parameters<typeof linkCanonicalEvents>[2]): Promise<void> {
+    if (!this.isEnabled() || gigs.length === 0) {
+      return Promise.resolve();
+    }
+
+    this.eventLinking = this.eventLinking.then(() => this.linkEventsNow(gigs, source, options));
+    return this.eventLinking;
+  }
+
+  private async linkEventsNow(gigs: Gig[], source: string, options: Parameters<typeof linkCanonicalEvents>[2]): Promise<void> {
+    try {
+      const dataLayer = this.getDataLayer();
+      const overrides = options.overrides ?? await dataLayer.listDedupeOverrides();
+      const result = await linkCanonicalEvents(gigs, dataLayer, { ...options, overrides });
+
+      logger.info('Linked gigs to canonical events', {
+        source,
+        ...result
+      });
+
+    } catch (error) {
+      logger.warn('Failed to link gigs to canonical events', {
+        source,
+        gigCount: gigs.length,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Get the change history of a gig from the database
+   */
+  async getGigHistory(gigId: string, limit?: number): Promise<GigHistoryDocument[]> {
+    if (!this.isEnabled()) {
+      throw new Error('Database not enabled');
+    }
+
+    return await this.getDataLayer().getGigHistory(gigId, limit);
+  }
+
+  /**
+   * Get recent gig changes from the database
+   */
+  async getRecentGigHistory(options: { source?: string; field?: string; limit?: number } = {}): Promise<GigHistoryDocument[]> {
+    if (!this.isEnabled()) {
+      throw new Error('Database not enabled');
+    }
+
+    return await this.getDataLayer().getRecentGigHistory(options);
+  }
+
   /**
    * Store performance metrics in the database
    */
@@ -144,6 +242,7 @@ export class DatabaseManager {
       gigThroughput: number;
       gigCount?: number;
       errorCount?: number;
+      profile?: RunQualityProfile;
     }
   ): Promise<void> {
     if (!this.isEnabled()) {
@@ -172,6 +271,18 @@ export class DatabaseManager {
     }
   }
 
+  /**
+   * Get the gig profiles of a source's most recent saved runs, newest first
+   */
+  async getRunProfiles(source: string, limit: number): Promise<RunQualityProfile[]> {
+    if (!this.isEnabled()) {
+      throw new Error('Database not enabled');
+    }
+
+    const metrics = await this.getDataLayer().getPerformanceMetrics(source, limit);
+    return metrics.flatMap(document => document.metrics.profile ? [document.metrics.profile] : []);
+  }
+
   /**
    * Store scraper run results in the database
    */
@@ -183,7 +294,16 @@ export class DatabaseManager {
       normalizedCount: number;
       newCount: number;
       updatedCount: number;
+      removedCount?: number;
+      missingCount?: number;
+      removalGuardTriggered?: boolean;
+      profile?: RunQualityProfile;
+      anomalies?: string[];
+      anomalyRejected?: boolean;
+      unchanged?: boolean;
+      blocked?: BlockedRequest[];
       errorCount: number;
+      errorClass?: ScraperErrorClass;
       success: boolean;
       duration: number;
       errors?: string[];
@@ -195,8 +315,11 @@ export class DatabaseManager {
       totalGigs: number;
       totalNew: number;
       totalUpdated: number;
+      totalRemoved?: number;
+      unchangedSources?: number;
       totalErrors: number;
       totalDuration: number;
+      wallClockDuration?: number;
     }
   ): Promise<void> {
     if (!this.isEnabled()) {
@@ -269,6 +392,108 @@ export class DatabaseManager {
     }
   }
 
+  /**
+   * Get the health record of a source from the database
+   */
+  async getSourceHealth(source: string): Promise<SourceHealthDocument | null> {
+    if (!this.isEnabled()) {
+      throw new Error('Database not enabled');
+    }
+
+    return await this.getDataLayer().getSourceHealth(source);
+  }
+
+  /**
+   * Store the health record of a source in the database
+   */
+  async storeSourceHealth(health: Omit<SourceHealthDocument, '_id'>): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    try {
+      await this.getDataLayer().upsertSourceHealth(health);
+    } catch (error) {
+      logger.warn('Failed to store source health in database', {
+        source: health.source,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Record which sources are configured, so health reports cover sources that have not run yet.
+   * With `exclusive`, sources missing from the list are marked no longer configured.
+   */
+  async registerSources(
+    sources: Array<{ source: string; freshnessSlaHours: number }>,
+    options: { exclusive?: boolean } = {}
+  ): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    try {
+      await this.getDataLayer().setConfiguredSources(sources, options);
+    } catch (error) {
+      logger.warn('Failed to register sources in database', {
+        sources: sources.length,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Record that a source is no longer configured
+   */
+  async unregisterSource(source: string): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    try {
+      await this.getDataLayer().unsetConfiguredSource(source);
+    } catch (error) {
+      logger.warn('Failed to unregister source in database', {
+        source,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Get the probe requests waiting to be run, oldest first
+   */
+  async getQueuedProbes(): Promise<ProbeRequestDocument[]> {
+    if (!this.isEnabled()) {
+      throw new Error('Database not enabled');
+    }
+
+    return await this.getDataLayer().getQueuedProbes();
+  }
+
+  /**
+   * Record the progress of a probe request in the database
+   */
+  async updateProbe(
+    id: NonNullable<ProbeRequestDocument['_id']>,
+    update: Partial<Omit<ProbeRequestDocument, '_id' | 'source' | 'requestedAt'>>
+  ): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    try {
+      await this.getDataLayer().updateProbe(id, update);
+    } catch (error) {
+      logger.warn('Failed to update probe request in database', {
+        id: id.toString(),
+        status: update.status,
+        error: (error as Error).message
+      });
+    }
+  }
+
   /**
    * Get gigs from the database
    */
@@ -278,7 +503,7 @@ export class DatabaseManager {
     artist?: string;
     genre?: string;
     dateRange?: { start?: string; end?: string };
-    status?: 'scheduled' | 'cancelled' | 'postponed';
+    status?: 'scheduled' | 'cancelled' | 'postponed' | 'removed';
     search?: string;
     limit?: number;
     offset?: number;
@@ -301,7 +526,7 @@ export class DatabaseManager {
     artist?: string;
     genre?: string;
     dateRange?: { start?: string; end?: string };
-    status?: 'scheduled' | 'cancelled' | 'postponed';
+    status?: 'scheduled' | 'cancelled' | 'postponed' | 'removed';
     search?: string;
   } = {}): Promise<number> {
     if (!this.isEnabled()) {
@@ -7,9 +7,13 @@ export {
   DatabaseSchema,
   COLLECTIONS,
   type GigDocument,
+  type EventDocument,
+  type GigHistoryDocument,
   type PerformanceDocument,
   type ScraperRunDocument,
-  type ErrorLogDocument
+  type ErrorLogDocument,
+  type SourceHealthDocument,
+  type ProbeRequestDocument
 } from './schemas.js';
 
 export { 
@@ -1,5 +1,6 @@
-import { Db, Collection, CreateIndexesOptions, IndexSpecification, Document } from 'mongodb';
-import type { Gig } from '@gigateer/contracts';
+import { Db, Collection, CreateIndexesOptions, IndexSpecification, Document, ObjectId } from 'mongodb';
+import type { Gig, GigFieldChange, RunQualityProfile, BlockedRequest, ScraperErrorClass, SourceHealth, EventSourceLink } from '@gigateer/contracts';
+import { OVERRIDES_COLLECTION, type DedupeOverrideDocument } from '@gigateer/dedupe';
 import { logger as baseLogger } from '../logger.js';
 
 const logger = baseLogger.child({ component: 'database-schemas' });
@@ -33,6 +34,35 @@ export interface GigDocument extends Omit<Gig, 'id' | 'dateStart' | 'dateEnd' |
   };
 }
 
+/**
+ * Canonical event document - one per show, merged from the gigs of every source listing it
+ */
+export interface EventDocument extends Omit<GigDocument, 'gigId' | '_meta'> {
+  /** Canonical event ID */
+  eventId: string;
+  /** Gigs linked to the event, most trusted source first */
+  sources: Array<Omit<EventSourceLink, 'linkedAt'> & { linkedAt: Date }>;
+}
+
+/**
+ * Gig change history document - one per gig per run that changed it
+ */
+export interface GigHistoryDocument {
+  _id?: string;
+  /** Gig ID after the change */
+  gigId: string;
+  /** Gig ID before the change, when the change moved the gig to a new ID */
+  previousGigId?: string;
+  /** Source name */
+  source: string;
+  /** When the change was detected */
+  changedAt: Date;
+  /** Field-level changes */
+  changes: GigFieldChange[];
+  /** Ingestion batch that detected the change */
+  batchId?: string;
+}
+
 /**
  * Performance metrics document for tracking scraper performance
  */
@@ -62,6 +92,8 @@ export interface PerformanceDocument {
     gigCount?: number;
     /** Error count if any */
     errorCount?: number;
+    /** Shape of the gigs the run returned, used as anomaly detection history */
+    profile?: RunQualityProfile;
   };
 }
 
@@ -86,8 +118,26 @@ export interface ScraperRunDocument {
     newCount: number;
     /** Number of updated gigs */
     updatedCount: number;
+    /** Number of gigs flagged as removed */
+    removedCount?: number;
+    /** Number of gigs missing but still within the removal grace period */
+    missingCount?: number;
+    /** Whether removal detection was skipped because the run returned too few gigs */
+    removalGuardTriggered?: boolean;
+    /** Shape of the gigs the run returned */
+    profile?: RunQualityProfile;
+    /** How the run deviated from the source's baseline */
+    anomalies?: string[];
+    /** Whether the run was discarded for looking anomalous */
+    anomalyRejected?: boolean;
+    /** Whether the source's listing was unchanged, so its data was kept */
+    unchanged?: boolean;
+    /** URLs the scraper skipped because robots.txt disallows them */
+    blocked?: BlockedRequest[];
     /** Number of errors */
     errorCount: number;
+    /** What kind of failure stopped the run */
+    errorClass?: ScraperErrorClass;
     /** Whether run was successful */
     success: boolean;
     /** Duration in milliseconds */
@@ -103,8 +153,11 @@ export interface ScraperRunDocument {
     totalGigs: number;
     totalNew: number;
     totalUpdated: number;
+    totalRemoved?: number;
+    unchangedSources?: number;
     totalErrors: number;
     totalDuration: number;
+    wallClockDuration?: number;
   };
 }
 
@@ -131,14 +184,48 @@ export interface ErrorLogDocument {
   resolutionNotes?: string;
 }
 
+/**
+ * Source health document - one per source, updated after each of its runs
+ */
+export interface SourceHealthDocument extends Omit<SourceHealth, 'lastRunAt' | 'lastSuccessAt' | 'lastFailureAt' | 'recentCounts' | 'updatedAt'> {
+  _id?: string;
+  lastRunAt?: Date;
+  lastSuccessAt?: Date;
+  lastFailureAt?: Date;
+  recentCounts: Array<{ at: Date; count: number }>;
+  updatedAt: Date;
+}
+
+/**
+ * Request for the scheduler daemon to run a source outside its schedule
+ */
+export interface ProbeRequestDocument {
+  _id?: ObjectId;
+  source: string;
+  requestedAt: Date;
+  /** Queued until the daemon picks it up; rejected when the source can't run */
+  status: 'queued' | 'running' | 'completed' | 'rejected';
+  startedAt?: Date;
+  finishedAt?: Date;
+  /** Whether the probe run succeeded */
+  success?: boolean;
+  /** Why the probe was rejected or failed */
+  reason?: string;
+}
+
 /**
  * Collection names as constants
  */
 export const COLLECTIONS = {
   GIGS: 'gigs',
+  EVENTS: 'events',
+  GIG_HISTORY: 'gig_history',
   PERFORMANCE_METRICS: 'performance_metrics',
   SCRAPER_RUNS: 'scraper_runs',
-  ERROR_LOGS: 'error_logs'
+  ERROR_LOGS: 'error_logs',
+  SOURCE_HEALTH: 'source_health',
+  PROBE_REQUESTS: 'probe_requests',
+  DEDUPE_OVERRIDES: OVERRIDES_COLLECTION
 } as const;
 
 /**
@@ -197,6 +284,15 @@ export class DatabaseSchema {
     // Gigs collection indexes
     await this.createGigsIndexes();
     
+    // Canonical event indexes
+    await this.createEventsIndexes();
+    
+    // Dedupe override indexes
+    await this.createDedupeOverridesIndexes();
+    
+    // Gig history indexes
+    await this.createGigHistoryIndexes();
+    
     // Performance metrics indexes
     await this.createPerformanceIndexes();
     
@@ -205,6 +301,9 @@ export class DatabaseSchema {
     
     // Error logs indexes
     await this.createErrorLogsIndexes();
+    
+    // Source health and probe request indexes
+    await this.createSourceHealthIndexes();
   }
 
   /**
@@ -305,6 +404,70 @@ export class DatabaseSchema {
     await this.createIndexesForCollection(collection, indexes);
   }
 
+  /**
+   * Create indexes for the canonical events collection
+   */
+  private async createEventsIndexes(): Promise<void> {
+    await this.createIndexesForCollection(this.db.collection<EventDocument>(COLLECTIONS.EVENTS), [
+      {
+        spec: { eventId: 1 },
+        options: { unique: true, background: true },
+        name: 'eventId_unique'
+      },
+      {
+        spec: { 'sources.gigId': 1 },
+        options: { background: true },
+        name: 'sources_gigId'
+      },
+      {
+        spec: { 'sources.source': 1, dateStart: 1 },
+        options: { background: true },
+        name: 'sources_source_dateStart'
+      },
+      {
+        spec: { status: 1, dateStart: 1 },
+        options: { background: true },
+        name: 'status_dateStart'
+      },
+      {
+        spec: { 'venue.city': 1, dateStart: 1 },
+        options: { background: true },
+        name: 'city_dateStart'
+      }
+    ]);
+  }
+
+  /**
+   * Create indexes for the gig history collection
+   */
+  private async createGigHistoryIndexes(): Promise<void> {
+    const collection = this.db.collection<GigHistoryDocument>(COLLECTIONS.GIG_HISTORY);
+    
+    const indexes: Array<{
+      spec: IndexSpecification;
+      options?: CreateIndexesOptions;
+      name: string;
+    }> = [
+      {
+        spec: { gigId: 1, changedAt: -1 },
+        options: { background: true },
+        name: 'gigId_changedAt'
+      },
+      {
+        spec: { source: 1, changedAt: -1 },
+        options: { background: true },
+        name: 'source_changedAt'
+      },
+      {
+        spec: { 'changes.field': 1, changedAt: -1 },
+        options: { background: true },
+        name: 'field_changedAt'
+      }
+    ];
+
+    await this.createIndexesForCollection(collection, indexes);
+  }
+
   /**
    * Create indexes for performance metrics collection
    */
@@ -413,6 +576,50 @@ export class DatabaseSchema {
     await this.createIndexesForCollection(collection, indexes);
   }
 
+  /**
+   * Create indexes for the manual merge and split overrides collection
+   */
+  private async createDedupeOverridesIndexes(): Promise<void> {
+    await this.createIndexesForCollection(this.db.collection<DedupeOverrideDocument>(COLLECTIONS.DEDUPE_OVERRIDES), [
+      {
+        spec: { id: 1 },
+        options: { unique: true, background: true },
+        name: 'overrideId_unique'
+      },
+      {
+        spec: { keys: 1 },
+        options: { background: true },
+        name: 'keys'
+      }
+    ]);
+  }
+
+  /**
+   * Create indexes for the source health and probe request collections
+   */
+  private async createSourceHealthIndexes(): Promise<void> {
+    await this.createIndexesForCollection(this.db.collection<SourceHealthDocument>(COLLECTIONS.SOURCE_HEALTH), [
+      {
+        spec: { source: 1 },
+        options: { unique: true, background: true },
+        name: 'source_unique'
+      }
+    ]);
+
+    await this.createIndexesForCollection(this.db.collection<ProbeRequestDocument>(COLLECTIONS.PROBE_REQUESTS), [
+      {
+        spec: { status: 1, requestedAt: 1 },
+        options: { background: true },
+        name: 'status_requestedAt'
+      },
+      {
+        spec: { source: 1, requestedAt: -1 },
+        options: { background: true },
+        name: 'source_requestedAt'
+      }
+    ]);
+  }
+
   /**
    * Helper method to create indexes for a collection
    */
@@ -449,6 +656,14 @@ export class DatabaseSchema {
     return this.db.collection<GigDocument>(COLLECTIONS.GIGS);
   }
 
+  getEventsCollection(): Collection<EventDocument> {
+    return this.db.collection<EventDocument>(COLLECTIONS.EVENTS);
+  }
+
+  getGigHistoryCollection(): Collection<GigHistoryDocument> {
+    return this.db.collection<GigHistoryDocument>(COLLECTIONS.GIG_HISTORY);
+  }
+
   getPerformanceCollection(): Collection<PerformanceDocument> {
     return this.db.collection<PerformanceDocument>(COLLECTIONS.PERFORMANCE_METRICS);
   }
@@ -460,4 +675,16 @@ export class DatabaseSchema {
   getErrorLogsCollection(): Collection<ErrorLogDocument> {
     return this.db.collection<ErrorLogDocument>(COLLECTIONS.ERROR_LOGS);
   }
+
+  getSourceHealthCollection(): Collection<SourceHealthDocument> {
+    return this.db.collection<SourceHealthDocument>(COLLECTIONS.SOURCE_HEALTH);
+  }
+
+  getProbeRequestsCollection(): Collection<ProbeRequestDocument> {
+    return this.db.collection<ProbeRequestDocument>(COLLECTIONS.PROBE_REQUESTS);
+  }
+
+  getDedupeOverridesCollection(): Collection<DedupeOverrideDocument> {
+    return this.db.collection<DedupeOverrideDocument>(COLLECTIONS.DEDUPE_OVERRIDES);
+  }
 }
\ No newline at end of file
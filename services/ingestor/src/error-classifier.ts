@@ -0,0 +1,41 @@
+import { NetworkError, ParseError, RateLimitError, ScraperError } from "@gigateer/scraper";
+import type { ScraperErrorClass } from "@gigateer/contracts";
+
+// Low-level failures from fetch, Node sockets and Playwright navigation that aren't wrapped in a NetworkError
+const NETWORK_FAILURE = /fetch failed|socket hang up|net::ERR_|ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|ETIMEDOUT|EPIPE/;
+
+/**
+ * Works out what kind of failure an error thrown by a run is. Scraper error classes decide
+ * it where plugins use them; otherwise timeouts and low-level network failures are
+ * recognised by name and message, and anything else is unknown.
+ */
+export function classifyError(error: unknown): ScraperErrorClass {
+  if (error instanceof RateLimitError) return "rate-limit";
+  if (error instanceof NetworkError) return "network";
+  if (error instanceof ParseError) return "parse";
+
+  if (!(error instanceof Error)) return "unknown";
+
+  // Playwright, AbortSignal.timeout() and the ingestor's source timeout all name their errors TimeoutError
+  if (error.name === "TimeoutError") return "timeout";
+
+  const code = (error as NodeJS.ErrnoException).code;
+  if (NETWORK_FAILURE.test(error.message) || (code && NETWORK_FAILURE.test(code))) return "network";
+
+  const cause = error instanceof ScraperError ? error.originalError : (error as { cause?: unknown }).cause;
+  return cause ? classifyError(cause) : "unknown";
+}
+
+/**
+ * Whether a failure of this kind is likely to go away if the run is tried again shortly
+ */
+export function isTransient(errorClass: ScraperErrorClass | undefined): boolean {
+  return errorClass === "network" || errorClass === "rate-limit" || errorClass === "timeout";
+}
+
+/**
+ * How long a rate limited site asked to be left alone, in milliseconds
+ */
+export function getRetryAfter(error: unknown): number | undefined {
+  return error instanceof RateLimitError ? error.retryAfter : undefined;
+}
@@ -1,6 +1,6 @@
 import { promises as fs } from "fs";
 import { join, dirname } from "path";
-import type { Gig, ScraperRunStats } from "@gigateer/contracts";
+import type { Gig, ListingFingerprint, RunQualityProfile, ScraperErrorClass, ScraperRunStats } from "@gigateer/contracts";
 import type { Logger } from "./logger.js";
 
 export interface DetailedRunLog {
@@ -14,8 +14,14 @@ export interface DetailedRunLog {
     totalGigs: number;
     totalNew: number;
     totalUpdated: number;
+    totalRemoved: number;
+    /** Sources whose listing hadn't changed since their last run */
+    unchangedSources?: number;
     totalErrors: number;
+    /** Sum of every source's duration */
     totalDuration: number;
+    /** Elapsed time of the whole run; less than totalDuration when sources run in parallel */
+    wallClockDuration?: number;
   };
   scheduler?: {
     uptime: number;
@@ -35,9 +41,21 @@ export interface PerformanceMetrics {
     totalDuration: number;
     memoryUsage: NodeJS.MemoryUsage;
     gigThroughput: number; // gigs per second
+    profile?: RunQualityProfile;
   };
 }
 
+/**
+ * A source the scheduler stopped running after repeated failures
+ */
+export interface PausedSource {
+  source: string;
+  pausedAt: string;
+  consecutiveFailures: number;
+  errorClass?: ScraperErrorClass;
+  lastError?: string;
+}
+
 export class FileManager {
   private readonly rawDataDir: string;
   private readonly normalizedDataDir: string;
@@ -173,6 +191,67 @@ export class FileManager {
     }
   }
 
+  /**
+   * Saves the listing fingerprint of a source's last full run
+   */
+  async saveListingFingerprint(source: string, fingerprint: ListingFingerprint): Promise<void> {
+    const filePath = join(this.rawDataDir, `${source}.fingerprint.json`);
+    await this.ensureDir(dirname(filePath));
+
+    const jsonData = {
+      source,
+      savedAt: new Date().toISOString(),
+      fingerprint,
+    };
+
+    await fs.writeFile(filePath, JSON.stringify(jsonData, null, 2), "utf8");
+  }
+
+  /**
+   * Loads the listing fingerprint of a source's last full run, with when it was saved
+   */
+  async loadListingFingerprint(source: string): Promise<{ savedAt: string; fingerprint: ListingFingerprint } | null> {
+    const filePath = join(this.rawDataDir, `${source}.fingerprint.json`);
+
+    try {
+      const content = await fs.readFile(filePath, "utf8");
+      const parsed = JSON.parse(content);
+      return parsed.fingerprint ? { savedAt: parsed.savedAt, fingerprint: parsed.fingerprint } : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Loads the sources paused by the scheduler's circuit breaker, by source name
+   */
+  async loadPausedSources(): Promise<Record<string, PausedSource>> {
+    try {
+      const content = await fs.readFile(join(this.rawDataDir, "paused-sources.json"), "utf8");
+      return JSON.parse(content);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Saves the sources paused by the scheduler's circuit breaker. The file is replaced whole,
+   * so a reader in another process never sees it half written.
+   */
+  async savePausedSources(paused: Record<string, PausedSource>): Promise<void> {
+    const filePath = join(this.rawDataDir, "paused-sources.json");
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await this.ensureDir(this.rawDataDir);
+    await fs.writeFile(tempPath, JSON.stringify(paused, null, 2), "utf8");
+    await fs.rename(tempPath, filePath);
+  }
+
   /**
    * Lists all available normalized data sources
    */
@@ -2,7 +2,8 @@ import { join } from "path";
 import type { ScraperPlugin } from "@gigateer/contracts";
 import type { Logger } from "./logger.js";
 import { PluginLoader } from "./plugin-loader.js";
-import { ConfigDrivenPluginLoader } from "./config-driven-plugin-loader.js";
+import { ConfigDrivenPluginLoader, type ConfigChange } from "./config-driven-plugin-loader.js";
+import type { BrowserPool } from "./browser-pool.js";
 
 /**
  * Hybrid plugin loader that combines traditional TypeScript plugins with configuration-driven plugins
@@ -16,10 +17,12 @@ export class HybridPluginLoader {
   constructor(
     pluginDir: string,
     configDir: string,
-    private readonly logger: Logger
+    private readonly logger: Logger,
+    browserPool?: BrowserPool,
+    followUpCacheDir?: string
   ) {
     this.traditionalLoader = new PluginLoader(pluginDir, logger);
-    this.configDrivenLoader = new ConfigDrivenPluginLoader(configDir, logger);
+    this.configDrivenLoader = new ConfigDrivenPluginLoader(configDir, logger, browserPool, followUpCacheDir);
   }
 
   /**
@@ -153,6 +156,27 @@ export class HybridPluginLoader {
     await this.loadPlugins();
   }
 
+  /**
+   * Applies a change to one scraper config file without reloading the rest.
+   * Removing a config that overrode a traditional plugin brings the traditional one back.
+   */
+  async reloadConfig(filename: string): Promise<ConfigChange | null> {
+    const change = await this.configDrivenLoader.reloadConfig(filename);
+
+    if (change?.type === "added" || change?.type === "replaced") {
+      this.plugins.set(change.source, change.plugin);
+    } else if (change?.type === "removed") {
+      const traditional = this.traditionalLoader.getPlugin(change.source);
+      if (traditional) {
+        this.plugins.set(change.source, traditional);
+        return { type: "replaced", source: change.source, plugin: traditional };
+      }
+      this.plugins.delete(change.source);
+    }
+
+    return change;
+  }
+
   /**
    * Get configuration-driven loader for direct access
    */
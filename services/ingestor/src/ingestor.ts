@@ -1,19 +1,54 @@
+import { promises as fs } from "fs";
 import { join } from "path";
-import type { Gig, ScraperRunStats, IngestorConfig } from "@gigateer/contracts";
+import type { Gig, ScraperPlugin, ScraperRunStats, IngestorConfig, RunQualityProfile, BlockedRequest, FetchRawOptions, ListingFingerprint } from "@gigateer/contracts";
 import { GigSchema } from "@gigateer/contracts";
 import { logger as defaultLogger, type Logger } from "./logger.js";
-import { FileManager, type DetailedRunLog, type PerformanceMetrics } from "./file-manager.js";
+import { FileManager, type DetailedRunLog, type PausedSource, type PerformanceMetrics } from "./file-manager.js";
 import { ChangeDetector } from "./change-detector.js";
+import { AnomalyDetector, DEFAULT_ANOMALY_DETECTION, profileGigs, type AnomalyDetectionOptions } from "./anomaly-detector.js";
 import { RateLimiter } from "./rate-limiter.js";
+import { buildQualityReport, withSourceReport, QUALITY_REPORT_FILE, type QualityReportFile, type SourceQualityReport } from "./quality-report.js";
 import { HybridPluginLoader } from "./hybrid-plugin-loader.js";
-import { DatabaseManager } from "./database/index.js";
+import type { ConfigChange } from "./config-driven-plugin-loader.js";
+import { DatabaseManager, type ProbeRequestDocument } from "./database/index.js";
+import { BrowserPool } from "./browser-pool.js";
+import { classifyError, getRetryAfter } from "./error-classifier.js";
+import { freshnessSlaFor, nextSourceHealth } from "./source-health.js";
+import { trustScoreFor } from "./source-settings.js";
+import { DEFAULT_TRUST_POLICY, loadTrustPolicy, type TrustPolicy } from "@gigateer/dedupe";
+
+export const DEFAULT_CONCURRENCY: NonNullable<IngestorConfig["concurrency"]> = {
+  maxConcurrentSources: 3,
+  maxConcurrentPerHost: 1,
+  sourceTimeoutMs: 5 * 60 * 1000,
+  browserPoolSize: 2,
+};
+
+export const DEFAULT_FINGERPRINT_MAX_AGE_HOURS = 24;
+
+/**
+ * How far a source's run has got, reported each time it moves on to another stage
+ */
+export interface IngestProgress {
+  phase: "fetching" | "normalizing" | "validating" | "saving";
+  rawCount?: number;
+  normalizedCount?: number;
+}
 
 export class Ingestor {
   private fileManager: FileManager;
   private changeDetector: ChangeDetector;
+  private anomalyDetector: AnomalyDetector;
   private rateLimiter: RateLimiter;
   private pluginLoader: HybridPluginLoader;
   private databaseManager: DatabaseManager;
+  private browserPool: BrowserPool;
+  private readonly concurrency: NonNullable<IngestorConfig["concurrency"]>;
+  private readonly anomalyOptions: AnomalyDetectionOptions;
+  private readonly fingerprintMaxAgeMs: number;
+  private readonly configDir = join(process.cwd(), "data/scraper-configs");
+  private qualityReportUpdates: Promise<void> = Promise.resolve();
+  private pausedSourcesUpdates: Promise<unknown> = Promise.resolve();
   
   constructor(
     private readonly config: IngestorConfig,
@@ -25,58 +60,182 @@ export class Ingestor {
       this.logger,
       config.logDir
     );
-    this.changeDetector = new ChangeDetector(this.logger);
+    this.changeDetector = new ChangeDetector(this.logger, config.removalDetection);
+    this.anomalyOptions = { ...DEFAULT_ANOMALY_DETECTION, ...config.anomalyDetection };
+    this.anomalyDetector = new AnomalyDetector(this.logger, this.anomalyOptions);
+    this.fingerprintMaxAgeMs = (config.fingerprintMaxAgeHours ?? DEFAULT_FINGERPRINT_MAX_AGE_HOURS) * 60 * 60 * 1000;
     this.rateLimiter = new RateLimiter(this.logger);
+    this.concurrency = { ...DEFAULT_CONCURRENCY, ...config.concurrency };
+    this.browserPool = new BrowserPool(this.concurrency.browserPoolSize, this.logger);
     this.pluginLoader = new HybridPluginLoader(
       join(process.cwd(), "src/plugins"),
-      join(process.cwd(), "data/scraper-configs"),
-      this.logger
+      this.configDir,
+      this.logger,
+      this.browserPool,
+      join(config.dataDir, "cache", "follow-ups")
     );
     this.databaseManager = DatabaseManager.fromEnvironment();
   }
 
   /**
-   * Initializes the ingestor by loading all plugins and connecting to database
+   * Initializes the ingestor by loading all plugins and connecting to database.
+   * The loaded sources are recorded as the configured ones for health reports.
    */
   async initialize(): Promise<void> {
     await this.pluginLoader.loadPlugins();
     await this.databaseManager.initialize();
+
+    const sources = [...this.pluginLoader.getAllPlugins()].map(([source, plugin]) => ({
+      source,
+      freshnessSlaHours: freshnessSlaFor(plugin.upstreamMeta, this.config),
+    }));
+    await this.databaseManager.registerSources(sources, { exclusive: true });
+  }
+
+  /**
+   * Directory the scraper configs are loaded from
+   */
+  getConfigDir(): string {
+    return this.configDir;
   }
 
   /**
-   * Runs ingestion for all sources
+   * Picks up a change to one scraper config file; later runs of the source use the new version
+   */
+  async reloadSourceConfig(filename: string): Promise<ConfigChange | null> {
+    const change = await this.pluginLoader.reloadConfig(filename);
+
+    if (change?.type === "added" || change?.type === "replaced") {
+      const freshnessSlaHours = freshnessSlaFor(change.plugin.upstreamMeta, this.config);
+      await this.databaseManager.registerSources([{ source: change.source, freshnessSlaHours }]);
+    } else if (change?.type === "removed") {
+      await this.databaseManager.unregisterSource(change.source);
+    }
+    return change;
+  }
+
+  /**
+   * Runs of sources requested from outside the daemon, oldest first; none without a database
+   */
+  async getQueuedProbes(): Promise<ProbeRequestDocument[]> {
+    if (!this.databaseManager.isEnabled()) {
+      return [];
+    }
+    return this.databaseManager.getQueuedProbes();
+  }
+
+  /**
+   * Records how far a requested run has got
+   */
+  async updateProbe(
+    probe: ProbeRequestDocument,
+    update: Parameters<DatabaseManager["updateProbe"]>[1]
+  ): Promise<void> {
+    if (probe._id) {
+      await this.databaseManager.updateProbe(probe._id, update);
+    }
+  }
+
+  /**
+   * Sources the scheduler has paused after repeated failures
+   */
+  async getPausedSources(): Promise<Record<string, PausedSource>> {
+    return this.fileManager.loadPausedSources();
+  }
+
+  /**
+   * Records that the scheduler paused a source, in the error log as well as the paused list
+   */
+  async pauseSource(paused: PausedSource): Promise<void> {
+    await this.updatePausedSources(sources => {
+      sources[paused.source] = paused;
+      return true;
+    });
+
+    const message = `Paused scheduled runs after ${paused.consecutiveFailures} consecutive failures`;
+    const context = { errorClass: paused.errorClass, lastError: paused.lastError };
+    await this.fileManager.saveErrorLog({
+      timestamp: paused.pausedAt,
+      source: paused.source,
+      error: message,
+      context,
+      severity: 'critical',
+    });
+    await this.databaseManager.storeErrorLog(paused.source, message, context, 'critical');
+  }
+
+  /**
+   * Lets the scheduler run a paused source again. Returns the pause that was lifted, if any.
+   */
+  async resumeSource(source: string): Promise<PausedSource | null> {
+    let paused: PausedSource | null = null;
+    await this.updatePausedSources(sources => {
+      paused = sources[source] ?? null;
+      delete sources[source];
+      return paused !== null;
+    });
+    return paused;
+  }
+
+  /**
+   * Reads, changes and saves the paused sources one update at a time, so sources tripping
+   * the circuit breaker together, or a trip racing a resume, don't lose each other's entries
+   * @param update Changes the paused sources in place; returns whether to save them
+   */
+  private updatePausedSources(update: (sources: Record<string, PausedSource>) => boolean): Promise<void> {
+    const updated = this.pausedSourcesUpdates.then(async () => {
+      const sources = await this.fileManager.loadPausedSources();
+      if (update(sources)) {
+        await this.fileManager.savePausedSources(sources);
+      }
+    });
+    // A failed update is reported to its caller and doesn't hold up the ones queued after it
+    this.pausedSourcesUpdates = updated.catch(() => undefined);
+    return updated;
+  }
+
+  /**
+   * Runs ingestion for all sources, a bounded number at a time.
+   * Sources on the same host share a tighter limit so one site isn't hit by several scrapes at once.
    */
   async ingestAll(): Promise<ScraperRunStats[]> {
     const pluginNames = this.pluginLoader.getPluginNames();
-    const results: ScraperRunStats[] = [];
+    const runStartTime = Date.now();
 
-    this.logger.info({ sources: pluginNames }, "Starting ingestion for all sources");
+    this.logger.info(
+      { sources: pluginNames, maxConcurrentSources: this.concurrency.maxConcurrentSources },
+      "Starting ingestion for all sources"
+    );
 
-    for (const source of pluginNames) {
-      try {
-        const result = await this.ingestSource(source);
-        results.push(result);
-      } catch (error) {
-        this.logger.error(
-          { source, error: (error as Error).message },
-          "Failed to ingest source"
-        );
-        
-        results.push({
-          source,
-          startTime: new Date().toISOString(),
-          endTime: new Date().toISOString(),
-          duration: 0,
-          rawCount: 0,
-          normalizedCount: 0,
-          newCount: 0,
-          updatedCount: 0,
-          errorCount: 1,
-          success: false,
-          errors: [(error as Error).message],
-        });
-      }
-    }
+    // Results keep plugin order whatever order the sources finish in
+    const results = await Promise.all(pluginNames.map(source =>
+      this.rateLimiter.scheduleConcurrent(`host:${this.getSourceHost(source)}`, this.concurrency.maxConcurrentPerHost, () =>
+        this.rateLimiter.scheduleConcurrent("ingest:all", this.concurrency.maxConcurrentSources, async () => {
+          try {
+            return await this.ingestSource(source);
+          } catch (error) {
+            this.logger.error(
+              { source, error: (error as Error).message },
+              "Failed to ingest source"
+            );
+            
+            return {
+              source,
+              startTime: new Date().toISOString(),
+              endTime: new Date().toISOString(),
+              duration: 0,
+              rawCount: 0,
+              normalizedCount: 0,
+              newCount: 0,
+              updatedCount: 0,
+              errorCount: 1,
+              success: false,
+              errors: [(error as Error).message],
+            };
+          }
+        })
+      )
+    ));
 
     // Save detailed run log
     const runLog: DetailedRunLog = {
@@ -90,8 +249,11 @@ export class Ingestor {
         totalGigs: results.reduce((sum, r) => sum + r.normalizedCount, 0),
         totalNew: results.reduce((sum, r) => sum + r.newCount, 0),
         totalUpdated: results.reduce((sum, r) => sum + r.updatedCount, 0),
+        totalRemoved: results.reduce((sum, r) => sum + (r.removedCount || 0), 0),
+        unchangedSources: results.filter(r => r.unchanged).length,
         totalErrors: results.reduce((sum, r) => sum + (r.errorCount || 0), 0),
         totalDuration: results.reduce((sum, r) => sum + (r.duration || 0), 0),
+        wallClockDuration: Date.now() - runStartTime,
       },
     };
     
@@ -103,9 +265,10 @@ export class Ingestor {
       normalizedCount: runLog.summary.totalGigs,
       newCount: runLog.summary.totalNew,
       updatedCount: runLog.summary.totalUpdated,
+      removedCount: runLog.summary.totalRemoved,
       errorCount: runLog.summary.totalErrors,
       success: runLog.summary.failedSources === 0,
-      duration: runLog.summary.totalDuration,
+      duration: runLog.summary.wallClockDuration ?? runLog.summary.totalDuration,
       errors: results.filter(r => !r.success).flatMap(r => r.errors || [])
     }, runLog.summary);
 
@@ -113,9 +276,13 @@ export class Ingestor {
   }
 
   /**
-   * Runs ingestion for a specific source
+   * Runs ingestion for a specific source, reporting each stage it reaches to onProgress
    */
-  async ingestSource(source: string, logType: 'ingest_source' | 'scheduled_run' | 'manual_trigger' = 'ingest_source'): Promise<ScraperRunStats> {
+  async ingestSource(
+    source: string,
+    logType: 'ingest_source' | 'scheduled_run' | 'manual_trigger' = 'ingest_source',
+    onProgress?: (progress: IngestProgress) => void
+  ): Promise<ScraperRunStats> {
     const overallStartTime = new Date();
     const performanceTimers = { fetch: 0, normalize: 0, validation: 0, save: 0 };
     
@@ -141,15 +308,29 @@ export class Ingestor {
         throw new Error(`Plugin not found for source: ${source}`);
       }
 
-      // Fetch raw data with rate limiting and timing
+      // Fetch raw data with rate limiting, timing and a timeout
+      onProgress?.({ phase: "fetching" });
+      const previousFingerprint = await this.loadListingFingerprint(source);
+      let fingerprint: ListingFingerprint | undefined;
       const fetchStartTime = Date.now();
       const rawData = await this.rateLimiter.schedule(
         source,
-        plugin.upstreamMeta.rateLimitPerMin,
-        () => plugin.fetchRaw()
+        this.config.sources?.[source]?.rateLimitPerMin ?? plugin.upstreamMeta.rateLimitPerMin,
+        () => this.fetchWithTimeout(source, plugin, stats, {
+          previousFingerprint,
+          onFingerprint: reported => { fingerprint = reported; }
+        })
       );
       performanceTimers.fetch = Date.now() - fetchStartTime;
 
+      // The listing is what the last full run saw, so its data still stands
+      if (previousFingerprint && fingerprint?.hash === previousFingerprint.hash) {
+        stats.unchanged = true;
+        stats.success = true;
+        this.logger.info({ source, logType, fetchMs: performanceTimers.fetch }, "Source unchanged since last run, keeping previous data");
+        return stats;
+      }
+
       stats.rawCount = rawData.length;
       this.logger.info({ source, count: rawData.length, fetchMs: performanceTimers.fetch }, "Fetched raw data");
 
@@ -157,6 +338,7 @@ export class Ingestor {
       await this.fileManager.saveRawData(source, rawData);
 
       // Normalize data with timing
+      onProgress?.({ phase: "normalizing", rawCount: stats.rawCount });
       const normalizeStartTime = Date.now();
       const normalizedGigs = await plugin.normalize(rawData);
       performanceTimers.normalize = Date.now() - normalizeStartTime;
@@ -164,6 +346,7 @@ export class Ingestor {
       stats.normalizedCount = normalizedGigs.length;
 
       // Validate normalized data with timing
+      onProgress?.({ phase: "validating", rawCount: stats.rawCount, normalizedCount: stats.normalizedCount });
       const validationStartTime = Date.now();
       const validatedGigs = this.validateGigs(normalizedGigs, source);
       performanceTimers.validation = Date.now() - validationStartTime;
@@ -199,6 +382,36 @@ export class Ingestor {
         );
       }
 
+      // Compare the run with the source's recent history before it replaces anything
+      stats.profile = profileGigs(validatedGigs);
+      const anomalies = this.anomalyDetector.detect(source, stats.profile, await this.loadRunProfiles(source));
+
+      if (anomalies.length > 0) {
+        const rejected = this.anomalyOptions.rejectAnomalousRuns;
+        const message = `Run deviates from source baseline: ${anomalies.join('; ')}`;
+        const context = { anomalies, profile: stats.profile, rejected, logType };
+        stats.anomalies = anomalies;
+
+        await this.fileManager.saveErrorLog({
+          timestamp: new Date().toISOString(),
+          source,
+          error: message,
+          context,
+          severity: 'high',
+        });
+        await this.databaseManager.storeErrorLog(source, message, context, 'high');
+
+        if (rejected) {
+          stats.anomalyRejected = true;
+          // Most often the site's markup changed, so retrying soon won't help
+          stats.errorClass = 'parse';
+          stats.errorCount = (stats.errorCount || 0) + 1;
+          stats.errors?.push(`${message} (kept previous data)`);
+          this.logger.warn({ source, logType, anomalies }, "Rejected anomalous run, keeping previous data");
+          return stats;
+        }
+      }
+
       // Load previous normalized data for change detection
       const previousGigs = await this.fileManager.loadNormalizedData(source);
 
@@ -206,19 +419,55 @@ export class Ingestor {
       const changeResult = this.changeDetector.detectChanges(validatedGigs, previousGigs);
       stats.newCount = changeResult.newGigs.length;
       stats.updatedCount = changeResult.updatedGigs.length;
+      stats.removedCount = changeResult.removedGigs.length;
+      stats.missingCount = changeResult.missingGigs.length;
+      stats.removalGuardTriggered = changeResult.removalGuardTriggered;
+
+      if (changeResult.removalGuardTriggered) {
+        await this.fileManager.saveErrorLog({
+          timestamp: new Date().toISOString(),
+          source,
+          error: `Removal detection skipped: run returned ${validatedGigs.length} gigs`,
+          context: {
+            returnedGigs: validatedGigs.length,
+            missingGigs: changeResult.missingGigs.length,
+            logType
+          },
+          severity: 'medium',
+        });
+      }
 
       // Merge results and save with timing
+      onProgress?.({ phase: "saving", rawCount: stats.rawCount, normalizedCount: stats.normalizedCount });
       const saveStartTime = Date.now();
       const finalGigs = this.changeDetector.mergeResults(changeResult);
       
       // Save to file storage
       await this.fileManager.saveNormalizedData(source, finalGigs);
+      if (fingerprint) {
+        await this.fileManager.saveListingFingerprint(source, fingerprint);
+      }
       
       // Generate batch ID for this ingestion run
       const batchId = `${source}-${new Date().toISOString()}`;
       
       // Store in database if enabled
       await this.databaseManager.storeGigs(finalGigs, source, batchId);
+      await this.databaseManager.storeGigHistory(changeResult.history, batchId);
+
+      // Merge the run's gigs with the same shows listed by other sources
+      const changedIds = new Set(
+        [...changeResult.newGigs, ...changeResult.updatedGigs, ...changeResult.removedGigs].map(gig => gig.id)
+      );
+      const previousIds = new Map(
+        changeResult.history.flatMap(entry => entry.previousGigId ? [[entry.gigId, entry.previousGigId] as const] : [])
+      );
+      await this.databaseManager.linkEvents(finalGigs, source, {
+        changedIds,
+        previousIds,
+        trustScoreOf: name => this.trustScoreOf(name),
+        trustPolicy: await this.loadTrustPolicy(),
+      });
       
       performanceTimers.save = Date.now() - saveStartTime;
 
@@ -241,6 +490,7 @@ export class Ingestor {
             totalDuration,
             memoryUsage: process.memoryUsage(),
             gigThroughput,
+            profile: stats.profile,
           },
         };
         
@@ -256,7 +506,8 @@ export class Ingestor {
           memoryUsage: process.memoryUsage(),
           gigThroughput,
           gigCount: stats.normalizedCount,
-          errorCount: stats.errorCount || 0
+          errorCount: stats.errorCount || 0,
+          profile: stats.profile
         });
       } catch (error) {
         this.logger.warn({ error: (error as Error).message }, "Failed to save performance metrics");
@@ -270,6 +521,10 @@ export class Ingestor {
           normalized: stats.normalizedCount,
           new: stats.newCount,
           updated: stats.updatedCount,
+          removed: stats.removedCount,
+          missing: stats.missingCount,
+          removalGuardTriggered: stats.removalGuardTriggered,
+          anomalies: stats.anomalies,
           errors: stats.errorCount || 0,
           duration: totalDuration,
           gigThroughput: Math.round(gigThroughput * 100) / 100,
@@ -281,6 +536,8 @@ export class Ingestor {
       stats.errorCount = (stats.errorCount || 0) + 1;
       stats.errors?.push((error as Error).message);
       stats.success = false;
+      stats.errorClass = classifyError(error);
+      stats.retryAfterMs = getRetryAfter(error);
       
       // Log critical errors
       try {
@@ -291,6 +548,7 @@ export class Ingestor {
           stack: (error as Error).stack,
           context: { 
             logType,
+            errorClass: stats.errorClass,
             rawCount: stats.rawCount,
             normalizedCount: stats.normalizedCount
           },
@@ -303,6 +561,7 @@ export class Ingestor {
           (error as Error).message,
           { 
             logType,
+            errorClass: stats.errorClass,
             rawCount: stats.rawCount,
             normalizedCount: stats.normalizedCount
           },
@@ -314,7 +573,7 @@ export class Ingestor {
       }
       
       this.logger.error(
-        { source, logType, error: (error as Error).message },
+        { source, logType, errorClass: stats.errorClass, error: (error as Error).message },
         "Failed ingestion for source"
       );
     } finally {
@@ -329,16 +588,183 @@ export class Ingestor {
         normalizedCount: stats.normalizedCount,
         newCount: stats.newCount,
         updatedCount: stats.updatedCount,
+        removedCount: stats.removedCount,
+        missingCount: stats.missingCount,
+        removalGuardTriggered: stats.removalGuardTriggered,
+        profile: stats.profile,
+        anomalies: stats.anomalies,
+        anomalyRejected: stats.anomalyRejected,
+        unchanged: stats.unchanged,
+        blocked: stats.blocked,
         errorCount: stats.errorCount || 0,
+        errorClass: stats.errorClass,
         success: stats.success,
         duration: stats.duration,
         errors: stats.errors
       });
+
+      await this.recordSourceHealth(stats);
+      await this.updateQualityReport(source);
     }
 
     return stats;
   }
 
+  /**
+   * Brings the source's entry in the dashboard's quality report file up to date. Updates
+   * are queued so sources finishing together don't overwrite each other's entries.
+   */
+  private updateQualityReport(source: string): Promise<void> {
+    const reportPath = join(this.config.dataDir, QUALITY_REPORT_FILE);
+
+    this.qualityReportUpdates = this.qualityReportUpdates.then(async () => {
+      const [report] = await this.getQualityReport([source]);
+      const existing = await fs.readFile(reportPath, "utf8")
+        .then(content => JSON.parse(content) as QualityReportFile)
+        .catch(() => null);
+
+      const tempPath = `${reportPath}.tmp`;
+      await fs.mkdir(this.config.dataDir, { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(withSourceReport(existing, report), null, 2), "utf8");
+      await fs.rename(tempPath, reportPath);
+    }).catch(error => {
+      this.logger.warn({ source, error: (error as Error).message }, "Failed to update quality report");
+    });
+
+    return this.qualityReportUpdates;
+  }
+
+  /**
+   * Trust score a source's gigs are merged into canonical events with, if its settings
+   * declare one; otherwise the trust policy decides
+   */
+  private trustScoreOf(source: string): number | undefined {
+    const plugin = this.pluginLoader.getPlugin(source);
+    return plugin ? trustScoreFor(source, plugin.upstreamMeta, this.config) : undefined;
+  }
+
+  /**
+   * Per-field trust canonical events are merged with, read on every run so edits to the
+   * policy file apply without a restart
+   */
+  private async loadTrustPolicy(): Promise<TrustPolicy> {
+    const policyPath = join(this.config.dataDir, "trust-policy.json");
+    try {
+      return await loadTrustPolicy(policyPath);
+    } catch (error) {
+      this.logger.warn({ policyPath, error: (error as Error).message }, "Failed to load trust policy, using the default");
+      return DEFAULT_TRUST_POLICY;
+    }
+  }
+
+  /**
+   * Updates the source's health record with a finished run
+   */
+  private async recordSourceHealth(stats: ScraperRunStats): Promise<void> {
+    const plugin = this.pluginLoader.getPlugin(stats.source);
+    if (!plugin || !this.databaseManager.isEnabled()) {
+      return;
+    }
+
+    try {
+      const previous = await this.databaseManager.getSourceHealth(stats.source);
+      const freshnessSlaHours = freshnessSlaFor(plugin.upstreamMeta, this.config);
+      await this.databaseManager.storeSourceHealth(nextSourceHealth(previous, stats, freshnessSlaHours));
+    } catch (error) {
+      this.logger.warn({ source: stats.source, error: (error as Error).message }, "Failed to update source health");
+    }
+  }
+
+  /**
+   * Fetches from a plugin, aborting it once the source timeout passes. Plugins that ignore
+   * the signal are left to finish in the background, but the run no longer waits for them.
+   * URLs the plugin skips out of politeness are recorded in the run's stats.
+   */
+  private async fetchWithTimeout(
+    source: string,
+    plugin: ScraperPlugin,
+    stats: ScraperRunStats,
+    options: Pick<FetchRawOptions, 'previousFingerprint' | 'onFingerprint'> = {}
+  ): Promise<unknown[]> {
+    const controller = new AbortController();
+    const timeoutMs = this.concurrency.sourceTimeoutMs;
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(`Source ${source} timed out after ${timeoutMs}ms`);
+        error.name = "TimeoutError";
+        controller.abort(error);
+        reject(error);
+      }, timeoutMs);
+    });
+
+    try {
+      const onBlocked = (request: BlockedRequest) => {
+        this.logger.warn({ source, url: request.url, reason: request.reason }, "Skipped blocked URL");
+        (stats.blocked ??= []).push(request);
+      };
+
+      return await Promise.race([plugin.fetchRaw({ ...options, signal: controller.signal, onBlocked }), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * The listing fingerprint of a source's last full run, unless it is too old to skip another.
+   * Fingerprints only cover listing pages, so a full run now and then picks up detail page changes.
+   */
+  private async loadListingFingerprint(source: string): Promise<ListingFingerprint | undefined> {
+    try {
+      const saved = await this.fileManager.loadListingFingerprint(source);
+      if (saved && Date.now() - new Date(saved.savedAt).getTime() < this.fingerprintMaxAgeMs) {
+        return saved.fingerprint;
+      }
+    } catch (error) {
+      this.logger.warn({ source, error: (error as Error).message }, "Failed to load listing fingerprint");
+    }
+    return undefined;
+  }
+
+  /**
+   * Gig profiles of a source's recent saved runs, newest first. Read from the database when
+   * it is enabled, otherwise from the performance logs.
+   */
+  private async loadRunProfiles(source: string): Promise<RunQualityProfile[]> {
+    if (!this.anomalyOptions.enabled) {
+      return [];
+    }
+
+    try {
+      if (this.databaseManager.isEnabled()) {
+        return await this.databaseManager.getRunProfiles(source, this.anomalyOptions.baselineRuns);
+      }
+
+      const metrics = await this.fileManager.getPerformanceMetrics();
+      return metrics
+        .filter(metric => metric.source === source && metric.metrics.profile)
+        .reverse()
+        .slice(0, this.anomalyOptions.baselineRuns)
+        .map(metric => metric.metrics.profile!);
+    } catch (error) {
+      this.logger.warn({ source, error: (error as Error).message }, "Failed to load run history for anomaly detection");
+      return [];
+    }
+  }
+
+  /**
+   * Host a source scrapes, used to limit parallel scrapes of the same site
+   */
+  private getSourceHost(source: string): string {
+    const website = this.pluginLoader.getPlugin(source)?.upstreamMeta.website;
+    try {
+      return website ? new URL(website).hostname.replace(/^www\./, "") : source;
+    } catch {
+      return source;
+    }
+  }
+
   /**
    * Validates an array of gigs against the GigSchema
    */
@@ -394,6 +820,36 @@ export class Ingestor {
     return results;
   }
 
+  /**
+   * Reports field fill rates, dropped items, validation failures and suspicious values per source.
+   * The last raw fetch is run back through the source's normalize step to see what was lost.
+   */
+  async getQualityReport(sources?: string[]): Promise<SourceQualityReport[]> {
+    const names = sources ?? await this.fileManager.listNormalizedSources();
+    const reports: SourceQualityReport[] = [];
+
+    for (const source of names) {
+      const raw = await this.fileManager.loadRawData(source);
+      const catalog = await this.fileManager.loadNormalizedData(source) ?? [];
+      const plugin = this.pluginLoader.getPlugin(source);
+
+      let mapped: Gig[] = [];
+      let normalizeDropReason: string | undefined;
+      if (raw) {
+        try {
+          // Without its plugin a source's raw items are assumed to be gigs already
+          mapped = plugin ? await plugin.normalize(raw) : raw as Gig[];
+        } catch (error) {
+          normalizeDropReason = `normalize failed: ${(error as Error).message}`;
+        }
+      }
+
+      reports.push(buildQualityReport(source, { raw, mapped, normalizeDropReason, catalog }));
+    }
+
+    return reports;
+  }
+
   /**
    * Gets statistics about all sources
    */
@@ -497,6 +953,7 @@ export class Ingestor {
    */
   async cleanup(): Promise<void> {
     await this.rateLimiter.cleanup();
+    await this.browserPool.close();
     await this.databaseManager.cleanup();
   }
 }
\ No newline at end of file
@@ -0,0 +1,195 @@
+import type { Gig } from "@gigateer/contracts";
+import { GigSchema } from "@gigateer/contracts";
+
+/**
+ * Optional Gig fields whose fill rate is reported, as dotted paths
+ */
+export const QUALITY_FIELDS = [
+  "sourceId",
+  "artists",
+  "genre",
+  "tags",
+  "dateEnd",
+  "timezone",
+  "venue.address",
+  "venue.city",
+  "venue.country",
+  "venue.lat",
+  "venue.lng",
+  "price",
+  "ageRestriction",
+  "ticketsUrl",
+  "eventUrl",
+  "images",
+] as const;
+
+export type QualityField = typeof QUALITY_FIELDS[number];
+
+/**
+ * How complete and believable a source's data is
+ */
+export interface SourceQualityReport {
+  source: string;
+  /** Items in the source's last raw fetch */
+  rawCount: number;
+  /** Items left after the source's normalize step */
+  mappedCount: number;
+  /** Items that passed GigSchema */
+  validCount: number;
+  /** Gigs currently listed in the source's catalog */
+  gigCount: number;
+  /** Share of listed gigs (0-1) with each optional field filled in */
+  fillRates: Record<QualityField, number>;
+  /** Items that never became gigs, counted by reason */
+  dropped: { count: number; reasons: Record<string, number> };
+  /** Items rejected by GigSchema, counted by field and message */
+  validationFailures: { count: number; issues: Record<string, number> };
+  /** Listed gigs with values that are probably wrong */
+  suspicious: {
+    /** Start times of exactly midnight, usually a date parsed without its time */
+    midnightStarts: number;
+    /** Gigs that started before today */
+    pastDates: number;
+    /** Start dates that can't be parsed */
+    unparseableDates: number;
+    /** Gigs sharing their title with another gig, usually a selector matching a heading */
+    duplicateTitles: number;
+  };
+}
+
+/**
+ * The report file the ingestor keeps up to date in its data directory for the web dashboard
+ */
+export interface QualityReportFile {
+  generatedAt: string;
+  sources: SourceQualityReport[];
+}
+
+export const QUALITY_REPORT_FILE = "quality-report.json";
+
+/**
+ * Replaces one source's entry in a report file, keeping the other sources' entries
+ */
+export function withSourceReport(file: QualityReportFile | null, report: SourceQualityReport, now: Date = new Date()): QualityReportFile {
+  const sources = (file?.sources ?? []).filter(entry => entry.source !== report.source);
+  sources.push(report);
+  sources.sort((a, b) => a.source.localeCompare(b.source));
+  return { generatedAt: now.toISOString(), sources };
+}
+
+export interface QualityReportInput {
+  /** Items from the last raw fetch, or null if the source has none saved */
+  raw: unknown[] | null;
+  /** The raw items after the source's normalize step */
+  mapped: Partial<Gig>[];
+  /** Items the normalize step dropped without saying why */
+  normalizeDropReason?: string;
+  /** Gigs saved in the source's catalog */
+  catalog: Gig[];
+}
+
+function isFilled(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value && typeof value === "object") {
+    return Object.values(value).some(entry => entry !== null && entry !== undefined);
+  }
+  return value !== undefined && value !== null && value !== "";
+}
+
+function getPath(gig: object, path: string): unknown {
+  return path.split(".").reduce<any>((current, key) => current?.[key], gig);
+}
+
+function increment(counts: Record<string, number>, key: string): void {
+  counts[key] = (counts[key] || 0) + 1;
+}
+
+/**
+ * Why a mapped item can't become a gig, if it can't
+ */
+function getDropReason(item: Partial<Gig>): string | null {
+  if (!item.title || (typeof item.title === "string" && !item.title.trim())) return "missing title";
+  if (!item.dateStart) return "missing start date";
+  if (!item.venue?.name) return "missing venue name";
+  return null;
+}
+
+/**
+ * Builds a source's quality report from its last fetch and its current catalog
+ */
+export function buildQualityReport(source: string, input: QualityReportInput, now: Date = new Date()): SourceQualityReport {
+  const rawCount = input.raw?.length ?? 0;
+  const dropped: SourceQualityReport["dropped"] = { count: 0, reasons: {} };
+  const validationFailures: SourceQualityReport["validationFailures"] = { count: 0, issues: {} };
+  let validCount = 0;
+
+  if (input.mapped.length < rawCount) {
+    dropped.count += rawCount - input.mapped.length;
+    dropped.reasons[input.normalizeDropReason ?? "filtered out by normalize"] = rawCount - input.mapped.length;
+  }
+
+  for (const item of input.mapped) {
+    const reason = getDropReason(item);
+    if (reason) {
+      dropped.count++;
+      increment(dropped.reasons, reason);
+      continue;
+    }
+
+    const result = GigSchema.safeParse(item);
+    if (result.success) {
+      validCount++;
+      continue;
+    }
+
+    validationFailures.count++;
+    for (const issue of result.error.issues) {
+      increment(validationFailures.issues, `${issue.path.join(".") || "(gig)"}: ${issue.message}`);
+    }
+  }
+
+  const listed = input.catalog.filter(gig => gig.status !== "removed");
+  const fillRates = Object.fromEntries(QUALITY_FIELDS.map(field => [
+    field,
+    listed.length > 0 ? listed.filter(gig => isFilled(getPath(gig, field))).length / listed.length : 0,
+  ])) as Record<QualityField, number>;
+
+  const startOfToday = new Date(now);
+  startOfToday.setHours(0, 0, 0, 0);
+
+  const titleCounts: Record<string, number> = {};
+  listed.forEach(gig => increment(titleCounts, gig.title.trim().toLowerCase()));
+
+  const suspicious: SourceQualityReport["suspicious"] = {
+    midnightStarts: 0,
+    pastDates: 0,
+    unparseableDates: 0,
+    duplicateTitles: listed.filter(gig => titleCounts[gig.title.trim().toLowerCase()] > 1).length,
+  };
+
+  for (const gig of listed) {
+    const start = new Date(gig.dateStart);
+    if (isNaN(start.getTime())) {
+      suspicious.unparseableDates++;
+      continue;
+    }
+    if (/T00:00(:00(\.0+)?)?/.test(gig.dateStart)) {
+      suspicious.midnightStarts++;
+    }
+    if (new Date(gig.dateEnd ?? gig.dateStart) < startOfToday) {
+      suspicious.pastDates++;
+    }
+  }
+
+  return {
+    source,
+    rawCount,
+    mappedCount: input.mapped.length,
+    validCount,
+    gigCount: listed.length,
+    fillRates,
+    dropped,
+    validationFailures,
+    suspicious,
+  };
+}
@@ -3,6 +3,7 @@ import type { Logger } from "./logger.js";
 
 export class RateLimiter {
   private limiters: Map<string, Bottleneck> = new Map();
+  private concurrencyLimiters: Map<string, Bottleneck> = new Map();
   
   constructor(private readonly logger: Logger) {}
 
@@ -55,14 +56,32 @@ export class RateLimiter {
     return limiter.schedule(fn);
   }
 
+  /**
+   * Runs a function once fewer than `maxConcurrent` others sharing the same key are running.
+   * Unlike `schedule`, this bounds parallel work (e.g. sources per host) rather than request rate.
+   */
+  async scheduleConcurrent<T>(
+    key: string,
+    maxConcurrent: number,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    if (!this.concurrencyLimiters.has(key)) {
+      this.concurrencyLimiters.set(key, new Bottleneck({ maxConcurrent }));
+      this.logger.debug({ key, maxConcurrent }, "Created concurrency limiter");
+    }
+
+    return this.concurrencyLimiters.get(key)!.schedule(fn);
+  }
+
   /**
    * Cleans up all limiters
    */
   async cleanup(): Promise<void> {
-    const promises = Array.from(this.limiters.values()).map(limiter => 
+    const promises = [...this.limiters.values(), ...this.concurrencyLimiters.values()].map(limiter => 
       limiter.stop({ dropWaitingJobs: true })
     );
     await Promise.all(promises);
     this.limiters.clear();
+    this.concurrencyLimiters.clear();
   }
 }
\ No newline at end of file
@@ -1,9 +1,17 @@
 import * as cron from "node-cron";
 import { writeFileSync, readFileSync, unlinkSync, existsSync } from "fs";
 import { join } from "path";
-import type { IngestorConfig, ScraperRunStats } from "@gigateer/contracts";
-import { Ingestor } from "./ingestor.js";
+import type { IngestorConfig, ScraperErrorClass, ScraperPlugin, ScraperRunStats } from "@gigateer/contracts";
+import { Ingestor, type IngestProgress } from "./ingestor.js";
 import { logger, type Logger } from "./logger.js";
+import { ConfigWatcher } from "./config-watcher.js";
+import { resolveSourceSettings, isActiveOn, type SourceSettings } from "./source-settings.js";
+import { classifyError, isTransient } from "./error-classifier.js";
+
+export const DEFAULT_CIRCUIT_BREAKER_THRESHOLD = 5;
+export const DEFAULT_CONTROL_PORT = 4100;
+// How often the daemon checks for runs requested through the database
+const PROBE_POLL_INTERVAL_MS = 15_000;
 
 export interface ScheduleConfig {
   /** Whether to enable scheduled runs */
@@ -20,21 +28,65 @@ export interface ScheduleConfig {
   disabledSources?: string[];
   /** PID file path for daemon mode */
   pidFile?: string;
+  /** Reload scraper configs when their files change */
+  watchConfigs?: boolean;
+  /** Consecutive failed runs after which a source is paused until re-enabled (0 never pauses) */
+  circuitBreakerThreshold?: number;
+  /** Localhost port of the daemon's control API (0 disables it) */
+  controlPort?: number;
 }
 
+/**
+ * Live progress of a job's current run: the stage of the ingestion attempt under way,
+ * or when the next attempt starts while it waits to retry
+ */
+export interface JobProgress {
+  phase: IngestProgress["phase"] | 'retrying';
+  startedAt: Date;
+  attempt: number;
+  rawCount?: number;
+  normalizedCount?: number;
+  retryAt?: Date;
+}
+
+/**
+ * What a job's last finished run did
+ */
+export type JobRunResult = Pick<
+  ScraperRunStats,
+  'success' | 'duration' | 'rawCount' | 'normalizedCount' | 'newCount' | 'updatedCount' | 'removedCount' | 'unchanged' | 'errorClass'
+>;
+
 export interface ScheduledJob {
   source: string;
   schedule: string;
   task: cron.ScheduledTask;
   plugin: any;
+  /** The source's schedule, timezone, active windows and retry policy after overrides */
+  settings: SourceSettings;
+  /** Minutes the schedule is shifted by to stagger runs */
+  staggerOffset: number;
   lastRun?: Date;
   nextRun?: Date;
   runCount: number;
   errorCount: number;
+  /** Failed runs since the last successful one */
+  consecutiveFailures: number;
   lastError?: string;
-  status: 'scheduled' | 'running' | 'stopped' | 'error';
+  lastResult?: JobRunResult;
+  /** Set while the job is running */
+  progress?: JobProgress;
+  status: 'scheduled' | 'running' | 'stopped' | 'error' | 'paused';
 }
 
+/**
+ * A job as reported outside the scheduler, without its task and plugin
+ */
+export type JobSummary = Omit<ScheduledJob, 'task' | 'plugin' | 'settings' | 'staggerOffset'> & {
+  name: string;
+  timezone: string;
+};
+
 export interface SchedulerStatus {
   isRunning: boolean;
   startTime: Date;
@@ -42,7 +94,8 @@ export interface SchedulerStatus {
   runningJobs: number;
   stoppedJobs: number;
   errorJobs: number;
-  jobs: ScheduledJob[];
+  pausedJobs: number;
+  jobs: JobSummary[];
   uptime: number;
 }
 
@@ -52,6 +105,8 @@ export class Scheduler {
   private isRunning = false;
   private startTime?: Date;
   private healthCheckInterval?: NodeJS.Timeout;
+  private probePollInterval?: NodeJS.Timeout;
+  private configWatcher?: ConfigWatcher;
   
   constructor(
     private readonly ingestorConfig: IngestorConfig,
@@ -85,65 +140,50 @@ export class Scheduler {
 
     await this.ingestor.initialize();
     const plugins = this.ingestor["pluginLoader"].getAllPlugins();
-    
-    let staggerOffset = 0;
-    const staggerMinutes = this.scheduleConfig.staggerMinutes || 0;
 
     for (const [source, plugin] of plugins) {
+      const settings = this.getSettings(source, plugin);
+
       // Skip disabled sources
-      if (this.isSourceDisabled(source)) {
+      if (!settings.enabled) {
         this.logger.info({ source }, "Source disabled, skipping");
         continue;
       }
 
-      const schedule = plugin.upstreamMeta.defaultSchedule || this.scheduleConfig.defaultSchedule;
-      let adjustedSchedule = schedule;
-
-      // Apply development mode adjustments
-      if (this.scheduleConfig.mode === 'development') {
-        // In development, run more frequently for testing
-        adjustedSchedule = this.adjustScheduleForDevelopment(schedule);
-      }
-
-      // Apply stagger offset if configured
-      if (staggerMinutes > 0 && staggerOffset > 0) {
-        adjustedSchedule = this.adjustSchedule(adjustedSchedule, staggerOffset);
-      }
-
-      const task = cron.schedule(adjustedSchedule, async () => {
-        await this.runScheduledJob(source);
-      }, {
-        scheduled: false,
-        timezone: 'UTC',
-      });
-
-      const job: ScheduledJob = {
-        source,
-        schedule: adjustedSchedule,
-        task,
-        plugin,
-        runCount: 0,
-        errorCount: 0,
-        status: 'scheduled',
-      };
-
+      const job = this.createJob(source, plugin, settings);
       this.jobs.set(source, job);
-      staggerOffset += staggerMinutes;
 
       this.logger.info(
-        { source, schedule: adjustedSchedule, name: plugin.upstreamMeta.name },
+        { source, schedule: job.schedule, timezone: settings.timezone, name: plugin.upstreamMeta.name },
         "Scheduled plugin"
       );
     }
 
+    // Sources paused in an earlier run stay paused until re-enabled
+    const paused = await this.ingestor.getPausedSources();
+
     // Start all tasks
     for (const job of this.jobs.values()) {
+      if (paused[job.source]) {
+        job.status = 'paused';
+        this.logger.warn({ source: job.source, pausedAt: paused[job.source].pausedAt }, "Source paused by circuit breaker");
+      }
       job.task.start();
       job.nextRun = this.getNextRunTime(job.schedule);
     }
     
     // Start health check monitoring
     this.startHealthCheck();
+    this.startProbePolling();
+
+    if (this.scheduleConfig.watchConfigs) {
+      this.configWatcher = new ConfigWatcher(
+        this.ingestor.getConfigDir(),
+        filename => this.applyConfigChange(filename),
+        this.logger
+      );
+      this.configWatcher.start();
+    }
     
     this.logger.info(
       { taskCount: this.jobs.size, mode: this.scheduleConfig.mode },
@@ -166,6 +206,13 @@ export class Scheduler {
     if (this.healthCheckInterval) {
       clearInterval(this.healthCheckInterval);
     }
+    if (this.probePollInterval) {
+      clearInterval(this.probePollInterval);
+    }
+
+    // Stop picking up config changes
+    await this.configWatcher?.stop();
+    this.configWatcher = undefined;
     
     // Stop all cron jobs
     for (const job of this.jobs.values()) {
@@ -216,19 +263,19 @@ export class Scheduler {
       runningJobs: jobs.filter(job => job.status === 'running').length,
       stoppedJobs: jobs.filter(job => job.status === 'stopped').length,
       errorJobs: jobs.filter(job => job.status === 'error').length,
-      jobs: jobs.map(job => ({
-        source: job.source,
-        schedule: job.schedule,
-        lastRun: job.lastRun,
-        nextRun: job.nextRun,
-        runCount: job.runCount,
-        errorCount: job.errorCount,
-        lastError: job.lastError,
-        status: job.status,
-      })) as ScheduledJob[],
+      pausedJobs: jobs.filter(job => job.status === 'paused').length,
+      jobs: jobs.map(job => this.summarize(job)),
       uptime: this.startTime ? Date.now() - this.startTime.getTime() : 0,
     };
   }
+
+  /**
+   * Gets a single job's status, including the progress of a run under way
+   */
+  getJob(source: string): JobSummary | undefined {
+    const job = this.jobs.get(source);
+    return job && this.summarize(job);
+  }
   
   /**
    * Starts a specific source's scheduled job
@@ -245,6 +292,11 @@ export class Scheduler {
       return false;
     }
     
+    if (job.status === 'paused') {
+      this.logger.warn({ source }, "Source is paused by its circuit breaker; re-enable it with scheduler:reenable");
+      return false;
+    }
+    
     job.task.start();
     job.status = 'scheduled';
     job.nextRun = this.getNextRunTime(job.schedule);
@@ -271,6 +323,29 @@ export class Scheduler {
     return true;
   }
   
+  /**
+   * Resumes a job's scheduled runs, whether it was stopped or paused by its circuit breaker
+   */
+  async resumeSource(source: string): Promise<boolean> {
+    const job = this.jobs.get(source);
+    if (!job) {
+      this.logger.error({ source }, "Job not found");
+      return false;
+    }
+
+    if (job.status !== 'paused') {
+      return this.startSource(source);
+    }
+
+    await this.ingestor.resumeSource(source);
+    job.status = 'scheduled';
+    job.consecutiveFailures = 0;
+    job.nextRun = this.getNextRunTime(job.schedule);
+
+    this.logger.info({ source }, "Source re-enabled, resuming scheduled runs");
+    return true;
+  }
+  
   /**
    * Manually triggers a job run for a specific source
    */
@@ -286,6 +361,11 @@ export class Scheduler {
       return false;
     }
     
+    if (job.status === 'paused') {
+      this.logger.warn({ source }, "Source is paused by its circuit breaker; re-enable it with scheduler:reenable");
+      return false;
+    }
+    
     // Run the job immediately
     await this.runScheduledJob(source);
     return true;
@@ -297,7 +377,7 @@ export class Scheduler {
   getHealthStatus(): {
     overall: 'healthy' | 'warning' | 'critical';
     issues: Array<{
-      type: 'error' | 'stuck' | 'stale';
+      type: 'error' | 'stuck' | 'stale' | 'paused';
       source: string;
       message: string;
       timestamp: Date;
@@ -308,11 +388,12 @@ export class Scheduler {
       errorJobs: number;
       stuckJobs: number;
       staleJobs: number;
+      pausedJobs: number;
     };
   } {
     const status = this.getStatus();
     const issues: Array<{
-      type: 'error' | 'stuck' | 'stale';
+      type: 'error' | 'stuck' | 'stale' | 'paused';
       source: string;
       message: string;
       timestamp: Date;
@@ -322,11 +403,20 @@ export class Scheduler {
     let errorJobs = 0;
     let stuckJobs = 0;
     let staleJobs = 0;
+    let pausedJobs = 0;
     
     const now = new Date();
     
     for (const job of status.jobs) {
-      if (job.status === 'error') {
+      if (job.status === 'paused') {
+        pausedJobs++;
+        issues.push({
+          type: 'paused',
+          source: job.source,
+          message: `Paused after repeated failures: ${job.lastError || 'Unknown error'}`,
+          timestamp: job.lastRun || now,
+        });
+      } else if (job.status === 'error') {
         errorJobs++;
         issues.push({
           type: 'error',
@@ -359,7 +449,7 @@ export class Scheduler {
     let overall: 'healthy' | 'warning' | 'critical' = 'healthy';
     if (errorJobs > 0 || stuckJobs > 0) {
       overall = 'critical';
-    } else if (staleJobs > 0) {
+    } else if (staleJobs > 0 || pausedJobs > 0) {
       overall = 'warning';
     }
     
@@ -372,6 +462,7 @@ export class Scheduler {
         errorJobs,
         stuckJobs,
         staleJobs,
+        pausedJobs,
       },
     };
   }
@@ -416,6 +507,160 @@ export class Scheduler {
     };
   }
 
+  /**
+   * Applies a changed scraper config file to the schedule: new sources get a job, changed
+   * ones keep their job and run history but use the new config (and schedule) from their
+   * next run, and deleted ones are unscheduled. A config that doesn't validate is logged and
+   * the previous version keeps running.
+   */
+  async applyConfigChange(filename: string): Promise<void> {
+    const change = await this.ingestor.reloadSourceConfig(filename);
+    if (!change) return;
+
+    const { source } = change;
+
+    if (change.type === 'rejected') {
+      this.logger.warn({ source, filename, reason: change.reason }, "Rejected scraper config change, keeping previous version");
+      return;
+    }
+
+    const job = this.jobs.get(source);
+
+    if (change.type === 'removed') {
+      if (job) {
+        job.task.stop();
+        job.status = 'stopped';
+        this.jobs.delete(source);
+      }
+      this.logger.info({ source }, "Scraper config removed, unscheduled source");
+      return;
+    }
+
+    const settings = this.getSettings(source, change.plugin);
+
+    if (!settings.enabled) {
+      if (job) {
+        job.task.stop();
+        this.jobs.delete(source);
+        this.logger.info({ source }, "Source disabled by reloaded config, unscheduled source");
+      } else {
+        this.logger.info({ source }, "Source disabled, not scheduling reloaded config");
+      }
+      return;
+    }
+
+    if (!job) {
+      const newJob = this.createJob(source, change.plugin, settings);
+      this.jobs.set(source, newJob);
+      newJob.task.start();
+      newJob.nextRun = this.getNextRunTime(newJob.schedule);
+      this.logger.info({ source, schedule: newJob.schedule }, "Scheduled source from new scraper config");
+      return;
+    }
+
+    const previous = job.settings;
+    job.plugin = change.plugin;
+    job.settings = settings;
+
+    if (settings.schedule !== previous.schedule || settings.timezone !== previous.timezone) {
+      const schedule = this.getJobSchedule(settings, job.staggerOffset);
+      const task = this.createTask(source, schedule, settings.timezone);
+
+      job.task.stop();
+      job.task = task;
+      job.schedule = schedule;
+      // A stopped job stays stopped until it is started again
+      if (job.status !== 'stopped') {
+        task.start();
+        job.nextRun = this.getNextRunTime(schedule);
+      }
+    }
+
+    this.logger.info({ source, schedule: job.schedule }, "Reloaded scraper config");
+  }
+
+  /**
+   * Builds a job for a source, not yet started. Each new job is staggered after the ones before it.
+   */
+  private createJob(source: string, plugin: ScraperPlugin, settings: SourceSettings): ScheduledJob {
+    const staggerOffset = this.jobs.size * (this.scheduleConfig.staggerMinutes || 0);
+    const schedule = this.getJobSchedule(settings, staggerOffset);
+
+    return {
+      source,
+      schedule,
+      task: this.createTask(source, schedule, settings.timezone),
+      plugin,
+      settings,
+      staggerOffset,
+      runCount: 0,
+      errorCount: 0,
+      consecutiveFailures: 0,
+      status: 'scheduled',
+    };
+  }
+
+  /**
+   * The cron schedule a source runs on, after development mode and stagger adjustments
+   */
+  private getJobSchedule(settings: SourceSettings, staggerOffset: number): string {
+    const schedule = settings.schedule;
+    let adjustedSchedule = schedule;
+
+    // Apply development mode adjustments
+    if (this.scheduleConfig.mode === 'development') {
+      // In development, run more frequently for testing
+      adjustedSchedule = this.adjustScheduleForDevelopment(schedule);
+    }
+
+    // Apply stagger offset if configured
+    if (staggerOffset > 0) {
+      adjustedSchedule = this.adjustSchedule(adjustedSchedule, staggerOffset);
+    }
+
+    return adjustedSchedule;
+  }
+
+  private createTask(source: string, schedule: string, timezone: string): cron.ScheduledTask {
+    return cron.schedule(schedule, async () => {
+      const job = this.jobs.get(source);
+      if (job?.status === 'paused' && !(await this.resumeIfReenabled(job))) {
+        this.logger.debug({ source }, "Source paused by circuit breaker, skipping scheduled run");
+        return;
+      }
+      if (job && !isActiveOn(job.settings, new Date())) {
+        this.logger.debug({ source }, "Outside the source's active windows, skipping scheduled run");
+        return;
+      }
+      await this.runScheduledJob(source);
+    }, {
+      scheduled: false,
+      timezone,
+    });
+  }
+
+  private getSettings(source: string, plugin: ScraperPlugin): SourceSettings {
+    return resolveSourceSettings(source, plugin.upstreamMeta, this.ingestorConfig, this.scheduleConfig);
+  }
+
+  private summarize(job: ScheduledJob): JobSummary {
+    return {
+      source: job.source,
+      name: job.plugin.upstreamMeta.name,
+      schedule: job.schedule,
+      timezone: job.settings.timezone,
+      lastRun: job.lastRun,
+      nextRun: job.nextRun,
+      runCount: job.runCount,
+      errorCount: job.errorCount,
+      consecutiveFailures: job.consecutiveFailures,
+      lastError: job.lastError,
+      lastResult: job.lastResult,
+      progress: job.progress,
+      status: job.status,
+    };
+  }
+
   /**
    * Runs a scheduled job for a specific source
    */
@@ -432,6 +677,7 @@ export class Scheduler {
     }
     
     const startTime = new Date();
+    const wasStopped = job.status === 'stopped';
     job.status = 'running';
     job.lastRun = startTime;
     job.runCount++;
@@ -439,15 +685,31 @@ export class Scheduler {
     this.logger.info({ source, runCount: job.runCount }, "Running scheduled ingestion");
     
     try {
-      const result = await this.ingestor.ingestSource(source, 'scheduled_run');
+      const result = await this.ingestWithRetry(job);
       
-      // Update job status
-      job.status = 'scheduled';
-      job.nextRun = this.getNextRunTime(job.schedule);
+      // Update job status; a job stopped before or during the run stays stopped
+      if (job.status === 'running') {
+        job.status = wasStopped ? 'stopped' : 'scheduled';
+        job.nextRun = wasStopped ? undefined : this.getNextRunTime(job.schedule);
+      }
+      job.lastResult = {
+        success: result.success,
+        duration: result.duration,
+        rawCount: result.rawCount,
+        normalizedCount: result.normalizedCount,
+        newCount: result.newCount,
+        updatedCount: result.updatedCount,
+        removedCount: result.removedCount,
+        unchanged: result.unchanged,
+        errorClass: result.errorClass,
+      };
       
-      if (!result.success) {
+      if (result.success) {
+        job.consecutiveFailures = 0;
+      } else {
         job.errorCount++;
         job.lastError = result.errors?.join('; ') || 'Unknown error';
+        await this.recordFailure(job, result.errorClass);
       }
       
       this.logger.info(
@@ -457,6 +719,8 @@ export class Scheduler {
           duration: result.duration,
           new: result.newCount,
           updated: result.updatedCount,
+          removed: result.removedCount,
+          unchanged: result.unchanged,
           errors: result.errorCount,
           runCount: job.runCount,
         },
@@ -464,18 +728,182 @@ export class Scheduler {
       );
       
     } catch (error) {
-      job.status = 'error';
+      const errorClass = classifyError(error);
+      if (job.status === 'running') {
+        job.status = wasStopped ? 'stopped' : 'error';
+        job.nextRun = wasStopped ? undefined : this.getNextRunTime(job.schedule);
+      }
       job.errorCount++;
       job.lastError = (error as Error).message;
-      job.nextRun = this.getNextRunTime(job.schedule);
+      job.lastResult = {
+        success: false,
+        duration: Date.now() - startTime.getTime(),
+        rawCount: 0,
+        normalizedCount: 0,
+        newCount: 0,
+        updatedCount: 0,
+        errorClass,
+      };
+      await this.recordFailure(job, errorClass);
       
       this.logger.error(
         { source, error: (error as Error).message, runCount: job.runCount },
         "Scheduled ingestion failed"
       );
+    } finally {
+      job.progress = undefined;
     }
   }
   
+  /**
+   * Runs a job's ingestion, retrying transient failures (network errors, rate limiting and
+   * timeouts) with exponential backoff as the source's retry policy allows. Other failures
+   * aren't retried, and no retry is made once the job has been unscheduled or replaced.
+   */
+  private async ingestWithRetry(job: ScheduledJob): Promise<ScraperRunStats> {
+    const { attempts, backoffMs } = job.settings.retry;
+
+    for (let attempt = 0; ; attempt++) {
+      let result: ScraperRunStats | undefined;
+      let failure: unknown;
+      const startedAt = job.progress?.startedAt ?? new Date();
+
+      try {
+        result = await this.ingestor.ingestSource(job.source, 'scheduled_run', progress => {
+          job.progress = { ...progress, startedAt, attempt: attempt + 1 };
+        });
+        if (result.success) return result;
+      } catch (error) {
+        failure = error;
+      }
+
+      const errorClass = result ? result.errorClass : classifyError(failure);
+      const retry = isTransient(errorClass) && attempt < attempts && this.jobs.get(job.source) === job;
+
+      if (retry) {
+        // Equal jitter: wait at least half the backoff, so sources that failed together spread out
+        const backoff = backoffMs * 2 ** attempt;
+        const delay = Math.max(backoff / 2 + Math.random() * (backoff / 2), result?.retryAfterMs ?? 0);
+        this.logger.warn(
+          {
+            source: job.source,
+            errorClass,
+            attempt: attempt + 1,
+            retryInMs: Math.round(delay),
+            error: result ? result.errors?.join('; ') : (failure as Error).message,
+          },
+          "Scheduled ingestion failed, retrying"
+        );
+        job.progress = { phase: 'retrying', startedAt, attempt: attempt + 1, retryAt: new Date(Date.now() + delay) };
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+
+      if (!retry || this.jobs.get(job.source) !== job) {
+        if (result) return result;
+        throw failure;
+      }
+    }
+  }
+
+  /**
+   * Counts a failed run against the source's circuit breaker, pausing the source once it has
+   * failed too many times in a row. A paused source stays paused, across restarts too, until
+   * `scheduler:reenable` lifts it.
+   */
+  private async recordFailure(job: ScheduledJob, errorClass: ScraperErrorClass | undefined): Promise<void> {
+    job.consecutiveFailures++;
+
+    const threshold = this.scheduleConfig.circuitBreakerThreshold ?? DEFAULT_CIRCUIT_BREAKER_THRESHOLD;
+    if (threshold <= 0 || job.consecutiveFailures < threshold) {
+      return;
+    }
+
+    job.status = 'paused';
+    job.nextRun = undefined;
+    this.logger.error(
+      { source: job.source, consecutiveFailures: job.consecutiveFailures, errorClass, lastError: job.lastError },
+      "Circuit breaker opened, pausing source until it is re-enabled"
+    );
+
+    try {
+      await this.ingestor.pauseSource({
+        source: job.source,
+        pausedAt: new Date().toISOString(),
+        consecutiveFailures: job.consecutiveFailures,
+        errorClass,
+        lastError: job.lastError,
+      });
+    } catch (error) {
+      this.logger.error({ source: job.source, error: (error as Error).message }, "Failed to record paused source");
+    }
+  }
+
+  /**
+   * Resumes a paused job if its source has been re-enabled since it was paused
+   */
+  private async resumeIfReenabled(job: ScheduledJob): Promise<boolean> {
+    try {
+      const paused = await this.ingestor.getPausedSources();
+      if (paused[job.source]) {
+        return false;
+      }
+    } catch (error) {
+      this.logger.warn({ source: job.source, error: (error as Error).message }, "Failed to read paused sources");
+      return false;
+    }
+
+    job.status = 'scheduled';
+    job.consecutiveFailures = 0;
+    this.logger.info({ source: job.source }, "Source re-enabled, resuming scheduled runs");
+    return true;
+  }
+
+  /**
+   * Starts picking up probe runs queued by the web app
+   */
+  private startProbePolling(): void {
+    this.probePollInterval = setInterval(() => {
+      this.runQueuedProbes().catch(error => {
+        this.logger.warn({ error: (error as Error).message }, "Failed to check for probe requests");
+      });
+    }, PROBE_POLL_INTERVAL_MS);
+  }
+
+  /**
+   * Starts a run for each queued probe without waiting for it. A probe of a source that is
+   * running stays queued for the next check; one of an unknown or paused source is rejected.
+   */
+  private async runQueuedProbes(): Promise<void> {
+    for (const probe of await this.ingestor.getQueuedProbes()) {
+      const job = this.jobs.get(probe.source);
+      if (!job || job.status === 'paused') {
+        const reason = job
+          ? 'Source is paused by its circuit breaker'
+          : `No scheduled job for source: ${probe.source}`;
+        await this.ingestor.updateProbe(probe, { status: 'rejected', finishedAt: new Date(), reason });
+        continue;
+      }
+      if (job.status === 'running') {
+        continue;
+      }
+
+      this.logger.info({ source: probe.source }, "Running requested probe");
+      await this.ingestor.updateProbe(probe, { status: 'running', startedAt: new Date() });
+
+      void this.triggerSource(probe.source).then(async () => {
+        const result = this.jobs.get(probe.source)?.lastResult;
+        await this.ingestor.updateProbe(probe, {
+          status: 'completed',
+          finishedAt: new Date(),
+          success: result?.success ?? false,
+          ...(result?.success ? {} : { reason: this.jobs.get(probe.source)?.lastError ?? 'Run did not finish' })
+        });
+      }).catch(error => {
+        this.logger.warn({ source: probe.source, error: (error as Error).message }, "Failed to record probe result");
+      });
+    }
+  }
+
   /**
    * Starts health check monitoring
    */
@@ -539,6 +967,7 @@ export class Scheduler {
                 runningJobs: status.runningJobs,
                 stoppedJobs: status.stoppedJobs,
                 errorJobs: status.errorJobs,
+                pausedJobs: status.pausedJobs,
               },
               jobStatuses: status.jobs.map(job => ({
                 source: job.source,
@@ -562,25 +991,6 @@ export class Scheduler {
     }, 60000); // Every minute
   }
   
-  /**
-   * Checks if a source is disabled
-   */
-  private isSourceDisabled(source: string): boolean {
-    const { enabledSources, disabledSources } = this.scheduleConfig;
-    
-    // If enabledSources is specified, source must be in it
-    if (enabledSources && enabledSources.length > 0) {
-      return !enabledSources.includes(source);
-    }
-    
-    // If disabledSources is specified, source must not be in it
-    if (disabledSources && disabledSources.length > 0) {
-      return disabledSources.includes(source);
-    }
-    
-    return false;
-  }
-  
   /**
    * Adjusts schedule for development mode
    */
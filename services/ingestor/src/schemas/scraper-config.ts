@@ -1,4 +1,42 @@
 import { z } from 'zod';
+import * as cron from 'node-cron';
+import { transformRegistry, type LocalTransformDefinition } from '../scrapers/transform-registry.js';
+
+// Transform names are checked against the transform registry (and the config's own
+// `transforms` block) once the whole config has been parsed - see ScraperConfigSchema
+export const TransformNameSchema = z.string().min(1);
+
+// Named transforms declared in a config, reusable from any field by name
+export const LocalTransformSchema = z.object({
+  type: z.string(), // registered transform to build on, e.g. 'date-format'
+  params: z.record(z.any()).optional(),
+  description: z.string().optional()
+});
+
+const FollowUpFieldsSchema = z.record(z.object({
+  selector: z.string(),
+  attribute: z.string().optional(),
+  transform: TransformNameSchema.optional(),
+  transformParams: z.record(z.any()).optional()
+}));
+
+// Follow-up extraction from a linked detail page
+const FollowUpSchema = z.object({
+  urlField: z.string(), // Field that contains the URL to follow
+  structuredData: z.boolean().default(false), // Read schema.org Event data first; selector fields fill the gaps
+  fields: FollowUpFieldsSchema,
+  // Reuse a detail page's extracted fields for this long before asking the site again
+  cacheTtlHours: z.number().min(0).default(24)
+});
+
+const DateMappingSchema = z.union([
+  z.string(),
+  z.object({
+    field: z.string(),
+    transform: TransformNameSchema.optional(),
+    transformParams: z.record(z.any()).optional()
+  })
+]);
 
 // Base types for different actions the scraper can perform
 export const NavigateConfigSchema = z.object({
@@ -30,39 +68,25 @@ export const ScrollConfigSchema = z.object({
 
 export const ExtractConfigSchema = z.object({
   type: z.literal('extract'),
-  method: z.string().optional(), // Special extraction method (e.g., 'exchange-bristol')
-  containerSelector: z.string(),
+  // Special extraction method (e.g., 'exchange-bristol', or 'structured-data' for JSON-LD/microdata Events)
+  method: z.string().optional(),
+  containerSelector: z.string().optional(), // Required unless method is 'structured-data'
   fields: z.record(z.object({
     selector: z.string(),
     attribute: z.string().optional(), // 'text', 'href', 'src', or custom attribute
     multiple: z.boolean().default(false),
     required: z.boolean().default(true),
-    transform: z.enum(['trim', 'lowercase', 'uppercase', 'date', 'slug', 'url', 'time-range-start', 'time-range-end', 'extract-text', 'regex', 'bristol-exchange-datetime', 'parse-date-group', 'exchange-venue-name', 'lanes-bristol-date', 'croft-bristol-date', 'thekla-bristol-date', 'fleece-bristol-datetime', 'strange-brew-datetime', 'louisiana-bristol-datetime', 'electric-bristol-datetime', 'rough-trade-datetime', 'rough-trade-city-mapper', 'rough-trade-title', 'rough-trade-price']).optional(),
+    transform: TransformNameSchema.optional(),
     fallback: z.string().optional(),
     transformParams: z.record(z.any()).optional(), // For regex patterns, etc.
-    followUp: z.object({
-      urlField: z.string(), // Field that contains the URL to follow
-      fields: z.record(z.object({
-        selector: z.string(),
-        attribute: z.string().optional(),
-        transform: z.enum(['trim', 'lowercase', 'uppercase', 'date', 'slug', 'url', 'time-range-start', 'time-range-end', 'extract-text', 'regex', 'bristol-exchange-datetime', 'parse-date-group', 'exchange-venue-name', 'lanes-bristol-date', 'croft-bristol-date', 'thekla-bristol-date', 'fleece-bristol-datetime', 'strange-brew-datetime', 'louisiana-bristol-datetime', 'electric-bristol-datetime', 'rough-trade-datetime', 'rough-trade-city-mapper', 'rough-trade-title', 'rough-trade-price']).optional(),
-        transformParams: z.record(z.any()).optional()
-      }))
-    }).optional() // Follow-up extraction from linked pages
+    followUp: FollowUpSchema.optional() // Follow-up extraction from linked pages
   })),
   // Action-level follow-up extraction (applies to all extracted items)
-  followUp: z.object({
-    urlField: z.string(), // Field that contains the URL to follow
-    fields: z.record(z.object({
-      selector: z.string(),
-      attribute: z.string().optional(),
-      transform: z.enum(['trim', 'lowercase', 'uppercase', 'date', 'slug', 'url', 'time-range-start', 'time-range-end', 'extract-text', 'regex', 'bristol-exchange-datetime', 'parse-date-group', 'exchange-venue-name', 'lanes-bristol-date', 'croft-bristol-date', 'thekla-bristol-date', 'fleece-bristol-datetime', 'strange-brew-datetime', 'louisiana-bristol-datetime', 'electric-bristol-datetime', 'rough-trade-datetime', 'rough-trade-city-mapper', 'rough-trade-title', 'rough-trade-price']).optional(),
-      transformParams: z.record(z.any()).optional()
-    }))
-  }).optional()
+  followUp: FollowUpSchema.optional()
 });
 
-export const ActionSchema = z.union([
+// Actions that can run on each page of a paginated listing
+export const PageActionSchema = z.union([
   NavigateConfigSchema,
   WaitConfigSchema,
   ClickConfigSchema,
@@ -70,8 +94,54 @@ export const ActionSchema = z.union([
   ExtractConfigSchema
 ]);
 
-// Main scraper configuration schema
-export const ScraperConfigSchema = z.object({
+// Repeat a sub-workflow across listing pages, either by following a "next" link
+// or by visiting a URL template such as "https://venue.example/events?page={page}"
+export const PaginateConfigSchema = z.object({
+  type: z.literal('paginate'),
+  steps: z.array(PageActionSchema).min(1),
+  nextSelector: z.string().optional(),
+  urlTemplate: z.string().includes('{page}').optional(),
+  startPage: z.number().int().default(1), // first page number substituted into urlTemplate
+  maxPages: z.number().int().positive().default(10),
+  stopWhenNoNewItems: z.boolean().default(true),
+  waitAfter: z.number().optional() // wait after moving to the next page
+}).refine(action => Boolean(action.nextSelector) !== Boolean(action.urlTemplate), {
+  message: 'paginate needs exactly one of nextSelector or urlTemplate'
+});
+
+export const ActionSchema = z.union([
+  NavigateConfigSchema,
+  WaitConfigSchema,
+  ClickConfigSchema,
+  ScrollConfigSchema,
+  ExtractConfigSchema,
+  PaginateConfigSchema
+]);
+
+// A calendar date, read in the schedule's timezone
+const CalendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+// When the scheduler runs the source. INGESTOR_SOURCE_<NAME>_* environment variables override these.
+export const ScheduleSchema = z.object({
+  cron: z.string().refine(value => cron.validate(value), value => ({ message: `Invalid cron expression "${value}"` })).optional(),
+  timezone: z.string().refine(isTimezone, value => ({ message: `Unknown timezone "${value}"` })).optional(), // default UTC
+  enabled: z.boolean().optional(), // false keeps the source out of scheduled runs
+  // Only run on dates inside one of these windows, e.g. the weeks before a festival
+  activeWindows: z.array(z.object({
+    start: CalendarDateSchema,
+    end: CalendarDateSchema
+  }).refine(window => window.start <= window.end, { message: 'start must not be after end' })).optional(),
+  // Retry a failed scheduled run; the wait doubles after each retry
+  retry: z.object({
+    attempts: z.number().int().min(0).optional(), // default 2
+    backoffMs: z.number().int().min(0).optional() // default 60000
+  }).optional(),
+  // Hours after the last successful run before health checks report the data as stale
+  freshnessSlaHours: z.number().positive().optional() // default INGESTOR_FRESHNESS_SLA_HOURS
+});
+
+// Settings shared by every kind of scraper configuration
+const BaseScraperConfigSchema = z.object({
   // Site metadata
   site: z.object({
     name: z.string(),
@@ -100,8 +170,8 @@ export const ScraperConfigSchema = z.object({
     respectRobotsTxt: z.boolean().default(true)
   }).optional(),
 
-  // Scraping workflow - ordered list of actions
-  workflow: z.array(ActionSchema),
+  // Named transforms reusable by any field, e.g. a date format shared by start and end dates
+  transforms: z.record(LocalTransformSchema).optional(),
 
   // Field mappings to our Gig schema
   mapping: z.object({
@@ -109,6 +179,7 @@ export const ScraperConfigSchema = z.object({
       strategy: z.enum(['generated', 'extracted']).default('generated'),
       fields: z.array(z.string()).optional() // fields to use for ID generation
     }),
+    sourceId: z.string().optional(), // field with a stable upstream identifier, e.g. an iCal UID
     title: z.string(),
     artist: z.string().optional(),
     venue: z.object({
@@ -118,22 +189,8 @@ export const ScraperConfigSchema = z.object({
       country: z.string().optional()
     }),
     date: z.object({
-      start: z.union([
-        z.string(),
-        z.object({
-          field: z.string(),
-          transform: z.enum(['trim', 'lowercase', 'uppercase', 'date', 'slug', 'url', 'time-range-start', 'time-range-end', 'extract-text', 'regex', 'bristol-exchange-datetime', 'parse-date-group', 'exchange-venue-name', 'lanes-bristol-date', 'croft-bristol-date', 'thekla-bristol-date', 'fleece-bristol-datetime', 'strange-brew-datetime', 'louisiana-bristol-datetime', 'electric-bristol-datetime', 'rough-trade-datetime', 'rough-trade-city-mapper', 'rough-trade-title', 'rough-trade-price']).optional(),
-          transformParams: z.record(z.any()).optional()
-        })
-      ]),
-      end: z.union([
-        z.string(),
-        z.object({
-          field: z.string(),
-          transform: z.enum(['trim', 'lowercase', 'uppercase', 'date', 'slug', 'url', 'time-range-start', 'time-range-end', 'extract-text', 'regex', 'bristol-exchange-datetime', 'parse-date-group', 'exchange-venue-name', 'lanes-bristol-date', 'croft-bristol-date', 'thekla-bristol-date', 'fleece-bristol-datetime', 'strange-brew-datetime', 'louisiana-bristol-datetime', 'electric-bristol-datetime', 'rough-trade-datetime', 'rough-trade-city-mapper', 'rough-trade-title', 'rough-trade-price']).optional(),
-          transformParams: z.record(z.any()).optional()
-        })
-      ]).optional(),
+      start: DateMappingSchema,
+      end: DateMappingSchema.optional(),
       timezone: z.string().optional()
     }),
     urls: z.object({
@@ -144,7 +201,17 @@ export const ScraperConfigSchema = z.object({
     images: z.string().optional(),
     genres: z.string().optional(),
     ageRestriction: z.string().optional(),
-    description: z.string().optional()
+    description: z.string().optional(),
+    status: z.string().optional(), // field holding scheduled/cancelled/postponed
+    // A single field name (the older form) is read as the minimum price
+    price: z.preprocess(
+      value => typeof value === 'string' ? { min: value } : value,
+      z.object({
+        min: z.string().optional(),
+        max: z.string().optional(),
+        currency: z.string().optional()
+      })
+    ).optional()
   }),
 
   // Validation rules
@@ -155,6 +222,11 @@ export const ScraperConfigSchema = z.object({
     maxEventsExpected: z.number().optional()
   }).optional(),
 
+  schedule: ScheduleSchema.optional(),
+
+  // Weight of this source's data when duplicates from several sources are merged (default 80)
+  trustScore: z.number().min(0).max(100).optional(),
+
   // Debug and monitoring
   debug: z.object({
     screenshots: z.boolean().default(false),
@@ -163,10 +235,185 @@ export const ScraperConfigSchema = z.object({
   }).optional()
 });
 
+// Browser scraping driven by an ordered workflow of actions
+export const BrowserScraperConfigSchema = BaseScraperConfigSchema.extend({
+  type: z.literal('browser'),
+  // 'http' runs the workflow against plain fetches parsed with Cheerio - for static sites
+  // that don't need a browser to render, click or scroll
+  engine: z.enum(['browser', 'http']).default('browser'),
+  workflow: z.array(ActionSchema)
+});
+
+// Feed item fields derived before mapping, e.g. a venue name pulled out of an iCal LOCATION
+export const FeedFieldSchema = z.object({
+  from: z.string(), // FeedItem property to read (title, description, link, dateStart, location, ...)
+  transform: TransformNameSchema.optional(),
+  transformParams: z.record(z.any()).optional(),
+  fallback: z.string().optional()
+});
+
+// RSS/Atom, iCal or JSON Feed source - the format is detected from the response
+export const FeedSourceSchema = z.object({
+  url: z.string().url(),
+  fields: z.record(FeedFieldSchema).optional()
+});
+
+export const FeedScraperConfigSchema = BaseScraperConfigSchema.extend({
+  type: z.literal('feed'),
+  feed: FeedSourceSchema
+});
+
+// Main scraper configuration schema
+export const ScraperConfigSchema = z.preprocess(
+  // Configs without a `type` predate feed sources and are browser scrapers
+  (input) => (input && typeof input === 'object' && !('type' in input) ? { ...input, type: 'browser' } : input),
+  z.discriminatedUnion('type', [BrowserScraperConfigSchema, FeedScraperConfigSchema])
+).superRefine((config, ctx) => {
+  const localTransforms = config.transforms as Record<string, LocalTransformDefinition> | undefined;
+
+  for (const name of Object.keys(localTransforms ?? {})) {
+    if (transformRegistry.has(name)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['transforms', name],
+        message: `Transform "${name}" shadows a built-in transform`
+      });
+    }
+  }
+
+  if (config.type === 'browser') {
+    for (const { action, path } of flattenWorkflow(config.workflow)) {
+      if (action.type === 'extract' && !action.containerSelector && action.method !== 'structured-data') {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [...path, 'containerSelector'],
+          message: 'containerSelector is required unless method is "structured-data"'
+        });
+      }
+
+      if (config.engine === 'http' && HTTP_UNSUPPORTED_ACTIONS.has(action.type)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [...path, 'type'],
+          message: `"${action.type}" actions need the browser engine`
+        });
+      }
+
+      if (config.engine === 'http' && action.type === 'extract' && action.method && action.method !== 'structured-data') {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [...path, 'method'],
+          message: `Extraction method "${action.method}" needs the browser engine`
+        });
+      }
+    }
+  }
+
+  for (const reference of collectTransformReferences(config)) {
+    for (const message of transformRegistry.validateReference(reference.name, reference.params, localTransforms)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: reference.path, message });
+    }
+  }
+});
+
+function isTimezone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Actions that interact with a rendered page, so the http engine can't run them
+const HTTP_UNSUPPORTED_ACTIONS = new Set(['wait', 'click', 'scroll']);
+
+/**
+ * List workflow actions with their config paths, including the steps inside paginate actions
+ */
+export function flattenWorkflow(
+  workflow: z.infer<typeof ActionSchema>[]
+): { action: z.infer<typeof PageActionSchema>; path: (string | number)[] }[] {
+  return workflow.flatMap((action, index) => action.type === 'paginate'
+    ? action.steps.map((step, stepIndex) => ({ action: step, path: ['workflow', index, 'steps', stepIndex] }))
+    : [{ action, path: ['workflow', index] }]
+  );
+}
+
+interface TransformReference {
+  path: (string | number)[];
+  name: string;
+  params?: Record<string, any>;
+}
+
+/**
+ * Find every place a config refers to a transform by name
+ */
+function collectTransformReferences(
+  config: z.infer<typeof BrowserScraperConfigSchema> | z.infer<typeof FeedScraperConfigSchema>
+): TransformReference[] {
+  const references: TransformReference[] = [];
+
+  const addFollowUpFields = (fields: z.infer<typeof FollowUpFieldsSchema>, path: (string | number)[]) => {
+    for (const [fieldName, field] of Object.entries(fields)) {
+      if (field.transform) {
+        references.push({ path: [...path, fieldName, 'transform'], name: field.transform, params: field.transformParams });
+      }
+    }
+  };
+
+  if (config.type === 'feed') {
+    for (const [fieldName, field] of Object.entries(config.feed.fields ?? {})) {
+      if (field.transform) {
+        references.push({ path: ['feed', 'fields', fieldName, 'transform'], name: field.transform, params: field.transformParams });
+      }
+    }
+  }
+
+  const workflow = config.type === 'browser' ? flattenWorkflow(config.workflow) : [];
+  for (const { action, path } of workflow) {
+    if (action.type !== 'extract') continue;
+
+    for (const [fieldName, field] of Object.entries(action.fields)) {
+      const fieldPath = [...path, 'fields', fieldName];
+      if (field.transform) {
+        references.push({ path: [...fieldPath, 'transform'], name: field.transform, params: field.transformParams });
+      }
+      if (field.followUp) {
+        addFollowUpFields(field.followUp.fields, [...fieldPath, 'followUp', 'fields']);
+      }
+    }
+
+    if (action.followUp) {
+      addFollowUpFields(action.followUp.fields, [...path, 'followUp', 'fields']);
+    }
+  }
+
+  for (const key of ['start', 'end'] as const) {
+    const dateMapping = config.mapping.date[key];
+    if (typeof dateMapping === 'object' && dateMapping.transform) {
+      references.push({
+        path: ['mapping', 'date', key, 'transform'],
+        name: dateMapping.transform,
+        params: dateMapping.transformParams
+      });
+    }
+  }
+
+  return references;
+}
+
 export type ScraperConfig = z.infer<typeof ScraperConfigSchema>;
+export type BrowserScraperConfig = z.infer<typeof BrowserScraperConfigSchema>;
+export type FeedScraperConfig = z.infer<typeof FeedScraperConfigSchema>;
+export type FeedFieldConfig = z.infer<typeof FeedFieldSchema>;
 export type ActionConfig = z.infer<typeof ActionSchema>;
+export type PageActionConfig = z.infer<typeof PageActionSchema>;
+export type PaginateConfig = z.infer<typeof PaginateConfigSchema>;
 export type NavigateConfig = z.infer<typeof NavigateConfigSchema>;
 export type WaitConfig = z.infer<typeof WaitConfigSchema>;
 export type ClickConfig = z.infer<typeof ClickConfigSchema>;
 export type ScrollConfig = z.infer<typeof ScrollConfigSchema>;
-export type ExtractConfig = z.infer<typeof ExtractConfigSchema>;
\ No newline at end of file
+export type ExtractConfig = z.infer<typeof ExtractConfigSchema>;
+export type FollowUpConfig = z.infer<typeof FollowUpSchema>;
+export type LocalTransformConfig = z.infer<typeof LocalTransformSchema>;
\ No newline at end of file
@@ -1,7 +1,8 @@
-import { Browser, Page } from 'playwright';
+import { Browser, Page, Response } from 'playwright';
 import { promises as fs } from 'fs';
 import { logger } from '../logger.js';
 import { 
+  BrowserScraperConfig,
   ScraperConfig, 
   ScraperConfigSchema,
   ActionConfig,
@@ -9,509 +10,68 @@ import {
   WaitConfig,
   ClickConfig,
   ScrollConfig,
-  ExtractConfig
+  ExtractConfig,
+  PaginateConfig,
+  FollowUpConfig
 } from '../schemas/scraper-config.js';
-import type { Gig } from '@gigateer/contracts';
-import { createGigId, generateGigHash } from '@gigateer/contracts';
+import type { Gig, BlockedRequest, ListingFingerprint } from '@gigateer/contracts';
+import { RobotsDisallowedError } from '@gigateer/scraper';
+import { ExchangeBristolDateParser } from './date-time-parser.js';
+import { GigMapper } from './gig-mapper.js';
+import {
+  STRUCTURED_DATA_SCRIPT,
+  findStructuredEvents,
+  structuredEventToItem,
+  mergeStructuredItems,
+  type StructuredDataHarvest
+} from './structured-data.js';
+import { FixtureStore, type FixtureMode } from './fixture-store.js';
+import { Politeness, sharedPoliteness, getPolitenessSettings, toBlockedRequest, type PolitenessSettings } from './politeness.js';
+import { FollowUpCache, type PageValidators } from './follow-up-cache.js';
+import { ListingFingerprinter, ListingUnchanged } from './listing-fingerprint.js';
 
-// ============================================================================
-// DATE/TIME PARSING UTILITIES (DRY Refactor)
-// ============================================================================
-
-interface DateParsingResult {
-  date: Date;
-  success: boolean;
-  error?: string;
-}
-
-interface TimeParsingResult {
-  hours: number;
-  minutes: number;
-  success: boolean;
-  error?: string;
-}
-
-class DateTimeParser {
-  private static readonly MONTH_NAMES = [
-    'January', 'February', 'March', 'April', 'May', 'June',
-    'July', 'August', 'September', 'October', 'November', 'December'
-  ];
-
-  private static readonly MONTH_ABBREVIATIONS = [
-    'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
-    'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'
-  ];
-
-  /**
-   * Get month index from full name or abbreviation (0-based)
-   */
-  static getMonthIndex(monthName: string): number {
-    // Try full names first
-    const fullNameIndex = this.MONTH_NAMES.findIndex(month => 
-      month.toLowerCase().startsWith(monthName.toLowerCase().substring(0, 3))
-    );
-    if (fullNameIndex !== -1) return fullNameIndex;
-
-    // Try abbreviations
-    return this.MONTH_ABBREVIATIONS.findIndex(abbr => 
-      abbr.toLowerCase() === monthName.toLowerCase()
-    );
-  }
-
-  /**
-   * Convert 12-hour time to 24-hour format
-   */
-  static convertTo24Hour(hours: number, minutes: number, period: string): TimeParsingResult {
-    try {
-      let hour24 = hours;
-      const lowerPeriod = period.toLowerCase();
-      
-      if (lowerPeriod === 'pm' && hour24 !== 12) {
-        hour24 += 12;
-      } else if (lowerPeriod === 'am' && hour24 === 12) {
-        hour24 = 0;
-      }
-      
-      return { hours: hour24, minutes, success: true };
-    } catch (error) {
-      return { 
-        hours: 0, 
-        minutes: 0, 
-        success: false, 
-        error: `Failed to convert time: ${error}` 
-      };
-    }
-  }
-
-  /**
-   * Parse time from various formats ("19:30", "7:30 PM", "Doors: 07:00")
-   */
-  static parseTime(timeStr: string): TimeParsingResult {
-    if (!timeStr || typeof timeStr !== 'string') {
-      return { hours: 0, minutes: 0, success: false, error: 'Empty or invalid time string' };
-    }
-
-    const cleanTime = timeStr.trim();
-
-    // Pattern 1: 24-hour format "19:30" or "07:00"
-    const time24Match = cleanTime.match(/(\d{1,2}):(\d{2})$/);
-    if (time24Match) {
-      const hours = parseInt(time24Match[1]);
-      const minutes = parseInt(time24Match[2]);
-      if (hours >= 0 && hours <= 23 && minutes >= 0 && minutes <= 59) {
-        return { hours, minutes, success: true };
-      }
-    }
-
-    // Pattern 2: 12-hour format "7:30 PM" or "Doors: 07:00 pm"
-    const time12Match = cleanTime.match(/(?:doors?:?\s*)?(\d{1,2}):?(\d{2})?\s*(am|pm)/i);
-    if (time12Match) {
-      const hours = parseInt(time12Match[1]);
-      const minutes = parseInt(time12Match[2] || '00');
-      const period = time12Match[3];
-      return this.convertTo24Hour(hours, minutes, period);
-    }
-
-    // Pattern 3: Time range - extract start time "13:00 - 14:45"
-    const rangeMatch = cleanTime.match(/(\d{1,2}):(\d{2})\s*-\s*\d{1,2}:\d{2}/);
-    if (rangeMatch) {
-      const hours = parseInt(rangeMatch[1]);
-      const minutes = parseInt(rangeMatch[2]);
-      return { hours, minutes, success: true };
-    }
-
-    return { 
-      hours: 0, 
-      minutes: 0, 
-      success: false, 
-      error: `Unable to parse time format: "${timeStr}"` 
-    };
-  }
-
-  /**
-   * Create date with smart year inference
-   */
-  static createDateWithYearInference(month: number, day: number, baseHour: number = 12): Date {
-    const now = new Date();
-    let year = now.getFullYear();
-    
-    // If month is before current month, assume next year
-    if (month < now.getMonth()) {
-      year += 1;
-    } else if (month === now.getMonth() && day < now.getDate()) {
-      // If same month but day has passed, also next year
-      year += 1;
-    }
-    
-    const date = new Date(year, month, day, baseHour, 0, 0);
-    
-    // Sanity check: if date is more than 18 months in future, use current year
-    const eighteenMonthsFromNow = new Date(now);
-    eighteenMonthsFromNow.setMonth(now.getMonth() + 18);
-    if (date > eighteenMonthsFromNow) {
-      date.setFullYear(now.getFullYear());
-    }
-    
-    return date;
-  }
-
-  /**
-   * Parse relative date terms ("Today", "Tomorrow")
-   */
-  static parseRelativeDate(dateStr: string): DateParsingResult {
-    const lower = dateStr.toLowerCase().trim();
-    const today = new Date();
-    
-    if (lower === 'today') {
-      return { date: new Date(today), success: true };
-    }
-    
-    if (lower === 'tomorrow') {
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      return { date: tomorrow, success: true };
-    }
-    
-    return { 
-      date: new Date(), 
-      success: false, 
-      error: `Not a relative date: ${dateStr}` 
-    };
-  }
-
-  /**
-   * Parse ordinal day formats ("15th", "2nd", "23rd")
-   */
-  static parseOrdinalDay(dayStr: string): number | null {
-    const match = dayStr.match(/(\d{1,2})(?:st|nd|rd|th)?/);
-    if (match) {
-      const day = parseInt(match[1]);
-      if (day >= 1 && day <= 31) {
-        return day;
-      }
-    }
-    return null;
-  }
-
-  /**
-   * Generic date parser that handles multiple common formats
-   */
-  static parseDate(dateStr: string, timeStr?: string, options: {
-    defaultHour?: number;
-    format?: 'bristol-standard' | 'thekla' | 'fleece' | 'rough-trade';
-    fallbackYear?: number;
-  } = {}): DateParsingResult {
-    const defaultHour = options.defaultHour || 19; // Default to 7 PM for gigs
-    
-    try {
-      if (!dateStr || typeof dateStr !== 'string') {
-        return { 
-          date: new Date(), 
-          success: false, 
-          error: 'Empty or invalid date string' 
-        };
-      }
-
-      const cleanDateStr = dateStr.replace(/\s+/g, ' ').trim();
-
-      // Handle relative dates first
-      const relativeResult = this.parseRelativeDate(cleanDateStr);
-      if (relativeResult.success) {
-        if (timeStr) {
-          const timeResult = this.parseTime(timeStr);
-          if (timeResult.success) {
-            relativeResult.date.setHours(timeResult.hours, timeResult.minutes, 0, 0);
-          }
-        }
-        return relativeResult;
-      }
-
-      // Handle specific formats based on options
-      if (options.format === 'thekla') {
-        return this.parseTheklaFormat(cleanDateStr);
-      }
-      
-      if (options.format === 'fleece') {
-        return this.parseFleeceFormat(cleanDateStr, timeStr);
-      }
-      
-      if (options.format === 'rough-trade') {
-        return this.parseRoughTradeFormat(cleanDateStr, timeStr);
-      }
-
-      // Generic patterns
-      return this.parseGenericDateFormat(cleanDateStr, timeStr, defaultHour);
-      
-    } catch (error) {
-      return { 
-        date: new Date(), 
-        success: false, 
-        error: `Failed to parse date: ${error}` 
-      };
-    }
-  }
-
-  private static parseTheklaFormat(dateStr: string): DateParsingResult {
-    // "Wed.13.Aug.25" format
-    const match = dateStr.match(/^(\w{3})\.(\d{1,2})\.(\w{3})\.(\d{2})$/);
-    if (match) {
-      const [, dayName, day, monthAbbr, year] = match;
-      const monthIndex = this.getMonthIndex(monthAbbr);
-      
-      if (monthIndex !== -1) {
-        const fullYear = parseInt(year) < 50 ? 2000 + parseInt(year) : 1900 + parseInt(year);
-        const date = new Date(fullYear, monthIndex, parseInt(day), 12, 0, 0);
-        
-        if (!isNaN(date.getTime())) {
-          return { date, success: true };
-        }
-      }
-    }
-    
-    return { 
-      date: new Date(), 
-      success: false, 
-      error: `Invalid Thekla format: ${dateStr}` 
-    };
-  }
-
-  private static parseFleeceFormat(dateStr: string, timeStr?: string): DateParsingResult {
-    // "Tuesday 12 Aug 2025" format
-    const match = dateStr.match(/^(?:(\w+)\s+)?(\d{1,2})\s+(\w+)\s+(\d{4})$/);
-    if (match) {
-      const [, dayName, day, month, year] = match;
-      const monthIndex = this.getMonthIndex(month);
-      
-      if (monthIndex !== -1) {
-        let hour = 12;
-        let minute = 0;
-        
-        if (timeStr) {
-          const timeResult = this.parseTime(timeStr);
-          if (timeResult.success) {
-            hour = timeResult.hours;
-            minute = timeResult.minutes;
-          }
-        }
-        
-        const date = new Date(parseInt(year), monthIndex, parseInt(day), hour, minute);
-        
-        if (!isNaN(date.getTime())) {
-          return { date, success: true };
-        }
-      }
-    }
-    
-    return { 
-      date: new Date(), 
-      success: false, 
-      error: `Invalid Fleece format: ${dateStr}` 
-    };
-  }
-
-  private static parseRoughTradeFormat(dateStr: string, timeStr?: string): DateParsingResult {
-    // "Thu, 28 Aug, 7:30 pm" format or "Thu 4 Sep 2025, 7pm"
-    let match = dateStr.match(/^(\w{3}),?\s*(\d{1,2})\s+(\w{3}),?\s*(?:(\d{4}),?\s*)?(?:(\d{1,2}):?(\d{2})?\s*(am|pm))?$/i);
-    if (match) {
-      const [, dayName, day, month, year, hour, minute, period] = match;
-      const monthIndex = this.getMonthIndex(month);
-      
-      if (monthIndex !== -1) {
-        const eventYear = year ? parseInt(year) : new Date().getFullYear();
-        
-        if (hour && period) {
-          const timeResult = this.convertTo24Hour(parseInt(hour), parseInt(minute || '0'), period);
-          if (timeResult.success) {
-            const date = new Date(eventYear, monthIndex, parseInt(day), timeResult.hours, timeResult.minutes);
-            return { date, success: true };
-          }
-        } else {
-          // No time in date string, use default 7pm
-          const date = new Date(eventYear, monthIndex, parseInt(day), 19, 0);
-          return { date, success: true };
-        }
-      }
-    }
-    
-    // Try ISO format: 2025-09-04T19:00:00Z
-    if (dateStr.match(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/)) {
-      const date = new Date(dateStr);
-      if (!isNaN(date.getTime())) {
-        return { date, success: true };
-      }
-    }
-    
-    // Fallback to generic parsing
-    return this.parseGenericDateFormat(dateStr, timeStr, 19);
-  }
-
-  private static parseGenericDateFormat(dateStr: string, timeStr?: string, defaultHour: number = 19): DateParsingResult {
-    // Handle various common formats
-    
-    // Pattern 1: "Friday 15th August 22:30 - 03:00" (with time in date string)
-    let match = dateStr.match(/^(\w+day)\s+(\d{1,2})(?:st|nd|rd|th)?\s+(\w+)\s+(\d{1,2}):(\d{2})(?:\s*-\s*\d{1,2}:\d{2})?$/);
-    if (match) {
-      const [, dayName, day, month, hour, minute] = match;
-      const monthIndex = this.getMonthIndex(month);
-      
-      if (monthIndex !== -1) {
-        const date = this.createDateWithYearInference(monthIndex, parseInt(day), parseInt(hour));
-        date.setMinutes(parseInt(minute));
-        return { date, success: true };
-      }
-    }
-    
-    // Pattern 2: "Friday 15th August" (date only)
-    match = dateStr.match(/^(?:(\w+day)\s+)?(\d{1,2})(?:st|nd|rd|th)?\s+(\w+)$/);
-    if (match) {
-      const [, dayName, day, month] = match;
-      const monthIndex = this.getMonthIndex(month);
-      
-      if (monthIndex !== -1) {
-        const date = this.createDateWithYearInference(monthIndex, parseInt(day), defaultHour);
-        
-        // Apply time if provided separately
-        if (timeStr) {
-          const timeResult = this.parseTime(timeStr);
-          if (timeResult.success) {
-            date.setHours(timeResult.hours, timeResult.minutes, 0, 0);
-          }
-        }
-        
-        return { date, success: true };
-      }
-    }
-    
-    // Pattern 3: Try to parse with JavaScript Date constructor as fallback
-    const fallbackDate = new Date(dateStr);
-    if (!isNaN(fallbackDate.getTime())) {
-      if (timeStr) {
-        const timeResult = this.parseTime(timeStr);
-        if (timeResult.success) {
-          fallbackDate.setHours(timeResult.hours, timeResult.minutes, 0, 0);
-        }
-      }
-      return { date: fallbackDate, success: true };
-    }
-    
-    return { 
-      date: new Date(), 
-      success: false, 
-      error: `Unable to parse generic date format: ${dateStr}` 
-    };
-  }
-}
+const scraperLogger = logger.child({ component: 'config-driven-scraper' });
 
-// Exchange Bristol specific utilities
-class ExchangeBristolDateParser {
-  /**
-   * Parse Exchange Bristol date groups like "Today" or "Monday 11th August"
-   */
-  static parseDateGroup(dateGroup: string): string | null {
-    const result = DateTimeParser.parseRelativeDate(dateGroup);
-    if (result.success) {
-      return result.date.toISOString().substring(0, 10); // Return just YYYY-MM-DD
-    }
-    
-    // Parse formats like "Monday 11th August", "Friday 10 January", "Sunday 17 August"
-    const cleanDateStr = dateGroup.replace(/(\d+)(st|nd|rd|th)/, '$1');
-    const parts = cleanDateStr.trim().split(' ');
-    
-    if (parts.length >= 3) {
-      const day = parseInt(parts[1]); // e.g., "11"
-      const month = parts[2]; // e.g., "August"
-      
-      const monthIndex = DateTimeParser.getMonthIndex(month);
-      
-      if (monthIndex !== -1 && !isNaN(day)) {
-        const date = DateTimeParser.createDateWithYearInference(monthIndex, day, 12);
-        return date.toISOString().substring(0, 10); // Return just YYYY-MM-DD
-      }
-    }
-    
-    // Return null for unparseable dates like "Valentines day"
-    scraperLogger.warn(`Unable to parse date group: "${dateGroup}" - skipping events with this date`);
-    return null;
-  }
-  
-  /**
-   * Combine date group and time range into ISO datetime
-   */
-  static parseDateTime(timeRange: string, params?: Record<string, any>): string | null {
-    try {
-      // Extract date from params.dateGroup if provided
-      let dateStr: string | null;
-      if (params?.dateGroup) {
-        dateStr = this.parseDateGroup(params.dateGroup);
-        if (dateStr === null) {
-          return null; // Skip event if date group couldn't be parsed
-        }
-      } else {
-        dateStr = new Date().toISOString().substring(0, 10);
-      }
-      
-      scraperLogger.debug(`Parsing datetime - dateGroup: ${params?.dateGroup}, dateStr: ${dateStr}, timeRange: ${timeRange}`);
-      
-      // Parse time range like "13:00 - 14:45" or "20:00 - 02:00"
-      const timeMatch = timeRange.trim().match(/(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})/);
-      
-      if (timeMatch) {
-        const [, startHour, startMin, endHour, endMin] = timeMatch;
-        const baseDate = new Date(`${dateStr}T00:00:00.000Z`);
-        
-        if (isNaN(baseDate.getTime())) {
-          scraperLogger.warn(`Invalid base date: ${dateStr}, falling back to today`);
-          return new Date().toISOString();
-        }
-        
-        const isEndTime = params?.isEndTime || false;
-        
-        if (isEndTime) {
-          // Handle end time that might go past midnight
-          const startTime = parseInt(startHour);
-          const endTime = parseInt(endHour);
-          
-          const endDate = new Date(baseDate);
-          endDate.setUTCHours(parseInt(endHour), parseInt(endMin), 0, 0);
-          
-          if (endTime < startTime) {
-            endDate.setUTCDate(endDate.getUTCDate() + 1);
-          }
-          
-          return endDate.toISOString();
-        } else {
-          // Start time
-          const startDate = new Date(baseDate);
-          startDate.setUTCHours(parseInt(startHour), parseInt(startMin), 0, 0);
-          return startDate.toISOString();
-        }
-      }
-      
-      // If time parsing fails but we have a valid date, return date with noon time
-      const date = new Date(`${dateStr}T12:00:00.000Z`);
-      if (!isNaN(date.getTime())) {
-        scraperLogger.warn(`Could not parse time from "${timeRange}", using date only with noon time`);
-        return date.toISOString();
-      }
-      
-      return timeRange; // Return original value if all parsing fails
-      
-    } catch (error) {
-      scraperLogger.error(`Error parsing Exchange Bristol datetime: ${error}`);
-      return timeRange;
-    }
-  }
+export interface ScrapeOptions {
+  // Record page responses to, or replay them from, a fixture directory
+  fixtures?: { mode: FixtureMode; store: FixtureStore };
+  // Aborting closes the page, which fails whatever step is running
+  signal?: AbortSignal;
+  // Told about each URL skipped because robots.txt disallows it
+  onBlocked?: (request: BlockedRequest) => void;
+  // Defaults to the process-wide instance shared by all scrapers
+  politeness?: Politeness;
+  // Detail pages seen on earlier runs; saved when the scrape succeeds. Unused with fixtures.
+  followUpCache?: FollowUpCache;
+  // The last full run's listing fingerprint; the scrape returns nothing once it is known to match
+  previousFingerprint?: ListingFingerprint;
+  // Told this run's listing fingerprint when the scrape finishes
+  onFingerprint?: (fingerprint: ListingFingerprint) => void;
 }
 
-const scraperLogger = logger.child({ component: 'config-driven-scraper' });
-
 export class ConfigDrivenScraper {
-  private config: ScraperConfig;
+  private config: BrowserScraperConfig;
+  private mapper: GigMapper;
+  private browser: Browser | null = null;
   private page: Page | null = null;
+  private followUpPages = new Set<Page>();
   private extractedData: Record<string, any>[] = [];
+  private fixtureMode?: FixtureMode;
+  private fixtures?: ScrapeOptions['fixtures'];
+  private followUpCache?: FollowUpCache;
+  private fingerprint!: ListingFingerprinter;
+  private politeness: Politeness = sharedPoliteness;
+  private politenessSettings: PolitenessSettings;
+  private onBlocked?: (request: BlockedRequest) => void;
 
   constructor(config: ScraperConfig) {
-    this.config = ScraperConfigSchema.parse(config);
+    const parsed = ScraperConfigSchema.parse(config);
+    if (parsed.type !== 'browser') {
+      throw new Error(`${parsed.site.source} is a ${parsed.type} config, not a browser config`);
+    }
+    this.config = parsed;
+    this.mapper = new GigMapper(parsed);
+    this.politenessSettings = getPolitenessSettings(parsed);
   }
 
   /**
@@ -531,8 +91,22 @@ export class ConfigDrivenScraper {
   /**
    * Execute the scraping workflow
    */
-  async scrape(browser: Browser): Promise<Gig[]> {
+  async scrape(browser: Browser, options: ScrapeOptions = {}): Promise<Gig[]> {
     const startTime = Date.now();
+    const { fixtures, signal } = options;
+    this.fixtureMode = fixtures?.mode;
+    this.fixtures = fixtures;
+    this.followUpCache = fixtures ? undefined : options.followUpCache;
+    // Rendered pages can change while their HTML validators don't, so only content is compared
+    this.fingerprint = new ListingFingerprinter(this.config, options.previousFingerprint);
+    this.politeness = options.politeness ?? sharedPoliteness;
+    this.onBlocked = options.onBlocked;
+    this.browser = browser;
+    const closePage = () => {
+      this.page?.close().catch(() => undefined);
+      this.followUpPages.forEach(page => page.close().catch(() => undefined));
+    };
+    signal?.addEventListener('abort', closePage, { once: true });
     scraperLogger.info(`Starting scrape for ${this.config.site.name}`);
     scraperLogger.debug('Configuration loaded', {
       browserTimeout: this.config.browser?.timeout,
@@ -543,23 +117,34 @@ export class ConfigDrivenScraper {
     try {
       // Setup page
       this.page = await this.setupPage(browser);
+
+      if (fixtures) {
+        await fixtures.store.attach(this.page, fixtures.mode);
+        scraperLogger.info(`${fixtures.mode === 'record' ? 'Recording' : 'Replaying'} page responses`);
+      }
       
       // Execute workflow steps
       for (const [index, action] of this.config.workflow.entries()) {
+        signal?.throwIfAborted();
         scraperLogger.debug(`Executing step ${index + 1}: ${action.type}`, { action });
         await this.executeAction(action);
         
         // Rate limiting between actions
-        if (this.config.rateLimit?.delayBetweenRequests) {
-          await this.sleep(this.config.rateLimit.delayBetweenRequests);
-        }
+        await this.rateLimitDelay();
       }
 
       // Transform extracted data to Gig objects
-      const gigs = this.transformToGigs();
+      const gigs = this.mapper.mapItems(this.extractedData);
       
       // Validate results
-      this.validateResults(gigs);
+      this.mapper.validate(gigs);
+
+      if (this.followUpCache) {
+        await this.followUpCache.save();
+        scraperLogger.info(this.followUpCache.getStats(), 'Follow-up pages');
+      }
+
+      options.onFingerprint?.(this.fingerprint.digest());
 
       const duration = Date.now() - startTime;
       scraperLogger.info(`Scrape completed: ${gigs.length} events found in ${duration}ms`);
@@ -567,6 +152,15 @@ export class ConfigDrivenScraper {
       return gigs;
 
     } catch (error) {
+      if (error instanceof ListingUnchanged) {
+        scraperLogger.info('Listing unchanged since the last run, skipping the rest of the scrape');
+        options.onFingerprint?.(this.fingerprint.unchanged());
+        return [];
+      }
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+
       scraperLogger.error(`Scraping failed for ${this.config.site.name}:`, error);
       
       // Take debug screenshot if enabled
@@ -578,9 +172,13 @@ export class ConfigDrivenScraper {
       
       throw error;
     } finally {
+      signal?.removeEventListener('abort', closePage);
       if (this.page) {
         await this.page.close();
       }
+      if (fixtures?.mode === 'record') {
+        await fixtures.store.save();
+      }
     }
   }
 
@@ -630,6 +228,9 @@ export class ConfigDrivenScraper {
       case 'extract':
         await this.executeExtract(action);
         break;
+      case 'paginate':
+        await this.executePaginate(action);
+        break;
       default:
         throw new Error(`Unknown action type: ${(action as any).type}`);
     }
@@ -642,7 +243,7 @@ export class ConfigDrivenScraper {
     if (!this.page) return;
 
     scraperLogger.debug(`Navigating to ${action.url}`);
-    await this.page.goto(action.url);
+    await this.goto(action.url);
     
     if (action.waitForLoad) {
       await this.page.waitForLoadState('domcontentloaded');
@@ -788,82 +389,210 @@ export class ConfigDrivenScraper {
   private async executeExtract(action: ExtractConfig): Promise<void> {
     if (!this.page) return;
 
-    scraperLogger.debug(`Extracting data from containers: ${action.containerSelector}`);
-
-    const containers = await this.page.$$(action.containerSelector);
-    scraperLogger.info(`Found ${containers.length} containers to extract from`);
+    const structuredItems = action.method === 'structured-data' ? await this.harvestStructuredEvents() : [];
+    this.fingerprint.addContent(await this.getListingContent(action, structuredItems));
 
     // Check if this uses a special extraction method
-    if ((action as any).method === 'bristol-exchange' || this.config.site.source === 'bristol-exchange') {
+    if (action.method === 'bristol-exchange' || this.config.site.source === 'bristol-exchange') {
       await this.executeExchangeBristolExtraction(action);
       return;
     }
-    
-    // Debug: log some container information if debug is enabled
-    if (this.config.debug?.logLevel === 'debug' && containers.length > 0) {
-      for (let i = 0; i < Math.min(5, containers.length); i++) {
-        try {
-          const tagName = await containers[i].evaluate(el => el.tagName);
-          const className = await containers[i].evaluate(el => el.className);
-          const textContent = await containers[i].evaluate(el => el.textContent?.substring(0, 100));
-          scraperLogger.debug(`Container ${i + 1}: ${tagName}.${className} - "${textContent}"`);
-        } catch (error) {
-          scraperLogger.debug(`Container ${i + 1}: Error reading details`);
-        }
-      }
-    }
 
-    for (const container of containers) {
-      const item: Record<string, any> = {};
+    const firstNewItem = this.extractedData.length;
 
-      for (const [fieldName, fieldConfig] of Object.entries(action.fields)) {
-        try {
-          let value: string | string[] | null = null;
+    if (action.method === 'structured-data') {
+      await this.executeStructuredDataExtraction(action, structuredItems);
+    } else {
+      this.extractedData.push(...await this.extractContainerItems(action));
+    }
 
-          if (fieldConfig.multiple) {
-            // Extract multiple values
-            const elements = await container.$$(fieldConfig.selector);
-            const values = [];
-            
-            for (const element of elements) {
-              const extracted = await this.extractValue(element, fieldConfig.attribute || 'text');
-              if (extracted) values.push(extracted);
-            }
-            
-            value = values;
-          } else {
-            // Extract single value
-            const element = await container.$(fieldConfig.selector);
-            if (element) {
-              value = await this.extractValue(element, fieldConfig.attribute || 'text');
-            }
-          }
+    // Handle action-level follow-up extraction if configured
+    if (action.followUp && action.followUp.urlField) {
+      // Only follow up items from this action - earlier pages of a paginated listing are already done
+      const itemsToProcess = this.extractedData.slice(firstNewItem);
+      scraperLogger.debug(`Processing action-level followUp for ${itemsToProcess.length} items`);
+      await this.runFollowUps(itemsToProcess, action.followUp);
+    }
+  }
 
-          // Apply transformations
-          if (value && fieldConfig.transform) {
-            value = this.transformValue(value, fieldConfig.transform, fieldConfig.transformParams);
-          }
+  /**
+   * What an extract step reads from the listing, for the fingerprint. Custom extraction
+   * methods without a container selector fall back to the whole page.
+   */
+  private async getListingContent(action: ExtractConfig, structuredItems: Record<string, any>[]): Promise<string> {
+    if (!this.page) return '';
 
-          // Handle missing required fields
-          if (!value && fieldConfig.required) {
-            if (fieldConfig.fallback) {
-              value = fieldConfig.fallback;
-            } else {
-              scraperLogger.warn(`Required field '${fieldName}' not found`);
-            }
-          }
+    const parts = action.containerSelector
+      ? await this.page.$$eval(action.containerSelector, elements => elements.map(element => element.outerHTML))
+      : [];
+    parts.push(...structuredItems.map(item => JSON.stringify(item)));
 
-          item[fieldName] = value;
+    if (parts.length === 0 && action.method && action.method !== 'structured-data') {
+      parts.push(await this.page.content());
+    }
+    return parts.join('\n');
+  }
+
+  /**
+   * Execute paginate action - repeat the page steps on each listing page
+   */
+  private async executePaginate(action: PaginateConfig): Promise<void> {
+    if (!this.page) return;
+
+    const seenItems = new Set<string>();
+    let pageNumber = action.startPage;
+
+    for (let pageCount = 1; ; pageCount++) {
+      if (action.urlTemplate) {
+        const url = action.urlTemplate.replace(/\{page\}/g, String(pageNumber));
+        scraperLogger.debug(`Paginating to ${url}`);
+        if (!(await this.gotoListingPage(url))) break;
+        await this.page.waitForLoadState('domcontentloaded');
+      }
+
+      const firstNewItem = this.extractedData.length;
+
+      for (const step of action.steps) {
+        await this.executeAction(step);
+      }
+
+      // Drop items already seen on earlier pages, e.g. when a site repeats its last page
+      const pageItems = this.extractedData.splice(firstNewItem);
+      const newItems = pageItems.filter(item => {
+        const key = JSON.stringify(item);
+        if (seenItems.has(key)) return false;
+        seenItems.add(key);
+        return true;
+      });
+      this.extractedData.push(...newItems);
+
+      scraperLogger.info(`Page ${pageCount}: ${newItems.length} new items (${pageItems.length - newItems.length} repeated)`);
+
+      if (newItems.length === 0 && action.stopWhenNoNewItems) {
+        scraperLogger.info(`Stopping pagination after page ${pageCount}: no new items`);
+        break;
+      }
+      if (pageCount >= action.maxPages) {
+        scraperLogger.info(`Stopping pagination at maxPages (${action.maxPages})`);
+        break;
+      }
+
+      if (action.nextSelector) {
+        if (!(await this.goToNextPage(action.nextSelector))) {
+          scraperLogger.info(`Stopping pagination after page ${pageCount}: no next page`);
+          break;
+        }
+      }
+
+      pageNumber++;
+
+      if (action.waitAfter) {
+        await this.sleep(action.waitAfter);
+      }
+      await this.rateLimitDelay();
+    }
+  }
+
+  /**
+   * Move to the next listing page, returning false when there isn't one
+   */
+  private async goToNextPage(nextSelector: string): Promise<boolean> {
+    if (!this.page) return false;
+
+    const next = await this.page.$(nextSelector);
+    if (!next) return false;
+
+    const disabled = await next.getAttribute('disabled') !== null || await next.getAttribute('aria-disabled') === 'true';
+    if (disabled) return false;
+
+    const href = await next.getAttribute('href');
+    if (href && !href.startsWith('#') && !href.startsWith('javascript:')) {
+      const nextUrl = new URL(href, this.page.url()).href;
+      if (nextUrl === this.page.url()) return false;
+
+      scraperLogger.debug(`Following next page link: ${nextUrl}`);
+      if (!(await this.gotoListingPage(nextUrl))) return false;
+    } else {
+      scraperLogger.debug(`Clicking next page control: ${nextSelector}`);
+      await next.click();
+    }
+
+    await this.page.waitForLoadState('domcontentloaded');
+    return true;
+  }
+
+  /**
+   * Extract one item per container using the action's selector-based fields
+   */
+  private async extractContainerItems(action: ExtractConfig): Promise<Record<string, any>[]> {
+    if (!this.page || !action.containerSelector) return [];
+
+    scraperLogger.debug(`Extracting data from containers: ${action.containerSelector}`);
+
+    const containers = await this.page.$$(action.containerSelector);
+    scraperLogger.info(`Found ${containers.length} containers to extract from`);
+
+    // Debug: log some container information if debug is enabled
+    if (this.config.debug?.logLevel === 'debug' && containers.length > 0) {
+      for (let i = 0; i < Math.min(5, containers.length); i++) {
+        try {
+          const tagName = await containers[i].evaluate(el => el.tagName);
+          const className = await containers[i].evaluate(el => el.className);
+          const textContent = await containers[i].evaluate(el => el.textContent?.substring(0, 100));
+          scraperLogger.debug(`Container ${i + 1}: ${tagName}.${className} - "${textContent}"`);
+        } catch (error) {
+          scraperLogger.debug(`Container ${i + 1}: Error reading details`);
+        }
+      }
+    }
+
+    const items: Record<string, any>[] = [];
+
+    for (const container of containers) {
+      const item: Record<string, any> = {};
+
+      for (const [fieldName, fieldConfig] of Object.entries(action.fields)) {
+        try {
+          let value: string | string[] | null = null;
+
+          if (fieldConfig.multiple) {
+            // Extract multiple values
+            const elements = await container.$$(fieldConfig.selector);
+            const values = [];
+            
+            for (const element of elements) {
+              const extracted = await this.extractValue(element, fieldConfig.attribute || 'text');
+              if (extracted) values.push(extracted);
+            }
+            
+            value = values;
+          } else {
+            // Extract single value
+            const element = await container.$(fieldConfig.selector);
+            if (element) {
+              value = await this.extractValue(element, fieldConfig.attribute || 'text');
+            }
+          }
+
+          // Apply transformations
+          if (value && fieldConfig.transform) {
+            value = this.mapper.transformValue(value, fieldConfig.transform, fieldConfig.transformParams, item);
+          }
+
+          // Handle missing required fields
+          if (!value && fieldConfig.required) {
+            if (fieldConfig.fallback) {
+              value = fieldConfig.fallback;
+            } else {
+              scraperLogger.warn(`Required field '${fieldName}' not found`);
+            }
+          }
+
+          item[fieldName] = value;
 
           // Handle follow-up extraction if configured
           if (fieldConfig.followUp && item[fieldConfig.followUp.urlField]) {
-            try {
-              const followUpData = await this.executeFollowUp(item[fieldConfig.followUp.urlField], fieldConfig.followUp.fields);
-              // Merge follow-up data into the item
-              Object.assign(item, followUpData);
-            } catch (error) {
-              scraperLogger.warn(`Follow-up extraction failed for ${fieldName}:`, error);
-            }
+            await this.runFollowUps([item], fieldConfig.followUp);
           }
 
         } catch (error) {
@@ -875,31 +604,41 @@ export class ConfigDrivenScraper {
       }
 
       if (Object.keys(item).length > 0) {
-        this.extractedData.push(item);
+        items.push(item);
       }
     }
 
-    // Handle action-level follow-up extraction if configured
-    if (action.followUp && action.followUp.urlField) {
-      scraperLogger.debug(`Processing action-level followUp for ${this.extractedData.length} items`);
-      
-      // Create a copy of the items to avoid modifying while iterating
-      const itemsToProcess = [...this.extractedData];
-      
-      for (const item of itemsToProcess) {
-        const followUpUrl = item[action.followUp.urlField];
-        if (followUpUrl) {
-          try {
-            scraperLogger.debug(`Following up on URL: ${followUpUrl}`);
-            const followUpData = await this.executeFollowUp(followUpUrl, action.followUp.fields);
-            // Merge follow-up data into the item
-            Object.assign(item, followUpData);
-          } catch (error) {
-            scraperLogger.warn(`Action-level follow-up extraction failed for URL ${followUpUrl}:`, error);
-          }
-        }
-      }
-    }
+    return items;
+  }
+
+  /**
+   * Extract schema.org Events published as JSON-LD or microdata.
+   * Selector-based fields, when configured, fill in whatever the structured data leaves out.
+   */
+  private async executeStructuredDataExtraction(action: ExtractConfig, structuredItems: Record<string, any>[]): Promise<void> {
+    if (!this.page) return;
+
+    const selectorItems = await this.extractContainerItems(action);
+
+    const fallbacks = Object.fromEntries(
+      Object.entries(action.fields).map(([fieldName, fieldConfig]) => [fieldName, fieldConfig.fallback])
+    );
+    const items = mergeStructuredItems(structuredItems, selectorItems, fallbacks);
+
+    scraperLogger.info(`Structured data extraction completed: ${structuredItems.length} structured events, ${selectorItems.length} selector items, ${items.length} merged`);
+    this.extractedData.push(...items);
+  }
+
+  /**
+   * Harvest schema.org Events from a page (the listing by default) as mapping-ready items
+   */
+  private async harvestStructuredEvents(page: Page | null = this.page): Promise<Record<string, any>[]> {
+    if (!page) return [];
+
+    const harvest = await page.evaluate(STRUCTURED_DATA_SCRIPT) as StructuredDataHarvest;
+    const pageUrl = page.url();
+
+    return findStructuredEvents(harvest).map(event => structuredEventToItem(event, pageUrl));
   }
 
   /**
@@ -920,95 +659,6 @@ export class ConfigDrivenScraper {
     }
   }
 
-  /**
-   * Apply transformations to extracted values
-   */
-  private transformValue(value: string | string[], transform: string, transformParams?: Record<string, any>): string | string[] | null {
-    if (Array.isArray(value)) {
-      return value.map(v => this.transformSingleValue(v, transform, transformParams)).filter(v => v !== null) as string[];
-    }
-    return this.transformSingleValue(value, transform, transformParams);
-  }
-
-  private transformSingleValue(value: string, transform: string, transformParams?: Record<string, any>): string | null {
-    // Use a transform registry for better organization and extensibility
-    const transformRegistry: Record<string, (val: string, params?: Record<string, any>) => string | null> = {
-      // Basic string transforms
-      'trim': (val) => val.trim(),
-      'lowercase': (val) => val.toLowerCase(),
-      'uppercase': (val) => val.toUpperCase(),
-      'slug': (val) => val.toLowerCase().replace(/[^a-z0-9]/g, '-').replace(/-+/g, '-').trim(),
-      
-      // Date/time transforms - now using our DRY utilities
-      'date': (val) => {
-        const result = DateTimeParser.parseDate(val);
-        return result.success ? result.date.toISOString() : new Date(val).toISOString();
-      },
-      'time-range-start': (val) => {
-        const match = val.match(/^(\d{1,2}:\d{2})/);
-        return match ? match[1] : val;
-      },
-      'time-range-end': (val) => {
-        const match = val.match(/(\d{1,2}:\d{2})$/);
-        return match ? match[1] : val;
-      },
-      
-      // URL transforms - consolidated logic
-      'url': (val, params) => this.transformUrl(val, this.config.site.baseUrl),
-      'louisiana-url': (val, params) => this.transformUrl(val, this.config.site.baseUrl || 'https://www.thelouisiana.net'),
-      
-      // Venue-specific transforms
-      'exchange-venue-name': (val) => {
-        const trimmed = val.trim();
-        if (!trimmed || trimmed.toLowerCase().includes('exchange')) {
-          return 'Exchange';
-        }
-        return `Exchange, ${trimmed}`;
-      },
-      'static-louisiana-name': () => 'The Louisiana Bristol',
-      
-      // Regex-based transforms
-      'extract-text': (val, params) => {
-        if (params?.pattern) {
-          const match = val.match(new RegExp(params.pattern, params.flags || 'i'));
-          return match ? (match[1] || match[0]) : val;
-        }
-        return val;
-      },
-      'regex': (val, params) => {
-        if (params?.pattern) {
-          const regex = new RegExp(params.pattern, params.flags || 'g');
-          return val.replace(regex, params.replacement || '');
-        }
-        return val;
-      },
-      
-      // Date parsing transforms - using our DRY utilities
-      'bristol-exchange-datetime': (val, params) => this.parseExchangeBristolDateTime(val, params),
-      'parse-date-group': (val, params) => this.parseExchangeBristolDateGroup(val),
-      'lanes-bristol-date': (val, params) => this.parseLanesBristolDate(val),
-      'croft-bristol-date': (val, params) => this.parseCroftBristolDate(val),
-      'strange-brew-datetime': (val, params) => this.parseStrangeBrewDateTime(val, params),
-      'thekla-bristol-date': (val, params) => this.parseTheklaBristolDate(val),
-      'fleece-bristol-datetime': (val, params) => this.parseFleeceBristolDateTime(val, params),
-      'louisiana-bristol-datetime': (val, params) => this.parseLouisianaBristolDateTime(val, params),
-      'electric-bristol-datetime': (val, params) => this.parseElectricBristolDateTime(val, params),
-      'rough-trade-datetime': (val, params) => this.parseRoughTradeDateTime(val, params),
-      'rough-trade-city-mapper': (val) => this.mapRoughTradeCity(val),
-      'rough-trade-title': (val) => this.extractRoughTradeTitle(val),
-      'rough-trade-price': (val) => this.extractRoughTradePrice(val)
-    };
-    
-    const transformer = transformRegistry[transform];
-    if (transformer) {
-      return transformer(value, transformParams);
-    }
-    
-    // Log unknown transforms for debugging
-    scraperLogger.warn(`Unknown transform type: ${transform}`);
-    return value;
-  }
-
   /**
    * Special extraction method for Exchange Bristol that handles date groups
    */
@@ -1113,7 +763,7 @@ export class ConfigDrivenScraper {
               dateGroup: item.dateGroup,
               isEndTime: fieldName === 'endTime'
             };
-            processedValue = this.parseExchangeBristolDateTime(processedValue, transformParams);
+            processedValue = ExchangeBristolDateParser.parseDateTime(processedValue, transformParams);
             // Skip event if date couldn't be parsed
             if (processedValue === null) {
               scraperLogger.info(`Skipping event "${item.title}" due to unparseable date group: "${item.dateGroup}"`);
@@ -1121,7 +771,7 @@ export class ConfigDrivenScraper {
               break;
             }
           } else {
-            processedValue = this.transformValue(processedValue, fieldConfig.transform, fieldConfig.transformParams);
+            processedValue = this.mapper.transformValue(processedValue, fieldConfig.transform, fieldConfig.transformParams, item);
           }
         }
 
@@ -1138,688 +788,203 @@ export class ConfigDrivenScraper {
   }
 
   /**
-   * Parse Exchange Bristol date groups like "Today" or "Monday 11th August"
-   * @deprecated Use ExchangeBristolDateParser.parseDateGroup() instead
+   * Follow up every item with a URL, each of up to `maxConcurrent` workers using its own page
+   * so the listing page stays where it is
    */
-  private parseExchangeBristolDateGroup(dateGroup: string): string | null {
-    return ExchangeBristolDateParser.parseDateGroup(dateGroup);
-  }
-
-  /**
-   * Combine date group and time range into ISO datetime
-   * @deprecated Use ExchangeBristolDateParser.parseDateTime() instead
-   */
-  private parseExchangeBristolDateTime(timeRange: string, params?: Record<string, any>): string | null {
-    return ExchangeBristolDateParser.parseDateTime(timeRange, params);
-  }
+  private async runFollowUps(items: Record<string, any>[], followUp: FollowUpConfig): Promise<void> {
+    const queue = items.filter(item => item[followUp.urlField]);
+    const workers = Math.min(this.politenessSettings.maxConcurrent, queue.length);
 
-  // Note: getMonthIndex and getMonthIndexFromAbbr methods were removed
-  // Use DateTimeParser.getMonthIndex() directly instead
+    await Promise.all(Array.from({ length: workers }, async () => {
+      // Opened on the first follow-up that isn't served from the cache
+      let page: Page | null = null;
+      const getPage = async () => {
+        if (!page) page = await this.openFollowUpPage();
+        return page;
+      };
 
-  /**
-   * Parse The Lanes Bristol date format like "Friday 15th August 22:30 - 03:00"
-   */
-  private parseLanesBristolDate(dateStr: string): string {
-    try {
-      scraperLogger.info(`🔍 PARSING LANES BRISTOL DATE: "${dateStr}"`);
-      
-      // Preprocess the date string to handle "Tomorrow"
-      let processedDateStr = dateStr.trim();
-      
-      if (processedDateStr.toLowerCase().includes('tomorrow')) {
-        scraperLogger.info(`✅ DETECTED "TOMORROW" in date string: "${dateStr}"`);
-        
-        // Extract time if present (e.g., "Tomorrow 19:00 - 22:00")
-        const timeMatch = processedDateStr.match(/(\d{1,2}):(\d{2})/);
-        let timeStr = '';
-        if (timeMatch) {
-          timeStr = ` ${timeMatch[0]}`;
-          scraperLogger.info(`⏰ EXTRACTED TIME from Tomorrow string: "${timeMatch[0]}"`);
+      try {
+        for (let item = queue.shift(); item; item = queue.shift()) {
+          Object.assign(item, await this.executeFollowUp(item[followUp.urlField], followUp, getPage));
         }
-        
-        // Get tomorrow's date and format it
-        const tomorrow = new Date();
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        
-        // Format as day name and date (e.g., "Friday 15th November")
-        const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-        const monthNames = ['January', 'February', 'March', 'April', 'May', 'June',
-                           'July', 'August', 'September', 'October', 'November', 'December'];
-        
-        const dayName = dayNames[tomorrow.getDay()];
-        const date = tomorrow.getDate();
-        const ordinalSuffix = date === 1 || date === 21 || date === 31 ? 'st' :
-                             date === 2 || date === 22 ? 'nd' :
-                             date === 3 || date === 23 ? 'rd' : 'th';
-        const monthName = monthNames[tomorrow.getMonth()];
-        
-        processedDateStr = `${dayName} ${date}${ordinalSuffix} ${monthName}${timeStr}`;
-        scraperLogger.info(`🔄 CONVERTED "Tomorrow" to: "${processedDateStr}"`);
-      }
-      
-      const result = DateTimeParser.parseDate(processedDateStr, undefined, { 
-        format: 'bristol-standard',
-        defaultHour: 22 // Most Lanes events are in the evening
-      });
-      
-      if (result.success) {
-        const isoString = result.date.toISOString();
-        scraperLogger.info(`✅ SUCCESSFULLY PARSED Lanes Bristol date "${dateStr}" to "${isoString}"`);
-        return isoString;
-      } else {
-        scraperLogger.error(`❌ FAILED TO PARSE Lanes Bristol date: "${dateStr}" - ${result.error}`);
-        // Instead of throwing, return the preprocessed date string
-        scraperLogger.error(`🔄 RETURNING PROCESSED DATE STRING: "${processedDateStr}"`);
-        return processedDateStr;
-      }
-      
-    } catch (error) {
-      scraperLogger.error(`💥 ERROR parsing Lanes Bristol date "${dateStr}":`, error);
-      return dateStr;
-    }
-  }
-
-  /**
-   * Parse The Croft Bristol date format like "Friday 12th September"
-   */
-  private parseCroftBristolDate(dateStr: string): string {
-    try {
-      scraperLogger.debug(`Parsing Croft Bristol date: "${dateStr}"`);
-      
-      const result = DateTimeParser.parseDate(dateStr, undefined, {
-        format: 'bristol-standard',
-        defaultHour: 19 // Default to 7 PM for gigs
-      });
-      
-      if (result.success) {
-        const isoString = result.date.toISOString();
-        scraperLogger.debug(`Parsed Croft Bristol date: "${dateStr}" -> "${isoString}"`);
-        return isoString;
-      } else {
-        throw new Error(`Failed to parse: ${result.error}`);
-      }
-    } catch (error) {
-      scraperLogger.error(`Error parsing Croft Bristol date "${dateStr}":`, error);
-      return new Date().toISOString(); // Fallback to today
-    }
-  }
-
-  /**
-   * Parse Thekla Bristol date format like "Wed.13.Aug.25"
-   */
-  private parseTheklaBristolDate(dateStr: string): string {
-    try {
-      scraperLogger.debug(`Parsing Thekla Bristol date: "${dateStr}"`);
-      
-      const result = DateTimeParser.parseDate(dateStr, undefined, {
-        format: 'thekla',
-        defaultHour: 12 // Noon for date-only events
-      });
-      
-      if (result.success) {
-        const isoString = result.date.toISOString();
-        scraperLogger.debug(`Parsed Thekla Bristol date "${dateStr}" to "${isoString}"`);
-        return isoString;
-      } else {
-        // Try fallback parsing
-        scraperLogger.warn(`Could not parse Thekla Bristol date format: "${dateStr}", attempting fallback`);
-        const fallbackDate = new Date(dateStr);
-        if (!isNaN(fallbackDate.getTime())) {
-          return fallbackDate.toISOString();
+      } finally {
+        if (page) {
+          this.followUpPages.delete(page);
+          await (page as Page).close().catch(() => undefined);
         }
-        
-        scraperLogger.error(`Failed to parse Thekla Bristol date: "${dateStr}"`);
-        return dateStr;
       }
-      
-    } catch (error) {
-      scraperLogger.error(`Error parsing Thekla Bristol date "${dateStr}":`, error);
-      return dateStr;
-    }
+    }));
   }
 
   /**
-   * Parse The Fleece Bristol date format like "Tuesday 12 Aug 2025" combined with doors time like "Doors: 07:00"
+   * Open a page for follow-ups, set up like the listing page
    */
-  private parseFleeceBristolDateTime(dateStr: string, params?: Record<string, any>): string {
-    try {
-      scraperLogger.debug(`Parsing Fleece Bristol date: "${dateStr}"`);
-      
-      const timeStr = params?.doorsTime;
-      const result = DateTimeParser.parseDate(dateStr, timeStr, {
-        format: 'fleece',
-        defaultHour: 12
-      });
-      
-      if (result.success) {
-        const isoString = result.date.toISOString();
-        scraperLogger.debug(`Parsed Fleece Bristol date "${dateStr}" with doors time to "${isoString}"`);
-        return isoString;
-      } else {
-        throw new Error(`Could not parse Fleece Bristol date format: ${result.error}`);
-      }
-      
-    } catch (error) {
-      scraperLogger.error(`Error parsing Fleece Bristol date "${dateStr}":`, error);
-      // Return a date far in the future to indicate parsing failure
-      return new Date('2099-12-31T23:59:59.000Z').toISOString();
-    }
-  }
+  private async openFollowUpPage(): Promise<Page> {
+    if (!this.browser) throw new Error('Browser not initialized');
 
-  /**
-   * Parse Strange Brew Bristol date format like "Friday 7th November\n19:00" with time included
-   */
-  private parseStrangeBrewDateTime(dateStr: string, params?: Record<string, any>): string {
-    try {
-      scraperLogger.debug(`Parsing Strange Brew date: "${dateStr}"`);
-      
-      const result = DateTimeParser.parseDate(dateStr, undefined, {
-        format: 'bristol-standard',
-        defaultHour: 19 // Default to 7 PM
-      });
-      
-      if (result.success) {
-        const isoString = result.date.toISOString();
-        scraperLogger.debug(`Parsed date: ${isoString}`);
-        return isoString;
-      } else {
-        throw new Error(`Date does not match expected pattern: ${result.error}`);
-      }
-      
-    } catch (error) {
-      scraperLogger.error(`Error parsing Strange Brew date "${dateStr}":`, error);
-      // Return a date far in the future to indicate parsing failure
-      return new Date('2099-12-31T23:59:59.000Z').toISOString();
+    const page = await this.setupPage(this.browser);
+    this.followUpPages.add(page);
+    if (this.fixtures) {
+      await this.fixtures.store.attachPage(page, this.fixtures.mode);
     }
+    return page;
   }
 
-
   /**
-   * Helper method for URL transformation - consolidates URL logic
+   * Execute follow-up extraction on a separate page, reusing the cached result when the
+   * page was seen recently or the site says it hasn't changed
    */
-  private transformUrl(value: string, baseUrl?: string): string {
-    if (!value || value.startsWith('http://') || value.startsWith('https://')) {
-      return value;
-    }
+  private async executeFollowUp(
+    url: string,
+    followUp: FollowUpConfig,
+    getPage: () => Promise<Page>
+  ): Promise<Record<string, any>> {
+    scraperLogger.debug(`Following up on URL: ${url}`);
     
-    if (!baseUrl) {
-      return value; // Return as-is if no baseUrl configured
+    const followUpData: Record<string, any> = {};
+    const cached = this.followUpCache?.get(url, followUp);
+
+    if (cached && this.followUpCache!.isFresh(cached, followUp)) {
+      return { ...cached.data };
     }
     
-    // Handle different types of relative URLs
-    if (value.startsWith('/')) {
-      // Absolute path from root
-      return `${baseUrl}${value}`;
-    } else if (value.startsWith('#')) {
-      // Fragment/anchor - append to current page
-      return `${baseUrl}/${value}`;
-    } else {
-      // Relative path without leading slash
-      return `${baseUrl}/${value}`;
-    }
-  }
-  
-
-  /**
-   * Parse Louisiana Bristol date and combine with time from detail page
-   */
-  private parseLouisianaBristolDateTime(dateStr: string, params?: Record<string, any>): string {
     try {
-      if (!dateStr || dateStr.trim() === '') {
-        scraperLogger.warn('Empty date string for Louisiana Bristol');
-        return new Date().toISOString();
+      if (cached && this.followUpCache!.canRevalidate(cached) && await this.isUnchanged(url, cached)) {
+        this.followUpCache!.markRevalidated(url, followUp);
+        return { ...cached.data };
       }
 
-      // Get time from detail page (detailedTime) or fallback to main time field
-      let timeStr = '';
-      if (params?.timeField && this.extractedData.length > 0) {
-        const currentItem = this.extractedData[this.extractedData.length - 1];
-        timeStr = currentItem[params.timeField] || '';
-      }
+      // Navigate to the follow-up URL
+      const page = await getPage();
+      const response = await this.goto(url, page);
+      await page.waitForLoadState('domcontentloaded');
       
-      if (!timeStr && params?.fallbackTimeField && this.extractedData.length > 0) {
-        const currentItem = this.extractedData[this.extractedData.length - 1];
-        timeStr = currentItem[params.fallbackTimeField] || '';
-      }
+      // Rate limiting
+      await this.rateLimitDelay();
       
-      if (!timeStr) {
-        timeStr = params?.fallbackTime || '7:30pm';
+      // Detail pages describe a single event, so the first structured event is the one we want
+      if (followUp.structuredData) {
+        const [structuredItem] = await this.harvestStructuredEvents(page);
+        Object.assign(followUpData, structuredItem);
       }
 
-      scraperLogger.debug(`Louisiana date: "${dateStr}", time: "${timeStr}"`);
-      
-      const result = DateTimeParser.parseDate(dateStr, timeStr, {
-        format: 'bristol-standard',
-        defaultHour: 19 // Default to 7:30 PM
-      });
-      
-      if (result.success) {
-        return result.date.toISOString();
-      } else {
-        scraperLogger.warn(`Could not parse Louisiana date: "${dateStr}", using today`);
-        return new Date().toISOString();
-      }
-      
-    } catch (error) {
-      scraperLogger.error(`Error parsing Louisiana date "${dateStr}":`, error);
-      return new Date().toISOString();
-    }
-  }
+      // Extract each field from the follow-up page
+      for (const [fieldName, fieldConfig] of Object.entries(followUp.fields)) {
+        if (followUpData[fieldName] !== undefined) continue;
 
-  /**
-   * Parse Electric Bristol date format (e.g., "27th August 2025")
-   */
-  private parseElectricBristolDateTime(dateStr: string, params?: Record<string, any>): string {
-    try {
-      if (!dateStr || dateStr.trim() === '') {
-        scraperLogger.warn('Empty date string for Electric Bristol');
-        return new Date().toISOString();
+        try {
+          const element = await page.$(fieldConfig.selector);
+          if (element) {
+            let value = await this.extractValue(element, fieldConfig.attribute || 'text');
+            
+            // Apply transformations
+            if (value && fieldConfig.transform) {
+              const transformedValue = this.mapper.transformValue(value, fieldConfig.transform, fieldConfig.transformParams, followUpData);
+              value = Array.isArray(transformedValue) ? transformedValue.join(', ') : transformedValue;
+            }
+            
+            if (value) {
+              followUpData[fieldName] = value;
+            }
+          }
+        } catch (error) {
+          scraperLogger.warn(`Failed to extract follow-up field '${fieldName}':`, error);
+        }
       }
-
-      const trimmed = dateStr.trim();
       
-      // Convert dates like "27th August 2025" to "27 August 2025" by removing ordinals
-      const cleanedDate = trimmed
-        .replace(/(\d+)(st|nd|rd|th)\s+/g, '$1 ')
-        .trim();
-      
-      scraperLogger.debug(`Electric Bristol: "${dateStr}" -> "${cleanedDate}"`);
-      
-      // Parse with cleaned date
-      const result = DateTimeParser.parseDate(cleanedDate, params?.fallbackTime || '7:00pm', {
-        format: 'bristol-standard',
-        defaultHour: 19 // Default to 7:00 PM
-      });
-      
-      if (result.success) {
-        return result.date.toISOString();
-      } else {
-        scraperLogger.warn(`Could not parse Electric Bristol date: "${dateStr}" (cleaned: "${cleanedDate}"), using today`);
-        return new Date().toISOString();
-      }
+      scraperLogger.debug(`Follow-up extraction completed: ${Object.keys(followUpData).length} fields extracted`);
+      this.followUpCache?.set(url, followUp, followUpData, this.getValidators(response));
       
     } catch (error) {
-      scraperLogger.error(`Error parsing Electric Bristol date "${dateStr}":`, error);
-      return new Date().toISOString();
+      scraperLogger.warn(`Follow-up navigation failed for ${url}:`, error);
     }
+    
+    return followUpData;
   }
 
   /**
-   * Parse Rough Trade date format
-   * Handles various date formats used by Rough Trade events
+   * Ask the site whether a cached follow-up page has changed, without loading it in the browser
    */
-  private parseRoughTradeDateTime(dateStr: string, params?: Record<string, any>): string {
+  private async isUnchanged(url: string, validators: PageValidators): Promise<boolean> {
+    const target = new URL(url, this.page?.url()).href;
     try {
-      const timeField = params?.timeField ? params[params.timeField] : null;
-      
-      // Extract just the date portion if the string contains all event data
-      // Look for pattern like "Thu, 28 Aug, 7:30 pm" or "Fri, 29 Aug, 7:00 pm"
-      const dateMatch = dateStr.match(/(\w{3},?\s*\d{1,2}\s+\w{3},?\s*(?:\d{4},?\s*)?(?:\d{1,2}:\d{2}\s*(?:am|pm))?)/i);
-      if (dateMatch) {
-        dateStr = dateMatch[1];
-      }
-      
-      scraperLogger.debug(`Parsing Rough Trade date: "${dateStr}", time: "${timeField}"`);
-      
-      // Handle empty or null dateStr
-      if (!dateStr || dateStr.trim() === '') {
-        const fallbackDate = params?.fallbackDate || '2025-12-31T23:59:59.000Z';
-        scraperLogger.warn(`Empty dateStr, using fallback: ${fallbackDate}`);
-        return fallbackDate;
-      }
-      
-      const result = DateTimeParser.parseDate(dateStr, timeField, {
-        format: 'rough-trade',
-        defaultHour: 19
-      });
-      
-      if (result.success) {
-        return result.date.toISOString();
-      } else {
-        throw new Error(`Date does not match expected patterns: ${result.error}`);
-      }
-      
+      const response = await this.schedule(target, () => fetch(target, {
+        headers: { 'User-Agent': this.politenessSettings.userAgent, ...FollowUpCache.conditionalHeaders(validators) },
+        signal: AbortSignal.timeout(this.config.browser?.timeout || 30000)
+      }));
+      await response.body?.cancel();
+      return response.status === 304;
     } catch (error) {
-      scraperLogger.error(`Error parsing Rough Trade date "${dateStr}":`, error);
-      // Return a date far in the future to indicate parsing failure
-      return new Date('2099-12-31T23:59:59.000Z').toISOString();
+      if (error instanceof RobotsDisallowedError) throw error;
+      // Fall back to loading the page in the browser
+      scraperLogger.debug(`Could not revalidate ${target}: ${(error as Error).message}`);
+      return false;
     }
   }
 
   /**
-   * Extract title from Rough Trade combined text
-   * The text contains title, date, price, and venue all concatenated
+   * Cache validators from a page's main response
    */
-  private extractRoughTradeTitle(combinedText: string): string {
-    try {
-      // The title appears before the date pattern
-      // Split at the date pattern (e.g., "Thu, 28 Aug" or "Fri, 29 Aug")
-      const datePatternMatch = combinedText.match(/(\w{3},?\s*\d{1,2}\s+\w{3})/);
-      if (datePatternMatch) {
-        const dateStartIndex = combinedText.indexOf(datePatternMatch[0]);
-        const title = combinedText.substring(0, dateStartIndex).trim();
-        return title || 'Event';
-      }
-      
-      // Fallback: return first part before any date-like text
-      const parts = combinedText.split(/\b(?:Mon|Tue|Wed|Thu|Fri|Sat|Sun)\b/i);
-      if (parts.length > 0) {
-        return parts[0].trim() || 'Event';
-      }
-      
-      return 'Event';
-    } catch (error) {
-      scraperLogger.error(`Error extracting Rough Trade title from "${combinedText}":`, error);
-      return 'Event';
-    }
+  private getValidators(response: Response | null): PageValidators {
+    const headers = response?.headers() ?? {};
+    return { etag: headers['etag'], lastModified: headers['last-modified'] };
   }
 
   /**
-   * Extract price from Rough Trade combined text
+   * Navigate a page (the listing by default) to a URL once robots.txt and the host's request
+   * limits allow it. Disallowed URLs are reported as blocked and throw RobotsDisallowedError.
    */
-  private extractRoughTradePrice(combinedText: string): string {
-    try {
-      // Look for price pattern like "£15.87 - £15.87" or "£12.50 - £32.00"
-      const priceMatch = combinedText.match(/£[\d.,]+(?: - £[\d.,]+)?/);
-      if (priceMatch) {
-        return priceMatch[0];
-      }
-      return '';
-    } catch (error) {
-      scraperLogger.error(`Error extracting Rough Trade price from "${combinedText}":`, error);
-      return '';
-    }
-  }
+  private async goto(url: string, page: Page | null = this.page): Promise<Response | null> {
+    if (!page) return null;
 
-  /**
-   * Map Rough Trade venue text to appropriate city
-   * Returns "Bristol" for Rough Trade Bristol events, otherwise extracts city from venue text
-   */
-  private mapRoughTradeCity(venueText: string): string {
-    if (!venueText) return 'Bristol'; // Default to Bristol
-    
-    const lowerVenue = venueText.toLowerCase();
-    
-    // City mapping registry for easier maintenance
-    const cityMappings = [
-      { keywords: ['bristol', 'rough trade bristol'], city: 'Bristol' },
-      { keywords: ['nottingham'], city: 'Nottingham' },
-      { keywords: ['london', 'east'], city: 'London' },
-      { keywords: ['manchester'], city: 'Manchester' }
-    ];
-    
-    for (const mapping of cityMappings) {
-      if (mapping.keywords.some(keyword => lowerVenue.includes(keyword))) {
-        return mapping.city;
-      }
-    }
-    
-    // Default to Bristol if no other city detected
-    return 'Bristol';
-  }
+    const target = new URL(url, page.url() === 'about:blank' ? this.page?.url() : page.url()).href;
 
-  /**
-   * Transform extracted raw data into Gig objects
-   */
-  private transformToGigs(): Gig[] {
-    return this.extractedData.map((item, index) => {
-      const gig: Partial<Gig> = {
-        source: this.config.site.source,
-        sourceId: `${this.config.site.source}-${index}`,
-        updatedAt: new Date().toISOString()
-      };
-
-      // Map fields according to configuration
-      this.mapField(item, gig, 'title', this.config.mapping.title);
-      
-      if (this.config.mapping.artist) {
-        this.mapField(item, gig, 'artists', this.config.mapping.artist, true);
-      }
-
-      // Venue mapping
-      const venue: any = {};
-      // Handle venue.name - check if it's a field from extracted data or a static value
-      if (this.config.mapping.venue.name) {
-        if (item[this.config.mapping.venue.name] !== undefined) {
-          this.mapField(item, venue, 'name', this.config.mapping.venue.name);
-        } else {
-          // Static value
-          venue.name = this.config.mapping.venue.name;
-        }
-      }
-      if (this.config.mapping.venue.address) {
-        if (item[this.config.mapping.venue.address] !== undefined) {
-          this.mapField(item, venue, 'address', this.config.mapping.venue.address);
-        } else {
-          // Static value
-          venue.address = this.config.mapping.venue.address;
-        }
-      }
-      if (this.config.mapping.venue.city) {
-        if (item[this.config.mapping.venue.city] !== undefined) {
-          this.mapField(item, venue, 'city', this.config.mapping.venue.city);
-        } else {
-          // Static value
-          venue.city = this.config.mapping.venue.city;
-        }
-      }
-      if (this.config.mapping.venue.country) {
-        if (item[this.config.mapping.venue.country] !== undefined) {
-          this.mapField(item, venue, 'country', this.config.mapping.venue.country);
-        } else {
-          // Static value
-          venue.country = this.config.mapping.venue.country;
-        }
-      }
-      gig.venue = venue;
-
-      // Date mapping
-      if (typeof this.config.mapping.date.start === 'string') {
-        // Simple field mapping
-        this.mapField(item, gig, 'dateStart', this.config.mapping.date.start);
-      } else if (typeof this.config.mapping.date.start === 'object' && this.config.mapping.date.start.field) {
-        // Complex field mapping with transformation
-        const dateConfig = this.config.mapping.date.start;
-        let value = item[dateConfig.field];
-        
-        if (value !== undefined && value !== null && dateConfig.transform) {
-          // Prepare transform parameters by resolving field references
-          const transformParams = { ...dateConfig.transformParams };
-          if (transformParams) {
-            for (const [key, paramValue] of Object.entries(transformParams)) {
-              if (typeof paramValue === 'string' && item[paramValue] !== undefined) {
-                transformParams[key] = item[paramValue];
-              }
-            }
-          }
-          
-          value = this.transformValue(value, dateConfig.transform, transformParams);
-        }
-        
-        if (value !== undefined && value !== null) {
-          gig.dateStart = value;
-        }
-      }
-      
-      if (this.config.mapping.date.end) {
-        if (typeof this.config.mapping.date.end === 'string') {
-          this.mapField(item, gig, 'dateEnd', this.config.mapping.date.end);
-        } else if (typeof this.config.mapping.date.end === 'object' && this.config.mapping.date.end.field) {
-          // Handle complex end date mapping if needed
-          const dateConfig = this.config.mapping.date.end;
-          let value = item[dateConfig.field];
-          
-          if (value !== undefined && value !== null && dateConfig.transform) {
-            const transformParams = { ...dateConfig.transformParams };
-            if (transformParams) {
-              for (const [key, paramValue] of Object.entries(transformParams)) {
-                if (typeof paramValue === 'string' && item[paramValue] !== undefined) {
-                  transformParams[key] = item[paramValue];
-                }
-              }
-            }
-            
-            value = this.transformValue(value, dateConfig.transform, transformParams);
-          }
-          
-          if (value !== undefined && value !== null) {
-            gig.dateEnd = value;
-          }
-        }
-      }
-      if (this.config.mapping.date.timezone) {
-        this.mapField(item, gig, 'timezone', this.config.mapping.date.timezone);
-      }
-
-
-      // URLs
-      if (this.config.mapping.urls?.event) {
-        this.mapField(item, gig, 'eventUrl', this.config.mapping.urls.event);
-      }
-      if (this.config.mapping.urls?.tickets) {
-        this.mapField(item, gig, 'ticketsUrl', this.config.mapping.urls.tickets);
-      }
-
-      // Other fields
-      if (this.config.mapping.images) {
-        this.mapField(item, gig, 'images', this.config.mapping.images, true);
-      }
-      if (this.config.mapping.genres) {
-        this.mapField(item, gig, 'genre', this.config.mapping.genres, true);
-      }
-      if (this.config.mapping.ageRestriction) {
-        this.mapField(item, gig, 'ageRestriction', this.config.mapping.ageRestriction);
-      }
-      if (this.config.mapping.description) {
-        this.mapField(item, gig, 'description', this.config.mapping.description);
-      }
-
-      // Generate ID and hash
-      if (this.config.mapping.id.strategy === 'generated') {
-        const title = gig.title || '';
-        const venueName = gig.venue?.name || '';
-        const dateStart = gig.dateStart || '';
-        const city = gig.venue?.city || '';
-        gig.id = createGigId(venueName, title, dateStart, city);
-      }
-
-      gig.hash = generateGigHash(gig);
-      gig.status = 'scheduled';
+    // Replayed fixtures never reach the site
+    if (this.fixtureMode === 'replay') {
+      return page.goto(target);
+    }
 
-      return gig as Gig;
-    });
+    return this.schedule(target, () => page.goto(target));
   }
 
   /**
-   * Map a field from extracted data to gig object
+   * Run a request through the politeness layer, reporting URLs robots.txt disallows
    */
-  private mapField(
-    source: Record<string, any>, 
-    target: Record<string, any>, 
-    targetField: string, 
-    sourceField: string,
-    isArray: boolean = false,
-    transform?: (val: any) => any
-  ): void {
-    const value = source[sourceField];
-    if (value !== undefined && value !== null) {
-      let finalValue = value;
-      
-      if (transform) {
-        finalValue = transform(value);
-      }
-      
-      if (isArray && !Array.isArray(finalValue)) {
-        finalValue = [finalValue];
+  private async schedule<T>(url: string, request: () => Promise<T>): Promise<T> {
+    try {
+      return await this.politeness.schedule(url, this.politenessSettings, request);
+    } catch (error) {
+      if (error instanceof RobotsDisallowedError) {
+        scraperLogger.warn(`Skipping ${url}: ${error.message}`);
+        this.onBlocked?.(toBlockedRequest(error));
       }
-      
-      target[targetField] = finalValue;
+      throw error;
     }
   }
 
   /**
-   * Get nested value from object using dot notation
+   * Move to another listing page, returning false if robots.txt disallows it
    */
-  private getNestedValue(obj: any, path: string): any {
-    return path.split('.').reduce((current, key) => current?.[key], obj);
-  }
-
-  /**
-   * Validate scraping results
-   */
-  private validateResults(gigs: Gig[]): void {
-    const validation = this.config.validation;
-    if (!validation) return;
-
-    // Check minimum events
-    if (gigs.length < validation.minEventsExpected) {
-      throw new Error(`Expected at least ${validation.minEventsExpected} events, got ${gigs.length}`);
-    }
-
-    // Check maximum events
-    if (validation.maxEventsExpected && gigs.length > validation.maxEventsExpected) {
-      scraperLogger.warn(`Got ${gigs.length} events, expected max ${validation.maxEventsExpected}`);
-    }
-
-    // Check required fields
-    for (const gig of gigs) {
-      for (const field of validation.required) {
-        if (!this.getNestedValue(gig, field)) {
-          throw new Error(`Required field '${field}' missing in gig: ${gig.id}`);
-        }
+  private async gotoListingPage(url: string): Promise<boolean> {
+    try {
+      await this.goto(url);
+      return true;
+    } catch (error) {
+      if (error instanceof RobotsDisallowedError) {
+        scraperLogger.info(`Stopping pagination: ${error.message}`);
+        return false;
       }
+      throw error;
     }
   }
 
   /**
-   * Execute follow-up extraction on a separate page
+   * Pause between requests as configured - replayed fixtures don't need politeness
    */
-  private async executeFollowUp(url: string, fields: Record<string, any>): Promise<Record<string, any>> {
-    if (!this.page) return {};
-
-    scraperLogger.debug(`Following up on URL: ${url}`);
-    
-    const followUpData: Record<string, any> = {};
-    
-    try {
-      // Navigate to the follow-up URL
-      await this.page.goto(url);
-      await this.page.waitForLoadState('domcontentloaded');
-      
-      // Rate limiting
-      if (this.config.rateLimit?.delayBetweenRequests) {
-        await this.sleep(this.config.rateLimit.delayBetweenRequests);
-      }
-      
-      // Extract each field from the follow-up page
-      for (const [fieldName, fieldConfig] of Object.entries(fields)) {
-        try {
-          const element = await this.page.$(fieldConfig.selector);
-          if (element) {
-            let value = await this.extractValue(element, fieldConfig.attribute || 'text');
-            
-            // Apply transformations
-            if (value && fieldConfig.transform) {
-              const transformedValue = this.transformValue(value, fieldConfig.transform, fieldConfig.transformParams);
-              value = Array.isArray(transformedValue) ? transformedValue.join(', ') : transformedValue;
-            }
-            
-            if (value) {
-              followUpData[fieldName] = value;
-            }
-          }
-        } catch (error) {
-          scraperLogger.warn(`Failed to extract follow-up field '${fieldName}':`, error);
-        }
-      }
-      
-      scraperLogger.debug(`Follow-up extraction completed: ${Object.keys(followUpData).length} fields extracted`);
-      
-    } catch (error) {
-      scraperLogger.warn(`Follow-up navigation failed for ${url}:`, error);
+  private async rateLimitDelay(): Promise<void> {
+    if (this.fixtureMode !== 'replay' && this.config.rateLimit?.delayBetweenRequests) {
+      await this.sleep(this.config.rateLimit.delayBetweenRequests);
     }
-    
-    return followUpData;
   }
 
   /**
@@ -1832,7 +997,7 @@ export class ConfigDrivenScraper {
   /**
    * Get configuration for debugging
    */
-  getConfig(): ScraperConfig {
+  getConfig(): BrowserScraperConfig {
     return this.config;
   }
 }
\ No newline at end of file
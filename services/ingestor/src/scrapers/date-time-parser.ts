@@ -0,0 +1,662 @@
+import { logger } from '../logger.js';
+
+// ============================================================================
+// DATE/TIME PARSING UTILITIES (DRY Refactor)
+// ============================================================================
+
+export interface DateParsingResult {
+  date: Date;
+  success: boolean;
+  error?: string;
+}
+
+export interface TimeParsingResult {
+  hours: number;
+  minutes: number;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * How to fill in the year when a declarative date format has no year token:
+ * - next-occurrence: the next time that day/month comes round (dates earlier this year roll over)
+ * - current-year: always this calendar year
+ * - none: fail to parse
+ */
+export type YearInferenceRule = 'next-occurrence' | 'current-year' | 'none';
+
+interface CompiledDateFormat {
+  pattern: RegExp;
+  tokens: string[];
+}
+
+// Longest tokens first so the tokenizer prefers "MMMM" over "MM", "Do" over "D" etc.
+// Numeric tokens are bounded so "YY" cannot match the middle of "2025".
+const FORMAT_TOKEN_PATTERNS: Record<string, string> = {
+  YYYY: '(?<!\\d)(\\d{4})(?!\\d)',
+  MMMM: '([A-Za-z]+)',
+  dddd: '(?:[A-Za-z]+)',
+  MMM: '([A-Za-z]{3,4})\\.?',
+  ddd: '(?:[A-Za-z]{3,})',
+  YY: '(?<!\\d)(\\d{2})(?!\\d)',
+  MM: '(?<!\\d)(\\d{2})(?!\\d)',
+  Do: '(?<!\\d)(\\d{1,2})(?:st|nd|rd|th)',
+  DD: '(?<!\\d)(\\d{2})(?!\\d)',
+  HH: '(?<!\\d)(\\d{2})(?!\\d)',
+  hh: '(?<!\\d)(\\d{2})(?!\\d)',
+  mm: '(\\d{2})(?!\\d)',
+  M: '(?<!\\d)(\\d{1,2})(?!\\d)',
+  D: '(?<!\\d)(\\d{1,2})(?!\\d)',
+  H: '(?<!\\d)(\\d{1,2})(?!\\d)',
+  h: '(?<!\\d)(\\d{1,2})(?!\\d)',
+  A: '(am|pm)',
+  a: '(am|pm)'
+};
+
+export class DateTimeParser {
+  private static readonly MONTH_NAMES = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December'
+  ];
+
+  private static readonly compiledFormats = new Map<string, CompiledDateFormat>();
+
+  private static readonly MONTH_ABBREVIATIONS = [
+    'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
+    'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'
+  ];
+
+  /**
+   * Get month index from full name or abbreviation (0-based)
+   */
+  static getMonthIndex(monthName: string): number {
+    // Try full names first
+    const fullNameIndex = this.MONTH_NAMES.findIndex(month => 
+      month.toLowerCase().startsWith(monthName.toLowerCase().substring(0, 3))
+    );
+    if (fullNameIndex !== -1) return fullNameIndex;
+
+    // Try abbreviations
+    return this.MONTH_ABBREVIATIONS.findIndex(abbr => 
+      abbr.toLowerCase() === monthName.toLowerCase()
+    );
+  }
+
+  /**
+   * Convert 12-hour time to 24-hour format
+   */
+  static convertTo24Hour(hours: number, minutes: number, period: string): TimeParsingResult {
+    try {
+      let hour24 = hours;
+      const lowerPeriod = period.toLowerCase();
+      
+      if (lowerPeriod === 'pm' && hour24 !== 12) {
+        hour24 += 12;
+      } else if (lowerPeriod === 'am' && hour24 === 12) {
+        hour24 = 0;
+      }
+      
+      return { hours: hour24, minutes, success: true };
+    } catch (error) {
+      return { 
+        hours: 0, 
+        minutes: 0, 
+        success: false, 
+        error: `Failed to convert time: ${error}` 
+      };
+    }
+  }
+
+  /**
+   * Parse time from various formats ("19:30", "7:30 PM", "Doors: 07:00")
+   */
+  static parseTime(timeStr: string): TimeParsingResult {
+    if (!timeStr || typeof timeStr !== 'string') {
+      return { hours: 0, minutes: 0, success: false, error: 'Empty or invalid time string' };
+    }
+
+    const cleanTime = timeStr.trim();
+
+    // Pattern 1: 24-hour format "19:30" or "07:00"
+    const time24Match = cleanTime.match(/(\d{1,2}):(\d{2})$/);
+    if (time24Match) {
+      const hours = parseInt(time24Match[1]);
+      const minutes = parseInt(time24Match[2]);
+      if (hours >= 0 && hours <= 23 && minutes >= 0 && minutes <= 59) {
+        return { hours, minutes, success: true };
+      }
+    }
+
+    // Pattern 2: 12-hour format "7:30 PM" or "Doors: 07:00 pm"
+    const time12Match = cleanTime.match(/(?:doors?:?\s*)?(\d{1,2}):?(\d{2})?\s*(am|pm)/i);
+    if (time12Match) {
+      const hours = parseInt(time12Match[1]);
+      const minutes = parseInt(time12Match[2] || '00');
+      const period = time12Match[3];
+      return this.convertTo24Hour(hours, minutes, period);
+    }
+
+    // Pattern 3: Time range - extract start time "13:00 - 14:45"
+    const rangeMatch = cleanTime.match(/(\d{1,2}):(\d{2})\s*-\s*\d{1,2}:\d{2}/);
+    if (rangeMatch) {
+      const hours = parseInt(rangeMatch[1]);
+      const minutes = parseInt(rangeMatch[2]);
+      return { hours, minutes, success: true };
+    }
+
+    return { 
+      hours: 0, 
+      minutes: 0, 
+      success: false, 
+      error: `Unable to parse time format: "${timeStr}"` 
+    };
+  }
+
+  /**
+   * Create date with smart year inference
+   */
+  static createDateWithYearInference(month: number, day: number, baseHour: number = 12): Date {
+    const now = new Date();
+    let year = now.getFullYear();
+    
+    // If month is before current month, assume next year
+    if (month < now.getMonth()) {
+      year += 1;
+    } else if (month === now.getMonth() && day < now.getDate()) {
+      // If same month but day has passed, also next year
+      year += 1;
+    }
+    
+    const date = new Date(year, month, day, baseHour, 0, 0);
+    
+    // Sanity check: if date is more than 18 months in future, use current year
+    const eighteenMonthsFromNow = new Date(now);
+    eighteenMonthsFromNow.setMonth(now.getMonth() + 18);
+    if (date > eighteenMonthsFromNow) {
+      date.setFullYear(now.getFullYear());
+    }
+    
+    return date;
+  }
+
+  /**
+   * Parse relative date terms ("Today", "Tomorrow")
+   */
+  static parseRelativeDate(dateStr: string): DateParsingResult {
+    const lower = dateStr.toLowerCase().trim();
+    const today = new Date();
+    
+    if (lower === 'today') {
+      return { date: new Date(today), success: true };
+    }
+    
+    if (lower === 'tomorrow') {
+      const tomorrow = new Date(today);
+      tomorrow.setDate(tomorrow.getDate() + 1);
+      return { date: tomorrow, success: true };
+    }
+    
+    return { 
+      date: new Date(), 
+      success: false, 
+      error: `Not a relative date: ${dateStr}` 
+    };
+  }
+
+  /**
+   * Parse ordinal day formats ("15th", "2nd", "23rd")
+   */
+  static parseOrdinalDay(dayStr: string): number | null {
+    const match = dayStr.match(/(\d{1,2})(?:st|nd|rd|th)?/);
+    if (match) {
+      const day = parseInt(match[1]);
+      if (day >= 1 && day <= 31) {
+        return day;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Generic date parser that handles multiple common formats
+   */
+  static parseDate(dateStr: string, timeStr?: string, options: {
+    defaultHour?: number;
+    format?: 'bristol-standard' | 'thekla' | 'fleece' | 'rough-trade';
+    fallbackYear?: number;
+  } = {}): DateParsingResult {
+    const defaultHour = options.defaultHour || 19; // Default to 7 PM for gigs
+    
+    try {
+      if (!dateStr || typeof dateStr !== 'string') {
+        return { 
+          date: new Date(), 
+          success: false, 
+          error: 'Empty or invalid date string' 
+        };
+      }
+
+      const cleanDateStr = dateStr.replace(/\s+/g, ' ').trim();
+
+      // Handle relative dates first
+      const relativeResult = this.parseRelativeDate(cleanDateStr);
+      if (relativeResult.success) {
+        if (timeStr) {
+          const timeResult = this.parseTime(timeStr);
+          if (timeResult.success) {
+            relativeResult.date.setHours(timeResult.hours, timeResult.minutes, 0, 0);
+          }
+        }
+        return relativeResult;
+      }
+
+      // Handle specific formats based on options
+      if (options.format === 'thekla') {
+        return this.parseTheklaFormat(cleanDateStr);
+      }
+      
+      if (options.format === 'fleece') {
+        return this.parseFleeceFormat(cleanDateStr, timeStr);
+      }
+      
+      if (options.format === 'rough-trade') {
+        return this.parseRoughTradeFormat(cleanDateStr, timeStr);
+      }
+
+      // Generic patterns
+      return this.parseGenericDateFormat(cleanDateStr, timeStr, defaultHour);
+      
+    } catch (error) {
+      return { 
+        date: new Date(), 
+        success: false, 
+        error: `Failed to parse date: ${error}` 
+      };
+    }
+  }
+
+  /**
+   * Parse a date using a declarative format string such as "dddd Do MMMM" or "ddd.D.MMM.YY".
+   * Supported tokens: YYYY, YY, MMMM, MMM, MM, M, Do, DD, D, dddd, ddd, HH, H, hh, h, mm, A/a.
+   * Text inside [brackets] is matched literally and whitespace matches any run of whitespace.
+   * When the format has no time tokens, `time` and then `defaultTime` are used; when it has no
+   * year token, the year is filled in according to `yearInference`.
+   */
+  static parseWithFormat(dateStr: string, format: string, options: {
+    time?: string;
+    defaultTime?: string;
+    yearInference?: YearInferenceRule;
+  } = {}): DateParsingResult {
+    if (!dateStr || typeof dateStr !== 'string') {
+      return { date: new Date(), success: false, error: 'Empty or invalid date string' };
+    }
+
+    const { pattern, tokens } = this.compileFormat(format);
+    const match = dateStr.replace(/\s+/g, ' ').trim().match(pattern);
+    if (!match) {
+      return { date: new Date(), success: false, error: `"${dateStr}" does not match format "${format}"` };
+    }
+
+    const parts: Record<string, string> = {};
+    tokens.forEach((token, index) => {
+      parts[token] = match[index + 1];
+    });
+
+    const monthName = parts.MMMM ?? parts.MMM;
+    const monthNumber = parts.MM ?? parts.M;
+    const month = monthName !== undefined
+      ? this.getMonthIndex(monthName)
+      : monthNumber !== undefined ? parseInt(monthNumber) - 1 : -1;
+    const day = parseInt(parts.Do ?? parts.DD ?? parts.D ?? '');
+
+    if (month < 0 || month > 11 || isNaN(day)) {
+      return { date: new Date(), success: false, error: `Format "${format}" did not yield a month and day from "${dateStr}"` };
+    }
+
+    let hours = 19; // Default to 7 PM for gigs
+    let minutes = 0;
+    const hourToken = parts.HH ?? parts.H ?? parts.hh ?? parts.h;
+
+    if (hourToken !== undefined) {
+      hours = parseInt(hourToken);
+      minutes = parseInt(parts.mm ?? '0');
+      const period = parts.A ?? parts.a;
+      if (period) {
+        const timeResult = this.convertTo24Hour(hours, minutes, period);
+        if (!timeResult.success) {
+          return { date: new Date(), success: false, error: timeResult.error };
+        }
+        hours = timeResult.hours;
+        minutes = timeResult.minutes;
+      }
+    } else {
+      for (const candidate of [options.time, options.defaultTime]) {
+        if (!candidate) continue;
+        const timeResult = this.parseTime(candidate);
+        if (timeResult.success) {
+          hours = timeResult.hours;
+          minutes = timeResult.minutes;
+          break;
+        }
+      }
+    }
+
+    let date: Date;
+    const yearToken = parts.YYYY ?? parts.YY;
+
+    if (yearToken !== undefined) {
+      const year = yearToken.length === 2 ? 2000 + parseInt(yearToken) : parseInt(yearToken);
+      date = new Date(year, month, day, hours, minutes, 0);
+    } else {
+      switch (options.yearInference ?? 'next-occurrence') {
+        case 'next-occurrence':
+          date = this.createDateWithYearInference(month, day, hours);
+          date.setMinutes(minutes);
+          break;
+        case 'current-year':
+          date = new Date(new Date().getFullYear(), month, day, hours, minutes, 0);
+          break;
+        case 'none':
+          return { date: new Date(), success: false, error: `Format "${format}" has no year and year inference is disabled` };
+      }
+    }
+
+    // Reject rollovers such as "31 Feb" becoming 3rd March
+    if (isNaN(date.getTime()) || date.getMonth() !== month || date.getDate() !== day) {
+      return { date: new Date(), success: false, error: `Invalid calendar date: "${dateStr}"` };
+    }
+
+    return { date, success: true };
+  }
+
+  /**
+   * Compile a declarative date format into a regular expression, remembering the
+   * order of the capturing tokens. Compiled formats are cached since the same few
+   * formats are applied to every item on a listing page.
+   */
+  private static compileFormat(format: string): CompiledDateFormat {
+    const cached = this.compiledFormats.get(format);
+    if (cached) return cached;
+
+    const tokens: string[] = [];
+    let source = '';
+    let lastIndex = 0;
+    const tokenizer = new RegExp(`\\[([^\\]]*)\\]|${Object.keys(FORMAT_TOKEN_PATTERNS).join('|')}`, 'g');
+    const escapeLiteral = (literal: string) =>
+      literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+
+    for (const match of format.matchAll(tokenizer)) {
+      source += escapeLiteral(format.slice(lastIndex, match.index));
+      lastIndex = match.index! + match[0].length;
+
+      if (match[1] !== undefined) {
+        source += escapeLiteral(match[1]);
+        continue;
+      }
+
+      const tokenPattern = FORMAT_TOKEN_PATTERNS[match[0]];
+      source += tokenPattern;
+      if (match[0] !== 'dddd' && match[0] !== 'ddd') {
+        tokens.push(match[0]);
+      }
+    }
+    source += escapeLiteral(format.slice(lastIndex));
+
+    const compiled = { pattern: new RegExp(source, 'i'), tokens };
+    this.compiledFormats.set(format, compiled);
+    return compiled;
+  }
+
+  private static parseTheklaFormat(dateStr: string): DateParsingResult {
+    // "Wed.13.Aug.25" format
+    const match = dateStr.match(/^(\w{3})\.(\d{1,2})\.(\w{3})\.(\d{2})$/);
+    if (match) {
+      const [, dayName, day, monthAbbr, year] = match;
+      const monthIndex = this.getMonthIndex(monthAbbr);
+      
+      if (monthIndex !== -1) {
+        const fullYear = parseInt(year) < 50 ? 2000 + parseInt(year) : 1900 + parseInt(year);
+        const date = new Date(fullYear, monthIndex, parseInt(day), 12, 0, 0);
+        
+        if (!isNaN(date.getTime())) {
+          return { date, success: true };
+        }
+      }
+    }
+    
+    return { 
+      date: new Date(), 
+      success: false, 
+      error: `Invalid Thekla format: ${dateStr}` 
+    };
+  }
+
+  private static parseFleeceFormat(dateStr: string, timeStr?: string): DateParsingResult {
+    // "Tuesday 12 Aug 2025" format
+    const match = dateStr.match(/^(?:(\w+)\s+)?(\d{1,2})\s+(\w+)\s+(\d{4})$/);
+    if (match) {
+      const [, dayName, day, month, year] = match;
+      const monthIndex = this.getMonthIndex(month);
+      
+      if (monthIndex !== -1) {
+        let hour = 12;
+        let minute = 0;
+        
+        if (timeStr) {
+          const timeResult = this.parseTime(timeStr);
+          if (timeResult.success) {
+            hour = timeResult.hours;
+            minute = timeResult.minutes;
+          }
+        }
+        
+        const date = new Date(parseInt(year), monthIndex, parseInt(day), hour, minute);
+        
+        if (!isNaN(date.getTime())) {
+          return { date, success: true };
+        }
+      }
+    }
+    
+    return { 
+      date: new Date(), 
+      success: false, 
+      error: `Invalid Fleece format: ${dateStr}` 
+    };
+  }
+
+  private static parseRoughTradeFormat(dateStr: string, timeStr?: string): DateParsingResult {
+    // "Thu, 28 Aug, 7:30 pm" format or "Thu 4 Sep 2025, 7pm"
+    let match = dateStr.match(/^(\w{3}),?\s*(\d{1,2})\s+(\w{3}),?\s*(?:(\d{4}),?\s*)?(?:(\d{1,2}):?(\d{2})?\s*(am|pm))?$/i);
+    if (match) {
+      const [, dayName, day, month, year, hour, minute, period] = match;
+      const monthIndex = this.getMonthIndex(month);
+      
+      if (monthIndex !== -1) {
+        const eventYear = year ? parseInt(year) : new Date().getFullYear();
+        
+        if (hour && period) {
+          const timeResult = this.convertTo24Hour(parseInt(hour), parseInt(minute || '0'), period);
+          if (timeResult.success) {
+            const date = new Date(eventYear, monthIndex, parseInt(day), timeResult.hours, timeResult.minutes);
+            return { date, success: true };
+          }
+        } else {
+          // No time in date string, use default 7pm
+          const date = new Date(eventYear, monthIndex, parseInt(day), 19, 0);
+          return { date, success: true };
+        }
+      }
+    }
+    
+    // Try ISO format: 2025-09-04T19:00:00Z
+    if (dateStr.match(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/)) {
+      const date = new Date(dateStr);
+      if (!isNaN(date.getTime())) {
+        return { date, success: true };
+      }
+    }
+    
+    // Fallback to generic parsing
+    return this.parseGenericDateFormat(dateStr, timeStr, 19);
+  }
+
+  private static parseGenericDateFormat(dateStr: string, timeStr?: string, defaultHour: number = 19): DateParsingResult {
+    // Handle various common formats
+    
+    // Pattern 1: "Friday 15th August 22:30 - 03:00" (with time in date string)
+    let match = dateStr.match(/^(\w+day)\s+(\d{1,2})(?:st|nd|rd|th)?\s+(\w+)\s+(\d{1,2}):(\d{2})(?:\s*-\s*\d{1,2}:\d{2})?$/);
+    if (match) {
+      const [, dayName, day, month, hour, minute] = match;
+      const monthIndex = this.getMonthIndex(month);
+      
+      if (monthIndex !== -1) {
+        const date = this.createDateWithYearInference(monthIndex, parseInt(day), parseInt(hour));
+        date.setMinutes(parseInt(minute));
+        return { date, success: true };
+      }
+    }
+    
+    // Pattern 2: "Friday 15th August" (date only)
+    match = dateStr.match(/^(?:(\w+day)\s+)?(\d{1,2})(?:st|nd|rd|th)?\s+(\w+)$/);
+    if (match) {
+      const [, dayName, day, month] = match;
+      const monthIndex = this.getMonthIndex(month);
+      
+      if (monthIndex !== -1) {
+        const date = this.createDateWithYearInference(monthIndex, parseInt(day), defaultHour);
+        
+        // Apply time if provided separately
+        if (timeStr) {
+          const timeResult = this.parseTime(timeStr);
+          if (timeResult.success) {
+            date.setHours(timeResult.hours, timeResult.minutes, 0, 0);
+          }
+        }
+        
+        return { date, success: true };
+      }
+    }
+    
+    // Pattern 3: Try to parse with JavaScript Date constructor as fallback
+    const fallbackDate = new Date(dateStr);
+    if (!isNaN(fallbackDate.getTime())) {
+      if (timeStr) {
+        const timeResult = this.parseTime(timeStr);
+        if (timeResult.success) {
+          fallbackDate.setHours(timeResult.hours, timeResult.minutes, 0, 0);
+        }
+      }
+      return { date: fallbackDate, success: true };
+    }
+    
+    return { 
+      date: new Date(), 
+      success: false, 
+      error: `Unable to parse generic date format: ${dateStr}` 
+    };
+  }
+}
+
+const parserLogger = logger.child({ component: 'date-time-parser' });
+
+// Exchange Bristol specific utilities
+export class ExchangeBristolDateParser {
+  /**
+   * Parse Exchange Bristol date groups like "Today" or "Monday 11th August"
+   */
+  static parseDateGroup(dateGroup: string): string | null {
+    const result = DateTimeParser.parseRelativeDate(dateGroup);
+    if (result.success) {
+      return result.date.toISOString().substring(0, 10); // Return just YYYY-MM-DD
+    }
+    
+    // Parse formats like "Monday 11th August", "Friday 10 January", "Sunday 17 August"
+    const cleanDateStr = dateGroup.replace(/(\d+)(st|nd|rd|th)/, '$1');
+    const parts = cleanDateStr.trim().split(' ');
+    
+    if (parts.length >= 3) {
+      const day = parseInt(parts[1]); // e.g., "11"
+      const month = parts[2]; // e.g., "August"
+      
+      const monthIndex = DateTimeParser.getMonthIndex(month);
+      
+      if (monthIndex !== -1 && !isNaN(day)) {
+        const date = DateTimeParser.createDateWithYearInference(monthIndex, day, 12);
+        return date.toISOString().substring(0, 10); // Return just YYYY-MM-DD
+      }
+    }
+    
+    // Return null for unparseable dates like "Valentines day"
+    parserLogger.warn(`Unable to parse date group: "${dateGroup}" - skipping events with this date`);
+    return null;
+  }
+  
+  /**
+   * Combine date group and time range into ISO datetime
+   */
+  static parseDateTime(timeRange: string, params?: Record<string, any>): string | null {
+    try {
+      // Extract date from params.dateGroup if provided
+      let dateStr: string | null;
+      if (params?.dateGroup) {
+        dateStr = this.parseDateGroup(params.dateGroup);
+        if (dateStr === null) {
+          return null; // Skip event if date group couldn't be parsed
+        }
+      } else {
+        dateStr = new Date().toISOString().substring(0, 10);
+      }
+      
+      parserLogger.debug(`Parsing datetime - dateGroup: ${params?.dateGroup}, dateStr: ${dateStr}, timeRange: ${timeRange}`);
+      
+      // Parse time range like "13:00 - 14:45" or "20:00 - 02:00"
+      const timeMatch = timeRange.trim().match(/(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})/);
+      
+      if (timeMatch) {
+        const [, startHour, startMin, endHour, endMin] = timeMatch;
+        const baseDate = new Date(`${dateStr}T00:00:00.000Z`);
+        
+        if (isNaN(baseDate.getTime())) {
+          parserLogger.warn(`Invalid base date: ${dateStr}, falling back to today`);
+          return new Date().toISOString();
+        }
+        
+        const isEndTime = params?.isEndTime || false;
+        
+        if (isEndTime) {
+          // Handle end time that might go past midnight
+          const startTime = parseInt(startHour);
+          const endTime = parseInt(endHour);
+          
+          const endDate = new Date(baseDate);
+          endDate.setUTCHours(parseInt(endHour), parseInt(endMin), 0, 0);
+          
+          if (endTime < startTime) {
+            endDate.setUTCDate(endDate.getUTCDate() + 1);
+          }
+          
+          return endDate.toISOString();
+        } else {
+          // Start time
+          const startDate = new Date(baseDate);
+          startDate.setUTCHours(parseInt(startHour), parseInt(startMin), 0, 0);
+          return startDate.toISOString();
+        }
+      }
+      
+      // If time parsing fails but we have a valid date, return date with noon time
+      const date = new Date(`${dateStr}T12:00:00.000Z`);
+      if (!isNaN(date.getTime())) {
+        parserLogger.warn(`Could not parse time from "${timeRange}", using date only with noon time`);
+        return date.toISOString();
+      }
+      
+      return timeRange; // Return original value if all parsing fails
+      
+    } catch (error) {
+      parserLogger.error(`Error parsing Exchange Bristol datetime: ${error}`);
+      return timeRange;
+    }
+  }
+}
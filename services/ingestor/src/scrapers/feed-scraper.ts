@@ -0,0 +1,155 @@
+import { promises as fs } from 'fs';
+import { FeedParser, RobotsDisallowedError, type FeedItem } from '@gigateer/scraper';
+import type { Gig, BlockedRequest, ListingFingerprint } from '@gigateer/contracts';
+import { logger } from '../logger.js';
+import {
+  ScraperConfig,
+  ScraperConfigSchema,
+  FeedScraperConfig
+} from '../schemas/scraper-config.js';
+import { GigMapper } from './gig-mapper.js';
+import { FollowUpCache } from './follow-up-cache.js';
+import { ListingFingerprinter, ListingUnchanged } from './listing-fingerprint.js';
+import { Politeness, sharedPoliteness, getPolitenessSettings, toBlockedRequest, type PolitenessSettings } from './politeness.js';
+
+const feedLogger = logger.child({ component: 'feed-scraper' });
+
+export interface FeedScrapeOptions {
+  // Aborting cancels the request in flight
+  signal?: AbortSignal;
+  // Told about the feed URL when robots.txt disallows it
+  onBlocked?: (request: BlockedRequest) => void;
+  // Defaults to the process-wide instance shared by all scrapers
+  politeness?: Politeness;
+  // The last full run's fingerprint; the scrape returns nothing once the feed is known to match
+  previousFingerprint?: ListingFingerprint;
+  // Told this run's feed fingerprint when the scrape finishes
+  onFingerprint?: (fingerprint: ListingFingerprint) => void;
+}
+
+/**
+ * Scraper for venues that publish an RSS/Atom, iCal or JSON feed.
+ * Feed items are mapped to Gigs with the same `mapping` block as browser scrapers,
+ * without the cost of launching a browser.
+ */
+export class FeedScraper {
+  private config: FeedScraperConfig;
+  private mapper: GigMapper;
+  private politenessSettings: PolitenessSettings;
+
+  constructor(config: ScraperConfig) {
+    const parsed = ScraperConfigSchema.parse(config);
+    if (parsed.type !== 'feed') {
+      throw new Error(`${parsed.site.source} is a ${parsed.type} config, not a feed config`);
+    }
+    this.config = parsed;
+    this.mapper = new GigMapper(parsed);
+    this.politenessSettings = getPolitenessSettings(parsed);
+  }
+
+  /**
+   * Load configuration from JSON file
+   */
+  static async fromFile(configPath: string): Promise<FeedScraper> {
+    try {
+      const configContent = await fs.readFile(configPath, 'utf-8');
+      const config = JSON.parse(configContent);
+      return new FeedScraper(config);
+    } catch (error) {
+      feedLogger.error(`Failed to load config from ${configPath}:`, error);
+      throw new Error(`Invalid configuration file: ${configPath}`);
+    }
+  }
+
+  /**
+   * Fetch the feed and map its items to Gigs
+   */
+  async scrape(options: FeedScrapeOptions = {}): Promise<Gig[]> {
+    const startTime = Date.now();
+    const { url } = this.config.feed;
+    const fingerprint = new ListingFingerprinter(this.config, options.previousFingerprint);
+    feedLogger.info(`Fetching feed for ${this.config.site.name}: ${url}`);
+
+    try {
+      const revalidation = fingerprint.getRevalidation();
+      const politeness = options.politeness ?? sharedPoliteness;
+      const feed = await politeness.schedule(url, this.politenessSettings, () => {
+        const timeout = AbortSignal.timeout(this.config.browser?.timeout || 30000);
+        return FeedParser.fetchFeed(url, this.config.site.source, {
+          signal: options.signal ? AbortSignal.any([options.signal, timeout]) : timeout,
+          userAgent: this.politenessSettings.userAgent,
+          headers: revalidation ? FollowUpCache.conditionalHeaders(revalidation) : {}
+        });
+      });
+      if (!feed) throw new ListingUnchanged();
+
+      fingerprint.addResponse({ etag: feed.etag, lastModified: feed.lastModified });
+      fingerprint.addContent(feed.content);
+
+      const items = FeedParser.parseContent(feed.content, feed.contentType, this.config.site.source);
+      const gigs = this.mapFeedItems(items);
+      options.onFingerprint?.(fingerprint.digest());
+
+      const duration = Date.now() - startTime;
+      feedLogger.info(`Feed scrape completed: ${gigs.length} events from ${items.length} feed items in ${duration}ms`);
+
+      return gigs;
+    } catch (error) {
+      if (error instanceof ListingUnchanged) {
+        feedLogger.info('Feed unchanged since the last run, skipping it');
+        options.onFingerprint?.(fingerprint.unchanged());
+        return [];
+      }
+      if (error instanceof RobotsDisallowedError) {
+        feedLogger.warn(`Skipping ${url}: ${error.message}`);
+        options.onBlocked?.(toBlockedRequest(error));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Map parsed feed items to Gigs and validate them against the config
+   */
+  mapFeedItems(items: FeedItem[]): Gig[] {
+    const records = items.map(item => this.deriveFields(item));
+    const gigs = this.mapper.mapItems(records);
+    this.mapper.validate(gigs);
+    return gigs;
+  }
+
+  /**
+   * Add the config's derived `feed.fields` to a feed item
+   */
+  private deriveFields(item: FeedItem): Record<string, any> {
+    const record: Record<string, any> = { ...item };
+
+    for (const [fieldName, fieldConfig] of Object.entries(this.config.feed.fields ?? {})) {
+      const raw = item[fieldConfig.from];
+      let value: string | string[] | null = null;
+
+      if (raw !== undefined && raw !== null && raw !== '') {
+        value = Array.isArray(raw) ? raw.map(String) : String(raw);
+      }
+
+      if (value && fieldConfig.transform) {
+        value = this.mapper.transformValue(value, fieldConfig.transform, fieldConfig.transformParams, record);
+      }
+
+      if (!value && fieldConfig.fallback) {
+        value = fieldConfig.fallback;
+      }
+
+      record[fieldName] = value;
+    }
+
+    return record;
+  }
+
+  /**
+   * Get configuration for debugging
+   */
+  getConfig(): FeedScraperConfig {
+    return this.config;
+  }
+}
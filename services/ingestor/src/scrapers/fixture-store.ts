@@ -0,0 +1,184 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import path from 'path';
+import type { Page, Route, Request } from 'playwright';
+import { logger } from '../logger.js';
+
+const fixtureLogger = logger.child({ component: 'fixture-store' });
+
+export type FixtureMode = 'record' | 'replay';
+
+export interface FixtureEntry {
+  method: string;
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string; // path of the response body, relative to the fixture directory
+}
+
+export interface FixtureManifest {
+  source: string;
+  recordedAt: string;
+  entries: FixtureEntry[];
+}
+
+// Nothing we extract depends on these, so they are neither recorded nor replayed
+const SKIPPED_RESOURCE_TYPES = new Set(['image', 'media', 'font']);
+
+// Bodies are stored decoded, so transfer headers from the live response no longer apply
+const DROPPED_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding', 'set-cookie']);
+
+/**
+ * Records the responses a scrape receives to a fixture directory and replays them through
+ * Playwright request interception, so configs can be tested without the live site.
+ *
+ * Layout: `<dir>/manifest.json` plus one body file per response in `<dir>/responses/`.
+ */
+export class FixtureStore {
+  private entries = new Map<string, FixtureEntry>();
+  private pendingWrites: Promise<void>[] = [];
+  private recordedAt = new Date().toISOString();
+  private misses: string[] = [];
+
+  constructor(private readonly dir: string, private readonly source: string) {}
+
+  /**
+   * Load a recorded fixture directory
+   */
+  static async load(dir: string): Promise<FixtureStore> {
+    const manifestPath = path.join(dir, 'manifest.json');
+    let manifest: FixtureManifest;
+    try {
+      manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`No recorded fixtures found at ${manifestPath}: ${(error as Error).message}`);
+    }
+
+    const store = new FixtureStore(dir, manifest.source);
+    store.recordedAt = manifest.recordedAt;
+    for (const entry of manifest.entries) {
+      store.entries.set(FixtureStore.key(entry.method, entry.url), entry);
+    }
+    return store;
+  }
+
+  static key(method: string, url: string): string {
+    return `${method.toUpperCase()} ${url.split('#')[0]}`;
+  }
+
+  /**
+   * When the fixtures were recorded - replayed scrapes may want to pin the clock to this
+   */
+  getRecordedAt(): string {
+    return this.recordedAt;
+  }
+
+  /**
+   * Requests that had no recorded response during replay
+   */
+  getMisses(): string[] {
+    return [...this.misses];
+  }
+
+  /**
+   * Route every request the page makes through the store
+   */
+  async attach(page: Page, mode: FixtureMode): Promise<void> {
+    if (mode === 'record') {
+      // Start from a clean recording rather than mixing in responses from an older one
+      await fs.rm(path.join(this.dir, 'responses'), { recursive: true, force: true });
+    }
+
+    await this.attachPage(page, mode);
+  }
+
+  /**
+   * Route another page of the same scrape through the store, e.g. one opened for follow-ups
+   */
+  async attachPage(page: Page, mode: FixtureMode): Promise<void> {
+    await page.route('**/*', (route, request) =>
+      mode === 'record' ? this.recordRoute(route, request) : this.replayRoute(route, request)
+    );
+  }
+
+  /**
+   * Fetch the live response, keep a copy and pass it on to the page
+   */
+  async recordRoute(route: Route, request: Request): Promise<void> {
+    if (SKIPPED_RESOURCE_TYPES.has(request.resourceType())) {
+      await route.abort();
+      return;
+    }
+
+    let response: Awaited<ReturnType<Route['fetch']>>;
+    try {
+      response = await route.fetch();
+    } catch (error) {
+      fixtureLogger.warn(`Could not record ${request.url()}: ${(error as Error).message}`);
+      await route.abort('failed');
+      return;
+    }
+
+    const body = await response.body();
+    const key = FixtureStore.key(request.method(), request.url());
+    const bodyFile = path.join('responses', `${createHash('sha1').update(key).digest('hex')}.body`);
+
+    this.entries.set(key, {
+      method: request.method().toUpperCase(),
+      url: request.url().split('#')[0],
+      status: response.status(),
+      headers: Object.fromEntries(
+        Object.entries(response.headers()).filter(([name]) => !DROPPED_HEADERS.has(name.toLowerCase()))
+      ),
+      body: bodyFile
+    });
+    this.pendingWrites.push(this.writeBody(bodyFile, body));
+
+    await route.fulfill({ response, body });
+  }
+
+  /**
+   * Answer from the recording; anything not recorded fails as if the network were down
+   */
+  async replayRoute(route: Route, request: Request): Promise<void> {
+    const entry = this.entries.get(FixtureStore.key(request.method(), request.url()));
+
+    if (!entry) {
+      if (!SKIPPED_RESOURCE_TYPES.has(request.resourceType())) {
+        this.misses.push(request.url());
+        fixtureLogger.debug(`No recorded response for ${request.method()} ${request.url()}`);
+      }
+      await route.abort('internetdisconnected');
+      return;
+    }
+
+    await route.fulfill({
+      status: entry.status,
+      headers: entry.headers,
+      body: await fs.readFile(path.join(this.dir, entry.body))
+    });
+  }
+
+  /**
+   * Write the manifest once all recorded bodies are on disk
+   */
+  async save(): Promise<void> {
+    await Promise.all(this.pendingWrites);
+
+    const manifest: FixtureManifest = {
+      source: this.source,
+      recordedAt: this.recordedAt,
+      entries: [...this.entries.values()].sort((a, b) => a.url.localeCompare(b.url))
+    };
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(path.join(this.dir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+
+    fixtureLogger.info(`Recorded ${manifest.entries.length} responses to ${this.dir}`);
+  }
+
+  private async writeBody(bodyFile: string, body: Buffer): Promise<void> {
+    const fullPath = path.join(this.dir, bodyFile);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, body);
+  }
+}
@@ -0,0 +1,160 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import path from 'path';
+import { logger } from '../logger.js';
+import type { FollowUpConfig } from '../schemas/scraper-config.js';
+
+const cacheLogger = logger.child({ component: 'follow-up-cache' });
+
+/**
+ * HTTP validators for revalidating a cached detail page
+ */
+export interface PageValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface FollowUpCacheEntry extends PageValidators {
+  url: string;
+  /** Fields extracted from the detail page */
+  data: Record<string, any>;
+  /** When the page was last fetched or confirmed unchanged */
+  fetchedAt: string;
+}
+
+interface FollowUpCacheFile {
+  source: string;
+  entries: Record<string, FollowUpCacheEntry>;
+}
+
+/**
+ * What follow-ups did during a scrape
+ */
+export interface FollowUpCacheStats {
+  /** Reused without a request because they were fetched within the TTL */
+  fresh: number;
+  /** Confirmed unchanged by the site with a 304 */
+  revalidated: number;
+  /** Fetched and extracted again */
+  fetched: number;
+}
+
+/**
+ * Remembers what each follow-up detail page yielded, so a source's next run can skip pages
+ * it has already seen. Entries younger than the follow-up's `cacheTtlHours` are reused as is;
+ * older ones are revalidated with ETag/Last-Modified when the site sent them.
+ *
+ * Layout: one `<source>.json` per source. Entries are keyed by URL and the follow-up's fields,
+ * so changing a config's follow-up fields refetches its pages.
+ */
+export class FollowUpCache {
+  private used = new Set<string>();
+  private stats: FollowUpCacheStats = { fresh: 0, revalidated: 0, fetched: 0 };
+
+  private constructor(
+    private readonly filePath: string,
+    private readonly source: string,
+    private readonly entries: Map<string, FollowUpCacheEntry>
+  ) {}
+
+  /**
+   * Load a source's cache, starting empty if there is none or it can't be read
+   */
+  static async load(dir: string, source: string): Promise<FollowUpCache> {
+    const filePath = path.join(dir, `${source}.json`);
+    let entries: Record<string, FollowUpCacheEntry> = {};
+
+    try {
+      const file: FollowUpCacheFile = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      entries = file.entries ?? {};
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        cacheLogger.warn({ source, error: (error as Error).message }, 'Ignoring unreadable follow-up cache');
+      }
+    }
+
+    return new FollowUpCache(filePath, source, new Map(Object.entries(entries)));
+  }
+
+  static key(url: string, followUp: FollowUpConfig): string {
+    const fields = createHash('sha1')
+      .update(JSON.stringify({ structuredData: followUp.structuredData, fields: followUp.fields }))
+      .digest('hex')
+      .slice(0, 12);
+    return `${url} ${fields}`;
+  }
+
+  /**
+   * Request headers asking the site to reply 304 if the page hasn't changed
+   */
+  static conditionalHeaders(entry: PageValidators): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.etag) headers['If-None-Match'] = entry.etag;
+    if (entry.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+    return headers;
+  }
+
+  /**
+   * The cached result for a follow-up, if any. It is kept when the cache is saved.
+   */
+  get(url: string, followUp: FollowUpConfig): FollowUpCacheEntry | undefined {
+    const key = FollowUpCache.key(url, followUp);
+    const entry = this.entries.get(key);
+    if (entry) this.used.add(key);
+    return entry;
+  }
+
+  /**
+   * Whether an entry is recent enough to reuse without asking the site. Counts it as reused if so.
+   */
+  isFresh(entry: FollowUpCacheEntry, followUp: FollowUpConfig, now = Date.now()): boolean {
+    const fresh = now - new Date(entry.fetchedAt).getTime() < followUp.cacheTtlHours * 60 * 60 * 1000;
+    if (fresh) this.stats.fresh++;
+    return fresh;
+  }
+
+  /**
+   * Whether the site can tell us if an entry's page changed
+   */
+  canRevalidate(entry: FollowUpCacheEntry): boolean {
+    return Boolean(entry.etag || entry.lastModified);
+  }
+
+  /**
+   * Record that the site confirmed an entry's page is unchanged
+   */
+  markRevalidated(url: string, followUp: FollowUpConfig): void {
+    const entry = this.entries.get(FollowUpCache.key(url, followUp));
+    if (entry) {
+      entry.fetchedAt = new Date().toISOString();
+      this.stats.revalidated++;
+    }
+  }
+
+  /**
+   * Store what a freshly fetched detail page yielded
+   */
+  set(url: string, followUp: FollowUpConfig, data: Record<string, any>, validators: PageValidators = {}): void {
+    const key = FollowUpCache.key(url, followUp);
+    this.entries.set(key, { url, data, ...validators, fetchedAt: new Date().toISOString() });
+    this.used.add(key);
+    this.stats.fetched++;
+  }
+
+  getStats(): FollowUpCacheStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Write the entries used in this scrape. Pages of events no longer listed are dropped.
+   */
+  async save(): Promise<void> {
+    const entries = Object.fromEntries([...this.entries].filter(([key]) => this.used.has(key)));
+    const file: FollowUpCacheFile = { source: this.source, entries };
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(file, null, 2));
+    await fs.rename(tempPath, this.filePath);
+  }
+}
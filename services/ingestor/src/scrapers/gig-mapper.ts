@@ -0,0 +1,272 @@
+import { logger } from '../logger.js';
+import type { ScraperConfig } from '../schemas/scraper-config.js';
+import type { Gig } from '@gigateer/contracts';
+import { createGigId, generateGigHash } from '@gigateer/contracts';
+import { transformRegistry, type TransformContext, type LocalTransformDefinition } from './transform-registry.js';
+
+const mapperLogger = logger.child({ component: 'gig-mapper' });
+
+type DateMapping = ScraperConfig['mapping']['date']['start'];
+
+/**
+ * Maps raw items to Gigs using a scraper config's `mapping` block.
+ * Shared by browser and feed scrapers so both honour the same mapping and validation rules.
+ */
+export class GigMapper {
+  constructor(private readonly config: ScraperConfig) {}
+
+  /**
+   * Apply transformations to extracted values
+   */
+  transformValue(
+    value: string | string[],
+    transform: string,
+    transformParams?: Record<string, any>,
+    item?: Record<string, any>
+  ): string | string[] | null {
+    if (Array.isArray(value)) {
+      return value.map(v => this.transformSingleValue(v, transform, transformParams, item)).filter(v => v !== null) as string[];
+    }
+    return this.transformSingleValue(value, transform, transformParams, item);
+  }
+
+  private transformSingleValue(
+    value: string,
+    transform: string,
+    transformParams?: Record<string, any>,
+    item?: Record<string, any>
+  ): string | null {
+    const context: TransformContext = {
+      baseUrl: this.config.site.baseUrl,
+      item,
+      localTransforms: this.config.transforms as Record<string, LocalTransformDefinition> | undefined
+    };
+    return transformRegistry.apply(transform, value, transformParams, context);
+  }
+
+  /**
+   * Transform extracted raw items into Gig objects
+   */
+  mapItems(items: Record<string, any>[]): Gig[] {
+    return items.map((item, index) => {
+      const upstreamId = this.config.mapping.sourceId ? item[this.config.mapping.sourceId] : undefined;
+      const gig: Partial<Gig> = {
+        source: this.config.site.source,
+        sourceId: upstreamId ? String(upstreamId) : `${this.config.site.source}-${index}`,
+        updatedAt: new Date().toISOString()
+      };
+
+      // Map fields according to configuration
+      this.mapField(item, gig, 'title', this.config.mapping.title);
+      
+      if (this.config.mapping.artist) {
+        this.mapField(item, gig, 'artists', this.config.mapping.artist, true);
+      }
+
+      // Venue mapping
+      const venue: any = {};
+      // Handle venue.name - check if it's a field from extracted data or a static value
+      if (this.config.mapping.venue.name) {
+        if (item[this.config.mapping.venue.name] !== undefined) {
+          this.mapField(item, venue, 'name', this.config.mapping.venue.name);
+        } else {
+          // Static value
+          venue.name = this.config.mapping.venue.name;
+        }
+      }
+      if (this.config.mapping.venue.address) {
+        if (item[this.config.mapping.venue.address] !== undefined) {
+          this.mapField(item, venue, 'address', this.config.mapping.venue.address);
+        } else {
+          // Static value
+          venue.address = this.config.mapping.venue.address;
+        }
+      }
+      if (this.config.mapping.venue.city) {
+        if (item[this.config.mapping.venue.city] !== undefined) {
+          this.mapField(item, venue, 'city', this.config.mapping.venue.city);
+        } else {
+          // Static value
+          venue.city = this.config.mapping.venue.city;
+        }
+      }
+      if (this.config.mapping.venue.country) {
+        if (item[this.config.mapping.venue.country] !== undefined) {
+          this.mapField(item, venue, 'country', this.config.mapping.venue.country);
+        } else {
+          // Static value
+          venue.country = this.config.mapping.venue.country;
+        }
+      }
+      gig.venue = venue;
+
+      // Date mapping
+      const dateStart = this.resolveDateMapping(item, this.config.mapping.date.start);
+      if (dateStart !== undefined && dateStart !== null) {
+        gig.dateStart = dateStart;
+      }
+
+      if (this.config.mapping.date.end) {
+        const dateEnd = this.resolveDateMapping(item, this.config.mapping.date.end);
+        if (dateEnd !== undefined && dateEnd !== null) {
+          gig.dateEnd = dateEnd;
+        }
+      }
+      if (this.config.mapping.date.timezone) {
+        this.mapField(item, gig, 'timezone', this.config.mapping.date.timezone);
+      }
+
+
+      // URLs
+      if (this.config.mapping.urls?.event) {
+        this.mapField(item, gig, 'eventUrl', this.config.mapping.urls.event);
+      }
+      if (this.config.mapping.urls?.tickets) {
+        this.mapField(item, gig, 'ticketsUrl', this.config.mapping.urls.tickets);
+      }
+
+      // Other fields
+      if (this.config.mapping.images) {
+        this.mapField(item, gig, 'images', this.config.mapping.images, true);
+      }
+      if (this.config.mapping.genres) {
+        this.mapField(item, gig, 'genre', this.config.mapping.genres, true);
+      }
+      if (this.config.mapping.ageRestriction) {
+        this.mapField(item, gig, 'ageRestriction', this.config.mapping.ageRestriction);
+      }
+      if (this.config.mapping.description) {
+        this.mapField(item, gig, 'description', this.config.mapping.description);
+      }
+
+      if (this.config.mapping.status) {
+        const status = item[this.config.mapping.status];
+        if (status === 'scheduled' || status === 'cancelled' || status === 'postponed') {
+          gig.status = status;
+        }
+      }
+      if (this.config.mapping.price) {
+        const { min, max, currency } = this.config.mapping.price;
+        const price = {
+          min: min ? this.toPrice(item[min]) : null,
+          max: max ? this.toPrice(item[max]) : null,
+          currency: currency && item[currency] ? String(item[currency]) : null
+        };
+        if (price.min !== null || price.max !== null) {
+          gig.price = price;
+        }
+      }
+
+      // Generate ID and hash
+      if (this.config.mapping.id.strategy === 'generated') {
+        const title = gig.title || '';
+        const venueName = gig.venue?.name || '';
+        const dateStart = gig.dateStart || '';
+        const city = gig.venue?.city || '';
+        gig.id = createGigId(venueName, title, dateStart, city);
+      }
+
+      // Mapped statuses feed the hash so cancellations register as updates
+      gig.hash = generateGigHash(gig);
+      gig.status = gig.status ?? 'scheduled';
+
+      return gig as Gig;
+    });
+  }
+
+  /**
+   * Resolve a date mapping, which is either a plain field name or a field plus a transform.
+   * String transform params naming item fields are replaced by that field's value.
+   */
+  private resolveDateMapping(item: Record<string, any>, dateConfig: DateMapping): any {
+    if (typeof dateConfig === 'string') {
+      return item[dateConfig];
+    }
+
+    let value = item[dateConfig.field];
+
+    if (value !== undefined && value !== null && dateConfig.transform) {
+      const transformParams = { ...dateConfig.transformParams };
+      for (const [key, paramValue] of Object.entries(transformParams)) {
+        if (typeof paramValue === 'string' && item[paramValue] !== undefined) {
+          transformParams[key] = item[paramValue];
+        }
+      }
+
+      value = this.transformValue(value, dateConfig.transform, transformParams, item);
+    }
+
+    return value;
+  }
+
+  /**
+   * Map a field from extracted data to gig object
+   */
+  private mapField(
+    source: Record<string, any>, 
+    target: Record<string, any>, 
+    targetField: string, 
+    sourceField: string,
+    isArray: boolean = false,
+    transform?: (val: any) => any
+  ): void {
+    const value = source[sourceField];
+    if (value !== undefined && value !== null) {
+      let finalValue = value;
+      
+      if (transform) {
+        finalValue = transform(value);
+      }
+      
+      if (isArray && !Array.isArray(finalValue)) {
+        finalValue = [finalValue];
+      }
+      
+      target[targetField] = finalValue;
+    }
+  }
+
+  /**
+   * Read a price from a number or a string such as "£12.50"
+   */
+  private toPrice(value: any): number | null {
+    if (typeof value === 'number') return value;
+    if (typeof value !== 'string') return null;
+    const parsed = parseFloat(value.replace(/[^\d.]/g, ''));
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  /**
+   * Get nested value from object using dot notation
+   */
+  private getNestedValue(obj: any, path: string): any {
+    return path.split('.').reduce((current, key) => current?.[key], obj);
+  }
+
+  /**
+   * Validate scraping results
+   */
+  validate(gigs: Gig[]): void {
+    const validation = this.config.validation;
+    if (!validation) return;
+
+    // Check minimum events
+    if (gigs.length < validation.minEventsExpected) {
+      throw new Error(`Expected at least ${validation.minEventsExpected} events, got ${gigs.length}`);
+    }
+
+    // Check maximum events
+    if (validation.maxEventsExpected && gigs.length > validation.maxEventsExpected) {
+      mapperLogger.warn(`Got ${gigs.length} events, expected max ${validation.maxEventsExpected}`);
+    }
+
+    // Check required fields
+    for (const gig of gigs) {
+      for (const field of validation.required) {
+        if (!this.getNestedValue(gig, field)) {
+          throw new Error(`Required field '${field}' missing in gig: ${gig.id}`);
+        }
+      }
+    }
+  }
+}
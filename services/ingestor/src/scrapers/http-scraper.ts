@@ -0,0 +1,507 @@
+import { promises as fs } from 'fs';
+import { HTMLParser, NetworkError, RateLimitError, RobotsDisallowedError, parseRetryAfter } from '@gigateer/scraper';
+import type { Gig, BlockedRequest, ListingFingerprint } from '@gigateer/contracts';
+import { logger } from '../logger.js';
+import {
+  BrowserScraperConfig,
+  ScraperConfig,
+  ScraperConfigSchema,
+  ActionConfig,
+  ExtractConfig,
+  PaginateConfig,
+  FollowUpConfig
+} from '../schemas/scraper-config.js';
+import { GigMapper } from './gig-mapper.js';
+import { findStructuredEvents, structuredEventToItem, mergeStructuredItems } from './structured-data.js';
+import { Politeness, sharedPoliteness, getPolitenessSettings, toBlockedRequest, type PolitenessSettings } from './politeness.js';
+import { FollowUpCache, type PageValidators } from './follow-up-cache.js';
+import { ListingFingerprinter, ListingUnchanged } from './listing-fingerprint.js';
+
+const httpLogger = logger.child({ component: 'http-scraper' });
+
+export interface HttpScrapeOptions {
+  // Aborting cancels the request in flight
+  signal?: AbortSignal;
+  // Told about each URL skipped because robots.txt disallows it
+  onBlocked?: (request: BlockedRequest) => void;
+  // Defaults to the process-wide instance shared by all scrapers
+  politeness?: Politeness;
+  // Detail pages seen on earlier runs; saved when the scrape succeeds
+  followUpCache?: FollowUpCache;
+  // The last full run's listing fingerprint; the scrape returns nothing once it is known to match
+  previousFingerprint?: ListingFingerprint;
+  // Told this run's listing fingerprint when the scrape finishes
+  onFingerprint?: (fingerprint: ListingFingerprint) => void;
+}
+
+/**
+ * A fetched page, parsed and ready for selector queries
+ */
+interface FetchedPage {
+  url: string;
+  parser: HTMLParser;
+  validators: PageValidators;
+}
+
+/**
+ * Runs a browser config's workflow with plain HTTP requests and Cheerio instead of Playwright.
+ * For static sites this gives the same Gigs without launching a browser; configs opt in with
+ * `engine: "http"`, and the schema rejects the wait/click/scroll actions it can't perform.
+ */
+export class HttpScraper {
+  private config: BrowserScraperConfig;
+  private mapper: GigMapper;
+  private page: FetchedPage | null = null;
+  private extractedData: Record<string, any>[] = [];
+  private signal?: AbortSignal;
+  private politeness: Politeness = sharedPoliteness;
+  private politenessSettings: PolitenessSettings;
+  private onBlocked?: (request: BlockedRequest) => void;
+  private followUpCache?: FollowUpCache;
+  private fingerprint!: ListingFingerprinter;
+
+  constructor(config: ScraperConfig) {
+    const parsed = ScraperConfigSchema.parse(config);
+    if (parsed.type !== 'browser' || parsed.engine !== 'http') {
+      throw new Error(`${parsed.site.source} does not use the http engine`);
+    }
+    this.config = parsed;
+    this.mapper = new GigMapper(parsed);
+    this.politenessSettings = getPolitenessSettings(parsed);
+  }
+
+  /**
+   * Load configuration from JSON file
+   */
+  static async fromFile(configPath: string): Promise<HttpScraper> {
+    try {
+      const configContent = await fs.readFile(configPath, 'utf-8');
+      const config = JSON.parse(configContent);
+      return new HttpScraper(config);
+    } catch (error) {
+      httpLogger.error(`Failed to load config from ${configPath}:`, error);
+      throw new Error(`Invalid configuration file: ${configPath}`);
+    }
+  }
+
+  /**
+   * Execute the scraping workflow
+   */
+  async scrape(options: HttpScrapeOptions = {}): Promise<Gig[]> {
+    const startTime = Date.now();
+    this.signal = options.signal;
+    this.politeness = options.politeness ?? sharedPoliteness;
+    this.onBlocked = options.onBlocked;
+    this.followUpCache = options.followUpCache;
+    this.fingerprint = new ListingFingerprinter(this.config, options.previousFingerprint);
+    this.page = null;
+    this.extractedData = [];
+    httpLogger.info(`Starting http scrape for ${this.config.site.name}`);
+
+    try {
+      for (const [index, action] of this.config.workflow.entries()) {
+        this.signal?.throwIfAborted();
+        httpLogger.debug(`Executing step ${index + 1}: ${action.type}`, { action });
+        await this.executeAction(action);
+
+        await this.rateLimitDelay();
+      }
+
+      const gigs = this.mapper.mapItems(this.extractedData);
+      this.mapper.validate(gigs);
+
+      if (this.followUpCache) {
+        await this.followUpCache.save();
+        httpLogger.info(this.followUpCache.getStats(), 'Follow-up pages');
+      }
+
+      options.onFingerprint?.(this.fingerprint.digest());
+
+      const duration = Date.now() - startTime;
+      httpLogger.info(`Scrape completed: ${gigs.length} events found in ${duration}ms`);
+
+      return gigs;
+    } catch (error) {
+      if (error instanceof ListingUnchanged) {
+        httpLogger.info('Listing unchanged since the last run, skipping the rest of the scrape');
+        options.onFingerprint?.(this.fingerprint.unchanged());
+        return [];
+      }
+      if (this.signal?.aborted) {
+        throw this.signal.reason;
+      }
+
+      httpLogger.error(`Scraping failed for ${this.config.site.name}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Execute a single action based on its type
+   */
+  private async executeAction(action: ActionConfig): Promise<void> {
+    switch (action.type) {
+      case 'navigate':
+        this.page = await this.fetchListingStart(action.url);
+        break;
+      case 'extract':
+        await this.executeExtract(action);
+        break;
+      case 'paginate':
+        await this.executePaginate(action);
+        break;
+      default:
+        throw new Error(`"${action.type}" actions need the browser engine`);
+    }
+  }
+
+  /**
+   * Fetch the page a workflow starts from. When the site confirms the previous run's listing
+   * is unchanged, there is nothing more to do.
+   */
+  private async fetchListingStart(url: string): Promise<FetchedPage> {
+    const revalidation = this.page ? null : this.fingerprint.getRevalidation();
+    const page = await this.fetchDocument(url, revalidation ? FollowUpCache.conditionalHeaders(revalidation) : {});
+    if (!page) throw new ListingUnchanged();
+
+    this.fingerprint.addResponse(page.validators);
+    return page;
+  }
+
+  /**
+   * Fetch and parse a page, resolving relative URLs against the current page
+   */
+  private async fetchPage(url: string): Promise<FetchedPage> {
+    const page = await this.fetchDocument(url);
+    if (!page) throw new Error(`Unexpected 304 Not Modified fetching ${url}`);
+    return page;
+  }
+
+  /**
+   * Fetch and parse a page, or return null when conditional `headers` get a 304 Not Modified.
+   * URLs robots.txt disallows are reported as blocked and throw RobotsDisallowedError.
+   */
+  private async fetchDocument(url: string, headers: Record<string, string> = {}): Promise<FetchedPage | null> {
+    const resolvedUrl = this.page ? new URL(url, this.page.url).href : url;
+
+    try {
+      return await this.politeness.schedule(resolvedUrl, this.politenessSettings, async () => {
+        const timeout = AbortSignal.timeout(this.config.browser?.timeout || 30000);
+
+        httpLogger.debug(`Fetching ${resolvedUrl}`);
+        const response = await fetch(resolvedUrl, {
+          headers: {
+            'User-Agent': this.politenessSettings.userAgent,
+            'Accept': 'text/html,application/xhtml+xml',
+            ...headers
+          },
+          signal: this.signal ? AbortSignal.any([this.signal, timeout]) : timeout
+        });
+
+        if (response.status === 304) {
+          return null;
+        }
+        if (response.status === 429) {
+          throw new RateLimitError(this.config.site.source, parseRetryAfter(response.headers.get('retry-after')));
+        }
+        if (response.status >= 500) {
+          throw new NetworkError(this.config.site.source, resolvedUrl, new Error(`HTTP ${response.status} ${response.statusText}`));
+        }
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status} ${response.statusText} fetching ${resolvedUrl}`);
+        }
+
+        // Redirects change the URL that relative links resolve against
+        const pageUrl = response.url || resolvedUrl;
+        return {
+          url: pageUrl,
+          parser: new HTMLParser(await response.text(), this.config.site.source),
+          validators: {
+            etag: response.headers.get('etag') ?? undefined,
+            lastModified: response.headers.get('last-modified') ?? undefined
+          }
+        };
+      });
+    } catch (error) {
+      if (error instanceof RobotsDisallowedError) {
+        httpLogger.warn(`Skipping ${resolvedUrl}: ${error.message}`);
+        this.onBlocked?.(toBlockedRequest(error));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Execute extract action - the main data extraction
+   */
+  private async executeExtract(action: ExtractConfig): Promise<void> {
+    if (!this.page) throw new Error('No page fetched - add a navigate action before extracting');
+
+    const firstNewItem = this.extractedData.length;
+    const structuredItems = action.method === 'structured-data' ? this.harvestStructuredEvents(this.page) : [];
+    this.fingerprint.addContent([
+      ...(action.containerSelector ? this.page.parser.extractOuterHtml(action.containerSelector) : []),
+      ...structuredItems.map(item => JSON.stringify(item))
+    ].join('\n'));
+
+    if (action.method === 'structured-data') {
+      const selectorItems = await this.extractContainerItems(action);
+      const fallbacks = Object.fromEntries(
+        Object.entries(action.fields).map(([fieldName, fieldConfig]) => [fieldName, fieldConfig.fallback])
+      );
+      const items = mergeStructuredItems(structuredItems, selectorItems, fallbacks);
+
+      httpLogger.info(`Structured data extraction completed: ${structuredItems.length} structured events, ${selectorItems.length} selector items, ${items.length} merged`);
+      this.extractedData.push(...items);
+    } else if (action.method) {
+      throw new Error(`Extraction method "${action.method}" needs the browser engine`);
+    } else {
+      this.extractedData.push(...await this.extractContainerItems(action));
+    }
+
+    if (action.followUp && action.followUp.urlField) {
+      // Only follow up items from this action - earlier pages of a paginated listing are already done
+      await this.runFollowUps(this.extractedData.slice(firstNewItem), action.followUp);
+    }
+  }
+
+  /**
+   * Execute paginate action - repeat the page steps on each listing page
+   */
+  private async executePaginate(action: PaginateConfig): Promise<void> {
+    const seenItems = new Set<string>();
+    let pageNumber = action.startPage;
+
+    for (let pageCount = 1; ; pageCount++) {
+      if (action.urlTemplate) {
+        const url = action.urlTemplate.replace(/\{page\}/g, String(pageNumber));
+        httpLogger.debug(`Paginating to ${url}`);
+        const listingPage = await this.fetchListingPage(url);
+        if (!listingPage) break;
+        this.page = listingPage;
+      }
+
+      const listing = this.page;
+      const firstNewItem = this.extractedData.length;
+
+      for (const step of action.steps) {
+        await this.executeAction(step);
+      }
+
+      // Drop items already seen on earlier pages, e.g. when a site repeats its last page
+      const pageItems = this.extractedData.splice(firstNewItem);
+      const newItems = pageItems.filter(item => {
+        const key = JSON.stringify(item);
+        if (seenItems.has(key)) return false;
+        seenItems.add(key);
+        return true;
+      });
+      this.extractedData.push(...newItems);
+
+      httpLogger.info(`Page ${pageCount}: ${newItems.length} new items (${pageItems.length - newItems.length} repeated)`);
+
+      if (newItems.length === 0 && action.stopWhenNoNewItems) {
+        httpLogger.info(`Stopping pagination after page ${pageCount}: no new items`);
+        break;
+      }
+      if (pageCount >= action.maxPages) {
+        httpLogger.info(`Stopping pagination at maxPages (${action.maxPages})`);
+        break;
+      }
+
+      if (action.nextSelector) {
+        const nextUrl = listing && this.getNextPageUrl(listing, action.nextSelector);
+        if (!nextUrl) {
+          httpLogger.info(`Stopping pagination after page ${pageCount}: no next page`);
+          break;
+        }
+        const nextPage = await this.fetchListingPage(nextUrl);
+        if (!nextPage) break;
+        this.page = nextPage;
+      }
+
+      pageNumber++;
+
+      if (action.waitAfter) {
+        await this.sleep(action.waitAfter);
+      }
+      await this.rateLimitDelay();
+    }
+  }
+
+  /**
+   * Fetch another listing page, returning null if robots.txt disallows it
+   */
+  private async fetchListingPage(url: string): Promise<FetchedPage | null> {
+    try {
+      return await this.fetchPage(url);
+    } catch (error) {
+      if (error instanceof RobotsDisallowedError) {
+        httpLogger.info(`Stopping pagination: ${error.message}`);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The next listing page's URL, or null when there isn't one. Without a browser, "next"
+   * controls that aren't links (buttons, script handlers) can't be followed.
+   */
+  private getNextPageUrl(listing: FetchedPage, nextSelector: string): string | null {
+    const { parser } = listing;
+    if (parser.extractValue(nextSelector, 'disabled') !== null || parser.extractValue(nextSelector, 'aria-disabled') === 'true') {
+      return null;
+    }
+
+    const href = parser.extractValue(nextSelector, 'href');
+    if (!href || href.startsWith('#') || href.startsWith('javascript:')) return null;
+
+    const nextUrl = new URL(href, listing.url).href;
+    return nextUrl === listing.url ? null : nextUrl;
+  }
+
+  /**
+   * Extract one item per container using the action's selector-based fields
+   */
+  private async extractContainerItems(action: ExtractConfig): Promise<Record<string, any>[]> {
+    if (!this.page || !action.containerSelector) return [];
+
+    const records = this.page.parser.extractContainers(action.containerSelector, action.fields);
+    httpLogger.info(`Found ${records.length} containers to extract from`);
+
+    const items: Record<string, any>[] = [];
+
+    for (const record of records) {
+      const item: Record<string, any> = {};
+
+      for (const [fieldName, fieldConfig] of Object.entries(action.fields)) {
+        let value = record[fieldName];
+
+        if (value && fieldConfig.transform) {
+          value = this.mapper.transformValue(value, fieldConfig.transform, fieldConfig.transformParams, item);
+        }
+
+        if (!value && fieldConfig.required) {
+          if (fieldConfig.fallback) {
+            value = fieldConfig.fallback;
+          } else {
+            httpLogger.warn(`Required field '${fieldName}' not found`);
+          }
+        }
+
+        item[fieldName] = value;
+
+        if (fieldConfig.followUp && item[fieldConfig.followUp.urlField]) {
+          Object.assign(item, await this.executeFollowUp(item[fieldConfig.followUp.urlField], fieldConfig.followUp));
+        }
+      }
+
+      if (Object.keys(item).length > 0) {
+        items.push(item);
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Harvest schema.org Events from a page as mapping-ready items
+   */
+  private harvestStructuredEvents(page: FetchedPage): Record<string, any>[] {
+    const harvest = {
+      jsonLd: page.parser.extractJsonLd().map(data => JSON.stringify(data)),
+      microdata: page.parser.extractMicrodataScopes(page.url)
+    };
+
+    return findStructuredEvents(harvest).map(event => structuredEventToItem(event, page.url));
+  }
+
+  /**
+   * Follow up every item with a URL, up to `maxConcurrent` at a time
+   */
+  private async runFollowUps(items: Record<string, any>[], followUp: FollowUpConfig): Promise<void> {
+    const queue = items.filter(item => item[followUp.urlField]);
+    const workers = Math.min(this.politenessSettings.maxConcurrent, queue.length);
+
+    await Promise.all(Array.from({ length: workers }, async () => {
+      for (let item = queue.shift(); item; item = queue.shift()) {
+        Object.assign(item, await this.executeFollowUp(item[followUp.urlField], followUp));
+      }
+    }));
+  }
+
+  /**
+   * Fetch a linked detail page and extract its fields, reusing the cached result when the
+   * page was seen recently or the site says it hasn't changed. The listing stays the current page.
+   */
+  private async executeFollowUp(url: string, followUp: FollowUpConfig): Promise<Record<string, any>> {
+    const followUpData: Record<string, any> = {};
+    const cached = this.followUpCache?.get(url, followUp);
+
+    if (cached && this.followUpCache!.isFresh(cached, followUp)) {
+      return { ...cached.data };
+    }
+
+    try {
+      const detail = await this.fetchDocument(url, cached ? FollowUpCache.conditionalHeaders(cached) : {});
+      await this.rateLimitDelay();
+
+      if (!detail) {
+        this.followUpCache!.markRevalidated(url, followUp);
+        return { ...cached!.data };
+      }
+
+      // Detail pages describe a single event, so the first structured event is the one we want
+      if (followUp.structuredData) {
+        const [structuredItem] = this.harvestStructuredEvents(detail);
+        Object.assign(followUpData, structuredItem);
+      }
+
+      for (const [fieldName, fieldConfig] of Object.entries(followUp.fields)) {
+        if (followUpData[fieldName] !== undefined) continue;
+
+        let value: string | string[] | null = detail.parser.extractValue(fieldConfig.selector, fieldConfig.attribute || 'text');
+        if (value && fieldConfig.transform) {
+          const transformedValue = this.mapper.transformValue(value, fieldConfig.transform, fieldConfig.transformParams, followUpData);
+          value = Array.isArray(transformedValue) ? transformedValue.join(', ') : transformedValue;
+        }
+
+        if (value) {
+          followUpData[fieldName] = value;
+        }
+      }
+
+      httpLogger.debug(`Follow-up extraction completed: ${Object.keys(followUpData).length} fields extracted`);
+      this.followUpCache?.set(url, followUp, followUpData, detail.validators);
+    } catch (error) {
+      this.signal?.throwIfAborted();
+      httpLogger.warn(`Follow-up fetch failed for ${url}:`, error);
+    }
+
+    return followUpData;
+  }
+
+  /**
+   * Pause between requests as configured
+   */
+  private async rateLimitDelay(): Promise<void> {
+    if (this.config.rateLimit?.delayBetweenRequests) {
+      await this.sleep(this.config.rateLimit.delayBetweenRequests);
+    }
+  }
+
+  /**
+   * Utility sleep function
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Get configuration for debugging
+   */
+  getConfig(): BrowserScraperConfig {
+    return this.config;
+  }
+}
@@ -0,0 +1,89 @@
+import { createHash, type Hash } from 'crypto';
+import type { ListingFingerprint } from '@gigateer/contracts';
+import type { ScraperConfig } from '../schemas/scraper-config.js';
+import type { PageValidators } from './follow-up-cache.js';
+
+/**
+ * Thrown inside a scraper to stop the workflow once the listing is known to match the
+ * previous run. Scrapers catch it and return no items.
+ */
+export class ListingUnchanged extends Error {
+  constructor() {
+    super('Listing unchanged since the last run');
+    this.name = 'ListingUnchanged';
+  }
+}
+
+/**
+ * Builds a fingerprint of the listing pages a workflow extracts from, and spots a match with
+ * the previous run early enough to skip the rest of it.
+ *
+ * The hash covers the content of each extract step (container HTML, or the extracted items for
+ * steps without containers) before any follow-ups. Only workflows with a single extract step and
+ * no pagination can stop early: with more listing pages, a match on the first proves nothing
+ * about the rest, so those runs finish and the ingestor compares the final fingerprint. A feed
+ * is a single listing whose content is the feed body.
+ *
+ * The hash also covers the parsed config, and a previous fingerprint taken with another config
+ * is ignored, so the first run after a config edit or reload always runs in full.
+ */
+export class ListingFingerprinter {
+  private hash: Hash = createHash('sha256');
+  private validators?: PageValidators;
+  private steps = 0;
+  private readonly singleListing: boolean;
+  private readonly configHash: string;
+  private readonly previous?: ListingFingerprint;
+
+  constructor(config: ScraperConfig, previous?: ListingFingerprint) {
+    this.configHash = createHash('sha256').update(JSON.stringify(config)).digest('hex');
+    this.previous = previous?.configHash === this.configHash ? previous : undefined;
+    this.hash.update(`${this.configHash}\n`);
+    this.singleListing = config.type === 'feed' || (!config.workflow.some(action => action.type === 'paginate')
+      && config.workflow.filter(action => action.type === 'extract').length === 1);
+  }
+
+  /**
+   * Validators of the previous run's listing page, when a 304 Not Modified for them would
+   * prove the whole listing unchanged
+   */
+  getRevalidation(): PageValidators | null {
+    if (!this.previous || !this.singleListing || !(this.previous.etag || this.previous.lastModified)) {
+      return null;
+    }
+    return { etag: this.previous.etag, lastModified: this.previous.lastModified };
+  }
+
+  /**
+   * Remember the first listing page's validators
+   */
+  addResponse(validators: PageValidators): void {
+    this.validators ??= validators;
+  }
+
+  /**
+   * Add an extract step's listing content. Throws ListingUnchanged when it completes a
+   * listing identical to the previous run's.
+   */
+  addContent(content: string): void {
+    this.hash.update(`${this.steps++}\n${content}\n`);
+
+    if (this.previous && this.singleListing && this.hash.copy().digest('hex') === this.previous.hash) {
+      throw new ListingUnchanged();
+    }
+  }
+
+  /**
+   * This run's fingerprint, once the workflow has finished
+   */
+  digest(): ListingFingerprint {
+    return { hash: this.hash.digest('hex'), configHash: this.configHash, ...this.validators };
+  }
+
+  /**
+   * The fingerprint to report when the run stopped because the listing was unchanged
+   */
+  unchanged(): ListingFingerprint {
+    return this.previous!;
+  }
+}
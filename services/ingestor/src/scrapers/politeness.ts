@@ -0,0 +1,130 @@
+import Bottleneck from 'bottleneck';
+import { fetchRobotsTxt, RobotsDisallowedError, type RobotsTxt } from '@gigateer/scraper';
+import type { BlockedRequest } from '@gigateer/contracts';
+import { logger } from '../logger.js';
+import type { ScraperConfig } from '../schemas/scraper-config.js';
+
+const politenessLogger = logger.child({ component: 'politeness' });
+
+// Sent by the http engine and feed scrapers, and matched against robots.txt groups when a config sets no user agent
+export const DEFAULT_USER_AGENT = 'Mozilla/5.0 (compatible; Gigateer/1.0; Event Aggregator)';
+
+const ROBOTS_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+const ROBOTS_FETCH_TIMEOUT_MS = 10000;
+
+/**
+ * How a scraper wants its requests to one site treated
+ */
+export interface PolitenessSettings {
+  source: string;
+  userAgent: string;
+  respectRobotsTxt: boolean;
+  /** Requests allowed in flight at once against the same host */
+  maxConcurrent: number;
+}
+
+export interface PolitenessOptions {
+  robotsTtlMs?: number;
+  fetchRobots?: (origin: string, userAgent: string) => Promise<RobotsTxt | null>;
+}
+
+/**
+ * Read a config's politeness settings, applying the schema defaults when `rateLimit` is absent
+ */
+export function getPolitenessSettings(config: ScraperConfig): PolitenessSettings {
+  return {
+    source: config.site.source,
+    userAgent: config.browser?.userAgent || DEFAULT_USER_AGENT,
+    respectRobotsTxt: config.rateLimit?.respectRobotsTxt ?? true,
+    maxConcurrent: config.rateLimit?.maxConcurrent ?? 1
+  };
+}
+
+/**
+ * Describe a disallowed URL for the run stats
+ */
+export function toBlockedRequest(error: RobotsDisallowedError): BlockedRequest {
+  return { url: error.url, reason: `Disallowed by robots.txt${error.rule ? ` (${error.rule})` : ''}` };
+}
+
+/**
+ * Gatekeeper for every page a scraper requests: refuses URLs robots.txt disallows, and runs
+ * the rest through a per-host queue that honours `maxConcurrent` and the site's Crawl-delay.
+ * robots.txt files and host queues are shared by all scrapers using the same instance.
+ */
+export class Politeness {
+  private robots = new Map<string, { expiresAt: number; robots: Promise<RobotsTxt | null> }>();
+  private hosts = new Map<string, { limiter: Bottleneck; maxConcurrent: number; minTime: number }>();
+  private readonly robotsTtlMs: number;
+  private readonly fetchRobots: (origin: string, userAgent: string) => Promise<RobotsTxt | null>;
+
+  constructor(options: PolitenessOptions = {}) {
+    this.robotsTtlMs = options.robotsTtlMs ?? ROBOTS_CACHE_TTL_MS;
+    this.fetchRobots = options.fetchRobots ?? ((origin, userAgent) =>
+      fetchRobotsTxt(origin, { userAgent, signal: AbortSignal.timeout(ROBOTS_FETCH_TIMEOUT_MS) }));
+  }
+
+  /**
+   * Run a request for `url` once the host has capacity.
+   * Throws RobotsDisallowedError without running it if robots.txt disallows the URL.
+   */
+  async schedule<T>(url: string, settings: PolitenessSettings, request: () => Promise<T>): Promise<T> {
+    const target = new URL(url);
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      return request();
+    }
+
+    const robots = settings.respectRobotsTxt ? await this.getRobots(target.origin, settings.userAgent) : null;
+    if (robots) {
+      const verdict = robots.check(target.pathname + target.search, settings.userAgent);
+      if (!verdict.allowed) {
+        throw new RobotsDisallowedError(settings.source, url, verdict.rule);
+      }
+    }
+
+    const crawlDelayMs = (robots?.getCrawlDelay(settings.userAgent) ?? 0) * 1000;
+    return this.getHostLimiter(target.host, settings.maxConcurrent, crawlDelayMs).schedule(request);
+  }
+
+  /**
+   * A host's cached robots.txt. Sites whose robots.txt can't be fetched are treated as
+   * having none, so an outage on their side doesn't stop scraping.
+   */
+  private getRobots(origin: string, userAgent: string): Promise<RobotsTxt | null> {
+    const cached = this.robots.get(origin);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.robots;
+    }
+
+    const robots = this.fetchRobots(origin, userAgent).catch(error => {
+      politenessLogger.warn({ origin, error: (error as Error).message }, 'Could not fetch robots.txt, assuming crawling is allowed');
+      return null;
+    });
+    this.robots.set(origin, { expiresAt: Date.now() + this.robotsTtlMs, robots });
+    return robots;
+  }
+
+  /**
+   * The queue for a host. Scrapers sharing a host get its strictest settings.
+   */
+  private getHostLimiter(host: string, maxConcurrent: number, minTime: number): Bottleneck {
+    const existing = this.hosts.get(host);
+    if (!existing) {
+      const limiter = new Bottleneck({ maxConcurrent, minTime });
+      this.hosts.set(host, { limiter, maxConcurrent, minTime });
+      politenessLogger.debug({ host, maxConcurrent, minTime }, 'Created host request queue');
+      return limiter;
+    }
+
+    if (maxConcurrent < existing.maxConcurrent || minTime > existing.minTime) {
+      existing.maxConcurrent = Math.min(existing.maxConcurrent, maxConcurrent);
+      existing.minTime = Math.max(existing.minTime, minTime);
+      existing.limiter.updateSettings({ maxConcurrent: existing.maxConcurrent, minTime: existing.minTime });
+    }
+
+    return existing.limiter;
+  }
+}
+
+// Shared by every scraper in the process, so concurrent sources on one host share its limits
+export const sharedPoliteness = new Politeness();
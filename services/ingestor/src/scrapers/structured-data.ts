@@ -0,0 +1,275 @@
+/**
+ * schema.org Event harvesting from JSON-LD and microdata.
+ *
+ * Structured events are flattened into plain items whose field names can be used
+ * directly in a config's `mapping` block:
+ *
+ *   title, description, artists, dateStart, dateEnd, status, venueName, venueAddress,
+ *   venueCity, venueCountry, eventUrl, ticketsUrl, priceMin, priceMax, priceCurrency,
+ *   images, sourceId
+ */
+
+// Runs in the page. Kept as a plain script so it is evaluated as written, without
+// any helpers the TypeScript toolchain might inject into a compiled function.
+export const STRUCTURED_DATA_SCRIPT = `(() => {
+  const jsonLd = Array.from(document.querySelectorAll('script[type="application/ld+json"]'))
+    .map((script) => script.textContent || '');
+
+  const propValue = (el) => {
+    if (el.hasAttribute('content')) return el.getAttribute('content');
+    switch (el.tagName) {
+      case 'A': case 'AREA': case 'LINK': return el.href;
+      case 'IMG': case 'AUDIO': case 'VIDEO': case 'SOURCE': case 'IFRAME': case 'EMBED': return el.src;
+      case 'TIME': return el.getAttribute('datetime') || (el.textContent || '').trim();
+      case 'DATA': case 'METER': return el.getAttribute('value');
+      default: return (el.textContent || '').trim();
+    }
+  };
+
+  const readScope = (scope) => {
+    const itemtype = scope.getAttribute('itemtype') || '';
+    const result = { '@type': itemtype.split(/\\s+/)[0].split('/').pop() };
+    const visit = (parent) => {
+      for (const child of Array.from(parent.children)) {
+        const names = (child.getAttribute('itemprop') || '').split(/\\s+/).filter(Boolean);
+        if (names.length > 0) {
+          const value = child.hasAttribute('itemscope') ? readScope(child) : propValue(child);
+          for (const name of names) {
+            if (result[name] === undefined) result[name] = value;
+            else result[name] = [].concat(result[name], value);
+          }
+        }
+        if (!child.hasAttribute('itemscope')) visit(child);
+      }
+    };
+    visit(scope);
+    return result;
+  };
+
+  const microdata = Array.from(document.querySelectorAll('[itemscope][itemtype]'))
+    .filter((el) => !el.hasAttribute('itemprop'))
+    .map(readScope);
+
+  return { jsonLd, microdata };
+})()`;
+
+/**
+ * Field names a structured event can fill in, as listed above
+ */
+export const STRUCTURED_ITEM_FIELDS = [
+  'title', 'description', 'artists', 'dateStart', 'dateEnd', 'status', 'venueName', 'venueAddress',
+  'venueCity', 'venueCountry', 'eventUrl', 'ticketsUrl', 'priceMin', 'priceMax', 'priceCurrency',
+  'images', 'sourceId'
+] as const;
+
+export interface StructuredDataHarvest {
+  jsonLd: string[];
+  microdata: Record<string, any>[];
+}
+
+const EVENT_STATUS: Record<string, 'scheduled' | 'cancelled' | 'postponed'> = {
+  EventScheduled: 'scheduled',
+  EventRescheduled: 'scheduled',
+  EventMovedOnline: 'scheduled',
+  EventCancelled: 'cancelled',
+  EventPostponed: 'postponed'
+};
+
+/**
+ * Find schema.org Events in harvested JSON-LD blocks and microdata items.
+ * Malformed JSON-LD blocks are skipped.
+ */
+export function findStructuredEvents(harvest: StructuredDataHarvest): Record<string, any>[] {
+  const events: Record<string, any>[] = [];
+
+  const visit = (node: any): void => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== 'object') return;
+
+    if (isEventType(node['@type'])) {
+      events.push(node);
+      return;
+    }
+
+    // Listing pages often wrap events in an ItemList or a @graph
+    visit(node['@graph']);
+    visit(node.itemListElement);
+    visit(node.item);
+    visit(node.event ?? node.events ?? node.subEvent);
+  };
+
+  for (const block of harvest.jsonLd) {
+    try {
+      visit(JSON.parse(block));
+    } catch {
+      continue;
+    }
+  }
+  visit(harvest.microdata);
+
+  return events;
+}
+
+/**
+ * Flatten a schema.org Event into an item with the field names listed above.
+ * Missing properties are left out so selector-based fields can fill them in.
+ */
+export function structuredEventToItem(event: Record<string, any>, pageUrl?: string): Record<string, any> {
+  const item: Record<string, any> = {};
+  const set = (key: string, value: any) => {
+    if (value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0)) {
+      item[key] = value;
+    }
+  };
+
+  set('title', text(event.name));
+  set('description', text(event.description));
+  set('dateStart', toIsoDate(text(event.startDate)));
+  set('dateEnd', toIsoDate(text(event.endDate)));
+
+  const status = text(event.eventStatus)?.split('/').pop();
+  set('status', status ? EVENT_STATUS[status] : undefined);
+
+  set('artists', asArray(event.performer).map(performer => text(performer?.name ?? performer)).filter(Boolean));
+
+  const place = asArray(event.location).find(location => location && typeof location === 'object' && location['@type'] !== 'VirtualLocation')
+    ?? asArray(event.location).find(location => typeof location === 'string');
+  if (typeof place === 'string') {
+    set('venueName', place.trim());
+  } else if (place) {
+    set('venueName', text(place.name));
+    const address = asArray(place.address)[0];
+    if (typeof address === 'string') {
+      set('venueAddress', address.trim());
+    } else if (address) {
+      set('venueAddress', text(address.streetAddress));
+      set('venueCity', text(address.addressLocality));
+      set('venueCountry', text(address.addressCountry?.name ?? address.addressCountry));
+    }
+  }
+
+  const eventUrl = resolveUrl(text(event.url), pageUrl);
+  set('eventUrl', eventUrl);
+
+  const offers = asArray(event.offers).filter(offer => offer && typeof offer === 'object');
+  set('ticketsUrl', offers.map(offer => resolveUrl(text(offer.url), pageUrl)).find(Boolean));
+
+  const lows = offers.map(offer => toNumber(offer.lowPrice ?? offer.price)).filter((price): price is number => price !== null);
+  const highs = offers.map(offer => toNumber(offer.highPrice ?? offer.price)).filter((price): price is number => price !== null);
+  set('priceMin', lows.length > 0 ? Math.min(...lows) : undefined);
+  set('priceMax', highs.length > 0 ? Math.max(...highs) : undefined);
+  set('priceCurrency', offers.map(offer => text(offer.priceCurrency)).find(Boolean));
+
+  set('images', asArray(event.image)
+    .map(image => resolveUrl(text(image?.url ?? image), pageUrl))
+    .filter(Boolean));
+
+  set('sourceId', text(event['@id']) ?? eventUrl);
+
+  return item;
+}
+
+/**
+ * Combine structured events with selector-extracted items from the same page.
+ * Items are paired by event URL, or by position when both lists are the same length and
+ * the selector items have no URLs to pair on. Structured values win and selector values
+ * fill the gaps. Unpaired items from either side are kept, and configured field fallbacks
+ * apply to structured-only items.
+ */
+export function mergeStructuredItems(
+  structuredItems: Record<string, any>[],
+  selectorItems: Record<string, any>[],
+  fallbacks: Record<string, string | undefined> = {}
+): Record<string, any>[] {
+  const pairByPosition = structuredItems.length === selectorItems.length
+    && selectorItems.every(item => !item.eventUrl);
+  const unmatched = new Set(selectorItems);
+  const merged: Record<string, any>[] = [];
+
+  structuredItems.forEach((structured, index) => {
+    let selectorItem = structured.eventUrl
+      ? selectorItems.find(candidate => unmatched.has(candidate) && sameUrl(candidate.eventUrl, structured.eventUrl))
+      : undefined;
+    if (!selectorItem && pairByPosition && unmatched.has(selectorItems[index])) {
+      selectorItem = selectorItems[index];
+    }
+
+    if (selectorItem) {
+      unmatched.delete(selectorItem);
+      merged.push({ ...withoutEmpty(selectorItem), ...structured });
+      return;
+    }
+
+    const item = { ...structured };
+    for (const [fieldName, fallback] of Object.entries(fallbacks)) {
+      if (item[fieldName] === undefined && fallback !== undefined) {
+        item[fieldName] = fallback;
+      }
+    }
+    merged.push(item);
+  });
+
+  return [...merged, ...selectorItems.filter(item => unmatched.has(item))];
+}
+
+function isEventType(type: unknown): boolean {
+  return asArray(type).some(value =>
+    typeof value === 'string' && (value.endsWith('Event') || value === 'Festival')
+  );
+}
+
+function asArray(value: any): any[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function text(value: any): string | undefined {
+  if (Array.isArray(value)) return text(value[0]);
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed || undefined;
+}
+
+function toNumber(value: any): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return null;
+  const parsed = parseFloat(value.replace(/[^\d.]/g, ''));
+  return isNaN(parsed) ? null : parsed;
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+
+  // Date-only values are local calendar days, not UTC midnight
+  const dateOnly = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = dateOnly
+    ? new Date(parseInt(dateOnly[1]), parseInt(dateOnly[2]) - 1, parseInt(dateOnly[3]))
+    : new Date(value);
+
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function resolveUrl(value: string | undefined, base?: string): string | undefined {
+  if (!value) return undefined;
+  try {
+    return new URL(value, base).href;
+  } catch {
+    return undefined;
+  }
+}
+
+function sameUrl(a: any, b: any): boolean {
+  if (typeof a !== 'string' || typeof b !== 'string') return false;
+  const normalize = (url: string) => url.replace(/[?#].*$/, '').replace(/\/+$/, '');
+  return normalize(a) === normalize(b);
+}
+
+function withoutEmpty(item: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(item).filter(([, value]) =>
+    value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0)
+  ));
+}
@@ -0,0 +1,676 @@
+import { z } from 'zod';
+import { logger } from '../logger.js';
+import { DateTimeParser, ExchangeBristolDateParser } from './date-time-parser.js';
+
+const transformLogger = logger.child({ component: 'transform-registry' });
+
+// ============================================================================
+// TRANSFORM REGISTRY
+// ============================================================================
+
+/**
+ * Runtime information available to a transform besides its value and params
+ */
+export interface TransformContext {
+  /** Site base URL, used to absolutise relative links */
+  baseUrl?: string;
+  /** The item currently being extracted or mapped */
+  item?: Record<string, any>;
+  /** Named transforms declared in the scraper config's `transforms` block */
+  localTransforms?: Record<string, LocalTransformDefinition>;
+}
+
+export type TransformHandler = (
+  value: string,
+  params: Record<string, any> | undefined,
+  context: TransformContext
+) => string | null;
+
+export interface TransformDefinition {
+  name: string;
+  description?: string;
+  /** Validates `transformParams` when a config is loaded */
+  paramsSchema?: z.ZodTypeAny;
+  /** Kind of value the transform returns, for transforms that return ISO dates or absolute URLs */
+  produces?: TransformOutput;
+  handler: TransformHandler;
+}
+
+export type TransformOutput = 'date' | 'url';
+
+/**
+ * A transform declared in a scraper config, e.g.
+ * `"venue-date": { "type": "date-format", "params": { "format": "dddd Do MMMM" } }`
+ */
+export interface LocalTransformDefinition {
+  type: string;
+  params?: Record<string, any>;
+  description?: string;
+}
+
+export class TransformRegistry {
+  private transforms = new Map<string, TransformDefinition>();
+
+  register(definition: TransformDefinition): this {
+    if (this.transforms.has(definition.name)) {
+      throw new Error(`Transform "${definition.name}" is already registered`);
+    }
+    this.transforms.set(definition.name, definition);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.transforms.has(name);
+  }
+
+  get(name: string): TransformDefinition | undefined {
+    return this.transforms.get(name);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.transforms.keys()).sort();
+  }
+
+  /**
+   * Kind of value a transform reference returns, following config-declared transforms to their type
+   */
+  getOutput(name: string, localTransforms?: Record<string, LocalTransformDefinition>): TransformOutput | undefined {
+    return this.resolve(name, undefined, localTransforms)?.definition.produces;
+  }
+
+  /**
+   * Resolve a transform reference to a registered definition, expanding
+   * config-declared transforms and merging their params under the caller's.
+   */
+  resolve(
+    name: string,
+    params?: Record<string, any>,
+    localTransforms?: Record<string, LocalTransformDefinition>
+  ): { definition: TransformDefinition; params?: Record<string, any> } | undefined {
+    const local = localTransforms?.[name];
+    if (local) {
+      const definition = this.transforms.get(local.type);
+      if (!definition) return undefined;
+      return { definition, params: { ...local.params, ...params } };
+    }
+
+    const definition = this.transforms.get(name);
+    return definition ? { definition, params } : undefined;
+  }
+
+  /**
+   * Check a transform reference from a config, returning human readable problems
+   */
+  validateReference(
+    name: string,
+    params?: Record<string, any>,
+    localTransforms?: Record<string, LocalTransformDefinition>
+  ): string[] {
+    const local = localTransforms?.[name];
+    if (local && !this.transforms.has(local.type)) {
+      return [`Transform "${name}" is declared with unknown type "${local.type}"`];
+    }
+
+    const resolved = this.resolve(name, params, localTransforms);
+    if (!resolved) {
+      return [`Unknown transform "${name}". Available transforms: ${this.getNames().join(', ')}`];
+    }
+
+    if (!resolved.definition.paramsSchema) return [];
+
+    const result = resolved.definition.paramsSchema.safeParse(resolved.params ?? {});
+    if (result.success) return [];
+
+    return result.error.issues.map(issue => {
+      const path = issue.path.length > 0 ? `.${issue.path.join('.')}` : '';
+      return `Invalid params for transform "${name}"${path}: ${issue.message}`;
+    });
+  }
+
+  apply(name: string, value: string, params: Record<string, any> | undefined, context: TransformContext = {}): string | null {
+    const resolved = this.resolve(name, params, context.localTransforms);
+    if (!resolved) {
+      transformLogger.warn(`Unknown transform type: ${name}`);
+      return value;
+    }
+    return resolved.definition.handler(value, resolved.params, context);
+  }
+}
+
+// ============================================================================
+// BUILT-IN TRANSFORMS
+// ============================================================================
+
+const PatternParamsSchema = z.object({
+  pattern: z.string().optional(),
+  flags: z.string().optional(),
+  replacement: z.string().optional()
+});
+
+export const DateFormatParamsSchema = z.object({
+  format: z.string().min(1),
+  time: z.string().optional(),
+  defaultTime: z.string().optional(),
+  yearInference: z.enum(['next-occurrence', 'current-year', 'none']).default('next-occurrence')
+});
+
+/**
+ * Resolve a relative URL against the site's base URL
+ */
+function transformUrl(value: string, baseUrl?: string): string {
+  if (!value || value.startsWith('http://') || value.startsWith('https://')) {
+    return value;
+  }
+
+  if (!baseUrl) {
+    return value; // Return as-is if no baseUrl configured
+  }
+
+  // Handle different types of relative URLs
+  if (value.startsWith('/')) {
+    // Absolute path from root
+    return `${baseUrl}${value}`;
+  } else if (value.startsWith('#')) {
+    // Fragment/anchor - append to current page
+    return `${baseUrl}/${value}`;
+  } else {
+    // Relative path without leading slash
+    return `${baseUrl}/${value}`;
+  }
+}
+
+/**
+ * Parse a date with a declarative format from the scraper config
+ */
+function parseDateWithFormat(value: string, params?: Record<string, any>): string | null {
+  const { format, time, defaultTime, yearInference } = DateFormatParamsSchema.parse(params ?? {});
+  const result = DateTimeParser.parseWithFormat(value, format, { time, defaultTime, yearInference });
+
+  if (!result.success) {
+    transformLogger.warn(`date-format transform failed: ${result.error}`);
+    return null;
+  }
+  return result.date.toISOString();
+}
+
+/**
+ * Parse The Lanes Bristol date format like "Friday 15th August 22:30 - 03:00"
+ */
+function parseLanesBristolDate(dateStr: string): string {
+  try {
+    transformLogger.info(`🔍 PARSING LANES BRISTOL DATE: "${dateStr}"`);
+
+    // Preprocess the date string to handle "Tomorrow"
+    let processedDateStr = dateStr.trim();
+
+    if (processedDateStr.toLowerCase().includes('tomorrow')) {
+      transformLogger.info(`✅ DETECTED "TOMORROW" in date string: "${dateStr}"`);
+
+      // Extract time if present (e.g., "Tomorrow 19:00 - 22:00")
+      const timeMatch = processedDateStr.match(/(\d{1,2}):(\d{2})/);
+      let timeStr = '';
+      if (timeMatch) {
+        timeStr = ` ${timeMatch[0]}`;
+        transformLogger.info(`⏰ EXTRACTED TIME from Tomorrow string: "${timeMatch[0]}"`);
+      }
+
+      // Get tomorrow's date and format it
+      const tomorrow = new Date();
+      tomorrow.setDate(tomorrow.getDate() + 1);
+
+      // Format as day name and date (e.g., "Friday 15th November")
+      const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+      const monthNames = ['January', 'February', 'March', 'April', 'May', 'June',
+                         'July', 'August', 'September', 'October', 'November', 'December'];
+
+      const dayName = dayNames[tomorrow.getDay()];
+      const date = tomorrow.getDate();
+      const ordinalSuffix = date === 1 || date === 21 || date === 31 ? 'st' :
+                           date === 2 || date === 22 ? 'nd' :
+                           date === 3 || date === 23 ? 'rd' : 'th';
+      const monthName = monthNames[tomorrow.getMonth()];
+
+      processedDateStr = `${dayName} ${date}${ordinalSuffix} ${monthName}${timeStr}`;
+      transformLogger.info(`🔄 CONVERTED "Tomorrow" to: "${processedDateStr}"`);
+    }
+
+    const result = DateTimeParser.parseDate(processedDateStr, undefined, {
+      format: 'bristol-standard',
+      defaultHour: 22 // Most Lanes events are in the evening
+    });
+
+    if (result.success) {
+      const isoString = result.date.toISOString();
+      transformLogger.info(`✅ SUCCESSFULLY PARSED Lanes Bristol date "${dateStr}" to "${isoString}"`);
+      return isoString;
+    } else {
+      transformLogger.error(`❌ FAILED TO PARSE Lanes Bristol date: "${dateStr}" - ${result.error}`);
+      // Instead of throwing, return the preprocessed date string
+      transformLogger.error(`🔄 RETURNING PROCESSED DATE STRING: "${processedDateStr}"`);
+      return processedDateStr;
+    }
+
+  } catch (error) {
+    transformLogger.error(`💥 ERROR parsing Lanes Bristol date "${dateStr}":`, error);
+    return dateStr;
+  }
+}
+
+/**
+ * Parse The Croft Bristol date format like "Friday 12th September"
+ */
+function parseCroftBristolDate(dateStr: string): string {
+  try {
+    transformLogger.debug(`Parsing Croft Bristol date: "${dateStr}"`);
+
+    const result = DateTimeParser.parseDate(dateStr, undefined, {
+      format: 'bristol-standard',
+      defaultHour: 19 // Default to 7 PM for gigs
+    });
+
+    if (result.success) {
+      const isoString = result.date.toISOString();
+      transformLogger.debug(`Parsed Croft Bristol date: "${dateStr}" -> "${isoString}"`);
+      return isoString;
+    } else {
+      throw new Error(`Failed to parse: ${result.error}`);
+    }
+  } catch (error) {
+    transformLogger.error(`Error parsing Croft Bristol date "${dateStr}":`, error);
+    return new Date().toISOString(); // Fallback to today
+  }
+}
+
+/**
+ * Parse Thekla Bristol date format like "Wed.13.Aug.25"
+ */
+function parseTheklaBristolDate(dateStr: string): string {
+  try {
+    transformLogger.debug(`Parsing Thekla Bristol date: "${dateStr}"`);
+
+    const result = DateTimeParser.parseDate(dateStr, undefined, {
+      format: 'thekla',
+      defaultHour: 12 // Noon for date-only events
+    });
+
+    if (result.success) {
+      const isoString = result.date.toISOString();
+      transformLogger.debug(`Parsed Thekla Bristol date "${dateStr}" to "${isoString}"`);
+      return isoString;
+    } else {
+      // Try fallback parsing
+      transformLogger.warn(`Could not parse Thekla Bristol date format: "${dateStr}", attempting fallback`);
+      const fallbackDate = new Date(dateStr);
+      if (!isNaN(fallbackDate.getTime())) {
+        return fallbackDate.toISOString();
+      }
+
+      transformLogger.error(`Failed to parse Thekla Bristol date: "${dateStr}"`);
+      return dateStr;
+    }
+
+  } catch (error) {
+    transformLogger.error(`Error parsing Thekla Bristol date "${dateStr}":`, error);
+    return dateStr;
+  }
+}
+
+/**
+ * Parse The Fleece Bristol date format like "Tuesday 12 Aug 2025" combined with doors time like "Doors: 07:00"
+ */
+function parseFleeceBristolDateTime(dateStr: string, params?: Record<string, any>): string {
+  try {
+    transformLogger.debug(`Parsing Fleece Bristol date: "${dateStr}"`);
+
+    const timeStr = params?.doorsTime;
+    const result = DateTimeParser.parseDate(dateStr, timeStr, {
+      format: 'fleece',
+      defaultHour: 12
+    });
+
+    if (result.success) {
+      const isoString = result.date.toISOString();
+      transformLogger.debug(`Parsed Fleece Bristol date "${dateStr}" with doors time to "${isoString}"`);
+      return isoString;
+    } else {
+      throw new Error(`Could not parse Fleece Bristol date format: ${result.error}`);
+    }
+
+  } catch (error) {
+    transformLogger.error(`Error parsing Fleece Bristol date "${dateStr}":`, error);
+    // Return a date far in the future to indicate parsing failure
+    return new Date('2099-12-31T23:59:59.000Z').toISOString();
+  }
+}
+
+/**
+ * Parse Strange Brew Bristol date format like "Friday 7th November\n19:00" with time included
+ */
+function parseStrangeBrewDateTime(dateStr: string): string {
+  try {
+    transformLogger.debug(`Parsing Strange Brew date: "${dateStr}"`);
+
+    const result = DateTimeParser.parseDate(dateStr, undefined, {
+      format: 'bristol-standard',
+      defaultHour: 19 // Default to 7 PM
+    });
+
+    if (result.success) {
+      const isoString = result.date.toISOString();
+      transformLogger.debug(`Parsed date: ${isoString}`);
+      return isoString;
+    } else {
+      throw new Error(`Date does not match expected pattern: ${result.error}`);
+    }
+
+  } catch (error) {
+    transformLogger.error(`Error parsing Strange Brew date "${dateStr}":`, error);
+    // Return a date far in the future to indicate parsing failure
+    return new Date('2099-12-31T23:59:59.000Z').toISOString();
+  }
+}
+
+/**
+ * Parse Louisiana Bristol date and combine with time from detail page
+ */
+function parseLouisianaBristolDateTime(dateStr: string, params: Record<string, any> | undefined, context: TransformContext): string {
+  try {
+    if (!dateStr || dateStr.trim() === '') {
+      transformLogger.warn('Empty date string for Louisiana Bristol');
+      return new Date().toISOString();
+    }
+
+    // Prefer the time from the detail page (timeField), then the listing (fallbackTimeField).
+    // Params that named item fields have already been resolved to their values when mapping.
+    const candidates = [params?.timeField, params?.fallbackTimeField]
+      .map(ref => (typeof ref === 'string' ? context.item?.[ref] ?? ref : ''))
+      .filter((time): time is string => typeof time === 'string' && time !== '');
+    const timeStr = candidates.find(time => DateTimeParser.parseTime(time).success)
+      || params?.fallbackTime
+      || '7:30pm';
+
+    transformLogger.debug(`Louisiana date: "${dateStr}", time: "${timeStr}"`);
+
+    const result = DateTimeParser.parseDate(dateStr, timeStr, {
+      format: 'bristol-standard',
+      defaultHour: 19 // Default to 7:30 PM
+    });
+
+    if (result.success) {
+      return result.date.toISOString();
+    } else {
+      transformLogger.warn(`Could not parse Louisiana date: "${dateStr}", using today`);
+      return new Date().toISOString();
+    }
+
+  } catch (error) {
+    transformLogger.error(`Error parsing Louisiana date "${dateStr}":`, error);
+    return new Date().toISOString();
+  }
+}
+
+/**
+ * Parse Electric Bristol date format (e.g., "27th August 2025")
+ */
+function parseElectricBristolDateTime(dateStr: string, params?: Record<string, any>): string {
+  try {
+    if (!dateStr || dateStr.trim() === '') {
+      transformLogger.warn('Empty date string for Electric Bristol');
+      return new Date().toISOString();
+    }
+
+    const trimmed = dateStr.trim();
+
+    // Convert dates like "27th August 2025" to "27 August 2025" by removing ordinals
+    const cleanedDate = trimmed
+      .replace(/(\d+)(st|nd|rd|th)\s+/g, '$1 ')
+      .trim();
+
+    transformLogger.debug(`Electric Bristol: "${dateStr}" -> "${cleanedDate}"`);
+
+    // Parse with cleaned date
+    const result = DateTimeParser.parseDate(cleanedDate, params?.fallbackTime || '7:00pm', {
+      format: 'bristol-standard',
+      defaultHour: 19 // Default to 7:00 PM
+    });
+
+    if (result.success) {
+      return result.date.toISOString();
+    } else {
+      transformLogger.warn(`Could not parse Electric Bristol date: "${dateStr}" (cleaned: "${cleanedDate}"), using today`);
+      return new Date().toISOString();
+    }
+
+  } catch (error) {
+    transformLogger.error(`Error parsing Electric Bristol date "${dateStr}":`, error);
+    return new Date().toISOString();
+  }
+}
+
+/**
+ * Parse Rough Trade date format
+ * Handles various date formats used by Rough Trade events
+ */
+function parseRoughTradeDateTime(dateStr: string, params?: Record<string, any>): string {
+  try {
+    const timeField = params?.timeField ? params[params.timeField] : null;
+
+    // Extract just the date portion if the string contains all event data
+    // Look for pattern like "Thu, 28 Aug, 7:30 pm" or "Fri, 29 Aug, 7:00 pm"
+    const dateMatch = dateStr.match(/(\w{3},?\s*\d{1,2}\s+\w{3},?\s*(?:\d{4},?\s*)?(?:\d{1,2}:\d{2}\s*(?:am|pm))?)/i);
+    if (dateMatch) {
+      dateStr = dateMatch[1];
+    }
+
+    transformLogger.debug(`Parsing Rough Trade date: "${dateStr}", time: "${timeField}"`);
+
+    // Handle empty or null dateStr
+    if (!dateStr || dateStr.trim() === '') {
+      const fallbackDate = params?.fallbackDate || '2025-12-31T23:59:59.000Z';
+      transformLogger.warn(`Empty dateStr, using fallback: ${fallbackDate}`);
+      return fallbackDate;
+    }
+
+    const result = DateTimeParser.parseDate(dateStr, timeField, {
+      format: 'rough-trade',
+      defaultHour: 19
+    });
+
+    if (result.success) {
+      return result.date.toISOString();
+    } else {
+      throw new Error(`Date does not match expected patterns: ${result.error}`);
+    }
+
+  } catch (error) {
+    transformLogger.error(`Error parsing Rough Trade date "${dateStr}":`, error);
+    // Return a date far in the future to indicate parsing failure
+    return new Date('2099-12-31T23:59:59.000Z').toISOString();
+  }
+}
+
+/**
+ * Extract title from Rough Trade combined text
+ * The text contains title, date, price, and venue all concatenated
+ */
+function extractRoughTradeTitle(combinedText: string): string {
+  try {
+    // The title appears before the date pattern
+    // Split at the date pattern (e.g., "Thu, 28 Aug" or "Fri, 29 Aug")
+    const datePatternMatch = combinedText.match(/(\w{3},?\s*\d{1,2}\s+\w{3})/);
+    if (datePatternMatch) {
+      const dateStartIndex = combinedText.indexOf(datePatternMatch[0]);
+      const title = combinedText.substring(0, dateStartIndex).trim();
+      return title || 'Event';
+    }
+
+    // Fallback: return first part before any date-like text
+    const parts = combinedText.split(/\b(?:Mon|Tue|Wed|Thu|Fri|Sat|Sun)\b/i);
+    if (parts.length > 0) {
+      return parts[0].trim() || 'Event';
+    }
+
+    return 'Event';
+  } catch (error) {
+    transformLogger.error(`Error extracting Rough Trade title from "${combinedText}":`, error);
+    return 'Event';
+  }
+}
+
+/**
+ * Extract price from Rough Trade combined text
+ */
+function extractRoughTradePrice(combinedText: string): string {
+  try {
+    // Look for price pattern like "£15.87 - £15.87" or "£12.50 - £32.00"
+    const priceMatch = combinedText.match(/£[\d.,]+(?: - £[\d.,]+)?/);
+    if (priceMatch) {
+      return priceMatch[0];
+    }
+    return '';
+  } catch (error) {
+    transformLogger.error(`Error extracting Rough Trade price from "${combinedText}":`, error);
+    return '';
+  }
+}
+
+/**
+ * Map Rough Trade venue text to appropriate city
+ * Returns "Bristol" for Rough Trade Bristol events, otherwise extracts city from venue text
+ */
+function mapRoughTradeCity(venueText: string): string {
+  if (!venueText) return 'Bristol'; // Default to Bristol
+
+  const lowerVenue = venueText.toLowerCase();
+
+  // City mapping registry for easier maintenance
+  const cityMappings = [
+    { keywords: ['bristol', 'rough trade bristol'], city: 'Bristol' },
+    { keywords: ['nottingham'], city: 'Nottingham' },
+    { keywords: ['london', 'east'], city: 'London' },
+    { keywords: ['manchester'], city: 'Manchester' }
+  ];
+
+  for (const mapping of cityMappings) {
+    if (mapping.keywords.some(keyword => lowerVenue.includes(keyword))) {
+      return mapping.city;
+    }
+  }
+
+  // Default to Bristol if no other city detected
+  return 'Bristol';
+}
+
+/**
+ * Create a registry populated with the built-in transforms
+ */
+export function createDefaultTransformRegistry(): TransformRegistry {
+  return new TransformRegistry()
+    // Basic string transforms
+    .register({ name: 'trim', handler: (val) => val.trim() })
+    .register({ name: 'lowercase', handler: (val) => val.toLowerCase() })
+    .register({ name: 'uppercase', handler: (val) => val.toUpperCase() })
+    .register({
+      name: 'slug',
+      handler: (val) => val.toLowerCase().replace(/[^a-z0-9]/g, '-').replace(/-+/g, '-').trim()
+    })
+
+    // Date/time transforms
+    .register({
+      name: 'date',
+      produces: 'date',
+      handler: (val) => {
+        const result = DateTimeParser.parseDate(val);
+        return result.success ? result.date.toISOString() : new Date(val).toISOString();
+      }
+    })
+    .register({
+      name: 'date-format',
+      description: 'Parse a date with a declarative format string, default time and year inference rule',
+      paramsSchema: DateFormatParamsSchema,
+      produces: 'date',
+      handler: (val, params) => parseDateWithFormat(val, params)
+    })
+    .register({
+      name: 'time-range-start',
+      handler: (val) => {
+        const match = val.match(/^(\d{1,2}:\d{2})/);
+        return match ? match[1] : val;
+      }
+    })
+    .register({
+      name: 'time-range-end',
+      handler: (val) => {
+        const match = val.match(/(\d{1,2}:\d{2})$/);
+        return match ? match[1] : val;
+      }
+    })
+
+    // URL transforms
+    .register({ name: 'url', produces: 'url', handler: (val, _params, context) => transformUrl(val, context.baseUrl) })
+    .register({
+      name: 'louisiana-url',
+      produces: 'url',
+      handler: (val, _params, context) => transformUrl(val, context.baseUrl || 'https://www.thelouisiana.net')
+    })
+
+    // Regex-based transforms
+    .register({
+      name: 'extract-text',
+      paramsSchema: PatternParamsSchema,
+      handler: (val, params) => {
+        if (params?.pattern) {
+          const match = val.match(new RegExp(params.pattern, params.flags || 'i'));
+          return match ? (match[1] || match[0]) : val;
+        }
+        return val;
+      }
+    })
+    .register({
+      name: 'regex',
+      paramsSchema: PatternParamsSchema,
+      handler: (val, params) => {
+        if (params?.pattern) {
+          const regex = new RegExp(params.pattern, params.flags || 'g');
+          return val.replace(regex, params.replacement || '');
+        }
+        return val;
+      }
+    })
+
+    // Venue-specific transforms
+    .register({
+      name: 'exchange-venue-name',
+      handler: (val) => {
+        const trimmed = val.trim();
+        if (!trimmed || trimmed.toLowerCase().includes('exchange')) {
+          return 'Exchange';
+        }
+        return `Exchange, ${trimmed}`;
+      }
+    })
+    .register({ name: 'static-louisiana-name', handler: () => 'The Louisiana Bristol' })
+    .register({
+      name: 'bristol-exchange-datetime',
+      produces: 'date',
+      handler: (val, params) => ExchangeBristolDateParser.parseDateTime(val, params)
+    })
+    .register({ name: 'parse-date-group', produces: 'date', handler: (val) => ExchangeBristolDateParser.parseDateGroup(val) })
+    .register({ name: 'lanes-bristol-date', produces: 'date', handler: (val) => parseLanesBristolDate(val) })
+    .register({ name: 'croft-bristol-date', produces: 'date', handler: (val) => parseCroftBristolDate(val) })
+    .register({ name: 'strange-brew-datetime', produces: 'date', handler: (val) => parseStrangeBrewDateTime(val) })
+    .register({ name: 'thekla-bristol-date', produces: 'date', handler: (val) => parseTheklaBristolDate(val) })
+    .register({ name: 'fleece-bristol-datetime', produces: 'date', handler: (val, params) => parseFleeceBristolDateTime(val, params) })
+    .register({ name: 'louisiana-bristol-datetime', produces: 'date', handler: parseLouisianaBristolDateTime })
+    .register({ name: 'electric-bristol-datetime', produces: 'date', handler: (val, params) => parseElectricBristolDateTime(val, params) })
+    .register({ name: 'rough-trade-datetime', produces: 'date', handler: (val, params) => parseRoughTradeDateTime(val, params) })
+    .register({ name: 'rough-trade-city-mapper', handler: (val) => mapRoughTradeCity(val) })
+    .register({ name: 'rough-trade-title', handler: (val) => extractRoughTradeTitle(val) })
+    .register({ name: 'rough-trade-price', handler: (val) => extractRoughTradePrice(val) });
+}
+
+/**
+ * Shared registry used by config validation and ConfigDrivenScraper.
+ * Register additional transforms here once and reference them by name from JSON configs.
+ */
+export const transformRegistry = createDefaultTransformRegistry();
@@ -0,0 +1,82 @@
+import type { IngestorConfig, ScraperPluginMeta, ScraperRunStats, SourceHealth } from "@gigateer/contracts";
+import { median } from "./anomaly-detector.js";
+import type { SourceHealthDocument } from "./database/index.js";
+
+export const DEFAULT_FRESHNESS_SLA_HOURS = 24;
+
+// Gig counts kept per source for the trend, and how far the latest may drift from the median before it counts
+const RECENT_COUNTS = 10;
+const MIN_TREND_COUNTS = 3;
+const TREND_TOLERANCE = 0.2;
+
+/**
+ * A source's freshness SLA: its own declaration, then the ingestor-wide setting
+ */
+export function freshnessSlaFor(meta: ScraperPluginMeta, config: IngestorConfig): number {
+  return meta.schedule?.freshnessSlaHours ?? config.freshnessSlaHours ?? DEFAULT_FRESHNESS_SLA_HOURS;
+}
+
+/**
+ * Compares the latest gig count with the median of the ones before it
+ */
+export function countTrend(counts: Array<{ count: number }>): SourceHealth["countTrend"] {
+  if (counts.length < MIN_TREND_COUNTS) {
+    return "unknown";
+  }
+
+  const [latest, ...earlier] = counts.map(entry => entry.count);
+  const baseline = median(earlier);
+  if (latest < baseline * (1 - TREND_TOLERANCE)) return "falling";
+  if (latest > baseline * (1 + TREND_TOLERANCE)) return "rising";
+  return "steady";
+}
+
+/**
+ * Folds a finished run into a source's health record. Only full successful runs add to the
+ * gig count history, since unchanged runs skip counting and failed runs have nothing to count.
+ */
+export function nextSourceHealth(
+  previous: SourceHealthDocument | null,
+  run: ScraperRunStats,
+  freshnessSlaHours: number,
+  now: Date = new Date()
+): Omit<SourceHealthDocument, "_id"> {
+  const base: SourceHealthDocument = previous ?? {
+    source: run.source,
+    configured: true,
+    freshnessSlaHours,
+    consecutiveFailures: 0,
+    recentCounts: [],
+    countTrend: "unknown",
+    updatedAt: now,
+  };
+  const at = new Date(run.startTime);
+
+  if (!run.success) {
+    return {
+      ...base,
+      freshnessSlaHours,
+      lastRunAt: at,
+      lastFailureAt: at,
+      lastError: run.errors?.join("; ") || "Run failed",
+      lastErrorClass: run.errorClass,
+      consecutiveFailures: base.consecutiveFailures + 1,
+      updatedAt: now,
+    };
+  }
+
+  const recentCounts = run.unchanged
+    ? base.recentCounts
+    : [{ at, count: run.normalizedCount }, ...base.recentCounts].slice(0, RECENT_COUNTS);
+
+  return {
+    ...base,
+    freshnessSlaHours,
+    lastRunAt: at,
+    lastSuccessAt: at,
+    consecutiveFailures: 0,
+    recentCounts,
+    countTrend: countTrend(recentCounts),
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,109 @@
+import type { ActiveWindow, IngestorConfig, RetryPolicy, ScraperPluginMeta } from "@gigateer/contracts";
+import type { ScheduleConfig } from "./scheduler.js";
+
+export const DEFAULT_TIMEZONE = "UTC";
+export const DEFAULT_TRUST_SCORE = 80;
+const DEFAULT_RETRY: RetryPolicy = { attempts: 2, backoffMs: 60_000 };
+
+/**
+ * Where a resolved setting came from: an environment override, the source's own
+ * declaration (its scraper config or plugin), or the ingestor's defaults
+ */
+export type SettingOrigin = "env" | "source" | "default";
+
+/**
+ * A source's scheduling settings after environment overrides and defaults are applied
+ */
+export interface SourceSettings {
+  schedule: string;
+  timezone: string;
+  enabled: boolean;
+  activeWindows: ActiveWindow[];
+  retry: RetryPolicy;
+  trustScore: number;
+  rateLimitPerMin: number;
+  origins: Record<"schedule" | "timezone" | "enabled" | "trustScore" | "rateLimitPerMin", SettingOrigin>;
+}
+
+/**
+ * Merges a source's declared settings with the environment. Precedence, highest first:
+ * `INGESTOR_SOURCE_<NAME>_*` overrides, then INGESTOR_ENABLED_SOURCES / INGESTOR_DISABLED_SOURCES
+ * (for the enabled flag), then the source's declaration, then the ingestor's defaults.
+ */
+export function resolveSourceSettings(
+  source: string,
+  meta: ScraperPluginMeta,
+  ingestorConfig: IngestorConfig,
+  scheduleConfig: ScheduleConfig
+): SourceSettings {
+  const override = ingestorConfig.sources?.[source] ?? {};
+  const declared = meta.schedule ?? {};
+
+  const schedule = pick(override.schedule, meta.defaultSchedule, scheduleConfig.defaultSchedule);
+  const timezone = pick(override.timezone, declared.timezone, DEFAULT_TIMEZONE);
+  const enabled = pick(override.enabled ?? listedAsEnabled(source, scheduleConfig), declared.enabled, true);
+  const trustScore = pick(override.trustScore, meta.trustScore, DEFAULT_TRUST_SCORE);
+  const rateLimitPerMin = pick(override.rateLimitPerMin, meta.rateLimitPerMin, ingestorConfig.defaultRateLimitPerMin);
+
+  return {
+    schedule: schedule.value,
+    timezone: timezone.value,
+    enabled: enabled.value,
+    activeWindows: declared.activeWindows ?? [],
+    retry: { ...DEFAULT_RETRY, ...declared.retry },
+    trustScore: trustScore.value,
+    rateLimitPerMin: rateLimitPerMin.value,
+    origins: {
+      schedule: schedule.origin,
+      timezone: timezone.origin,
+      enabled: enabled.origin,
+      trustScore: trustScore.origin,
+      rateLimitPerMin: rateLimitPerMin.origin,
+    },
+  };
+}
+
+/**
+ * A source's trust score on its own, for merging its gigs with other sources' outside the
+ * scheduler. Undefined when neither the environment nor the source sets one, so the trust
+ * policy's score for the source applies instead of the default.
+ */
+export function trustScoreFor(source: string, meta: ScraperPluginMeta, ingestorConfig: IngestorConfig): number | undefined {
+  return ingestorConfig.sources?.[source]?.trustScore ?? meta.trustScore;
+}
+
+/**
+ * Whether scheduled runs may happen on this date: always when the source has no active
+ * windows, otherwise only when the date, in the source's timezone, falls inside one
+ */
+export function isActiveOn(settings: SourceSettings, date: Date): boolean {
+  if (settings.activeWindows.length === 0) {
+    return true;
+  }
+
+  // en-CA formats dates as YYYY-MM-DD, which compare correctly as strings
+  const day = new Intl.DateTimeFormat("en-CA", {
+    timeZone: settings.timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+
+  return settings.activeWindows.some(window => window.start <= day && day <= window.end);
+}
+
+/**
+ * Whether the environment's source lists decide if a source is enabled, or undefined when they don't mention it
+ */
+function listedAsEnabled(source: string, { enabledSources, disabledSources }: ScheduleConfig): boolean | undefined {
+  if (enabledSources && enabledSources.length > 0) {
+    return enabledSources.includes(source);
+  }
+  return disabledSources?.includes(source) ? false : undefined;
+}
+
+function pick<T>(env: T | undefined, declared: T | undefined, fallback: T): { value: T; origin: SettingOrigin } {
+  if (env !== undefined) return { value: env, origin: "env" };
+  if (declared !== undefined) return { value: declared, origin: "source" };
+  return { value: fallback, origin: "default" };
+}